@@ -0,0 +1,31 @@
+// app/api/auth/login/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse, readJsonBody } from '@/lib/apiErrors';
+import { getSessionState } from '@/lib/accounts';
+import { createSessionCookie, getAuthProvider } from '@/lib/auth';
+import { authRateLimiter, enforceRateLimit } from '@/lib/rateLimit';
+
+/**
+ * Sign in with a username and password
+ */
+export async function POST(req: Request) {
+  // Slow down password guessing
+  const { headers: limitHeaders, limited } = enforceRateLimit(req, authRateLimiter);
+  if (limited) return limited;
+  const headers: Record<string, string> = { ...limitHeaders, 'Cache-Control': 'no-store' };
+
+  try {
+    const body = await readJsonBody(req);
+    const username = typeof body.username === 'string' ? body.username : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    const user = await getAuthProvider().signIn(username, password);
+    if (!user) throw new ApiError('UNAUTHORIZED', 'Wrong username or password', { status: 401 });
+
+    headers['Set-Cookie'] = createSessionCookie(user.id);
+    return NextResponse.json(await getSessionState(user), { headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
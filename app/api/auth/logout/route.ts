@@ -0,0 +1,14 @@
+// app/api/auth/logout/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { getSessionState } from '@/lib/accounts';
+import { clearSessionCookie } from '@/lib/auth';
+
+/**
+ * Sign out
+ */
+export async function POST() {
+  return NextResponse.json(await getSessionState(null), {
+    headers: { 'Cache-Control': 'no-store', 'Set-Cookie': clearSessionCookie() },
+  });
+}
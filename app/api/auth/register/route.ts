@@ -0,0 +1,33 @@
+// app/api/auth/register/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse, readJsonBody } from '@/lib/apiErrors';
+import { getSessionState } from '@/lib/accounts';
+import { createSessionCookie, getAuthProvider } from '@/lib/auth';
+import { authRateLimiter, enforceRateLimit } from '@/lib/rateLimit';
+
+/**
+ * Create an account and sign in with it
+ */
+export async function POST(req: Request) {
+  const { headers: limitHeaders, limited } = enforceRateLimit(req, authRateLimiter);
+  if (limited) return limited;
+  const headers: Record<string, string> = { ...limitHeaders, 'Cache-Control': 'no-store' };
+
+  try {
+    const provider = getAuthProvider();
+    if (!provider.canRegister) {
+      throw new ApiError('FORBIDDEN', 'Accounts cannot be created here', { status: 403 });
+    }
+
+    const body = await readJsonBody(req);
+    const username = typeof body.username === 'string' ? body.username : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+    const user = await provider.register(username, password);
+
+    headers['Set-Cookie'] = createSessionCookie(user.id);
+    return NextResponse.json(await getSessionState(user), { status: 201, headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
@@ -0,0 +1,21 @@
+// app/api/auth/session/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/apiErrors';
+import { getCurrentUser, getSessionState } from '@/lib/accounts';
+import { getAuthProvider } from '@/lib/auth';
+
+/**
+ * Get the signed-in user and their workspaces
+ */
+export async function GET(req: Request) {
+  const headers = { 'Cache-Control': 'no-store' };
+
+  try {
+    // Fails with NOT_FOUND when accounts are disabled
+    getAuthProvider();
+    return NextResponse.json(await getSessionState(await getCurrentUser(req)), { headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
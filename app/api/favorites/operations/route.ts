@@ -0,0 +1,48 @@
+// app/api/favorites/operations/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse, readJsonBody } from '@/lib/apiErrors';
+import { applyFavoritesOperations, getFavoritesOwner } from '@/lib/favoritesService';
+import { readOperation, type FavoritesOperation } from '@/lib/favoritesOperations';
+
+// Upper bound on operations per request; clients send larger queues in batches
+const MAX_OPERATIONS = 200;
+
+/**
+ * Read and validate the request body
+ */
+async function readOperations(req: Request): Promise<FavoritesOperation[]> {
+  const body = await readJsonBody(req);
+
+  if (!Array.isArray(body.operations)) {
+    throw new ApiError('INVALID_REQUEST', '"operations" must be a list', { status: 400 });
+  }
+  if (body.operations.length > MAX_OPERATIONS) {
+    throw new ApiError('INVALID_REQUEST', `At most ${MAX_OPERATIONS} operations can be sent at once`, { status: 400 });
+  }
+
+  return body.operations.map((operation, index) => {
+    try {
+      return readOperation(operation);
+    } catch (error) {
+      throw new ApiError('INVALID_REQUEST', `Operation ${index + 1}: ${(error as Error).message}`, { status: 400 });
+    }
+  });
+}
+
+/**
+ * Apply favorites operations; changing a workspace's favorites needs the
+ * editor role
+ */
+export async function POST(req: Request) {
+  const headers: Record<string, string> = { 'Cache-Control': 'no-store' };
+
+  try {
+    const { ownerId, setCookie, actor } = await getFavoritesOwner(req, 'editor');
+    if (setCookie) headers['Set-Cookie'] = setCookie;
+    const operations = await readOperations(req);
+    return NextResponse.json(await applyFavoritesOperations(ownerId, operations, actor), { headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
@@ -0,0 +1,21 @@
+// app/api/favorites/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/apiErrors';
+import { getFavorites, getFavoritesOwner } from '@/lib/favoritesService';
+
+/**
+ * Get the favorites of this browser, the signed-in user, or the
+ * workspace named by ?workspace=<id>
+ */
+export async function GET(req: Request) {
+  const headers: Record<string, string> = { 'Cache-Control': 'no-store' };
+
+  try {
+    const { ownerId, setCookie } = await getFavoritesOwner(req, 'viewer');
+    if (setCookie) headers['Set-Cookie'] = setCookie;
+    return NextResponse.json(await getFavorites(ownerId), { headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
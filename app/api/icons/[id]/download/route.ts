@@ -0,0 +1,62 @@
+// app/api/icons/[id]/download/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { enforceRateLimit } from '@/lib/rateLimit';
+import { ApiError, errorResponse } from '@/lib/apiErrors';
+import { getIconDetails } from '@/lib/iconDetails';
+import { getDefaultDownload, getDownloadFilename } from '@/lib/icons';
+import { getIconProvider } from '@/lib/providers';
+
+/**
+ * Download an icon file through the server
+ *
+ * Query parameters:
+ * - format: file format such as "svg" or "png" (defaults to SVG when
+ *   available, otherwise the largest raster size)
+ * - size: pixel size for raster formats
+ *
+ * The upstream request is made here so the API key never reaches the browser.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { searchParams } = new URL(req.url);
+
+  // Limit how fast a single client can call the route
+  const { headers: limitHeaders, limited } = enforceRateLimit(req);
+  if (limited) return limited;
+
+  const requestedFormat = searchParams.get('format')?.toLowerCase() || null;
+  const requestedSize = searchParams.get('size') ? Number.parseInt(searchParams.get('size')!, 10) : undefined;
+
+  try {
+    if (requestedFormat !== null && !/^[a-z0-9]+$/.test(requestedFormat)) {
+      throw new ApiError('INVALID_REQUEST', 'Invalid download format', { status: 400 });
+    }
+    if (requestedSize !== undefined && !(Number.isFinite(requestedSize) && requestedSize > 0)) {
+      throw new ApiError('INVALID_REQUEST', 'Invalid download size', { status: 400 });
+    }
+
+    const { icon } = (await getIconDetails(id)).value;
+    const target = requestedFormat
+      ? { format: requestedFormat, size: requestedSize }
+      : getDefaultDownload(icon);
+    if (!target) {
+      throw new ApiError('NOT_FOUND', 'This icon has no downloadable files', { status: 404 });
+    }
+
+    const file = await getIconProvider().download(icon, target);
+    const filename = getDownloadFilename(icon.name, file.format, file.size);
+
+    return new NextResponse(file.body, {
+      headers: {
+        ...limitHeaders,
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        'Content-Length': String(file.body.byteLength),
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, limitHeaders);
+  }
+}
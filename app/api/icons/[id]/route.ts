@@ -0,0 +1,25 @@
+// app/api/icons/[id]/route.ts
+"use server"
+import { cachedJsonResponse, iconDetailCache } from '@/lib/cache';
+import { enforceRateLimit } from '@/lib/rateLimit';
+import { errorResponse } from '@/lib/apiErrors';
+import { getIconDetails } from '@/lib/iconDetails';
+
+/**
+ * Get a single icon with all its sizes, formats and metadata,
+ * plus other icons from the same set
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  // Limit how fast a single client can call the route
+  const { headers: limitHeaders, limited } = enforceRateLimit(req);
+  if (limited) return limited;
+
+  try {
+    const result = await getIconDetails(id);
+    return cachedJsonResponse(req, result, iconDetailCache.options, limitHeaders);
+  } catch (error) {
+    return errorResponse(error, limitHeaders);
+  }
+}
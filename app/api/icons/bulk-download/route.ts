@@ -0,0 +1,169 @@
+// app/api/icons/bulk-download/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { clientRateLimiter, enforceRateLimit } from '@/lib/rateLimit';
+import { ApiError, errorResponse, readJsonBody, toApiError } from '@/lib/apiErrors';
+import { getDownloadFilename } from '@/lib/icons';
+import { getIconProvider } from '@/lib/providers';
+import { createZip, type ZipEntry } from '@/lib/zip';
+import type { BulkDownloadRequest, IconData } from '@/types';
+
+// Upper bound on icons per archive, to keep upstream usage in check; each
+// icon costs a rate-limit token, so it never exceeds the client limit
+const MAX_ICONS = Math.min(50, clientRateLimiter.limit);
+
+// Icons fetched from the provider at the same time
+const CONCURRENCY = 4;
+
+interface ManifestEntry {
+  id: string;
+  name: string;
+  file: string;
+  format: string;
+  size: number | null;
+  author: string | null;
+  iconset: string | null;
+  license: { name: string; url: string | null } | null;
+  premium: boolean;
+}
+
+/**
+ * Choose what to download for an icon
+ * Uses the requested format when available. Raster sizes use the smallest
+ * size at least as large as requested, or the largest available one.
+ */
+function pickDownload(icon: IconData, format: string, size?: number): { format: string; size?: number } | null {
+  if (icon.vectorFormats.some(candidate => candidate.format === format)) return { format };
+
+  const hasRasterFormat = icon.rasterSizes.some(candidate => candidate.formats.some(f => f.format === format));
+  const rasterFormat = hasRasterFormat ? format : 'png';
+  const sizes = icon.rasterSizes.filter(candidate => candidate.formats.some(f => f.format === rasterFormat));
+  const raster = sizes.find(candidate => !size || candidate.size >= size) ?? sizes[sizes.length - 1];
+  if (raster) return { format: rasterFormat, size: raster.size };
+
+  // Fall back to any vector format, e.g. SVG for an icon without PNGs
+  const vector = icon.vectorFormats[0];
+  return vector ? { format: vector.format } : null;
+}
+
+/**
+ * Read and validate the request body
+ */
+async function readRequest(req: Request): Promise<BulkDownloadRequest> {
+  const body = await readJsonBody(req);
+
+  const ids = Array.isArray(body.ids)
+    ? [...new Set(body.ids.filter((id): id is string => typeof id === 'string' && id !== ''))]
+    : [];
+  if (ids.length === 0) {
+    throw new ApiError('INVALID_REQUEST', 'Select at least one icon', { status: 400 });
+  }
+  if (ids.length > MAX_ICONS) {
+    throw new ApiError('INVALID_REQUEST', `At most ${MAX_ICONS} icons can be downloaded at once`, { status: 400 });
+  }
+  if (typeof body.format !== 'string' || !/^[a-z0-9]+$/.test(body.format)) {
+    throw new ApiError('INVALID_REQUEST', 'Invalid download format', { status: 400 });
+  }
+  if (body.size !== undefined && !(typeof body.size === 'number' && Number.isInteger(body.size) && body.size > 0)) {
+    throw new ApiError('INVALID_REQUEST', 'Invalid download size', { status: 400 });
+  }
+
+  return { ids, format: body.format, size: body.size };
+}
+
+/**
+ * Build a ZIP archive of several icons plus a manifest.json listing their
+ * names, ids and licenses
+ */
+export async function POST(req: Request) {
+  let request: BulkDownloadRequest;
+  try {
+    request = await readRequest(req);
+  } catch (error) {
+    // Invalid requests still count against the limit
+    const { headers, limited } = enforceRateLimit(req);
+    return limited ?? errorResponse(error, headers);
+  }
+
+  // Every icon means upstream requests, so each one is charged to the client
+  const { ids, format, size } = request;
+  const { headers: limitHeaders, limited } = enforceRateLimit(req, clientRateLimiter, ids.length);
+  if (limited) return limited;
+
+  try {
+    const provider = getIconProvider();
+
+    const entries: ZipEntry[] = [];
+    const manifest: ManifestEntry[] = [];
+    const skipped: { id: string; reason: string }[] = [];
+    const usedNames = new Set<string>();
+
+    /**
+     * Download one icon into the archive, recording failures as skipped
+     */
+    const addIcon = async (id: string) => {
+      try {
+        // Only the icon itself is needed, not the related icons of its details
+        const icon = await provider.getIcon(id);
+        if (!icon) throw new ApiError('NOT_FOUND', 'Icon not found', { status: 404 });
+        const target = pickDownload(icon, format, size);
+        if (!target) throw new ApiError('NOT_FOUND', 'No downloadable files', { status: 404 });
+
+        const file = await provider.download(icon, target);
+        let filename = getDownloadFilename(icon.name, file.format, file.size);
+        // Different icons can share a name; keep every file
+        if (usedNames.has(filename)) filename = getDownloadFilename(`${icon.name}-${icon.id}`, file.format, file.size);
+        usedNames.add(filename);
+
+        entries.push({ name: `icons/${filename}`, data: new Uint8Array(file.body) });
+        manifest.push({
+          id: icon.id,
+          name: icon.name,
+          file: `icons/${filename}`,
+          format: file.format,
+          size: file.size,
+          author: icon.author?.name ?? null,
+          iconset: icon.iconset?.name ?? null,
+          license: icon.license ? { name: icon.license.name, url: icon.license.url } : null,
+          premium: icon.isPremium,
+        });
+      } catch (error) {
+        skipped.push({ id, reason: toApiError(error).message });
+      }
+    };
+
+    // Download in small batches to avoid flooding the provider
+    for (let i = 0; i < ids.length; i += CONCURRENCY) {
+      await Promise.all(ids.slice(i, i + CONCURRENCY).map(addIcon));
+    }
+
+    // Keep the manifest in the order the icons were selected
+    manifest.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+
+    if (entries.length === 0) {
+      throw new ApiError('NOT_FOUND', 'None of the selected icons could be downloaded', { status: 404 });
+    }
+
+    const manifestJson = JSON.stringify(
+      { generatedAt: new Date().toISOString(), format, size: size ?? null, icons: manifest, skipped },
+      null,
+      2
+    );
+    entries.push({ name: 'manifest.json', data: new TextEncoder().encode(manifestJson) });
+
+    const archive = createZip(entries);
+    const filename = `iconvault-${entries.length - 1}-icons.zip`;
+
+    return new NextResponse(archive, {
+      headers: {
+        ...limitHeaders,
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': String(archive.byteLength),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, limitHeaders);
+  }
+}
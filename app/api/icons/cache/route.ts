@@ -0,0 +1,20 @@
+// app/api/icons/cache/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { iconSearchCache } from '@/lib/cache';
+
+/**
+ * Report hit/miss counters of the icon search cache
+ */
+export async function GET() {
+  const stats = iconSearchCache.stats();
+  const lookups = stats.hits + stats.staleHits + stats.misses;
+
+  return NextResponse.json(
+    {
+      ...stats,
+      hitRate: lookups > 0 ? (stats.hits + stats.staleHits) / lookups : 0,
+    },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
@@ -1,29 +1,61 @@
 // app/api/icons/route.ts
 "use server"
-import { NextResponse } from 'next/server';
+import { parseSearchFilters } from '@/lib/searchFilters';
+import { cachedJsonResponse, iconSearchCache } from '@/lib/cache';
+import { searchParsedQuery } from '@/lib/iconSearch';
+import { parseSearchQuery, toUpstreamSearch } from '@/lib/searchQuery';
+import { enforceRateLimit } from '@/lib/rateLimit';
+import { ApiError, errorResponse } from '@/lib/apiErrors';
+
+// Iconfinder caps a single search page at 100 results
+const DEFAULT_PAGE_SIZE = 48;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parse a non-negative integer query parameter, falling back when it is
+ * missing or not a number.
+ */
+function parseIntParam(value: string | null, fallback: number): number {
+  if (value === null) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
 
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
   const query = searchParams.get('q');
+  const count = Math.min(Math.max(parseIntParam(searchParams.get('count'), DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const offset = parseIntParam(searchParams.get('offset'), 0);
+  const filters = parseSearchFilters(searchParams);
 
-  const API_KEY = process.env.ICONFINDER_API_KEY;
-//   console.log("Query:", query);
-//   console.log("API_KEY:", API_KEY);
+  // Limit how fast a single client can call the route
+  const { headers: limitHeaders, limited } = enforceRateLimit(req);
+  if (limited) return limited;
 
-  if (!query || !API_KEY) {
-    return NextResponse.json({ error: 'Missing query or API key' }, { status: 400 });
+  if (!query?.trim()) {
+    return errorResponse(
+      new ApiError('MISSING_QUERY', 'Enter a search term to find icons', { status: 400 }),
+      limitHeaders
+    );
   }
 
-  const res = await fetch(`https://api.iconfinder.com/v4/icons/search?query=${query}`, {
-    headers: {
-      Authorization: `Bearer ${API_KEY}`,
-    },
-  });
+  // Qualifiers alone give Iconfinder nothing to search for
+  const parsed = parseSearchQuery(query);
+  if (!toUpstreamSearch(parsed, filters).text) {
+    return errorResponse(
+      new ApiError('MISSING_QUERY', 'Add a word to search for next to the qualifiers', { status: 400 }),
+      limitHeaders
+    );
+  }
 
-  if (!res.ok) {
-    return NextResponse.json({ error: 'Failed to fetch icons' }, { status: res.status });
+  // Parts of the query that cannot be understood are ignored; the search page shows them
+  let result;
+  try {
+    result = await searchParsedQuery(parsed, { count, offset, filters });
+  } catch (error) {
+    return errorResponse(error, limitHeaders);
   }
 
-  const data = await res.json();
-  return NextResponse.json(data);
+  // Let browsers revalidate with If-None-Match instead of downloading the page again
+  return cachedJsonResponse(req, result, iconSearchCache.options, limitHeaders);
 }
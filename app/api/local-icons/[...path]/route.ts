@@ -0,0 +1,31 @@
+// app/api/local-icons/[...path]/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/apiErrors';
+import { getIconProvider, LocalProvider } from '@/lib/providers';
+
+/**
+ * Serve a file from the local icon directory
+ * Only available when the local provider is configured.
+ */
+export async function GET(_req: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params;
+
+  try {
+    const provider = getIconProvider();
+    if (!(provider instanceof LocalProvider)) {
+      throw new ApiError('NOT_FOUND', 'Not found', { status: 404 });
+    }
+
+    const relativePath = path.join('/');
+    const body = await provider.readFile(relativePath);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': provider.getContentType(relativePath),
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
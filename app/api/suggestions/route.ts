@@ -0,0 +1,51 @@
+// app/api/suggestions/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { iconSearchCache } from '@/lib/cache';
+import { searchIcons } from '@/lib/iconSearch';
+import { enforceRateLimit, suggestionRateLimiter, upstreamQuota } from '@/lib/rateLimit';
+import { DEFAULT_FILTERS } from '@/lib/searchFilters';
+import {
+  MAX_PREVIEWS,
+  MAX_SUGGESTION_INPUT_LENGTH,
+  suggestQueries,
+  toIconPreview,
+} from '@/lib/searchSuggestions';
+import type { IconPreview, SearchSuggestionsResponse } from '@/types';
+
+/**
+ * Suggest completions for a partly typed search query
+ * The best suggestion gets previews from a small search when recent
+ * results have none for it. That search counts against the client's
+ * /api/icons limit, since the looser suggestion limit would otherwise let
+ * typing reach Iconfinder more often than searching, and is skipped while
+ * the upstream quota is low.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const input = searchParams.get('q') ?? '';
+
+  // Typing sends many requests, so suggestions have their own, looser limit
+  const { headers: limitHeaders, limited } = enforceRateLimit(req, suggestionRateLimiter);
+  if (limited) return limited;
+
+  const suggestions = input.trim() && input.length <= MAX_SUGGESTION_INPUT_LENGTH
+    ? suggestQueries(input, iconSearchCache.values())
+    : [];
+
+  const [top] = suggestions;
+  if (top && top.previews.length === 0 && upstreamQuota.backoffSeconds() === 0 && !enforceRateLimit(req).limited) {
+    // Previews are a nice-to-have; suggestions are still returned without them
+    try {
+      const { value } = await searchIcons({ query: top.query, count: MAX_PREVIEWS, offset: 0, filters: DEFAULT_FILTERS });
+      top.previews = value.icons.map(toIconPreview).filter((preview): preview is IconPreview => preview !== null);
+    } catch (error) {
+      console.error('Error loading suggestion previews:', error);
+    }
+  }
+
+  const body: SearchSuggestionsResponse = { suggestions };
+  return NextResponse.json(body, {
+    headers: { ...limitHeaders, 'Cache-Control': 'private, max-age=60' },
+  });
+}
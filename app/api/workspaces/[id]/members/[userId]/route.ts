@@ -0,0 +1,40 @@
+// app/api/workspaces/[id]/members/[userId]/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { errorResponse, readJsonBody } from '@/lib/apiErrors';
+import { getSessionState, removeWorkspaceMember, requireUser, updateWorkspaceMember } from '@/lib/accounts';
+
+type Params = { params: Promise<{ id: string; userId: string }> };
+
+/**
+ * Change a member's role; owners only
+ */
+export async function PATCH(req: Request, { params }: Params) {
+  const { id, userId } = await params;
+  const headers = { 'Cache-Control': 'no-store' };
+
+  try {
+    const user = await requireUser(req);
+    const body = await readJsonBody(req);
+    await updateWorkspaceMember(user.id, id, userId, body.role);
+    return NextResponse.json(await getSessionState(user), { headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
+
+/**
+ * Remove a member; owners can remove anyone, members can leave
+ */
+export async function DELETE(req: Request, { params }: Params) {
+  const { id, userId } = await params;
+  const headers = { 'Cache-Control': 'no-store' };
+
+  try {
+    const user = await requireUser(req);
+    await removeWorkspaceMember(user.id, id, userId);
+    return NextResponse.json(await getSessionState(user), { headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
@@ -0,0 +1,22 @@
+// app/api/workspaces/[id]/members/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { errorResponse, readJsonBody } from '@/lib/apiErrors';
+import { addWorkspaceMember, getSessionState, requireUser } from '@/lib/accounts';
+
+/**
+ * Add a member by username with a role; owners only
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const headers = { 'Cache-Control': 'no-store' };
+
+  try {
+    const user = await requireUser(req);
+    const body = await readJsonBody(req);
+    await addWorkspaceMember(user.id, id, body.username, body.role);
+    return NextResponse.json(await getSessionState(user), { headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
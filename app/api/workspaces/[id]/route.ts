@@ -0,0 +1,41 @@
+// app/api/workspaces/[id]/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { errorResponse, readJsonBody } from '@/lib/apiErrors';
+import { deleteWorkspace, getSessionState, renameWorkspace, requireUser } from '@/lib/accounts';
+import { deleteWorkspaceFavorites } from '@/lib/favoritesService';
+
+/**
+ * Rename a workspace; owners only
+ */
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const headers = { 'Cache-Control': 'no-store' };
+
+  try {
+    const user = await requireUser(req);
+    const body = await readJsonBody(req);
+    await renameWorkspace(user.id, id, body.name);
+    return NextResponse.json(await getSessionState(user), { headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
+
+/**
+ * Delete a workspace and its favorites; owners only
+ */
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const headers = { 'Cache-Control': 'no-store' };
+
+  try {
+    const user = await requireUser(req);
+    await deleteWorkspace(user.id, id);
+    // The workspace is gone either way; leftover favorites are only logged
+    await deleteWorkspaceFavorites(id).catch(error => console.error('Error deleting workspace favorites:', error));
+    return NextResponse.json(await getSessionState(user), { headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
@@ -0,0 +1,22 @@
+// app/api/workspaces/route.ts
+"use server"
+import { NextResponse } from 'next/server';
+import { errorResponse, readJsonBody } from '@/lib/apiErrors';
+import { createWorkspace, getSessionState, requireUser } from '@/lib/accounts';
+
+/**
+ * Create a workspace owned by the signed-in user
+ * Responds with the updated session, like every workspace route.
+ */
+export async function POST(req: Request) {
+  const headers = { 'Cache-Control': 'no-store' };
+
+  try {
+    const user = await requireUser(req);
+    const body = await readJsonBody(req);
+    await createWorkspace(user.id, body.name);
+    return NextResponse.json(await getSessionState(user), { status: 201, headers });
+  } catch (error) {
+    return errorResponse(error, headers);
+  }
+}
@@ -0,0 +1,238 @@
+'use client';
+
+// Import React hooks and the profiler used for measuring renders
+import { Profiler, useCallback, useRef, useState, type ProfilerOnRenderCallback } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Button,
+  Container,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+  Zoom,
+} from '@mui/material';
+import Grid from '@mui/material/Grid';
+
+import IconGrid from '@/components/IconGrid';
+import SearchResultCard from '@/components/SearchResultCard';
+import type { IconData } from '@/types';
+import { createFixtureIcons } from './fixtures';
+
+type BenchmarkMode = 'windowed' | 'full';
+
+interface BenchmarkResult {
+  mode: BenchmarkMode;
+  // Render time of the first commit as reported by the profiler
+  mountRenderMs: number;
+  // Time from starting the render until the next frame
+  mountFrameMs: number;
+  domNodes: number;
+  cards: number;
+  // Entrance animations running right after mounting
+  animations: number;
+  // Average time per step while scrolling to the bottom
+  scrollStepMs: number;
+  scrollRenderMs: number;
+}
+
+const FIXTURE_SIZE = 2000;
+const SCROLL_STEPS = 20;
+
+const MODE_LABELS: Record<BenchmarkMode, string> = {
+  windowed: 'IconGrid (windowed)',
+  full: 'Every card rendered',
+};
+
+const fixtureIcons = createFixtureIcons(FIXTURE_SIZE);
+const noop = () => {};
+
+/**
+ * Wait until the browser has painted the next frame
+ */
+const nextFrame = () => new Promise<void>(resolve => {
+  window.requestAnimationFrame(() => window.requestAnimationFrame(() => resolve()));
+});
+
+/**
+ * Render a fixture card the way the search page does
+ */
+const renderCard = (icon: IconData) => (
+  <SearchResultCard
+    icon={icon}
+    isFavorite={false}
+    isSelected={false}
+    selectionMode={false}
+    canEdit
+    favoritesName="Favorites"
+    onToggleFavorite={noop}
+    onSelect={noop}
+    onPreview={noop}
+  />
+);
+
+/**
+ * The grid as it was before windowing: every card mounted, each with its
+ * own staggered entrance animation
+ */
+const FullGrid = ({ icons }: { icons: IconData[] }) => (
+  <Grid container spacing={3}>
+    {icons.map((icon, index) => (
+      <Grid key={icon.id} size={{ xs: 6, sm: 4, md: 3, lg: 2 }}>
+        <Zoom in timeout={300 + index * 50}>
+          <Box>{renderCard(icon)}</Box>
+        </Zoom>
+      </Grid>
+    ))}
+  </Grid>
+);
+
+/**
+ * IconGridBenchmark Component
+ *
+ * Mounts 2,000 fixture icons with and without windowing and measures the
+ * render time, the size of the DOM, the number of running animations and
+ * the cost of scrolling through the whole list. Timings from the
+ * development server are slower than production, but comparable.
+ */
+export default function IconGridBenchmark() {
+  const [mode, setMode] = useState<BenchmarkMode | null>(null);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const renderStats = useRef({ mount: 0, update: 0 });
+
+  /**
+   * Collect render durations reported by the profiler
+   */
+  const handleRender = useCallback<ProfilerOnRenderCallback>((_id, phase, actualDuration) => {
+    if (phase === 'mount') renderStats.current.mount += actualDuration;
+    else renderStats.current.update += actualDuration;
+  }, []);
+
+  /**
+   * Measure a single mode, from mounting to scrolling to the bottom
+   */
+  const measure = async (nextMode: BenchmarkMode): Promise<BenchmarkResult> => {
+    setMode(null);
+    await nextFrame();
+    window.scrollTo(0, 0);
+    renderStats.current = { mount: 0, update: 0 };
+
+    const mountStart = performance.now();
+    setMode(nextMode);
+    await nextFrame();
+    const mountFrameMs = performance.now() - mountStart;
+    const mountRenderMs = renderStats.current.mount;
+
+    const container = containerRef.current;
+    const domNodes = container?.querySelectorAll('*').length ?? 0;
+    const cards = container?.querySelectorAll('.MuiCard-root').length ?? 0;
+    const animations = container?.getAnimations({ subtree: true }).length ?? 0;
+
+    // Scroll to the bottom in even steps
+    renderStats.current.update = 0;
+    const maxScroll = document.documentElement.scrollHeight - window.innerHeight;
+    const scrollStart = performance.now();
+    for (let step = 1; step <= SCROLL_STEPS; step++) {
+      window.scrollTo(0, (maxScroll * step) / SCROLL_STEPS);
+      await nextFrame();
+    }
+    const scrollStepMs = (performance.now() - scrollStart) / SCROLL_STEPS;
+    const scrollRenderMs = renderStats.current.update / SCROLL_STEPS;
+
+    return { mode: nextMode, mountRenderMs, mountFrameMs, domNodes, cards, animations, scrollStepMs, scrollRenderMs };
+  };
+
+  /**
+   * Measure both modes one after the other
+   */
+  const runBenchmark = async () => {
+    setRunning(true);
+    setResults([]);
+    const collected: BenchmarkResult[] = [];
+    for (const nextMode of ['windowed', 'full'] as const) {
+      collected.push(await measure(nextMode));
+      setResults([...collected]);
+    }
+    setMode(null);
+    window.scrollTo(0, 0);
+    setRunning(false);
+  };
+
+  const formatMs = (value: number) => `${value.toFixed(1)} ms`;
+
+  return (
+    <Container maxWidth="xl" sx={{ py: 4 }}>
+      <Typography variant="h4" sx={{ fontWeight: 700, mb: 1 }}>
+        Icon grid benchmark
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Renders {FIXTURE_SIZE.toLocaleString()} fixture icons with the windowed IconGrid and with every
+        card mounted, then scrolls to the bottom in {SCROLL_STEPS} steps. Keep the window size the
+        same between runs.
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 3 }}>
+        <Button variant="contained" onClick={runBenchmark} disabled={running}>
+          {running ? 'Running...' : 'Run benchmark'}
+        </Button>
+        <Button variant="outlined" onClick={() => setMode('windowed')} disabled={running}>
+          Show windowed grid
+        </Button>
+        <Button variant="outlined" onClick={() => setMode('full')} disabled={running}>
+          Show full grid
+        </Button>
+      </Box>
+
+      {results.length > 0 && (
+        <Paper variant="outlined" sx={{ mb: 3, overflowX: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Grid</TableCell>
+                <TableCell align="right">Mount render</TableCell>
+                <TableCell align="right">Mount to frame</TableCell>
+                <TableCell align="right">DOM nodes</TableCell>
+                <TableCell align="right">Cards mounted</TableCell>
+                <TableCell align="right">Running animations</TableCell>
+                <TableCell align="right">Scroll step</TableCell>
+                <TableCell align="right">Render per scroll step</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {results.map(result => (
+                <TableRow key={result.mode}>
+                  <TableCell>{MODE_LABELS[result.mode]}</TableCell>
+                  <TableCell align="right">{formatMs(result.mountRenderMs)}</TableCell>
+                  <TableCell align="right">{formatMs(result.mountFrameMs)}</TableCell>
+                  <TableCell align="right">{result.domNodes.toLocaleString()}</TableCell>
+                  <TableCell align="right">{result.cards.toLocaleString()}</TableCell>
+                  <TableCell align="right">{result.animations.toLocaleString()}</TableCell>
+                  <TableCell align="right">{formatMs(result.scrollStepMs)}</TableCell>
+                  <TableCell align="right">{formatMs(result.scrollRenderMs)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+
+      <Box ref={containerRef}>
+        {mode && (
+          <Profiler id="icon-grid" onRender={handleRender}>
+            {mode === 'windowed'
+              ? <IconGrid icons={fixtureIcons} renderCard={renderCard} />
+              : <FullGrid icons={fixtureIcons} />}
+          </Profiler>
+        )}
+      </Box>
+    </Container>
+  );
+}
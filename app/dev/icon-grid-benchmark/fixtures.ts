@@ -0,0 +1,49 @@
+// Generated icons for the icon grid benchmark; no network access needed
+
+import type { IconData } from '@/types';
+
+const COLORS = ['#1976d2', '#9c27b0', '#2e7d32', '#ed6c02', '#d32f2f', '#0288d1'];
+const WORDS = ['arrow', 'home', 'user', 'star', 'cloud', 'mail', 'lock', 'heart', 'bell', 'search'];
+const SIZES = [16, 24, 32, 48, 64, 128, 256, 512];
+
+/**
+ * A small inline SVG preview, so every icon has a distinct image
+ */
+const createPreview = (index: number) => {
+  const color = COLORS[index % COLORS.length];
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64">`
+    + `<circle cx="32" cy="32" r="28" fill="${color}"/>`
+    + `<text x="32" y="40" font-size="20" text-anchor="middle" fill="white" font-family="sans-serif">${index % 1000}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
+
+/**
+ * Create icons shaped like real search results
+ *
+ * @param count - Number of icons to create
+ * @returns Icons with previews, tags, sets and authors
+ */
+export function createFixtureIcons(count: number): IconData[] {
+  return Array.from({ length: count }, (_, index) => {
+    const word = WORDS[index % WORDS.length];
+    const previewUrl = createPreview(index);
+    return {
+      id: `fixture-${index}`,
+      name: `${word} ${index}`,
+      tags: [word, WORDS[(index + 3) % WORDS.length], WORDS[(index + 7) % WORDS.length]],
+      author: { id: `author-${index % 40}`, name: `Author ${index % 40}`, username: null },
+      iconset: { id: `set-${index % 25}`, name: `Set ${index % 25}`, identifier: null },
+      license: null,
+      isPremium: index % 5 === 0,
+      publishedAt: new Date(Date.UTC(2020, 0, 1 + index)).toISOString(),
+      rasterSizes: SIZES.map(size => ({
+        size,
+        width: size,
+        height: size,
+        formats: [{ format: 'png', previewUrl, downloadUrl: null }],
+      })),
+      vectorFormats: index % 2 === 0 ? [{ format: 'svg', downloadUrl: previewUrl }] : [],
+    };
+  });
+}
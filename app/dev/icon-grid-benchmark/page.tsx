@@ -0,0 +1,13 @@
+// Icon grid benchmark, only served by the development server
+import { notFound } from 'next/navigation';
+
+import IconGridBenchmark from './IconGridBenchmark';
+
+/**
+ * Compare the windowed icon grid with rendering every card, on a fixture
+ * of 2,000 icons. Open /dev/icon-grid-benchmark while running `npm run dev`.
+ */
+export default function IconGridBenchmarkPage() {
+  if (process.env.NODE_ENV === 'production') notFound();
+  return <IconGridBenchmark />;
+}
@@ -1,191 +1,182 @@
 'use client';
 
 // Import necessary hooks and components from React and Next.js
-import { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { Suspense, useCallback, useMemo, useState, useSyncExternalStore } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 
 // Import Material-UI components for UI design
 import {
   Typography,
-  Card,
-  CardActionArea,
-  CardMedia,
   Container,
   Box,
   IconButton,
-  Tooltip,
   Fade,
-  Zoom,
   Button,
   Stack,
   Chip,
   Paper,
 } from '@mui/material';
-import Grid from '@mui/material/Grid';
 
 // Import Material-UI icons
 import {
   Favorite as FavoriteIcon,
   FavoriteBorder as FavoriteBorderIcon,
-  Download as DownloadIcon,
   ArrowBack as ArrowBackIcon,
   Search as SearchIcon,
   StarBorder as StarBorderIcon,
+  Checklist as ChecklistIcon,
+  DeleteOutline as TrashIcon,
 } from '@mui/icons-material';
 
+// Import icon helpers
+import {
+  applyFavoritesFilter,
+  collectCustomTags,
+  collectLicenses,
+  filterFavorites,
+  parseFavoritesFilter,
+  type FavoritesFilter,
+} from '@/lib/favoritesFilter';
+import { getIconUsage, getServerIconUsage, subscribeIconUsage } from '@/lib/iconUsage';
+import BulkActionBar from '@/components/BulkActionBar';
+import CollectionBar from '@/components/CollectionBar';
+import FavoriteCard from '@/components/FavoriteCard';
+import FavoritesFilterBar from '@/components/FavoritesFilterBar';
+import FavoritesTransferButtons from '@/components/FavoritesTransferButtons';
+import IconGrid from '@/components/IconGrid';
+import IconPreviewDialog from '@/components/IconPreviewDialog';
+import SyncStatusChip from '@/components/SyncStatusChip';
+import TrashDialog from '@/components/TrashDialog';
+import UndoSnackbar from '@/components/UndoSnackbar';
+import AccountMenu from '@/components/AccountMenu';
+import { useIconSelection } from '@/useIconSelection';
+import { useScrollRestoration } from '@/useScrollRestoration';
+import { useFavorites } from '@/useFavorites';
+import { useSession } from '@/useSession';
+
 // Import custom type definitions
 import type { IconData } from '@/types';
 
+// Glass style shared by the header buttons
+const headerButtonSx = {
+  color: 'white',
+  borderColor: 'rgba(255,255,255,0.3)',
+  backgroundColor: 'rgba(255,255,255,0.1)',
+  backdropFilter: 'blur(10px)',
+  '&:hover': {
+    borderColor: 'rgba(255,255,255,0.5)',
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  '&.Mui-disabled': { color: 'rgba(255,255,255,0.5)' },
+};
+
 /**
- * FavoritesPage Component
+ * FavoritesContent Component
  * 
  * This component displays all user's favorite/starred icons in a grid layout.
  * It provides functionality to view, download, and remove favorites.
  * 
  * Features:
  * - Display all favorite icons in a responsive grid
+ * - Organize icons in named collections, with drag-and-drop between them
  * - Remove icons from favorites
  * - Download favorite icons
+ * - Export favorites to JSON or CSV and import JSON exports
  * - Navigate back to search or home
  * - Empty state when no favorites exist
- * - Persistent storage using localStorage
+ * - Persistent storage and cross-tab sync through useFavorites
+ * - Team workspaces, showing who added each icon
+ * - Notes, custom tags and star ratings, with search and filters over them
+ * - Fuzzy search, filters and sort order kept in the URL, so views can be bookmarked
+ * - Undo for every change, and a trash that removed favorites can be restored from
+ *
+ * It uses useSearchParams(), so FavoritesPage wraps it in a Suspense boundary.
  */
-export default function FavoritesPage() {
-  // State management for component data and UI states
-  const [favoriteIcons, setFavoriteIcons] = useState<IconData[]>([]); // Store favorite icons data
-  const [favorites, setFavorites] = useState<Set<string>>(new Set()); // Store favorite IDs
-  const [loading, setLoading] = useState(true); // Track loading state
-  
+function FavoritesContent() {
+  // Favorites shared with every other page and kept in sync across tabs
+  const {
+    favoriteIcons,
+    collections,
+    additions,
+    annotations,
+    trash,
+    loaded,
+    syncStatus,
+    canEdit,
+    removeFavorite,
+    removeFromCollection,
+  } = useFavorites();
+  const { activeWorkspace } = useSession();
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [previewId, setPreviewId] = useState<string | null>(null); // Icon shown in the quick-look preview
+  const usage = useSyncExternalStore(subscribeIconUsage, getIconUsage, getServerIconUsage); // Download counts
+
   // Next.js router hook for navigation
   const router = useRouter();
 
+  // The collection, search, filters and sort order live in the URL
+  const searchParams = useSearchParams();
+  const filter = useMemo(
+    () => parseFavoritesFilter(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+  const customTags = useMemo(() => collectCustomTags(annotations), [annotations]);
+  const licenses = useMemo(() => collectLicenses(favoriteIcons), [favoriteIcons]);
+
   /**
-   * Load favorites from localStorage
+   * Write an updated view into the URL
+   *
+   * @param next - The new collection, search, filters and sort order
    */
-  const loadFavorites = () => {
-    if (typeof window === 'undefined') return;
-    
-    try {
-      // Get favorite IDs from localStorage
-      const savedFavorites = localStorage.getItem('iconFavorites');
-      const favoriteIds = savedFavorites ? JSON.parse(savedFavorites) : [];
-      
-      // Get favorite icons data from localStorage
-      const savedIconsData = localStorage.getItem('favoriteIconsData');
-      const iconsData = savedIconsData ? JSON.parse(savedIconsData) : [];
-      
-      console.log('Loading favorites - IDs:', favoriteIds);
-      console.log('Loading favorites - Data count:', iconsData.length);
-      
-      // Update state with loaded data
-      setFavorites(new Set(favoriteIds));
-      setFavoriteIcons(iconsData);
-      setLoading(false);
-    } catch (error) {
-      console.error('Error loading favorites:', error);
-      setLoading(false);
-    }
+  const handleFilterChange = (next: FavoritesFilter) => {
+    const params = applyFavoritesFilter(next, new URLSearchParams(searchParams.toString()));
+    const query = params.toString();
+    router.replace(query ? `/favorites?${query}` : '/favorites', { scroll: false });
   };
 
-  /**
-   * Load favorites from localStorage on component mount
-   * Retrieves both the favorite IDs and their corresponding icon data
-   */
-  useEffect(() => {
-    loadFavorites();
-  }, []);
+  // Icons of the collection being viewed, in the collection's order
+  const activeCollection = collections.find(collection => collection.id === filter.collection) ?? null;
+  const collectionIcons = useMemo(() => {
+    if (!activeCollection) return favoriteIcons;
+    const byId = new Map(favoriteIcons.map(icon => [icon.id, icon]));
+    return activeCollection.iconIds
+      .map(id => byId.get(id))
+      .filter((icon): icon is IconData => icon !== undefined);
+  }, [favoriteIcons, activeCollection]);
 
-  /**
-   * Listen for storage changes to sync favorites across tabs
-   */
-  useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'iconFavorites' || e.key === 'favoriteIconsData') {
-        console.log('Storage changed, reloading favorites');
-        loadFavorites();
-      }
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, []);
+  // Icons of the collection that match the search and filters
+  const displayedIcons = useMemo(
+    () => filterFavorites(collectionIcons, { annotations, added: additions, usage }, filter),
+    [collectionIcons, annotations, additions, usage, filter]
+  );
 
-  /**
-   * Remove an icon from favorites
-   * Updates both state and localStorage
-   * 
-   * @param iconId - The unique identifier for the icon to remove
-   */
-  const removeFavorite = (iconId: string) => {
-    // Only run on client side
-    if (typeof window === 'undefined') return;
-    
-    try {
-      console.log('Removing favorite:', iconId);
-      
-      // Update favorites set
-      const newFavorites = new Set(favorites);
-      newFavorites.delete(iconId);
-      setFavorites(newFavorites);
-      
-      // Remove from icons data array
-      const updatedIcons = favoriteIcons.filter(icon => {
-        const currentIconId = icon.id?.toString() || `icon_${icon.name || 'unknown'}_${icon.tags?.[0] || 'notag'}`;
-        return currentIconId !== iconId;
-      });
-      setFavoriteIcons(updatedIcons);
-      
-      // Update localStorage
-      localStorage.setItem('iconFavorites', JSON.stringify([...newFavorites]));
-      localStorage.setItem('favoriteIconsData', JSON.stringify(updatedIcons));
-      
-      console.log('Removed favorite successfully, remaining:', updatedIcons.length);
-    } catch (error) {
-      console.error('Error removing favorite:', error);
-    }
-  };
+  // Multi-select for bulk downloads, in the order favorites are displayed
+  const orderedIds = useMemo(() => displayedIcons.map(icon => icon.id), [displayedIcons]);
+  const {
+    selectionMode,
+    selected,
+    setSelectionMode,
+    handleSelect,
+    isSelected,
+    selectAll,
+    clearSelection,
+  } = useIconSelection(orderedIds);
 
-  /**
-   * Generate or get icon ID for consistent identification
-   * 
-   * @param icon - The icon object
-   * @param index - The index as fallback
-   * @returns string - unique identifier for the icon
-   */
-  const getIconId = (icon: IconData, index: number) => {
-    if (icon.id) {
-      return icon.id.toString();
-    }
-    // Generate a consistent ID based on icon properties
-    return `icon_${icon.name || 'unknown'}_${icon.tags?.[0] || 'notag'}_${index}`;
-  };
+  // Come back to the same place in a long list after opening an icon
+  useScrollRestoration(`/favorites?${searchParams}`, loaded);
 
   /**
-   * Handle icon download functionality
-   * Creates a temporary download link and triggers the download
-   * 
-   * @param icon - The icon data object containing download information
-   * @param e - The mouse event to prevent default behavior
+   * Remove an icon from the collection being viewed, or from favorites
+   *
+   * @param iconId - The icon to remove
    */
-  const handleDownload = (icon: IconData, e: React.MouseEvent) => {
-    // Prevent the card click event from triggering
-    e.preventDefault();
-    e.stopPropagation();
-    
-    // Get the largest available raster size for best quality
-    const largestRaster = icon.raster_sizes?.[icon.raster_sizes.length - 1];
-    const downloadUrl = largestRaster?.formats?.[0]?.preview_url;
-    
-    // If download URL is available, create and trigger download
-    if (downloadUrl) {
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = `${icon.name || 'icon'}.png`; // Set filename
-      document.body.appendChild(link);
-      link.click(); // Trigger download
-      document.body.removeChild(link); // Clean up
+  const handleRemove = useCallback((iconId: string) => {
+    if (activeCollection) {
+      removeFromCollection(iconId, activeCollection.id);
+    } else {
+      removeFavorite(iconId);
     }
-  };
+  }, [activeCollection, removeFromCollection, removeFavorite]);
 
   /**
    * Navigate back to the previous page
@@ -202,16 +193,8 @@ export default function FavoritesPage() {
   };
 
   // Loading state
-  if (loading) {
-    return (
-      <Container maxWidth="xl" sx={{ py: 4 }}>
-        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
-          <Typography variant="h6" color="text.secondary">
-            Loading your favorites...
-          </Typography>
-        </Box>
-      </Container>
-    );
+  if (!loaded) {
+    return <FavoritesFallback />;
   }
 
   return (
@@ -303,7 +286,7 @@ export default function FavoritesPage() {
                   }}
                 >
                   <FavoriteIcon sx={{ color: '#1976d2', fontSize: 'inherit' }} />
-                  My Favorites
+                  {activeWorkspace ? activeWorkspace.name : 'My Favorites'}
                 </Typography>
                 <Typography 
                   variant="h6" 
@@ -320,6 +303,17 @@ export default function FavoritesPage() {
                   }
                 </Typography>
               </Box>
+
+              {/* Export and import */}
+              <FavoritesTransferButtons buttonSx={headerButtonSx} />
+
+              {/* Removed favorites */}
+              <Button variant="outlined" startIcon={<TrashIcon />} onClick={() => setTrashOpen(true)} sx={headerButtonSx}>
+                Trash{trash.length > 0 ? ` (${trash.length})` : ''}
+              </Button>
+
+              {/* Account and workspace switcher */}
+              <AccountMenu buttonSx={headerButtonSx} />
             </Stack>
 
             {/* Action buttons */}
@@ -336,6 +330,34 @@ export default function FavoritesPage() {
                     fontWeight: 500,
                   }}
                 />
+                <SyncStatusChip
+                  status={syncStatus}
+                  sx={{
+                    backgroundColor: 'rgba(255,255,255,0.2)',
+                    backdropFilter: 'blur(10px)',
+                    color: 'white',
+                    border: '1px solid rgba(255,255,255,0.3)',
+                    '& .MuiChip-icon': { color: 'white' },
+                  }}
+                />
+                <Button
+                  variant={selectionMode ? 'contained' : 'outlined'}
+                  startIcon={<ChecklistIcon />}
+                  onClick={() => setSelectionMode(!selectionMode)}
+                  sx={{
+                    borderRadius: 4,
+                    color: 'white',
+                    borderColor: 'rgba(255,255,255,0.3)',
+                    backgroundColor: selectionMode ? 'rgba(25, 118, 210, 0.9)' : 'rgba(255,255,255,0.1)',
+                    backdropFilter: 'blur(10px)',
+                    '&:hover': {
+                      borderColor: 'rgba(255,255,255,0.5)',
+                      backgroundColor: selectionMode ? 'rgba(25, 118, 210, 1)' : 'rgba(255,255,255,0.2)',
+                    },
+                  }}
+                >
+                  {selectionMode ? 'Selecting' : 'Select'}
+                </Button>
               </Box>
             )}
           </Box>
@@ -462,218 +484,102 @@ export default function FavoritesPage() {
           /* Favorites grid display */
           <Fade in timeout={1000}>
             <Box>
-              <Grid container spacing={3}>
-                {favoriteIcons.map((icon, index) => {
-                  // Extract icon data for rendering
-                  const largestRaster = icon.raster_sizes?.[icon.raster_sizes.length - 1];
-                  const previewUrl = largestRaster?.formats?.[0]?.preview_url;
-                  const iconId = getIconId(icon, index); // Use the new helper function
-
-                  return (
-                    <Grid key={iconId} size={{ xs: 6, sm: 4, md: 3, lg: 2 }}>
-                      {/* Zoom animation for each card */}
-                      <Zoom in timeout={300 + index * 50}>
-                        <Card
-                          elevation={0}
-                          sx={{
-                            background: 'rgba(255,255,255,0.95)',
-                            backdropFilter: 'blur(20px)',
-                            border: '1px solid rgba(255,255,255,0.3)',
-                            borderRadius: 3,
-                            transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
-                            position: 'relative',
-                            overflow: 'hidden',
-                            boxShadow: '0 8px 32px rgba(0,0,0,0.1)',
-                            // Hover effects for the card
-                            '&:hover': {
-                              borderColor: 'rgba(255,255,255,0.5)',
-                              boxShadow: '0 20px 40px rgba(0,0,0,0.2)',
-                              transform: 'translateY(-8px)',
-                            },
-                          }}
-                        >
-                          {/* Action buttons (remove from favorites and download) */}
-                          <Box
-                            sx={{
-                              position: 'absolute',
-                              top: 8,
-                              right: 8,
-                              zIndex: 2,
-                              display: 'flex',
-                              gap: 0.5,
-                              opacity: 0, // Hidden by default
-                              transition: 'opacity 0.2s',
-                              // Show on card hover
-                              '.MuiCard-root:hover &': {
-                                opacity: 1,
-                              },
-                            }}
-                          >
-                            {/* Remove from favorites button */}
-                            <Tooltip title="Remove from Favorites">
-                              <IconButton
-                                size="small"
-                                onClick={(e) => {
-                                  e.preventDefault();
-                                  e.stopPropagation();
-                                  removeFavorite(iconId);
-                                }}
-                                sx={{
-                                  bgcolor: 'rgba(255, 255, 255, 0.9)',
-                                  backdropFilter: 'blur(8px)', // Glass effect
-                                  '&:hover': {
-                                    bgcolor: 'rgba(255, 255, 255, 1)',
-                                  },
-                                }}
-                              >
-                                <FavoriteIcon sx={{ fontSize: 16, color: 'error.main' }} />
-                              </IconButton>
-                            </Tooltip>
-                            
-                            {/* Download button */}
-                            <Tooltip title="Download Icon">
-                              <IconButton
-                                size="small"
-                                onClick={(e) => handleDownload(icon, e)}
-                                sx={{
-                                  bgcolor: 'rgba(255, 255, 255, 0.9)',
-                                  backdropFilter: 'blur(8px)', // Glass effect
-                                  '&:hover': {
-                                    bgcolor: 'rgba(255, 255, 255, 1)',
-                                  },
-                                }}
-                              >
-                                <DownloadIcon sx={{ fontSize: 16 }} />
-                              </IconButton>
-                            </Tooltip>
-                          </Box>
-
-                          {/* Main card content area */}
-                          <CardActionArea
-                            component="a"
-                            href={previewUrl || '#'}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            sx={{
-                              height: '100%',
-                              display: 'flex',
-                              flexDirection: 'column',
-                            }}
-                          >
-                            {/* Icon image display area */}
-                            <Box
-                              sx={{
-                                height: 160,
-                                display: 'flex',
-                                alignItems: 'center',
-                                justifyContent: 'center',
-                                // Gradient background for icon area - blue theme
-                                background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
-                                position: 'relative',
-                                overflow: 'hidden',
-                              }}
-                            >
-                              <CardMedia
-                                component="img"
-                                image={previewUrl}
-                                alt={icon.tags?.[0] || icon.name || 'icon'}
-                                sx={{
-                                  maxWidth: '80%',
-                                  maxHeight: '80%',
-                                  objectFit: 'contain',
-                                  transition: 'transform 0.3s ease',
-                                  // Scale effect on hover
-                                  '&:hover': {
-                                    transform: 'scale(1.1)',
-                                  },
-                                }}
-                              />
-                              
-                              {/* Favorite indicator */}
-                              <Box
-                                sx={{
-                                  position: 'absolute',
-                                  top: 8,
-                                  left: 8,
-                                  bgcolor: 'rgba(25, 118, 210, 0.9)', // Blue color to match theme
-                                  borderRadius: '50%',
-                                  width: 24,
-                                  height: 24,
-                                  display: 'flex',
-                                  alignItems: 'center',
-                                  justifyContent: 'center',
-                                }}
-                              >
-                                <FavoriteIcon sx={{ fontSize: 14, color: 'white' }} />
-                              </Box>
-                            </Box>
-
-                            {/* Icon information section */}
-                            <Box sx={{ p: 1.5, flexGrow: 1 }}>
-                              {/* Icon name display */}
-                              {icon.name && (
-                                <Typography
-                                  variant="body2"
-                                  sx={{
-                                    fontWeight: 500,
-                                    mb: 0.5,
-                                    overflow: 'hidden',
-                                    textOverflow: 'ellipsis',
-                                    whiteSpace: 'nowrap',
-                                  }}
-                                >
-                                  {icon.name}
-                                </Typography>
-                              )}
-                              
-                              {/* Icon tags display */}
-                              {icon.tags && icon.tags.length > 0 && (
-                                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
-                                  {/* Display first 2 tags */}
-                                  {icon.tags.slice(0, 2).map((tag, tagIndex) => (
-                                    <Chip
-                                      key={tagIndex}
-                                      label={tag}
-                                      size="small"
-                                      variant="outlined"
-                                      sx={{
-                                        fontSize: '0.7rem',
-                                        height: 20,
-                                        borderRadius: 1,
-                                        bgcolor: 'rgba(25, 118, 210, 0.04)', // Blue theme
-                                        borderColor: 'rgba(25, 118, 210, 0.2)',
-                                      }}
-                                    />
-                                  ))}
-                                  {/* Show additional tags count if more than 2 */}
-                                  {icon.tags.length > 2 && (
-                                    <Chip
-                                      label={`+${icon.tags.length - 2}`}
-                                      size="small"
-                                      variant="outlined"
-                                      sx={{
-                                        fontSize: '0.7rem',
-                                        height: 20,
-                                        borderRadius: 1,
-                                        bgcolor: 'rgba(158, 158, 158, 0.04)',
-                                        borderColor: 'rgba(158, 158, 158, 0.2)',
-                                      }}
-                                    />
-                                  )}
-                                </Box>
-                              )}
-                            </Box>
-                          </CardActionArea>
-                        </Card>
-                      </Zoom>
-                    </Grid>
-                  );
-                })}
-              </Grid>
+              {/* Collection filter and management */}
+              <CollectionBar
+                activeId={activeCollection?.id ?? null}
+                onSelect={(collectionId) => handleFilterChange({ ...filter, collection: collectionId })}
+              />
+
+              {activeCollection?.description && (
+                <Typography sx={{ color: 'rgba(255,255,255,0.9)', mb: 3 }}>
+                  {activeCollection.description}
+                </Typography>
+              )}
+
+              {/* Search over names, tags and notes */}
+              <FavoritesFilterBar
+                filter={filter}
+                onChange={handleFilterChange}
+                tagOptions={customTags}
+                licenseOptions={licenses}
+              />
+
+              {displayedIcons.length === 0 && (
+                <Typography sx={{ color: 'rgba(255,255,255,0.9)', textAlign: 'center', py: 6 }}>
+                  {collectionIcons.length > 0
+                    ? 'No favorites match your search and filters.'
+                    : 'This collection is empty. Drag icons onto its chip or use the folder button on a card to add them.'}
+                </Typography>
+              )}
+
+              <IconGrid
+                icons={displayedIcons}
+                renderCard={icon => (
+                  <FavoriteCard
+                    icon={icon}
+                    isSelected={isSelected(icon.id)}
+                    selectionMode={selectionMode}
+                    canEdit={canEdit}
+                    collection={activeCollection}
+                    addition={additions[icon.id]}
+                    tagOptions={customTags}
+                    onRemove={handleRemove}
+                    onSelect={handleSelect}
+                    onPreview={setPreviewId}
+                  />
+                )}
+              />
             </Box>
           </Fade>
         )}
+
+        {/* Bulk actions for the selected favorites */}
+        <BulkActionBar
+          open={selectionMode}
+          selectedIds={orderedIds.filter(id => selected.has(id))}
+          totalCount={orderedIds.length}
+          onSelectAll={selectAll}
+          onClear={clearSelection}
+          onClose={() => setSelectionMode(false)}
+        />
+
+        {/* Removed favorites, the quick-look preview and the undo snackbar */}
+        <TrashDialog open={trashOpen} onClose={() => setTrashOpen(false)} />
+        <IconPreviewDialog icons={displayedIcons} iconId={previewId} onChange={setPreviewId} />
+        <UndoSnackbar />
       </Container>
     </Box>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * FavoritesFallback Component
+ *
+ * Shown while favorites are read from storage and while the Suspense
+ * boundary waits for the URL search parameters.
+ */
+function FavoritesFallback() {
+  return (
+    <Container maxWidth="xl" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+        <Typography variant="h6" color="text.secondary">
+          Loading your favorites...
+        </Typography>
+      </Box>
+    </Container>
+  );
+}
+
+/**
+ * FavoritesPage Component (Main Export)
+ *
+ * Wraps FavoritesContent in the Suspense boundary that useSearchParams()
+ * requires.
+ */
+export default function FavoritesPage() {
+  return (
+    <Suspense fallback={<FavoritesFallback />}>
+      <FavoritesContent />
+    </Suspense>
+  );
+}
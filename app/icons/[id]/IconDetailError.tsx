@@ -0,0 +1,38 @@
+'use client';
+
+// Import Next.js router hook for navigation
+import { useRouter } from 'next/navigation';
+
+// Import Material-UI components for UI design
+import { Box, Button, Container } from '@mui/material';
+
+// Import Material-UI icons
+import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';
+
+import ApiErrorAlert from '@/components/ApiErrorAlert';
+import type { ApiErrorBody } from '@/types';
+
+interface IconDetailErrorProps {
+  error: ApiErrorBody['error'];
+}
+
+/**
+ * IconDetailError Component
+ *
+ * Shown when the icon could not be loaded on the server. Retrying
+ * re-renders the page on the server.
+ */
+export default function IconDetailError({ error }: IconDetailErrorProps) {
+  const router = useRouter();
+
+  return (
+    <Container maxWidth="md" sx={{ py: 8 }}>
+      <ApiErrorAlert error={error} onRetry={() => router.refresh()} />
+      <Box sx={{ textAlign: 'center' }}>
+        <Button startIcon={<ArrowBackIcon />} onClick={() => router.back()}>
+          Go Back
+        </Button>
+      </Box>
+    </Container>
+  );
+}
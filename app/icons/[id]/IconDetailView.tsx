@@ -0,0 +1,349 @@
+'use client';
+
+// Import necessary hooks and components from React and Next.js
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+// Import Material-UI components for UI design
+import {
+  Typography,
+  Card,
+  CardActionArea,
+  CardMedia,
+  Container,
+  Box,
+  Chip,
+  IconButton,
+  Tooltip,
+  Button,
+  Paper,
+  Stack,
+  Divider,
+  Snackbar,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+
+// Import Material-UI icons
+import {
+  ArrowBack as ArrowBackIcon,
+  Download as DownloadIcon,
+  Favorite as FavoriteIcon,
+  FavoriteBorder as FavoriteBorderIcon,
+  WorkspacePremium as PremiumIcon,
+} from '@mui/icons-material';
+
+// Import favorites hook and icon helpers
+import { useFavorites } from '@/useFavorites';
+import { getPreviewUrl } from '@/lib/icons';
+import { downloadIcon, type DownloadOptions } from '@/lib/download';
+import UndoSnackbar from '@/components/UndoSnackbar';
+
+// Import custom type definitions
+import type { IconData } from '@/types';
+
+interface IconDetailViewProps {
+  icon: IconData;
+  related: IconData[];
+}
+
+/**
+ * IconDetailView Component
+ *
+ * Interactive part of the icon detail page: a large preview, a picker for
+ * every raster size, downloads for raster and vector formats, tag chips
+ * that start new searches, a favorite toggle and a strip of other icons
+ * from the same set.
+ */
+export default function IconDetailView({ icon, related }: IconDetailViewProps) {
+  const router = useRouter();
+  const { isFavorite, toggleFavorite } = useFavorites();
+
+  // Selected raster size, defaulting to the largest one
+  const [selectedSize, setSelectedSize] = useState<number | null>(
+    icon.rasterSizes[icon.rasterSizes.length - 1]?.size ?? null
+  );
+  const raster = icon.rasterSizes.find(candidate => candidate.size === selectedSize);
+  const previewUrl = raster?.formats[0]?.previewUrl;
+  const isIconFavorite = isFavorite(icon.id);
+  const [downloadError, setDownloadError] = useState<string | null>(null); // Last download error
+
+  /**
+   * Download a format through the server-side download proxy
+   *
+   * @param options - Format and (for raster formats) size to download
+   */
+  const handleDownload = (options: DownloadOptions) => {
+    downloadIcon(icon.id, options).catch((err) => {
+      console.error('Error downloading icon:', err);
+      setDownloadError(err.message);
+    });
+  };
+
+  /**
+   * Start a new search for a tag
+   *
+   * @param tag - The tag that was clicked
+   */
+  const handleTagClick = (tag: string) => {
+    router.push(`/search?q=${encodeURIComponent(tag)}`);
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      {/* Navigation */}
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 3 }}>
+        <IconButton
+          onClick={() => router.back()}
+          sx={{
+            bgcolor: 'rgba(0,0,0,0.04)',
+            '&:hover': { bgcolor: 'rgba(0,0,0,0.08)' }
+          }}
+        >
+          <ArrowBackIcon />
+        </IconButton>
+
+        <Button
+          variant="outlined"
+          startIcon={<FavoriteIcon />}
+          onClick={() => router.push('/favorites')}
+        >
+          Favorites
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 4 }}>
+        {/* Large preview */}
+        <Paper
+          elevation={0}
+          sx={{
+            flex: '0 0 auto',
+            width: { xs: '100%', md: 400 },
+            height: 400,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            border: '1px solid',
+            borderColor: 'divider',
+            borderRadius: 2,
+            background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
+            position: 'relative',
+          }}
+        >
+          {previewUrl && (
+            <Box
+              component="img"
+              src={previewUrl}
+              alt={icon.name}
+              sx={{
+                // Show the selected size at its real pixel size, up to the preview area
+                width: Math.min(raster?.width ?? 256, 320),
+                height: Math.min(raster?.height ?? 256, 320),
+                objectFit: 'contain',
+              }}
+            />
+          )}
+
+          {raster && (
+            <Chip
+              label={`${raster.width} × ${raster.height}px`}
+              size="small"
+              sx={{ position: 'absolute', bottom: 12, right: 12, bgcolor: 'rgba(255,255,255,0.9)' }}
+            />
+          )}
+        </Paper>
+
+        {/* Metadata and actions */}
+        <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <Typography variant="h4" component="h1" sx={{ fontWeight: 700, flexGrow: 1 }}>
+              {icon.name}
+            </Typography>
+
+            {/* Favorite toggle */}
+            <Tooltip title={isIconFavorite ? 'Remove from Favorites' : 'Add to Favorites'}>
+              <IconButton onClick={() => toggleFavorite(icon)}>
+                {isIconFavorite ? (
+                  <FavoriteIcon sx={{ color: 'error.main' }} />
+                ) : (
+                  <FavoriteBorderIcon />
+                )}
+              </IconButton>
+            </Tooltip>
+          </Box>
+
+          {/* Author, icon set and license */}
+          <Stack spacing={0.5} sx={{ mb: 2 }}>
+            {icon.author && (
+              <Typography variant="body2" color="text.secondary">
+                By {icon.author.name}
+              </Typography>
+            )}
+            {icon.iconset && (
+              <Typography variant="body2" color="text.secondary">
+                From the {icon.iconset.name} set
+              </Typography>
+            )}
+            <Typography variant="body2" color="text.secondary">
+              License:{' '}
+              {icon.license ? (
+                icon.license.url ? (
+                  <a href={icon.license.url} target="_blank" rel="noopener noreferrer">
+                    {icon.license.name}
+                  </a>
+                ) : icon.license.name
+              ) : 'Unknown'}
+            </Typography>
+            {icon.publishedAt && (
+              <Typography variant="body2" color="text.secondary">
+                Published {new Date(icon.publishedAt).toLocaleDateString()}
+              </Typography>
+            )}
+          </Stack>
+
+          {icon.isPremium && (
+            <Chip icon={<PremiumIcon />} label="Premium" color="warning" size="small" sx={{ mb: 2 }} />
+          )}
+
+          <Divider sx={{ my: 2 }} />
+
+          {/* Size picker covering every raster size */}
+          {icon.rasterSizes.length > 0 && (
+            <Box sx={{ mb: 3 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Sizes
+              </Typography>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={selectedSize}
+                onChange={(_, value: number | null) => value !== null && setSelectedSize(value)}
+                sx={{ flexWrap: 'wrap' }}
+              >
+                {icon.rasterSizes.map(size => (
+                  <ToggleButton key={size.size} value={size.size}>
+                    {size.width}×{size.height}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Box>
+          )}
+
+          {/* Downloads for the selected size and vector formats */}
+          <Box sx={{ mb: 3 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              Download
+            </Typography>
+            <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+              {raster?.formats.map(format => (
+                <Button
+                  key={format.format}
+                  variant="contained"
+                  size="small"
+                  startIcon={<DownloadIcon />}
+                  onClick={() => handleDownload({ format: format.format, size: raster.size })}
+                >
+                  {format.format.toUpperCase()} {raster.size}px
+                </Button>
+              ))}
+              {icon.vectorFormats.map(format => (
+                <Button
+                  key={format.format}
+                  variant="outlined"
+                  size="small"
+                  startIcon={<DownloadIcon />}
+                  onClick={() => handleDownload({ format: format.format })}
+                >
+                  {format.format.toUpperCase()}
+                </Button>
+              ))}
+            </Stack>
+          </Box>
+
+          {/* Tag chips that launch new searches */}
+          {icon.tags.length > 0 && (
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                Tags
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                {icon.tags.map(tag => (
+                  <Chip
+                    key={tag}
+                    label={tag}
+                    size="small"
+                    variant="outlined"
+                    clickable
+                    onClick={() => handleTagClick(tag)}
+                    sx={{
+                      bgcolor: 'rgba(25, 118, 210, 0.04)',
+                      borderColor: 'rgba(25, 118, 210, 0.2)',
+                    }}
+                  />
+                ))}
+              </Box>
+            </Box>
+          )}
+        </Box>
+      </Box>
+
+      {/* More from this set */}
+      {related.length > 0 && (
+        <Box sx={{ mt: 6 }}>
+          <Typography variant="h6" gutterBottom>
+            More from {icon.iconset?.name ?? 'this set'}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, overflowX: 'auto', pb: 1 }}>
+            {related.map(relatedIcon => (
+              <Card
+                key={relatedIcon.id}
+                elevation={0}
+                sx={{
+                  flex: '0 0 auto',
+                  width: 120,
+                  border: '1px solid',
+                  borderColor: 'divider',
+                  borderRadius: 2,
+                  '&:hover': { borderColor: 'primary.main' },
+                }}
+              >
+                <CardActionArea component={Link} href={`/icons/${encodeURIComponent(relatedIcon.id)}`}>
+                  <Box
+                    sx={{
+                      height: 96,
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
+                    }}
+                  >
+                    <CardMedia
+                      component="img"
+                      image={getPreviewUrl(relatedIcon)}
+                      alt={relatedIcon.name}
+                      sx={{ maxWidth: '70%', maxHeight: '70%', objectFit: 'contain' }}
+                    />
+                  </Box>
+                  <Typography variant="caption" noWrap sx={{ display: 'block', p: 1 }}>
+                    {relatedIcon.name}
+                  </Typography>
+                </CardActionArea>
+              </Card>
+            ))}
+          </Box>
+        </Box>
+      )}
+
+      <Snackbar
+        open={downloadError !== null}
+        autoHideDuration={4000}
+        onClose={() => setDownloadError(null)}
+        message={`Download failed: ${downloadError}`}
+      />
+
+      {/* Undo for favorite changes */}
+      <UndoSnackbar />
+    </Container>
+  );
+}
@@ -0,0 +1,88 @@
+// Icon detail page, rendered on the server so it has proper metadata
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+
+import { ApiError, toApiError } from '@/lib/apiErrors';
+import { getIconDetails } from '@/lib/iconDetails';
+import { getPreviewUrl } from '@/lib/icons';
+import { checkRateLimit } from '@/lib/rateLimit';
+import IconDetailView from './IconDetailView';
+import IconDetailError from './IconDetailError';
+
+interface IconPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Load the icon for the page, returning null when it does not exist
+ * Counts against the client's rate limit like /api/icons/[id]; cached per
+ * request, so the metadata and the page are charged once.
+ */
+const loadIcon = cache(async (id: string) => {
+  const { error } = checkRateLimit({ headers: await headers() });
+  if (error) throw error;
+
+  try {
+    return (await getIconDetails(id)).value;
+  } catch (error) {
+    if (error instanceof ApiError && error.code === 'NOT_FOUND') return null;
+    throw error;
+  }
+});
+
+/**
+ * Page title, description and preview image for the icon
+ */
+export async function generateMetadata({ params }: IconPageProps): Promise<Metadata> {
+  const { id } = await params;
+
+  try {
+    const details = await loadIcon(id);
+    if (!details) return { title: 'Icon not found - IconVault' };
+
+    const { icon } = details;
+    const previewUrl = getPreviewUrl(icon);
+    const description = [
+      `${icon.name} icon`,
+      icon.iconset && `from the ${icon.iconset.name} set`,
+      icon.author && `by ${icon.author.name}`,
+    ].filter(Boolean).join(' ') + (icon.tags.length > 0 ? `. Tags: ${icon.tags.join(', ')}` : '');
+
+    return {
+      title: `${icon.name} - IconVault`,
+      description,
+      keywords: icon.tags,
+      openGraph: {
+        title: `${icon.name} - IconVault`,
+        description,
+        images: previewUrl ? [previewUrl] : undefined,
+      },
+    };
+  } catch {
+    return { title: 'IconVault' };
+  }
+}
+
+/**
+ * IconPage Component
+ *
+ * Loads the icon on the server and hands it to the interactive detail view.
+ */
+export default async function IconPage({ params }: IconPageProps) {
+  const { id } = await params;
+
+  let details;
+  try {
+    details = await loadIcon(id);
+  } catch (error) {
+    // Only the serializable error details are passed to the client
+    const { error: apiError } = toApiError(error).toJSON();
+    return <IconDetailError error={apiError} />;
+  }
+
+  if (!details) notFound();
+
+  return <IconDetailView icon={details.icon} related={details.related} />;
+}
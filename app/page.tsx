@@ -8,7 +8,6 @@ import { useRouter } from 'next/navigation';
 
 // Import Material-UI components for UI design
 import { 
-  TextField, 
   Button, 
   Container, 
   Typography,
@@ -29,6 +28,12 @@ import {
   Favorite as FavoriteIcon,
 } from '@mui/icons-material';
 
+// Import search history and typeahead components
+import SearchHistoryPanel from '@/components/SearchHistoryPanel';
+import SearchTypeahead from '@/components/SearchTypeahead';
+import { getSearchUrl } from '@/lib/searchHistory';
+import type { IconSearchFilters } from '@/types';
+
 /**
  * Home Component
  * 
@@ -41,6 +46,8 @@ import {
  * - Animated entrance with Fade and Zoom effects
  * - Enhanced search form with icon and visual improvements
  * - Popular search suggestions as clickable chips
+ * - Typeahead with query completions, thumbnails and saved and recent searches
+ * - Saved and recent searches with privacy controls
  * - Responsive design with modern Material-UI styling
  * - Form validation (prevents empty searches)
  * - Navigation to search results page with query parameters
@@ -99,6 +106,16 @@ export default function Home() {
     router.push(`/search?q=${encodeURIComponent(searchTerm)}`);
   };
 
+  /**
+   * Run a saved or recent search again, with its filters
+   *
+   * @param search - The query and filters to search for
+   */
+  const handleHistorySearch = (search: { query: string; filters: IconSearchFilters }) => {
+    setQuery(search.query);
+    router.push(getSearchUrl(search));
+  };
+
   return (
     // Full viewport container with gradient background
     <Box
@@ -259,39 +276,8 @@ export default function Home() {
               >
                 <form onSubmit={handleSearch}>
                   <Stack spacing={3}>
-                    {/* Enhanced search input */}
-                    <TextField
-                      fullWidth
-                      label="What icon are you looking for?"
-                      placeholder="Try searching for music, home, user, email..."
-                      variant="outlined"
-                      value={query}
-                      onChange={(e) => setQuery(e.target.value)}
-                      InputProps={{
-                        startAdornment: (
-                          <InputAdornment position="start">
-                            <SearchIcon sx={{ color: 'primary.main' }} />
-                          </InputAdornment>
-                        ),
-                        sx: {
-                          fontSize: '1.2vw', // Using viewport width units
-                          '& .MuiOutlinedInput-root': {
-                            borderRadius: 2,
-                          }
-                        }
-                      }}
-                      sx={{
-                        '& .MuiOutlinedInput-root': {
-                          backgroundColor: 'rgba(255,255,255,0.8)',
-                          '&:hover': {
-                            backgroundColor: 'rgba(255,255,255,0.9)',
-                          },
-                          '&.Mui-focused': {
-                            backgroundColor: 'white',
-                          }
-                        }
-                      }}
-                    />
+                    {/* Search input with typeahead suggestions */}
+                    <SearchTypeahead value={query} onChange={setQuery} onSearch={handleHistorySearch} />
                     
                     {/* Enhanced search button */}
                     <Button 
@@ -322,6 +308,13 @@ export default function Home() {
               </Paper>
             </Zoom>
 
+            {/* Saved and recent searches */}
+            <Fade in timeout={1400}>
+              <Box>
+                <SearchHistoryPanel onSelect={handleHistorySearch} />
+              </Box>
+            </Fade>
+
             {/* Popular searches section */}
             <Fade in timeout={1600}>
               <Box>
@@ -2,40 +2,71 @@
 
 // Import necessary hooks and components from Next.js and React
 import { useSearchParams } from 'next/navigation';
-import { useEffect, useState, Suspense } from 'react';
+import { useEffect, useState, useCallback, useRef, useMemo, useDeferredValue, Suspense } from 'react';
 import { useRouter } from 'next/navigation';
 
 // Import Material-UI components for UI design
 import {
   Typography,
   Card,
-  CardActionArea,
-  CardMedia,
   CircularProgress,
   Container,
   Box,
   Chip,
   IconButton,
-  Tooltip,
   Fade,
-  Zoom,
-  Alert,
   Skeleton,
   Button,
+  ButtonBase,
+  Collapse,
 } from '@mui/material';
 import Grid from '@mui/material/Grid';
 
 // Import Material-UI icons
 import {
   Search as SearchIcon,
-  Download as DownloadIcon,
   Favorite as FavoriteIcon,
-  FavoriteBorder as FavoriteBorderIcon,
   ArrowBack as ArrowBackIcon,
+  Checklist as ChecklistIcon,
+  ExpandLess as ExpandLessIcon,
+  ExpandMore as ExpandMoreIcon,
 } from '@mui/icons-material';
 
+// Import result cards and page components
+import SearchResultCard from '@/components/SearchResultCard';
+import IconGrid from '@/components/IconGrid';
+import IconPreviewDialog from '@/components/IconPreviewDialog';
+import BulkActionBar from '@/components/BulkActionBar';
+import UndoSnackbar from '@/components/UndoSnackbar';
+import { useIconSelection } from '@/useIconSelection';
+import { useScrollRestoration } from '@/useScrollRestoration';
+import { useFavorites } from '@/useFavorites';
+import { useSession } from '@/useSession';
+import AccountMenu from '@/components/AccountMenu';
+import SaveSearchButton from '@/components/SaveSearchButton';
+import { useSearchHistory } from '@/useSearchHistory';
+
 // Import custom type definitions
-import type { IconData } from '@/types';
+import type { IconData, IconSearchFilters, IconSearchResponse } from '@/types';
+
+// Import search filter helpers and panel
+import { applySearchFilters, parseSearchFilters } from '@/lib/searchFilters';
+import SearchFilterPanel from '@/components/SearchFilterPanel';
+
+// Import the advanced query parser and the chips showing its result
+import { parseSearchQuery } from '@/lib/searchQuery';
+import SearchQueryChips from '@/components/SearchQueryChips';
+
+// Import client-side sorting and grouping of the results
+import { applySearchView, groupSearchResults, parseSearchView, sortSearchResults, type SearchView } from '@/lib/searchView';
+import SearchViewControls from '@/components/SearchViewControls';
+
+// Import API helpers and error display
+import { ApiRequestError, fetchJson, isAbortError } from '@/lib/apiClient';
+import ApiErrorAlert from '@/components/ApiErrorAlert';
+
+// Number of icons requested per page
+const PAGE_SIZE = 48;
 
 /**
  * SearchContent Component
@@ -43,216 +74,286 @@ import type { IconData } from '@/types';
  * This component handles the main search functionality and icon display.
  * It's separated from the main component because it uses useSearchParams(),
  * which requires being wrapped in a Suspense boundary for proper SSR/SSG support.
- * Now includes integrated favorites management with localStorage persistence.
+ * Favorites are read and updated through the shared useFavorites store.
  */
 function SearchContent() {
   // Extract search parameters from URL using Next.js hook
   const searchParams = useSearchParams();
   const query = searchParams.get('q'); // Get the 'q' parameter from URL
+
+  // Search filters live in the URL next to 'q' so they survive reloads; they only
+  // change identity with their key, not when the sort or grouping changes
+  const filtersKey = applySearchFilters(parseSearchFilters(new URLSearchParams(searchParams.toString()))).toString();
+  const filters = useMemo(() => parseSearchFilters(new URLSearchParams(filtersKey)), [filtersKey]);
+  const parsedQuery = useMemo(() => parseSearchQuery(query ?? ''), [query]); // Qualifiers, exclusions and errors
+  const searchKey = `${query}|${filtersKey}`; // Identifies the current query and filters
   
   // Router for navigation
   const router = useRouter();
 
+  // Favorites shared with every other page; they follow the active workspace
+  const { isFavorite, toggleFavorite, getFavoriteCount, canEdit } = useFavorites();
+  const { activeWorkspace } = useSession();
+
+  // Searches are remembered in this browser unless the history is paused
+  const { recordSearch } = useSearchHistory();
+
   // State management for component data and UI states
   const [icons, setIcons] = useState<IconData[]>([]); // Store fetched icons
   const [loading, setLoading] = useState(false); // Track loading state
-  const [error, setError] = useState<string | null>(null); // Store error messages
-  const [favorites, setFavorites] = useState<Set<string>>(new Set()); // Store favorite icon IDs
-  const [favoriteIcons, setFavoriteIcons] = useState<IconData[]>([]); // Store complete favorite icons data
-  const [isClient, setIsClient] = useState(false); // Track if we're on client side
+  const [error, setError] = useState<ApiRequestError | null>(null); // Store the last search error
+  const [retryCount, setRetryCount] = useState(0); // Incremented to repeat the current search
+  const [totalCount, setTotalCount] = useState(0); // Total results reported by the API
+  const [postFiltered, setPostFiltered] = useState(false); // Whether the total counts icons before query checks
+  const [nextOffset, setNextOffset] = useState<number | null>(null); // Offset of the next page, null when done
+  const [loadingMore, setLoadingMore] = useState(false); // Track loading of additional pages
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null); // Error while loading more pages
+
+  // Refs used by infinite scrolling
+  const sentinelRef = useRef<HTMLDivElement | null>(null); // Element observed at the end of the grid
+  const loadingMoreRef = useRef(false); // Guards against concurrent page requests
+  const searchKeyRef = useRef(searchKey); // Latest query and filters, used to discard stale pages
+
+  // Sort order and grouping of the loaded results, also kept in the URL
+  const view = useMemo(
+    () => parseSearchView(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+  // Sorting hundreds of icons can wait until the select has closed
+  const deferredView = useDeferredValue(view);
+  const groups = useMemo(
+    () => groupSearchResults(sortSearchResults(icons, deferredView.sort), deferredView.group),
+    [icons, deferredView]
+  );
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set()); // Keys of collapsed groups
+  const [previewId, setPreviewId] = useState<string | null>(null); // Icon shown in the quick-look preview
+
+  // Icons the preview steps through: those shown, in display order
+  const previewIcons = useMemo(
+    () => groups.filter(group => !collapsedGroups.has(group.key)).flatMap(group => group.icons),
+    [groups, collapsedGroups]
+  );
+
+  // Multi-select for bulk downloads, in the order icons are displayed
+  const orderedIds = useMemo(() => groups.flatMap(group => group.icons.map(icon => icon.id)), [groups]);
+  const {
+    selectionMode,
+    selected,
+    setSelectionMode,
+    handleSelect,
+    isSelected,
+    selectAll,
+    clearSelection,
+  } = useIconSelection(orderedIds);
+
+  // Come back to the same place in the results after opening an icon
+  useScrollRestoration(`/search?${searchParams}`, !loading && icons.length > 0);
 
   /**
-   * Initialize client-side state and load favorites from localStorage
+   * Fetch a single page of results for the current query
+   *
+   * @param offset - Offset of the first result to fetch
+   * @param signal - Abort signal used to cancel stale requests
+   * @returns The paginated search response
    */
-  useEffect(() => {
-    setIsClient(true);
-    
-    try {
-      // Load favorite IDs from localStorage
-      const savedFavorites = localStorage.getItem('iconFavorites');
-      if (savedFavorites) {
-        const favoriteIds = JSON.parse(savedFavorites);
-        setFavorites(new Set(favoriteIds));
-      }
-
-      // Load favorite icons data from localStorage
-      const savedIconsData = localStorage.getItem('favoriteIconsData');
-      if (savedIconsData) {
-        const iconsData = JSON.parse(savedIconsData);
-        setFavoriteIcons(iconsData);
-      }
-    } catch (error) {
-      console.error('Error loading favorites from localStorage:', error);
-    }
-  }, []);
+  const fetchPage = useCallback(async (offset: number, signal?: AbortSignal) => {
+    const params = new URLSearchParams(filtersKey);
+    params.set('q', query || '');
+    params.set('count', String(PAGE_SIZE));
+    params.set('offset', String(offset));
+    return fetchJson<IconSearchResponse>(`/api/icons?${params}`, { signal });
+  }, [query, filtersKey]);
 
   /**
-   * Effect hook to fetch icons when query changes
-   * Triggers API call whenever the search query is updated
+   * Effect hook to fetch icons when query or filters change
+   * Triggers API call whenever the search query or filters are updated and
+   * resets any previously loaded pages
    */
   useEffect(() => {
     // Don't fetch if no query is provided
     if (!query) return;
 
-    // Set loading state and clear any previous errors
+    // Cancel the request if the query changes before it completes
+    const controller = new AbortController();
+    loadingMoreRef.current = false;
+
+    // Set loading state and clear any previous errors and results
     setLoading(true);
     setError(null);
-    
-    // Fetch icons from the API endpoint
-    fetch(`/api/icons?q=${encodeURIComponent(query)}`)
-      .then((res) => {
-        // Check if the response is successful
-        if (!res.ok) throw new Error('Failed to fetch icons');
-        return res.json();
-      })
+    setIcons([]);
+    setTotalCount(0);
+    setNextOffset(null);
+    setLoadMoreError(null);
+
+    // Fetch the first page of icons from the API endpoint
+    fetchPage(0, controller.signal)
       .then((data) => {
         // Update icons state with fetched data
         setIcons(data.icons || []);
+        setTotalCount(data.total_count);
+        setPostFiltered(data.post_filtered);
+        setNextOffset(data.next_offset);
         setLoading(false);
       })
       .catch((err) => {
+        if (controller.signal.aborted || isAbortError(err)) return;
         // Handle any errors during the fetch process
         console.error('Error fetching icons:', err);
-        setError(err.message);
+        setError(ApiRequestError.from(err));
         setLoading(false);
       });
-  }, [query]); // Dependency array - effect runs when query changes
+
+    return () => controller.abort();
+  }, [query, fetchPage, retryCount]); // Dependency array - effect runs when query or filters change, or on retry
 
   /**
-   * Save favorites to localStorage
-   * 
-   * @param newFavorites - Set of favorite icon IDs
-   * @param newIconsData - Array of complete icon data
+   * Load the next page of results and append it to the grid
+   * Icons that are already loaded are skipped to avoid duplicates
    */
-  const saveFavoritesToStorage = (newFavorites: Set<string>, newIconsData: IconData[]) => {
-    if (!isClient) return;
-    
-    try {
-      localStorage.setItem('iconFavorites', JSON.stringify([...newFavorites]));
-      localStorage.setItem('favoriteIconsData', JSON.stringify(newIconsData));
-    } catch (error) {
-      console.error('Error saving favorites to localStorage:', error);
-    }
-  };
+  const loadMore = useCallback(() => {
+    if (nextOffset === null || loadingMoreRef.current) return;
+
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setLoadMoreError(null);
+
+    const requestedKey = searchKey;
+    fetchPage(nextOffset)
+      .then((data) => {
+        // Ignore pages that arrive after the query or filters have changed
+        if (requestedKey !== searchKeyRef.current) return;
+
+        setIcons(prev => {
+          const loadedIds = new Set(prev.map(icon => icon.id?.toString()));
+          const newIcons = (data.icons || []).filter(icon => !loadedIds.has(icon.id?.toString()));
+          return [...prev, ...newIcons];
+        });
+        setTotalCount(data.total_count);
+        setNextOffset(data.next_offset);
+      })
+      .catch((err) => {
+        console.error('Error loading more icons:', err);
+        setLoadMoreError(err.message);
+      })
+      .finally(() => {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      });
+  }, [nextOffset, searchKey, fetchPage]);
 
   /**
-   * Toggle favorite status for an icon
-   * 
-   * @param icon - The icon data object to toggle favorite status
-   * @param e - The mouse event to prevent default behavior
+   * Keep track of the latest query and filters so late responses can be discarded
    */
-  const handleToggleFavorite = (icon: IconData, e: React.MouseEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    
-    // Generate a unique ID if the icon doesn't have one
-    let iconId = icon.id?.toString();
-    if (!iconId) {
-      // Create a unique ID based on icon properties
-      iconId = `icon_${icon.name || 'unknown'}_${icon.tags?.[0] || 'notag'}_${Date.now()}`;
-      // Add the generated ID to the icon object
-      icon.id = iconId;
-      console.log('Generated ID for icon:', iconId);
-    }
+  useEffect(() => {
+    searchKeyRef.current = searchKey;
+  }, [searchKey]);
 
-    console.log('Toggling favorite for icon:', iconId, 'Current favorites:', [...favorites]);
+  /**
+   * Add each search to the search history
+   * filters keeps its identity while only the sort or grouping changes, so
+   * that records nothing.
+   */
+  useEffect(() => {
+    if (query) recordSearch(query, filters);
+  }, [query, filters, recordSearch]);
 
-    setFavorites(prev => {
-      const newFavorites = new Set(prev);
-      let newIconsData = [...favoriteIcons];
-      
-      if (newFavorites.has(iconId)) {
-        // Remove from favorites
-        console.log('Removing from favorites:', iconId);
-        newFavorites.delete(iconId);
-        newIconsData = favoriteIcons.filter(favIcon => {
-          const favIconId = favIcon.id?.toString() || `icon_${favIcon.name || 'unknown'}_${favIcon.tags?.[0] || 'notag'}`;
-          return favIconId !== iconId;
-        });
-      } else {
-        // Add to favorites
-        console.log('Adding to favorites:', iconId);
-        newFavorites.add(iconId);
-        // Check if icon already exists to prevent duplicates
-        const iconExists = favoriteIcons.some(favIcon => {
-          const favIconId = favIcon.id?.toString() || `icon_${favIcon.name || 'unknown'}_${favIcon.tags?.[0] || 'notag'}`;
-          return favIconId === iconId;
-        });
-        if (!iconExists) {
-          newIconsData = [...favoriteIcons, icon];
-        }
-      }
-      
-      console.log('New favorites:', [...newFavorites]);
-      console.log('New icons data count:', newIconsData.length);
-      
-      setFavoriteIcons(newIconsData);
-      saveFavoritesToStorage(newFavorites, newIconsData);
-      return newFavorites;
-    });
-  };
+  /**
+   * Drop the selection when a new search replaces the results
+   */
+  useEffect(() => {
+    clearSelection();
+  }, [searchKey, clearSelection]);
 
   /**
-   * Check if an icon is in favorites
-   * 
-   * @param iconId - The ID of the icon to check
-   * @returns boolean indicating if the icon is favorited
+   * Write updated filters into the URL, keeping the current query
+   *
+   * @param newFilters - The filters selected in the filter panel
    */
-  const isFavorite = (iconId: string) => {
-    return favorites.has(iconId);
+  const handleFiltersChange = (newFilters: IconSearchFilters) => {
+    const params = applySearchFilters(newFilters, new URLSearchParams(searchParams.toString()));
+    router.replace(`/search?${params}`, { scroll: false });
   };
 
   /**
-   * Generate or get icon ID for consistent identification
-   * 
-   * @param icon - The icon object
-   * @param index - The index as fallback
-   * @returns string - unique identifier for the icon
+   * Run the search again with an edited query, e.g. after removing a chip
+   * Removing everything goes back to the home page.
+   *
+   * @param newQuery - The edited query
    */
-  const getIconId = (icon: IconData, index: number) => {
-    if (icon.id) {
-      return icon.id.toString();
+  const handleQueryChange = (newQuery: string) => {
+    if (!newQuery) {
+      router.push('/');
+      return;
     }
-    // Generate a consistent ID based on icon properties
-    return `icon_${icon.name || 'unknown'}_${icon.tags?.[0] || 'notag'}_${index}`;
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('q', newQuery);
+    router.replace(`/search?${params}`, { scroll: false });
   };
 
   /**
-   * Get the total count of favorite icons
-   * 
-   * @returns Number of favorite icons
+   * Observe the sentinel below the grid and load the next page
+   * when it scrolls into view
    */
-  const getFavoriteCount = () => {
-    return favorites.size;
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || nextOffset === null || loadMoreError) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadMore();
+        }
+      },
+      { rootMargin: '400px' } // Start loading before the user reaches the bottom
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, nextOffset, loadMoreError, loading]);
+
+  /**
+   * Write a new sort order or grouping into the URL
+   *
+   * @param newView - The view chosen in the controls
+   */
+  const handleViewChange = (newView: SearchView) => {
+    const params = applySearchView(newView, new URLSearchParams(searchParams.toString()));
+    router.replace(`/search?${params}`, { scroll: false });
   };
 
   /**
-   * Handle icon download functionality
-   * Creates a temporary download link and triggers the download
-   * 
-   * @param icon - The icon data object containing download information
-   * @param e - The mouse event to prevent default behavior
+   * Collapse or expand a group of results
+   *
+   * @param key - Key of the group
    */
-  const handleDownload = (icon: IconData, e: React.MouseEvent) => {
-    // Prevent the card click event from triggering
-    e.preventDefault();
-    e.stopPropagation();
-    
-    // Get the largest available raster size for best quality
-    const largestRaster = icon.raster_sizes?.[icon.raster_sizes.length - 1];
-    const downloadUrl = largestRaster?.formats?.[0]?.preview_url;
-    
-    // If download URL is available, create and trigger download
-    if (downloadUrl) {
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = `${icon.name || 'icon'}.png`; // Set filename
-      document.body.appendChild(link);
-      link.click(); // Trigger download
-      document.body.removeChild(link); // Clean up
-    }
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
   };
 
+  /**
+   * Render the card of a single result
+   *
+   * @param icon - The icon to render
+   */
+  const renderIconCard = (icon: IconData) => (
+    <SearchResultCard
+      icon={icon}
+      isFavorite={isFavorite(icon.id)}
+      isSelected={isSelected(icon.id)}
+      selectionMode={selectionMode}
+      canEdit={canEdit}
+      favoritesName={activeWorkspace?.name ?? 'Favorites'}
+      onToggleFavorite={toggleFavorite}
+      onSelect={handleSelect}
+      onPreview={setPreviewId}
+    />
+  );
+
   /**
    * Navigate back to home page
    */
@@ -332,65 +433,91 @@ function SearchContent() {
             </Typography>
           </Box>
 
-          {/* Favorites button */}
-          <Button
-            variant="outlined"
-            startIcon={<FavoriteIcon />}
-            onClick={handleGoToFavorites}
-            sx={{
-              borderColor: '#1976d2', // Blue to match theme
-              color: '#1976d2',
-              '&:hover': {
-                borderColor: '#1565c0',
-                backgroundColor: 'rgba(25, 118, 210, 0.04)',
-              }
-            }}
-          >
-            {getFavoriteCount() > 0 && (
-              <Chip 
-                label={getFavoriteCount()} 
-                size="small" 
-                sx={{ 
-                  ml: 1, 
-                  bgcolor: '#1976d2', // Blue to match theme
-                  color: 'white',
-                  fontSize: '0.75rem',
-                  height: 20
-                }} 
-              />
-            )}
-            Favorites
-          </Button>
+          {/* Account and favorites buttons */}
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <AccountMenu />
+            <Button
+              variant="outlined"
+              startIcon={<FavoriteIcon />}
+              onClick={handleGoToFavorites}
+              sx={{
+                borderColor: '#1976d2', // Blue to match theme
+                color: '#1976d2',
+                '&:hover': {
+                  borderColor: '#1565c0',
+                  backgroundColor: 'rgba(25, 118, 210, 0.04)',
+                }
+              }}
+            >
+              {getFavoriteCount() > 0 && (
+                <Chip 
+                  label={getFavoriteCount()} 
+                  size="small" 
+                  sx={{ 
+                    ml: 1, 
+                    bgcolor: '#1976d2', // Blue to match theme
+                    color: 'white',
+                    fontSize: '0.75rem',
+                    height: 20
+                  }} 
+                />
+              )}
+              {activeWorkspace ? activeWorkspace.name : 'Favorites'}
+            </Button>
+          </Box>
         </Box>
         
-        {/* Display current search query */}
+        {/* Display current search query, with a button to save it */}
         {query && (
-          <Typography 
-            variant="h5" 
-            color="text.secondary"
-            sx={{ mb: 1 }}
-          >
-            You are searching: "{query}"
-          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+            <Typography 
+              variant="h5" 
+              color="text.secondary"
+            >
+              You are searching: "{query}"
+            </Typography>
+            <SaveSearchButton query={query} filters={filters} />
+          </Box>
         )}
         
-        {/* Display results count when not loading and results exist */}
+        {/* Display results count and selection toggle when not loading and results exist */}
         {!loading && icons.length > 0 && (
-          <Chip 
-            label={`We found ${icons.length} icons for "${query}"`}
-            color="primary"
-            variant="outlined"
-            sx={{ fontSize: '0.9rem' }}
-          />
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1 }}>
+            <Chip 
+              label={postFiltered
+                ? `Showing ${icons.length} icons for "${query}" (of ${totalCount} before filtering)`
+                : `Showing ${icons.length} of ${totalCount} icons for "${query}"`}
+              color="primary"
+              variant="outlined"
+              sx={{ fontSize: '0.9rem' }}
+            />
+            <Button
+              size="small"
+              variant={selectionMode ? 'contained' : 'text'}
+              startIcon={<ChecklistIcon />}
+              onClick={() => setSelectionMode(!selectionMode)}
+            >
+              {selectionMode ? 'Selecting' : 'Select'}
+            </Button>
+          </Box>
         )}
       </Box>
 
+      {/* Search filters */}
+      <SearchFilterPanel filters={filters} onChange={handleFiltersChange} />
+
+      {/* Parsed query as removable chips, with any parts that were not understood */}
+      {query && <SearchQueryChips query={query} parsed={parsedQuery} onChange={handleQueryChange} />}
+
+      {/* Sort order and grouping of the loaded results */}
+      {!loading && icons.length > 0 && <SearchViewControls view={view} onChange={handleViewChange} />}
+
       {/* Error Display Section */}
       {error && (
         <Fade in>
-          <Alert severity="error" sx={{ mb: 3, borderRadius: 2 }}>
-            {error}
-          </Alert>
+          <Box>
+            <ApiErrorAlert error={error} onRetry={() => setRetryCount(count => count + 1)} />
+          </Box>
         </Fade>
       )}
 
@@ -425,220 +552,79 @@ function SearchContent() {
                 </Typography>
               </Box>
             ) : (
-              /* Icons grid display */
-              <Grid container spacing={3}>
-                {icons.map((icon, index) => {
-                  // Extract icon data for rendering
-                  const largestRaster = icon.raster_sizes?.[icon.raster_sizes.length - 1];
-                  const previewUrl = largestRaster?.formats?.[0]?.preview_url;
-                  const iconId = getIconId(icon, index); // Use the new helper function
-                  const isIconFavorite = isFavorite(iconId);
-
-                  return (
-                    <Grid key={iconId} size={{ xs: 6, sm: 4, md: 3, lg: 2 }}>
-                      {/* Zoom animation for each card */}
-                      <Zoom in timeout={300 + index * 50}>
-                        <Card
-                          elevation={0}
-                          sx={{
-                            border: '1px solid',
-                            borderColor: 'divider',
-                            borderRadius: 2,
-                            transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
-                            position: 'relative',
-                            overflow: 'hidden',
-                            // Hover effects for the card
-                            '&:hover': {
-                              borderColor: 'primary.main',
-                              boxShadow: '0 8px 25px rgba(25, 118, 210, 0.15)',
-                              transform: 'translateY(-4px)',
-                            },
-                          }}
-                        >
-                          {/* Action buttons (favorite and download) */}
-                          <Box
-                            sx={{
-                              position: 'absolute',
-                              top: 8,
-                              right: 8,
-                              zIndex: 2,
-                              display: 'flex',
-                              gap: 0.5,
-                              opacity: 0, // Hidden by default
-                              transition: 'opacity 0.2s',
-                              // Show on card hover
-                              '.MuiCard-root:hover &': {
-                                opacity: 1,
-                              },
-                            }}
-                          >
-                            {/* Favorite toggle button */}
-                            <Tooltip title={isIconFavorite ? "Remove from Favorites" : "Add to Favorites"}>
-                              <IconButton
-                                size="small"
-                                onClick={(e) => handleToggleFavorite(icon, e)}
-                                sx={{
-                                  bgcolor: 'rgba(255, 255, 255, 0.9)',
-                                  backdropFilter: 'blur(8px)', // Glass effect
-                                  '&:hover': {
-                                    bgcolor: 'rgba(255, 255, 255, 1)',
-                                  },
-                                }}
-                              >
-                                {isIconFavorite ? (
-                                  <FavoriteIcon sx={{ fontSize: 16, color: 'error.main' }} />
-                                ) : (
-                                  <FavoriteBorderIcon sx={{ fontSize: 16 }} />
-                                )}
-                              </IconButton>
-                            </Tooltip>
-                            
-                            {/* Download button */}
-                            <Tooltip title="Download Icon">
-                              <IconButton
-                                size="small"
-                                onClick={(e) => handleDownload(icon, e)}
-                                sx={{
-                                  bgcolor: 'rgba(255, 255, 255, 0.9)',
-                                  backdropFilter: 'blur(8px)', // Glass effect
-                                  '&:hover': {
-                                    bgcolor: 'rgba(255, 255, 255, 1)',
-                                  },
-                                }}
-                              >
-                                <DownloadIcon sx={{ fontSize: 16 }} />
-                              </IconButton>
-                            </Tooltip>
-                          </Box>
-
-                          {/* Main card content area */}
-                          <CardActionArea
-                            component="a"
-                            href={previewUrl || '#'}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            sx={{
-                              height: '100%',
-                              display: 'flex',
-                              flexDirection: 'column',
-                            }}
-                          >
-                            {/* Icon image display area */}
-                            <Box
-                              sx={{
-                                height: 160,
-                                display: 'flex',
-                                alignItems: 'center',
-                                justifyContent: 'center',
-                                // Gradient background for icon area
-                                background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
-                                position: 'relative',
-                                overflow: 'hidden',
-                              }}
-                            >
-                              <CardMedia
-                                component="img"
-                                image={previewUrl}
-                                alt={icon.tags?.[0] || icon.name || 'icon'}
-                                sx={{
-                                  maxWidth: '80%',
-                                  maxHeight: '80%',
-                                  objectFit: 'contain',
-                                  transition: 'transform 0.3s ease',
-                                  // Scale effect on hover
-                                  '&:hover': {
-                                    transform: 'scale(1.1)',
-                                  },
-                                }}
-                              />
-                              
-                              {/* Favorite indicator */}
-                              {isIconFavorite && (
-                                <Box
-                                  sx={{
-                                    position: 'absolute',
-                                    top: 8,
-                                    left: 8,
-                                    bgcolor: 'rgba(25, 118, 210, 0.9)', // Blue to match theme
-                                    borderRadius: '50%',
-                                    width: 24,
-                                    height: 24,
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    justifyContent: 'center',
-                                  }}
-                                >
-                                  <FavoriteIcon sx={{ fontSize: 14, color: 'white' }} />
-                                </Box>
-                              )}
-                            </Box>
-
-                            {/* Icon information section */}
-                            <Box sx={{ p: 1.5, flexGrow: 1 }}>
-                              {/* Icon name display */}
-                              {icon.name && (
-                                <Typography
-                                  variant="body2"
-                                  sx={{
-                                    fontWeight: 500,
-                                    mb: 0.5,
-                                    overflow: 'hidden',
-                                    textOverflow: 'ellipsis',
-                                    whiteSpace: 'nowrap',
-                                  }}
-                                >
-                                  {icon.name}
-                                </Typography>
-                              )}
-                              
-                              {/* Icon tags display */}
-                              {icon.tags && icon.tags.length > 0 && (
-                                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
-                                  {/* Display first 2 tags */}
-                                  {icon.tags.slice(0, 2).map((tag, tagIndex) => (
-                                    <Chip
-                                      key={tagIndex}
-                                      label={tag}
-                                      size="small"
-                                      variant="outlined"
-                                      sx={{
-                                        fontSize: '0.7rem',
-                                        height: 20,
-                                        borderRadius: 1,
-                                        bgcolor: 'rgba(25, 118, 210, 0.04)',
-                                        borderColor: 'rgba(25, 118, 210, 0.2)',
-                                      }}
-                                    />
-                                  ))}
-                                  {/* Show additional tags count if more than 2 */}
-                                  {icon.tags.length > 2 && (
-                                    <Chip
-                                      label={`+${icon.tags.length - 2}`}
-                                      size="small"
-                                      variant="outlined"
-                                      sx={{
-                                        fontSize: '0.7rem',
-                                        height: 20,
-                                        borderRadius: 1,
-                                        bgcolor: 'rgba(158, 158, 158, 0.04)',
-                                        borderColor: 'rgba(158, 158, 158, 0.2)',
-                                      }}
-                                    />
-                                  )}
-                                </Box>
-                              )}
-                            </Box>
-                          </CardActionArea>
-                        </Card>
-                      </Zoom>
-                    </Grid>
-                  );
-                })}
-              </Grid>
+              /* Icons grid display, in groups with collapsible headers when grouping */
+              groups.map(group => {
+                const collapsed = collapsedGroups.has(group.key);
+                const grid = <IconGrid icons={group.icons} renderCard={renderIconCard} />;
+
+                if (deferredView.group === 'none') return <Box key={group.key}>{grid}</Box>;
+
+                return (
+                  <Box key={group.key} sx={{ mb: 3 }}>
+                    <ButtonBase
+                      onClick={() => toggleGroup(group.key)}
+                      aria-expanded={!collapsed}
+                      sx={{
+                        width: '100%',
+                        justifyContent: 'flex-start',
+                        gap: 1,
+                        py: 1,
+                        mb: 1.5,
+                        borderBottom: '1px solid',
+                        borderColor: 'divider',
+                        textAlign: 'left',
+                      }}
+                    >
+                      {collapsed ? <ExpandMoreIcon color="action" /> : <ExpandLessIcon color="action" />}
+                      <Typography variant="h6" sx={{ fontWeight: 600 }}>
+                        {group.label}
+                      </Typography>
+                      <Chip label={group.icons.length} size="small" />
+                    </ButtonBase>
+                    {/* Collapsed groups are not rendered at all */}
+                    <Collapse in={!collapsed} unmountOnExit>
+                      {grid}
+                    </Collapse>
+                  </Box>
+                );
+              })
+            )}
+
+            {/* Infinite scroll sentinel and pagination status */}
+            {icons.length > 0 && (
+              <Box ref={sentinelRef} sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                {loadingMore && <CircularProgress size={32} thickness={4} />}
+                {!loadingMore && loadMoreError && (
+                  <Button variant="outlined" onClick={loadMore}>
+                    Couldn't load more icons. Try again
+                  </Button>
+                )}
+                {!loadingMore && !loadMoreError && nextOffset === null && (
+                  <Typography variant="body2" color="text.disabled">
+                    You have reached the end of the results
+                  </Typography>
+                )}
+              </Box>
             )}
           </Box>
         </Fade>
       )}
+
+      {/* Bulk actions for the selected icons */}
+      <BulkActionBar
+        open={selectionMode}
+        selectedIds={orderedIds.filter(id => selected.has(id))}
+        totalCount={orderedIds.length}
+        onSelectAll={selectAll}
+        onClear={clearSelection}
+        onClose={() => setSelectionMode(false)}
+      />
+
+      {/* Quick look at an icon, opened from its card */}
+      <IconPreviewDialog icons={previewIcons} iconId={previewId} onChange={setPreviewId} />
+
+      {/* Undo for accidental favorite changes */}
+      <UndoSnackbar />
     </Container>
   );
 }
@@ -0,0 +1,118 @@
+'use client';
+
+// Import React hook for state management
+import { useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Button,
+  Divider,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  type SxProps,
+  type Theme,
+} from '@mui/material';
+
+// Import Material-UI icons
+import {
+  AccountCircle as AccountIcon,
+  Add as AddIcon,
+  Check as CheckIcon,
+  Groups as GroupsIcon,
+  Logout as LogoutIcon,
+  Settings as SettingsIcon,
+} from '@mui/icons-material';
+
+import AuthDialog from '@/components/AuthDialog';
+import WorkspaceDialog from '@/components/WorkspaceDialog';
+import { useSession } from '@/useSession';
+
+interface AccountMenuProps {
+  buttonSx?: SxProps<Theme>;
+}
+
+/**
+ * AccountMenu Component
+ *
+ * Sign-in button, or the signed-in user's menu for switching between
+ * personal favorites and team workspaces. Renders nothing when the
+ * server has accounts disabled.
+ */
+export default function AccountMenu({ buttonSx }: AccountMenuProps) {
+  const { loaded, enabled, user, workspaces, activeWorkspace, role, setActiveWorkspace, signOut } = useSession();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null); // Anchor of the menu
+  const [authOpen, setAuthOpen] = useState(false); // Sign-in dialog visibility
+  const [workspaceDialog, setWorkspaceDialog] = useState<'new' | 'manage' | null>(null); // Open workspace dialog
+
+  if (!loaded || !enabled) return null;
+
+  if (!user) {
+    return (
+      <>
+        <Button variant="outlined" startIcon={<AccountIcon />} onClick={() => setAuthOpen(true)} sx={buttonSx}>
+          Sign in
+        </Button>
+        <AuthDialog open={authOpen} onClose={() => setAuthOpen(false)} />
+      </>
+    );
+  }
+
+  const select = (workspaceId: string | null) => {
+    setActiveWorkspace(workspaceId);
+    setAnchorEl(null);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={activeWorkspace ? <GroupsIcon /> : <AccountIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        sx={buttonSx}
+      >
+        {activeWorkspace ? activeWorkspace.name : user.username}
+      </Button>
+
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={() => select(null)}>
+          <ListItemIcon>{!activeWorkspace && <CheckIcon fontSize="small" />}</ListItemIcon>
+          <ListItemText primary="Personal favorites" secondary={user.username} />
+        </MenuItem>
+        {workspaces.map(workspace => (
+          <MenuItem key={workspace.id} onClick={() => select(workspace.id)}>
+            <ListItemIcon>{workspace.id === activeWorkspace?.id && <CheckIcon fontSize="small" />}</ListItemIcon>
+            <ListItemText
+              primary={workspace.name}
+              secondary={`${workspace.members.length} member${workspace.members.length === 1 ? '' : 's'} · ${
+                workspace.members.find(member => member.userId === user.id)?.role ?? ''
+              }`}
+            />
+          </MenuItem>
+        ))}
+        <Divider />
+        {activeWorkspace && (
+          <MenuItem onClick={() => { setWorkspaceDialog('manage'); setAnchorEl(null); }}>
+            <ListItemIcon><SettingsIcon fontSize="small" /></ListItemIcon>
+            <ListItemText primary={role === 'owner' ? 'Manage workspace' : 'Workspace members'} />
+          </MenuItem>
+        )}
+        <MenuItem onClick={() => { setWorkspaceDialog('new'); setAnchorEl(null); }}>
+          <ListItemIcon><AddIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="New workspace" />
+        </MenuItem>
+        <MenuItem onClick={() => { setAnchorEl(null); signOut().catch(error => console.error('Error signing out:', error)); }}>
+          <ListItemIcon><LogoutIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Sign out" />
+        </MenuItem>
+      </Menu>
+
+      <WorkspaceDialog
+        open={workspaceDialog !== null}
+        workspace={workspaceDialog === 'manage' ? activeWorkspace : null}
+        onClose={() => setWorkspaceDialog(null)}
+      />
+    </>
+  );
+}
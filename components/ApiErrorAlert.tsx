@@ -0,0 +1,144 @@
+'use client';
+
+// Import Material-UI components for UI design
+import { Alert, AlertTitle, Button } from '@mui/material';
+
+// Import Material-UI icons
+import { Refresh as RefreshIcon } from '@mui/icons-material';
+
+import type { ApiRequestError } from '@/lib/apiClient';
+import type { ApiErrorCode } from '@/types';
+
+interface ApiErrorAlertProps {
+  // An ApiRequestError, or the plain error details when rendered from a server component
+  error: Pick<ApiRequestError, 'code' | 'retryable' | 'retryAfter'>;
+  // Called by the retry button, which is only shown for retryable errors
+  onRetry?: () => void;
+}
+
+interface ErrorCopy {
+  title: string;
+  severity: 'error' | 'warning' | 'info';
+  // Explains what the user can do, given the retry delay
+  hint: (retryAfter: string) => string;
+}
+
+/**
+ * Describe how long the user should wait before trying again
+ *
+ * @param seconds - Retry delay sent by the API
+ * @returns A short human readable duration
+ */
+const formatRetryAfter = (seconds?: number) => {
+  if (!seconds) return 'a moment';
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// User facing copy for each error code
+const ERROR_COPY: Record<ApiErrorCode, ErrorCopy> = {
+  MISSING_QUERY: {
+    title: 'Nothing to search for',
+    severity: 'info',
+    hint: () => 'Type a word like "home" or "arrow" to find icons.',
+  },
+  INVALID_REQUEST: {
+    title: 'Invalid request',
+    severity: 'error',
+    hint: () => 'Check the search and filters and try again.',
+  },
+  NOT_FOUND: {
+    title: 'Not found',
+    severity: 'info',
+    hint: () => 'The icon may have been removed from the library.',
+  },
+  UNAUTHORIZED: {
+    title: 'Sign in required',
+    severity: 'info',
+    hint: () => 'Sign in to use workspaces.',
+  },
+  FORBIDDEN: {
+    title: 'Not allowed',
+    severity: 'warning',
+    hint: () => 'Your role in this workspace does not allow this. Ask a workspace owner for access.',
+  },
+  CONFLICT: {
+    title: 'Conflict',
+    severity: 'warning',
+    hint: () => 'The change clashes with existing data. Reload and try again.',
+  },
+  SERVER_MISCONFIGURED: {
+    title: 'Icon search is not set up',
+    severity: 'error',
+    hint: () => 'The server is missing its icon service configuration. Please contact the site administrator.',
+  },
+  UPSTREAM_AUTH_FAILED: {
+    title: 'Icon service access denied',
+    severity: 'error',
+    hint: () => 'The icon service rejected our API key. Please contact the site administrator.',
+  },
+  RATE_LIMITED: {
+    title: 'Slow down',
+    severity: 'warning',
+    hint: (retryAfter) => `You are searching faster than we allow. Please wait ${retryAfter} and try again.`,
+  },
+  QUOTA_EXHAUSTED: {
+    title: 'Search quota exhausted',
+    severity: 'warning',
+    hint: (retryAfter) =>
+      `We have used up our icon search quota for now. Searches will be available again in about ${retryAfter}. Previously cached results still work.`,
+  },
+  UPSTREAM_TIMEOUT: {
+    title: 'The icon service is slow',
+    severity: 'warning',
+    hint: () => 'The request took too long. Trying again usually helps.',
+  },
+  UPSTREAM_UNAVAILABLE: {
+    title: 'The icon service is unavailable',
+    severity: 'error',
+    hint: () => 'We could not reach the icon service. Check your connection or try again shortly.',
+  },
+  UPSTREAM_ERROR: {
+    title: 'The icon service refused the request',
+    severity: 'error',
+    hint: () => 'Try a different search or fewer filters.',
+  },
+  UPSTREAM_MALFORMED: {
+    title: 'Unexpected data from the icon service',
+    severity: 'error',
+    hint: () => 'The icon service sent results we could not read. Trying again may help.',
+  },
+  INTERNAL_ERROR: {
+    title: 'Something went wrong',
+    severity: 'error',
+    hint: () => 'An unexpected error occurred. Please try again.',
+  },
+};
+
+/**
+ * ApiErrorAlert Component
+ *
+ * Shows an actionable message for an API error, with a retry button
+ * when repeating the request may succeed.
+ */
+export default function ApiErrorAlert({ error, onRetry }: ApiErrorAlertProps) {
+  const copy = ERROR_COPY[error.code] ?? ERROR_COPY.INTERNAL_ERROR;
+
+  return (
+    <Alert
+      severity={copy.severity}
+      sx={{ mb: 3, borderRadius: 2 }}
+      action={
+        error.retryable && onRetry ? (
+          <Button color="inherit" size="small" startIcon={<RefreshIcon />} onClick={onRetry}>
+            Retry
+          </Button>
+        ) : undefined
+      }
+    >
+      <AlertTitle>{copy.title}</AlertTitle>
+      {copy.hint(formatRetryAfter(error.retryAfter))}
+    </Alert>
+  );
+}
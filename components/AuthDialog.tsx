@@ -0,0 +1,108 @@
+'use client';
+
+// Import React hooks for state management
+import { useEffect, useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Tab,
+  Tabs,
+  TextField,
+} from '@mui/material';
+
+import { ApiRequestError } from '@/lib/apiClient';
+import { useSession } from '@/useSession';
+
+type AuthMode = 'signIn' | 'register';
+
+interface AuthDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * AuthDialog Component
+ *
+ * Sign in with a username and password, or create an account.
+ */
+export default function AuthDialog({ open, onClose }: AuthDialogProps) {
+  const { signIn, register } = useSession();
+  const [mode, setMode] = useState<AuthMode>('signIn');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false); // Request in flight
+  const [error, setError] = useState<string | null>(null); // Message of the last failure
+
+  /**
+   * Start over whenever the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+    setMode('signIn');
+    setUsername('');
+    setPassword('');
+    setError(null);
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await (mode === 'signIn' ? signIn : register)(username, password);
+      onClose();
+    } catch (err) {
+      setError(ApiRequestError.from(err).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <form onSubmit={handleSubmit}>
+        <DialogTitle sx={{ pb: 0 }}>
+          <Tabs value={mode} onChange={(_, value: AuthMode) => setMode(value)} variant="fullWidth">
+            <Tab value="signIn" label="Sign in" />
+            <Tab value="register" label="Create account" />
+          </Tabs>
+        </DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ pt: 2 }}>
+            <TextField
+              label="Username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              autoFocus
+              required
+            />
+            <TextField
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+              helperText={mode === 'register' ? 'At least 8 characters' : undefined}
+              required
+            />
+            {error && <Alert severity="error">{error}</Alert>}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={submitting || !username || !password}>
+            {mode === 'signIn' ? 'Sign in' : 'Create account'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+// Import React hook for state management
+import { useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Slide,
+  Snackbar,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import {
+  Archive as ArchiveIcon,
+  Close as CloseIcon,
+  SelectAll as SelectAllIcon,
+} from '@mui/icons-material';
+
+import { downloadZip } from '@/lib/download';
+
+interface BulkActionBarProps {
+  open: boolean;
+  selectedIds: string[];
+  totalCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Raster sizes offered for PNG archives
+const PNG_SIZES = [16, 24, 32, 48, 64, 128, 256, 512];
+
+// Matches the limit enforced by /api/icons/bulk-download
+const MAX_ICONS = 50;
+
+/**
+ * BulkActionBar Component
+ *
+ * Bar pinned to the bottom of the screen while selecting icons. Lets the
+ * user pick a format and size and download the selection as a ZIP archive.
+ */
+export default function BulkActionBar({
+  open,
+  selectedIds,
+  totalCount,
+  onSelectAll,
+  onClear,
+  onClose,
+}: BulkActionBarProps) {
+  const [format, setFormat] = useState('svg'); // Preferred archive format
+  const [size, setSize] = useState(128); // Preferred raster size
+  const [downloading, setDownloading] = useState(false); // Track archive creation
+  const [error, setError] = useState<string | null>(null); // Last download error
+
+  const tooMany = selectedIds.length > MAX_ICONS;
+
+  /**
+   * Ask the server for a ZIP of the selected icons
+   */
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadZip({ ids: selectedIds, format, size: format === 'png' ? size : undefined });
+    } catch (err) {
+      console.error('Error downloading archive:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <>
+      <Slide direction="up" in={open} mountOnEnter unmountOnExit>
+        <Paper
+          elevation={8}
+          sx={{
+            position: 'fixed',
+            bottom: 24,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: 1200,
+            px: 3,
+            py: 1.5,
+            borderRadius: 3,
+            display: 'flex',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            gap: 2,
+            maxWidth: 'calc(100vw - 32px)',
+          }}
+        >
+          <Typography variant="body1" sx={{ fontWeight: 600 }}>
+            {selectedIds.length} selected
+          </Typography>
+
+          <Button size="small" startIcon={<SelectAllIcon />} onClick={onSelectAll} disabled={selectedIds.length === totalCount}>
+            Select all ({totalCount})
+          </Button>
+          <Button size="small" onClick={onClear} disabled={selectedIds.length === 0}>
+            Clear
+          </Button>
+
+          {/* Archive format */}
+          <FormControl size="small" sx={{ minWidth: 100 }}>
+            <InputLabel id="bulk-format-label">Format</InputLabel>
+            <Select
+              labelId="bulk-format-label"
+              label="Format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value)}
+            >
+              <MenuItem value="svg">SVG</MenuItem>
+              <MenuItem value="png">PNG</MenuItem>
+            </Select>
+          </FormControl>
+
+          {/* Raster size, only relevant for PNG */}
+          {format === 'png' && (
+            <FormControl size="small" sx={{ minWidth: 100 }}>
+              <InputLabel id="bulk-size-label">Size</InputLabel>
+              <Select
+                labelId="bulk-size-label"
+                label="Size"
+                value={size}
+                onChange={(e) => setSize(Number(e.target.value))}
+              >
+                {PNG_SIZES.map(option => (
+                  <MenuItem key={option} value={option}>{option}px</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Button
+              variant="contained"
+              startIcon={downloading ? <CircularProgress size={16} color="inherit" /> : <ArchiveIcon />}
+              disabled={selectedIds.length === 0 || tooMany || downloading}
+              onClick={handleDownload}
+            >
+              Download ZIP
+            </Button>
+            <Button color="inherit" startIcon={<CloseIcon />} onClick={onClose}>
+              Done
+            </Button>
+          </Box>
+
+          {tooMany && (
+            <Typography variant="caption" color="error" sx={{ width: '100%' }}>
+              Select at most {MAX_ICONS} icons per archive.
+            </Typography>
+          )}
+        </Paper>
+      </Slide>
+
+      <Snackbar
+        open={error !== null}
+        autoHideDuration={5000}
+        onClose={() => setError(null)}
+        message={`Download failed: ${error}`}
+      />
+    </>
+  );
+}
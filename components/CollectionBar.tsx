@@ -0,0 +1,265 @@
+'use client';
+
+// Import React hook for state management
+import { useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Snackbar,
+} from '@mui/material';
+
+// Import Material-UI icons
+import {
+  Add as AddIcon,
+  ArrowBack as ArrowBackIcon,
+  ArrowForward as ArrowForwardIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  MoreVert as MoreVertIcon,
+} from '@mui/icons-material';
+
+import CollectionDialog from '@/components/CollectionDialog';
+import { DEFAULT_COLLECTION_ID } from '@/lib/favoritesStore';
+import { useFavorites } from '@/useFavorites';
+import type { FavoriteCollection } from '@/types';
+
+// Drag data types for collections being reordered and icons being filed
+export const COLLECTION_DRAG_TYPE = 'application/x-iconvault-collection';
+export const ICON_DRAG_TYPE = 'application/x-iconvault-icon';
+
+interface CollectionBarProps {
+  // Collection being viewed, or null for all favorites
+  activeId: string | null;
+  onSelect: (collectionId: string | null) => void;
+}
+
+/**
+ * CollectionBar Component
+ *
+ * Row of collection chips on the favorites page. Chips filter the grid,
+ * can be dragged to reorder them and accept icons dropped from the grid:
+ * a drop moves the icon out of the collection being viewed, or copies it
+ * when viewing all favorites or holding Ctrl, Alt or Cmd.
+ */
+export default function CollectionBar({ activeId, onSelect }: CollectionBarProps) {
+  const {
+    collections,
+    favoriteIcons,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    reorderCollection,
+    copyToCollection,
+    moveToCollection,
+    canEdit,
+  } = useFavorites();
+
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null); // Anchor of the chip menu
+  const [menuCollection, setMenuCollection] = useState<FavoriteCollection | null>(null); // Collection the menu is for
+  const [dialogOpen, setDialogOpen] = useState(false); // Create/edit dialog visibility
+  const [editing, setEditing] = useState<FavoriteCollection | null>(null); // Collection being edited, null to create
+  const [deleting, setDeleting] = useState<FavoriteCollection | null>(null); // Collection awaiting delete confirmation
+  const [dropTarget, setDropTarget] = useState<string | null>(null); // Chip currently dragged over
+  const [message, setMessage] = useState<string | null>(null); // Feedback after a drop
+
+  const closeMenu = () => setMenuAnchor(null);
+
+  const handleSave = (details: { name: string; description?: string; color?: string }) => {
+    if (editing) {
+      updateCollection(editing.id, details);
+    } else {
+      onSelect(createCollection(details));
+    }
+    setDialogOpen(false);
+  };
+
+  const handleDelete = () => {
+    if (!deleting) return;
+    deleteCollection(deleting.id);
+    if (activeId === deleting.id) onSelect(null);
+    setDeleting(null);
+  };
+
+  /**
+   * Handle a collection or icon dropped on a collection chip
+   */
+  const handleDrop = (e: React.DragEvent, target: FavoriteCollection, index: number) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    const draggedCollection = e.dataTransfer.getData(COLLECTION_DRAG_TYPE);
+    if (draggedCollection) {
+      reorderCollection(draggedCollection, index);
+      return;
+    }
+
+    const iconId = e.dataTransfer.getData(ICON_DRAG_TYPE);
+    if (!iconId || target.id === activeId) return;
+
+    const copy = activeId === null || e.ctrlKey || e.altKey || e.metaKey;
+    if (copy) {
+      copyToCollection(iconId, target.id);
+    } else {
+      moveToCollection(iconId, activeId, target.id);
+    }
+    setMessage(`${copy ? 'Copied' : 'Moved'} to ${target.name}`);
+  };
+
+  const handleDragOver = (e: React.DragEvent, target: FavoriteCollection) => {
+    const types = e.dataTransfer.types;
+    if (!types.includes(COLLECTION_DRAG_TYPE) && !types.includes(ICON_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = types.includes(ICON_DRAG_TYPE)
+      && activeId !== null && !(e.ctrlKey || e.altKey || e.metaKey) ? 'move' : 'copy';
+    setDropTarget(target.id);
+  };
+
+  const menuIndex = menuCollection ? collections.findIndex(c => c.id === menuCollection.id) : -1;
+
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center', mb: 3 }}>
+      <Chip
+        label={`All (${favoriteIcons.length})`}
+        onClick={() => onSelect(null)}
+        color={activeId === null ? 'primary' : 'default'}
+        sx={{ bgcolor: activeId === null ? undefined : 'rgba(255,255,255,0.85)', fontWeight: 500 }}
+      />
+
+      {collections.map((collection, index) => {
+        const active = collection.id === activeId;
+        return (
+          <Chip
+            key={collection.id}
+            label={`${collection.name} (${collection.iconIds.length})`}
+            title={collection.description || undefined}
+            draggable={canEdit}
+            onDragStart={(e) => {
+              e.dataTransfer.setData(COLLECTION_DRAG_TYPE, collection.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={(e) => handleDragOver(e, collection)}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => handleDrop(e, collection, index)}
+            onClick={() => onSelect(collection.id)}
+            // Workspace viewers get no options menu
+            onDelete={canEdit ? (e) => {
+              setMenuAnchor((e.currentTarget as HTMLElement).closest('.MuiChip-root') as HTMLElement);
+              setMenuCollection(collection);
+            } : undefined}
+            deleteIcon={<MoreVertIcon aria-label={`${collection.name} options`} />}
+            sx={{
+              fontWeight: 500,
+              bgcolor: active ? collection.color : 'rgba(255,255,255,0.85)',
+              color: active ? 'white' : 'text.primary',
+              borderLeft: `6px solid ${collection.color}`,
+              outline: dropTarget === collection.id ? `2px dashed ${collection.color}` : 'none',
+              outlineOffset: 2,
+              '&:hover': { bgcolor: active ? collection.color : 'rgba(255,255,255,1)' },
+              '& .MuiChip-deleteIcon': { color: active ? 'rgba(255,255,255,0.8)' : undefined },
+            }}
+          />
+        );
+      })}
+
+      {canEdit && (
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={() => {
+            setEditing(null);
+            setDialogOpen(true);
+          }}
+          sx={{ color: 'white', borderRadius: 4 }}
+        >
+          New collection
+        </Button>
+      )}
+
+      {/* Options for a single collection */}
+      <Menu anchorEl={menuAnchor} open={Boolean(menuAnchor)} onClose={closeMenu}>
+        <MenuItem
+          onClick={() => {
+            setEditing(menuCollection);
+            setDialogOpen(true);
+            closeMenu();
+          }}
+        >
+          <ListItemIcon><EditIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Edit</ListItemText>
+        </MenuItem>
+        <MenuItem
+          disabled={menuIndex <= 0}
+          onClick={() => {
+            if (menuCollection) reorderCollection(menuCollection.id, menuIndex - 1);
+            closeMenu();
+          }}
+        >
+          <ListItemIcon><ArrowBackIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Move left</ListItemText>
+        </MenuItem>
+        <MenuItem
+          disabled={menuIndex === -1 || menuIndex >= collections.length - 1}
+          onClick={() => {
+            if (menuCollection) reorderCollection(menuCollection.id, menuIndex + 1);
+            closeMenu();
+          }}
+        >
+          <ListItemIcon><ArrowForwardIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Move right</ListItemText>
+        </MenuItem>
+        <MenuItem
+          disabled={menuCollection?.id === DEFAULT_COLLECTION_ID}
+          onClick={() => {
+            setDeleting(menuCollection);
+            closeMenu();
+          }}
+        >
+          <ListItemIcon><DeleteIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Delete</ListItemText>
+        </MenuItem>
+      </Menu>
+
+      <CollectionDialog
+        open={dialogOpen}
+        initial={editing ?? undefined}
+        onClose={() => setDialogOpen(false)}
+        onSave={handleSave}
+      />
+
+      {/* Delete confirmation */}
+      <Dialog open={deleting !== null} onClose={() => setDeleting(null)}>
+        <DialogTitle>Delete "{deleting?.name}"?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Icons that are not in any other collection will be moved to the trash.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleting(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={message !== null}
+        autoHideDuration={3000}
+        onClose={() => setMessage(null)}
+        message={message}
+      />
+    </Box>
+  );
+}
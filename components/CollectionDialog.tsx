@@ -0,0 +1,129 @@
+'use client';
+
+// Import React hooks for state management
+import { useEffect, useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { Check as CheckIcon } from '@mui/icons-material';
+
+import type { CollectionDetails } from '@/lib/favoritesStore';
+
+// Colors offered for collections
+export const COLLECTION_COLORS = [
+  '#1976d2',
+  '#9c27b0',
+  '#e91e63',
+  '#f44336',
+  '#ff9800',
+  '#4caf50',
+  '#009688',
+  '#607d8b',
+];
+
+interface CollectionDialogProps {
+  open: boolean;
+  // Values to edit; a new collection is created when omitted
+  initial?: CollectionDetails;
+  onClose: () => void;
+  onSave: (details: CollectionDetails) => void;
+}
+
+/**
+ * CollectionDialog Component
+ *
+ * Form for creating a collection or editing its name, description and color.
+ */
+export default function CollectionDialog({ open, initial, onClose, onSave }: CollectionDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [color, setColor] = useState(COLLECTION_COLORS[0]);
+
+  /**
+   * Reset the form whenever the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+    setName(initial?.name ?? '');
+    setDescription(initial?.description ?? '');
+    setColor(initial?.color ?? COLLECTION_COLORS[0]);
+  }, [open, initial]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({ name, description, color });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{initial ? 'Edit collection' : 'New collection'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ pt: 1 }}>
+            <TextField
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              required
+              slotProps={{ htmlInput: { maxLength: 60 } }}
+            />
+            <TextField
+              label="Description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              multiline
+              minRows={2}
+              slotProps={{ htmlInput: { maxLength: 280 } }}
+            />
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                Color
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                {COLLECTION_COLORS.map(option => (
+                  <Tooltip key={option} title={option}>
+                    <IconButton
+                      aria-label={`Color ${option}`}
+                      onClick={() => setColor(option)}
+                      sx={{
+                        width: 32,
+                        height: 32,
+                        bgcolor: option,
+                        color: 'white',
+                        '&:hover': { bgcolor: option, opacity: 0.85 },
+                      }}
+                    >
+                      {color === option && <CheckIcon sx={{ fontSize: 18 }} />}
+                    </IconButton>
+                  </Tooltip>
+                ))}
+              </Box>
+            </Box>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={!name.trim()}>
+            {initial ? 'Save' : 'Create'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+// Import React hook for state management
+import { useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Checkbox,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Tooltip,
+  type SxProps,
+  type Theme,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { DriveFileMove as MoveIcon, Folder as FolderIcon } from '@mui/icons-material';
+
+import { useFavorites } from '@/useFavorites';
+
+interface CollectionMenuButtonProps {
+  iconId: string;
+  // Collection being viewed; enables "Move to" entries
+  activeCollectionId: string | null;
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * CollectionMenuButton Component
+ *
+ * Card action listing every collection with a checkbox to add or remove
+ * the icon, plus "Move to" entries when a single collection is viewed.
+ */
+export default function CollectionMenuButton({ iconId, activeCollectionId, sx }: CollectionMenuButtonProps) {
+  const { collections, canEdit, copyToCollection, moveToCollection, removeFromCollection } = useFavorites();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null); // Element the menu is anchored to
+
+  /**
+   * Open the menu without triggering the card link
+   */
+  const handleOpen = (e: React.MouseEvent<HTMLElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setAnchorEl(e.currentTarget);
+  };
+
+  /**
+   * Add the icon to a collection, or take it out if it is already there
+   */
+  const handleToggle = (collectionId: string, member: boolean) => {
+    if (member) {
+      removeFromCollection(iconId, collectionId);
+    } else {
+      copyToCollection(iconId, collectionId);
+    }
+  };
+
+  // Workspace viewers cannot change collections
+  if (!canEdit) return null;
+
+  const moveTargets = activeCollectionId
+    ? collections.filter(collection => collection.id !== activeCollectionId)
+    : [];
+
+  return (
+    <>
+      <Tooltip title="Collections">
+        <IconButton size="small" onClick={handleOpen} sx={sx}>
+          <FolderIcon sx={{ fontSize: 16 }} />
+        </IconButton>
+      </Tooltip>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        onClick={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+        }}
+      >
+        <ListSubheader>In collections</ListSubheader>
+        {collections.map(collection => {
+          const member = collection.iconIds.includes(iconId);
+          return (
+            <MenuItem key={collection.id} dense onClick={() => handleToggle(collection.id, member)}>
+              <ListItemIcon>
+                <Checkbox edge="start" size="small" checked={member} tabIndex={-1} disableRipple />
+              </ListItemIcon>
+              <ListItemText>{collection.name}</ListItemText>
+              <Box sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: collection.color, ml: 2 }} />
+            </MenuItem>
+          );
+        })}
+
+        {moveTargets.length > 0 && <ListSubheader>Move to</ListSubheader>}
+        {moveTargets.map(collection => (
+          <MenuItem
+            key={collection.id}
+            dense
+            onClick={() => {
+              if (activeCollectionId) moveToCollection(iconId, activeCollectionId, collection.id);
+              setAnchorEl(null);
+            }}
+          >
+            <ListItemIcon><MoveIcon fontSize="small" /></ListItemIcon>
+            <ListItemText>{collection.name}</ListItemText>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+// Import React hook for state management
+import { useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  IconButton,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Snackbar,
+  Tooltip,
+  type SxProps,
+  type Theme,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { Download as DownloadIcon } from '@mui/icons-material';
+
+import { downloadIcon, type DownloadOptions } from '@/lib/download';
+import type { IconData } from '@/types';
+
+interface DownloadMenuButtonProps {
+  icon: IconData;
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * DownloadMenuButton Component
+ *
+ * Card action that opens a menu with every vector format and raster size
+ * of an icon, and downloads the chosen file through the download proxy.
+ */
+export default function DownloadMenuButton({ icon, sx }: DownloadMenuButtonProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null); // Element the menu is anchored to
+  const [error, setError] = useState<string | null>(null); // Last download error
+
+  /**
+   * Open the format menu without triggering the card link
+   */
+  const handleOpen = (e: React.MouseEvent<HTMLElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setAnchorEl(e.currentTarget);
+  };
+
+  /**
+   * Download the chosen format and close the menu
+   */
+  const handleDownload = (e: React.MouseEvent, options: DownloadOptions) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setAnchorEl(null);
+    downloadIcon(icon.id, options).catch((err) => {
+      console.error('Error downloading icon:', err);
+      setError(err.message);
+    });
+  };
+
+  return (
+    <>
+      <Tooltip title="Download Icon">
+        <IconButton size="small" onClick={handleOpen} sx={sx}>
+          <DownloadIcon sx={{ fontSize: 16 }} />
+        </IconButton>
+      </Tooltip>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {icon.vectorFormats.length > 0 && <ListSubheader>Vector</ListSubheader>}
+        {icon.vectorFormats.map(format => (
+          <MenuItem key={format.format} onClick={(e) => handleDownload(e, { format: format.format })}>
+            {format.format.toUpperCase()}
+          </MenuItem>
+        ))}
+
+        {icon.rasterSizes.length > 0 && <ListSubheader>Raster</ListSubheader>}
+        {icon.rasterSizes.flatMap(size =>
+          size.formats.map(format => (
+            <MenuItem
+              key={`${size.size}-${format.format}`}
+              onClick={(e) => handleDownload(e, { format: format.format, size: size.size })}
+            >
+              {format.format.toUpperCase()} {size.width}×{size.height}
+            </MenuItem>
+          ))
+        )}
+      </Menu>
+
+      <Snackbar
+        open={error !== null}
+        autoHideDuration={4000}
+        onClose={() => setError(null)}
+        message={`Download failed: ${error}`}
+      />
+    </>
+  );
+}
@@ -0,0 +1,341 @@
+'use client';
+
+// Import React helper to skip re-rendering unchanged cards
+import { memo } from 'react';
+import Link from 'next/link';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Card,
+  CardActionArea,
+  CardMedia,
+  Checkbox,
+  Chip,
+  IconButton,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { Favorite as FavoriteIcon } from '@mui/icons-material';
+
+import { ICON_DRAG_TYPE } from '@/components/CollectionBar';
+import CollectionMenuButton from '@/components/CollectionMenuButton';
+import DownloadMenuButton from '@/components/DownloadMenuButton';
+import FavoriteNotes from '@/components/FavoriteNotes';
+import { getPreviewUrl } from '@/lib/icons';
+import type { FavoriteAddition, FavoriteCollection, IconData } from '@/types';
+
+interface FavoriteCardProps {
+  icon: IconData;
+  isSelected: boolean;
+  selectionMode: boolean;
+  // Whether favorites can be changed in the active workspace
+  canEdit: boolean;
+  // The collection being viewed, or null for all favorites
+  collection: FavoriteCollection | null;
+  // Who added the icon and when
+  addition?: FavoriteAddition;
+  // Custom tags used on other favorites, offered while editing
+  tagOptions: string[];
+  // Removes the icon from the collection being viewed, or from favorites
+  onRemove: (iconId: string) => void;
+  onSelect: (iconId: string, extendRange: boolean) => void;
+  // Opens the quick-look preview of the icon
+  onPreview: (iconId: string) => void;
+}
+
+/**
+ * FavoriteCard Component
+ *
+ * A single favorite with its preview, name, tags, notes and who added it,
+ * buttons to remove it, file it in collections and download it, and a
+ * checkbox in selection mode. Cards can be dragged onto collection chips.
+ * Cards are memoized so that selecting or editing one favorite does not
+ * re-render the others.
+ */
+function FavoriteCard({
+  icon,
+  isSelected,
+  selectionMode,
+  canEdit,
+  collection,
+  addition,
+  tagOptions,
+  onRemove,
+  onSelect,
+  onPreview,
+}: FavoriteCardProps) {
+  const previewUrl = getPreviewUrl(icon);
+  const iconId = icon.id;
+
+  return (
+    <Card
+      elevation={0}
+      draggable={!selectionMode && canEdit}
+      onDragStart={(e) => {
+        // Lets the card be dropped on a collection chip
+        e.dataTransfer.setData(ICON_DRAG_TYPE, iconId);
+        e.dataTransfer.effectAllowed = 'copyMove';
+      }}
+      sx={{
+        background: 'rgba(255,255,255,0.95)',
+        backdropFilter: 'blur(20px)',
+        border: '1px solid rgba(255,255,255,0.3)',
+        borderRadius: 3,
+        transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
+        position: 'relative',
+        overflow: 'hidden',
+        boxShadow: isSelected
+          ? '0 0 0 3px rgba(25, 118, 210, 0.9), 0 8px 32px rgba(0,0,0,0.1)' // Highlight selected cards
+          : '0 8px 32px rgba(0,0,0,0.1)',
+        // Hover effects for the card
+        '&:hover': {
+          borderColor: 'rgba(255,255,255,0.5)',
+          boxShadow: '0 20px 40px rgba(0,0,0,0.2)',
+          transform: 'translateY(-8px)',
+        },
+      }}
+    >
+      {/* Selection checkbox */}
+      {selectionMode && (
+        <Checkbox
+          checked={isSelected}
+          onClick={(e) => onSelect(iconId, e.shiftKey)}
+          inputProps={{ 'aria-label': `Select ${icon.name}` }}
+          sx={{
+            position: 'absolute',
+            top: 4,
+            left: 4,
+            zIndex: 2,
+            bgcolor: 'rgba(255, 255, 255, 0.9)',
+            '&:hover': { bgcolor: 'rgba(255, 255, 255, 1)' },
+          }}
+        />
+      )}
+
+      {/* Action buttons (remove, collections and download) */}
+      <Box
+        sx={{
+          position: 'absolute',
+          top: 8,
+          right: 8,
+          zIndex: 2,
+          display: selectionMode ? 'none' : 'flex', // Hidden while selecting
+          gap: 0.5,
+          opacity: 0, // Hidden by default
+          transition: 'opacity 0.2s',
+          // Show on card hover
+          '.MuiCard-root:hover &': {
+            opacity: 1,
+          },
+        }}
+      >
+        {/* Remove from the collection being viewed, or from favorites */}
+        <Tooltip
+          title={
+            !canEdit
+              ? 'Viewers cannot change workspace favorites'
+              : collection
+                ? `Remove from ${collection.name}`
+                : 'Remove from Favorites'
+          }
+        >
+          <span>
+            <IconButton
+              size="small"
+              disabled={!canEdit}
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onRemove(iconId);
+              }}
+              sx={{
+                bgcolor: 'rgba(255, 255, 255, 0.9)',
+                backdropFilter: 'blur(8px)', // Glass effect
+                '&:hover': {
+                  bgcolor: 'rgba(255, 255, 255, 1)',
+                },
+              }}
+            >
+              <FavoriteIcon sx={{ fontSize: 16, color: 'error.main' }} />
+            </IconButton>
+          </span>
+        </Tooltip>
+        
+        {/* Collection membership */}
+        <CollectionMenuButton
+          iconId={iconId}
+          activeCollectionId={collection?.id ?? null}
+          sx={{
+            bgcolor: 'rgba(255, 255, 255, 0.9)',
+            backdropFilter: 'blur(8px)', // Glass effect
+            '&:hover': {
+              bgcolor: 'rgba(255, 255, 255, 1)',
+            },
+          }}
+        />
+
+        {/* Download menu with every format and size */}
+        <DownloadMenuButton
+          icon={icon}
+          sx={{
+            bgcolor: 'rgba(255, 255, 255, 0.9)',
+            backdropFilter: 'blur(8px)', // Glass effect
+            '&:hover': {
+              bgcolor: 'rgba(255, 255, 255, 1)',
+            },
+          }}
+        />
+      </Box>
+
+      {/* Main card content area; opens the preview, or selects in selection mode */}
+      <CardActionArea
+        component={Link}
+        href={`/icons/${encodeURIComponent(iconId)}`}
+        onClick={(e: React.MouseEvent) => {
+          if (selectionMode) {
+            e.preventDefault();
+            onSelect(iconId, e.shiftKey);
+            return;
+          }
+          // Modified clicks still open the details page, e.g. in a new tab
+          if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+          e.preventDefault();
+          onPreview(iconId);
+        }}
+        onKeyDown={(e: React.KeyboardEvent) => {
+          if (e.key !== ' ' || selectionMode) return;
+          e.preventDefault();
+          onPreview(iconId);
+        }}
+        sx={{
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+      >
+        {/* Icon image display area */}
+        <Box
+          sx={{
+            height: 160,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            // Gradient background for icon area - blue theme
+            background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
+            position: 'relative',
+            overflow: 'hidden',
+          }}
+        >
+          <CardMedia
+            component="img"
+            image={previewUrl}
+            alt={icon.tags?.[0] || icon.name || 'icon'}
+            sx={{
+              maxWidth: '80%',
+              maxHeight: '80%',
+              objectFit: 'contain',
+              transition: 'transform 0.3s ease',
+              // Scale effect on hover
+              '&:hover': {
+                transform: 'scale(1.1)',
+              },
+            }}
+          />
+          
+          {/* Favorite indicator */}
+          <Box
+            sx={{
+              position: 'absolute',
+              top: 8,
+              left: 8,
+              bgcolor: 'rgba(25, 118, 210, 0.9)', // Blue color to match theme
+              borderRadius: '50%',
+              width: 24,
+              height: 24,
+              display: selectionMode ? 'none' : 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+            }}
+          >
+            <FavoriteIcon sx={{ fontSize: 14, color: 'white' }} />
+          </Box>
+        </Box>
+
+        {/* Icon information section */}
+        <Box sx={{ p: 1.5, flexGrow: 1 }}>
+          {/* Icon name display */}
+          {icon.name && (
+            <Typography
+              variant="body2"
+              sx={{
+                fontWeight: 500,
+                mb: 0.5,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {icon.name}
+            </Typography>
+          )}
+          
+          {/* Icon tags display */}
+          {icon.tags && icon.tags.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+              {/* Display first 2 tags */}
+              {icon.tags.slice(0, 2).map((tag, tagIndex) => (
+                <Chip
+                  key={tagIndex}
+                  label={tag}
+                  size="small"
+                  variant="outlined"
+                  sx={{
+                    fontSize: '0.7rem',
+                    height: 20,
+                    borderRadius: 1,
+                    bgcolor: 'rgba(25, 118, 210, 0.04)', // Blue theme
+                    borderColor: 'rgba(25, 118, 210, 0.2)',
+                  }}
+                />
+              ))}
+              {/* Show additional tags count if more than 2 */}
+              {icon.tags.length > 2 && (
+                <Chip
+                  label={`+${icon.tags.length - 2}`}
+                  size="small"
+                  variant="outlined"
+                  sx={{
+                    fontSize: '0.7rem',
+                    height: 20,
+                    borderRadius: 1,
+                    bgcolor: 'rgba(158, 158, 158, 0.04)',
+                    borderColor: 'rgba(158, 158, 158, 0.2)',
+                  }}
+                />
+              )}
+            </Box>
+          )}
+
+          {/* Who added the icon, in team workspaces */}
+          {addition?.addedBy && (
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              sx={{ display: 'block', mt: 0.5, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            >
+              Added by {addition.addedBy} · {new Date(addition.addedAt).toLocaleDateString()}
+            </Typography>
+          )}
+        </Box>
+      </CardActionArea>
+
+      {/* Rating, custom tags and note, edited in place */}
+      <FavoriteNotes iconId={iconId} tagOptions={tagOptions} />
+    </Card>
+  );
+}
+
+export default memo(FavoriteCard);
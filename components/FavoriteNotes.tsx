@@ -0,0 +1,171 @@
+'use client';
+
+// Import React hook for state management
+import { useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  Rating,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { EditNote as EditNoteIcon } from '@mui/icons-material';
+
+import { MAX_CUSTOM_TAG_LENGTH, MAX_NOTE_LENGTH, MAX_RATING, normalizeCustomTags } from '@/lib/favoritesSchema';
+import { useFavorites } from '@/useFavorites';
+
+interface FavoriteNotesProps {
+  iconId: string;
+  // Custom tags used on other favorites, offered while editing
+  tagOptions: string[];
+}
+
+/**
+ * FavoriteNotes Component
+ *
+ * Shows the star rating, custom tags and note of a favorite on its card.
+ * The rating can be changed with a click; the note and tags are edited
+ * inline. Workspace viewers see them read-only.
+ */
+export default function FavoriteNotes({ iconId, tagOptions }: FavoriteNotesProps) {
+  const { annotations, canEdit, annotateFavorite } = useFavorites();
+  const annotation = annotations[iconId];
+  const [editing, setEditing] = useState(false);
+  const [note, setNote] = useState(''); // Note being edited
+  const [tags, setTags] = useState<string[]>([]); // Custom tags being edited
+
+  /**
+   * Start editing with the saved note and tags
+   */
+  const startEditing = () => {
+    setNote(annotation?.note ?? '');
+    setTags(annotation?.tags ?? []);
+    setEditing(true);
+  };
+
+  /**
+   * Save the note and tags and leave edit mode
+   */
+  const handleSave = () => {
+    annotateFavorite(iconId, { note, tags: normalizeCustomTags(tags) });
+    setEditing(false);
+  };
+
+  if (editing) {
+    return (
+      <Stack
+        spacing={1}
+        sx={{ p: 1.5, pt: 0 }}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setEditing(false);
+          // Ctrl/Cmd+Enter saves from the note field
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSave();
+        }}
+      >
+        <TextField
+          label="Note"
+          size="small"
+          multiline
+          minRows={2}
+          maxRows={6}
+          autoFocus
+          value={note}
+          onChange={(e) => setNote(e.target.value.slice(0, MAX_NOTE_LENGTH))}
+          placeholder="Why did you save this icon?"
+        />
+        <Autocomplete
+          multiple
+          freeSolo
+          size="small"
+          options={tagOptions}
+          value={tags}
+          onChange={(_e, value) => setTags(normalizeCustomTags(value))}
+          renderValue={(value, getItemProps) =>
+            value.map((tag, index) => {
+              const { key, ...itemProps } = getItemProps({ index });
+              return <Chip key={key} label={tag} size="small" {...itemProps} />;
+            })
+          }
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Tags"
+              placeholder="Type and press Enter"
+              slotProps={{ htmlInput: { ...params.inputProps, maxLength: MAX_CUSTOM_TAG_LENGTH } }}
+            />
+          )}
+        />
+        <Stack direction="row" spacing={1} justifyContent="flex-end">
+          <Button size="small" onClick={() => setEditing(false)}>
+            Cancel
+          </Button>
+          <Button size="small" variant="contained" onClick={handleSave}>
+            Save
+          </Button>
+        </Stack>
+      </Stack>
+    );
+  }
+
+  return (
+    <Box sx={{ px: 1.5, pb: 1.5 }}>
+      <Rating
+        size="small"
+        max={MAX_RATING}
+        value={annotation?.rating || null}
+        readOnly={!canEdit}
+        onChange={(_e, value) => annotateFavorite(iconId, { rating: value ?? 0 })}
+        aria-label="Rating"
+      />
+
+      {annotation && annotation.tags.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+          {annotation.tags.map(tag => (
+            <Chip
+              key={tag}
+              label={tag}
+              size="small"
+              color="primary"
+              sx={{ fontSize: '0.7rem', height: 20, borderRadius: 1 }}
+            />
+          ))}
+        </Box>
+      )}
+
+      {annotation?.note ? (
+        <Tooltip title={canEdit ? 'Edit note and tags' : annotation.note}>
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            onClick={canEdit ? startEditing : undefined}
+            sx={{
+              mt: 0.5,
+              cursor: canEdit ? 'text' : 'default',
+              whiteSpace: 'pre-wrap',
+              wordBreak: 'break-word',
+              // Show the first lines only
+              display: '-webkit-box',
+              WebkitLineClamp: 3,
+              WebkitBoxOrient: 'vertical',
+              overflow: 'hidden',
+            }}
+          >
+            {annotation.note}
+          </Typography>
+        </Tooltip>
+      ) : canEdit && (
+        <Button size="small" startIcon={<EditNoteIcon />} onClick={startEditing} sx={{ mt: 0.5, px: 0.5 }}>
+          {annotation?.tags.length ? 'Edit notes' : 'Add note'}
+        </Button>
+      )}
+    </Box>
+  );
+}
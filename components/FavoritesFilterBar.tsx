@@ -0,0 +1,206 @@
+'use client';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Rating,
+  Select,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { Search as SearchIcon, Close as CloseIcon } from '@mui/icons-material';
+
+import {
+  DEFAULT_FAVORITES_FILTER,
+  FAVORITES_SORT_OPTIONS,
+  countActiveFavoritesFilters,
+  type FavoritesFilter,
+  type FavoritesSort,
+} from '@/lib/favoritesFilter';
+import { MAX_RATING } from '@/lib/favoritesSchema';
+import type { IconLicense, PremiumFilter } from '@/types';
+
+interface FavoritesFilterBarProps {
+  filter: FavoritesFilter;
+  onChange: (filter: FavoritesFilter) => void;
+  // Custom tags in use, offered as filter chips
+  tagOptions: string[];
+  // Licenses of the favorites, offered in the license filter
+  licenseOptions: IconLicense[];
+}
+
+/**
+ * FavoritesFilterBar Component
+ *
+ * Search box, filters and sort order for the favorites page. The bar is
+ * fully controlled; the page keeps the filter state in the URL.
+ */
+export default function FavoritesFilterBar({ filter, onChange, tagOptions, licenseOptions }: FavoritesFilterBarProps) {
+  const activeCount = countActiveFavoritesFilters(filter);
+
+  /**
+   * Update a single filter value
+   */
+  const update = <K extends keyof FavoritesFilter>(key: K, value: FavoritesFilter[K]) => {
+    onChange({ ...filter, [key]: value });
+  };
+
+  /**
+   * Add a tag to the filter, or take it out if it is already there
+   */
+  const toggleTag = (tag: string) => {
+    const tags = filter.tags.includes(tag)
+      ? filter.tags.filter(selected => selected !== tag)
+      : [...filter.tags, tag];
+    update('tags', tags);
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 2,
+        mb: 3,
+        borderRadius: 3,
+        background: 'rgba(255,255,255,0.95)',
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 2,
+      }}
+    >
+      {/* Search over names, tags and notes */}
+      <TextField
+        size="small"
+        placeholder="Search names, tags and notes"
+        value={filter.query}
+        onChange={(e) => update('query', e.target.value)}
+        sx={{ flex: '1 1 240px' }}
+        slotProps={{
+          input: {
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" />
+              </InputAdornment>
+            ),
+          },
+        }}
+      />
+
+      {/* Sort order */}
+      <FormControl size="small" sx={{ minWidth: 170 }}>
+        <InputLabel id="favorites-sort-label">Sort by</InputLabel>
+        <Select
+          labelId="favorites-sort-label"
+          label="Sort by"
+          value={filter.sort}
+          onChange={(e) => update('sort', e.target.value as FavoritesSort)}
+        >
+          {FAVORITES_SORT_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {/* Free vs premium */}
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={filter.premium}
+        onChange={(_, value: PremiumFilter | null) => value && update('premium', value)}
+      >
+        <ToggleButton value="all">All</ToggleButton>
+        <ToggleButton value="free">Free</ToggleButton>
+        <ToggleButton value="premium">Premium</ToggleButton>
+      </ToggleButtonGroup>
+
+      {/* Vector availability */}
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={filter.vector}
+            onChange={(e) => update('vector', e.target.checked)}
+          />
+        }
+        label="Vector only"
+      />
+
+      {/* Licenses found among the favorites */}
+      {licenseOptions.length > 0 && (
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel id="favorites-license-label">License</InputLabel>
+          <Select
+            labelId="favorites-license-label"
+            label="License"
+            value={filter.license ?? ''}
+            onChange={(e) => update('license', e.target.value || null)}
+          >
+            <MenuItem value="">Any license</MenuItem>
+            {licenseOptions.map(license => (
+              <MenuItem key={license.id} value={license.id}>{license.name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      {/* Minimum star rating */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          At least
+        </Typography>
+        <Rating
+          size="small"
+          max={MAX_RATING}
+          value={filter.minRating || null}
+          onChange={(_e, value) => update('minRating', value ?? 0)}
+          aria-label="Minimum rating"
+        />
+      </Box>
+
+      {/* Reset the filters, keeping the collection and sort order */}
+      <Box sx={{ flexGrow: 1, display: 'flex', justifyContent: 'flex-end' }}>
+        <Button
+          size="small"
+          startIcon={<CloseIcon />}
+          disabled={activeCount === 0}
+          onClick={() => onChange({ ...DEFAULT_FAVORITES_FILTER, collection: filter.collection, sort: filter.sort })}
+        >
+          Clear filters{activeCount > 0 ? ` (${activeCount})` : ''}
+        </Button>
+      </Box>
+
+      {/* Custom tags */}
+      {tagOptions.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, width: '100%' }}>
+          {tagOptions.map(tag => {
+            const selected = filter.tags.includes(tag);
+            return (
+              <Chip
+                key={tag}
+                label={tag}
+                size="small"
+                color={selected ? 'primary' : 'default'}
+                variant={selected ? 'filled' : 'outlined'}
+                onClick={() => toggleTag(tag)}
+              />
+            );
+          })}
+        </Box>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+// Import React hooks for state management
+import { useEffect, useMemo, useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  List,
+  ListItem,
+  ListItemText,
+  Radio,
+  RadioGroup,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
+
+import {
+  MAX_IMPORT_BYTES,
+  parseFavoritesExport,
+  planImport,
+  type ConflictStrategy,
+  type FavoritesContents,
+  type ImportMode,
+} from '@/lib/favoritesTransfer';
+import { useFavorites } from '@/useFavorites';
+
+interface FavoritesImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Called once the import has been applied
+  onImported: () => void;
+}
+
+/**
+ * FavoritesImportDialog Component
+ *
+ * Reads an exported favorites file, validates it, previews what will
+ * change and applies it as a merge or a replace.
+ */
+export default function FavoritesImportDialog({ open, onClose, onImported }: FavoritesImportDialogProps) {
+  const { favoriteIcons, collections, annotations, additions, replaceFavorites } = useFavorites();
+
+  const [fileName, setFileName] = useState<string | null>(null); // Name of the chosen file
+  const [incoming, setIncoming] = useState<FavoritesContents | null>(null); // Parsed file
+  const [error, setError] = useState<string | null>(null); // Validation error
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [conflicts, setConflicts] = useState<ConflictStrategy>('keep');
+
+  /**
+   * Start over whenever the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+    setFileName(null);
+    setIncoming(null);
+    setError(null);
+    setMode('merge');
+    setConflicts('keep');
+  }, [open]);
+
+  // Preview of the result, recomputed when the options change
+  const plan = useMemo(
+    () => incoming && planImport(
+      { icons: favoriteIcons, collections, annotations, added: additions },
+      incoming,
+      mode,
+      conflicts
+    ),
+    [incoming, favoriteIcons, collections, annotations, additions, mode, conflicts]
+  );
+
+  /**
+   * Read and validate the chosen file
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    setFileName(file.name);
+    setIncoming(null);
+    setError(null);
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      setError('The file is too large to be a favorites export.');
+      return;
+    }
+
+    try {
+      setIncoming(parseFavoritesExport(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    // The summary is shown by UndoSnackbar, which offers to undo the import
+    replaceFavorites(
+      { icons: plan.icons, collections: plan.collections, annotations: plan.annotations, added: plan.additions },
+      mode === 'replace'
+        ? `Replaced favorites with ${plan.icons.length} imported icons`
+        : `Imported ${plan.added} new icons${plan.conflicts > 0 && conflicts === 'overwrite' ? `, updated ${plan.conflicts}` : ''}`
+    );
+    onImported();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Import favorites</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Choose a JSON file exported from IconVault.
+        </Typography>
+
+        <Button component="label" variant="outlined" startIcon={<UploadFileIcon />}>
+          {fileName ?? 'Choose file'}
+          <input hidden type="file" accept="application/json,.json" onChange={handleFileChange} />
+        </Button>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {incoming && plan && (
+          <Box sx={{ mt: 3 }}>
+            <FormControl sx={{ mb: 2 }}>
+              <FormLabel id="import-mode-label">How to import</FormLabel>
+              <RadioGroup
+                aria-labelledby="import-mode-label"
+                row
+                value={mode}
+                onChange={(e) => setMode(e.target.value as ImportMode)}
+              >
+                <FormControlLabel value="merge" control={<Radio />} label="Merge with my favorites" />
+                <FormControlLabel value="replace" control={<Radio />} label="Replace my favorites" />
+              </RadioGroup>
+            </FormControl>
+
+            {mode === 'merge' && plan.conflicts > 0 && (
+              <FormControl sx={{ mb: 2, display: 'block' }}>
+                <FormLabel id="import-conflicts-label">
+                  {plan.conflicts} icon{plan.conflicts === 1 ? ' is' : 's are'} already a favorite with different data
+                </FormLabel>
+                <RadioGroup
+                  aria-labelledby="import-conflicts-label"
+                  row
+                  value={conflicts}
+                  onChange={(e) => setConflicts(e.target.value as ConflictStrategy)}
+                >
+                  <FormControlLabel value="keep" control={<Radio />} label="Keep mine" />
+                  <FormControlLabel value="overwrite" control={<Radio />} label="Use imported" />
+                </RadioGroup>
+              </FormControl>
+            )}
+
+            {/* Preview of the changes */}
+            <Typography variant="subtitle2">Preview</Typography>
+            <List dense disablePadding>
+              <ListItem disableGutters>
+                <ListItemText primary={`${plan.added} new icon${plan.added === 1 ? '' : 's'}`} />
+              </ListItem>
+              {plan.conflicts > 0 && (
+                <ListItem disableGutters>
+                  <ListItemText
+                    primary={`${plan.conflicts} conflicting icon${plan.conflicts === 1 ? '' : 's'}`}
+                    secondary={mode === 'replace' || conflicts === 'overwrite' ? 'Imported data is used' : 'Your data is kept'}
+                  />
+                </ListItem>
+              )}
+              {plan.unchanged > 0 && (
+                <ListItem disableGutters>
+                  <ListItemText primary={`${plan.unchanged} icon${plan.unchanged === 1 ? '' : 's'} already in favorites`} />
+                </ListItem>
+              )}
+              {mode === 'replace' && plan.removed > 0 && (
+                <ListItem disableGutters>
+                  <ListItemText
+                    primary={`${plan.removed} current favorite${plan.removed === 1 ? '' : 's'} will be moved to the trash`}
+                    slotProps={{ primary: { color: 'error' } }}
+                  />
+                </ListItem>
+              )}
+              <ListItem disableGutters>
+                <ListItemText
+                  primary={mode === 'replace'
+                    ? `${plan.collections.length} collection${plan.collections.length === 1 ? '' : 's'} after import`
+                    : `${plan.collectionsAdded} new collection${plan.collectionsAdded === 1 ? '' : 's'}, ${plan.collectionsMerged} merged`}
+                />
+              </ListItem>
+            </List>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          color={mode === 'replace' ? 'error' : 'primary'}
+          disabled={!plan}
+          onClick={handleApply}
+        >
+          {mode === 'replace' ? 'Replace' : 'Import'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
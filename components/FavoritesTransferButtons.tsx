@@ -0,0 +1,93 @@
+'use client';
+
+// Import React hook for state management
+import { useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Button,
+  ListItemText,
+  Menu,
+  MenuItem,
+  type SxProps,
+  type Theme,
+} from '@mui/material';
+
+// Import Material-UI icons
+import {
+  FileDownload as ExportIcon,
+  FileUpload as ImportIcon,
+} from '@mui/icons-material';
+
+import FavoritesImportDialog from '@/components/FavoritesImportDialog';
+import { saveBlob } from '@/lib/download';
+import { createFavoritesCsv, createFavoritesExport } from '@/lib/favoritesTransfer';
+import { useFavorites } from '@/useFavorites';
+
+interface FavoritesTransferButtonsProps {
+  buttonSx?: SxProps<Theme>;
+}
+
+/**
+ * FavoritesTransferButtons Component
+ *
+ * Export favorites as JSON or CSV, and import a JSON export.
+ */
+export default function FavoritesTransferButtons({ buttonSx }: FavoritesTransferButtonsProps) {
+  const { favoriteIcons, collections, annotations, additions, canEdit } = useFavorites();
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null); // Anchor of the export menu
+  const [importOpen, setImportOpen] = useState(false); // Import dialog visibility
+
+  const date = new Date().toISOString().slice(0, 10);
+
+  const handleExportJson = () => {
+    const data = createFavoritesExport({ icons: favoriteIcons, collections, annotations, added: additions });
+    saveBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), `iconvault-favorites-${date}.json`);
+    setExportAnchor(null);
+  };
+
+  const handleExportCsv = () => {
+    const csv = createFavoritesCsv(favoriteIcons, collections);
+    saveBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `iconvault-favorites-${date}.csv`);
+    setExportAnchor(null);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      <Button
+        variant="outlined"
+        startIcon={<ExportIcon />}
+        disabled={favoriteIcons.length === 0}
+        onClick={(e) => setExportAnchor(e.currentTarget)}
+        sx={buttonSx}
+      >
+        Export
+      </Button>
+      <Button
+        variant="outlined"
+        startIcon={<ImportIcon />}
+        disabled={!canEdit}
+        onClick={() => setImportOpen(true)}
+        sx={buttonSx}
+      >
+        Import
+      </Button>
+
+      <Menu anchorEl={exportAnchor} open={Boolean(exportAnchor)} onClose={() => setExportAnchor(null)}>
+        <MenuItem onClick={handleExportJson}>
+          <ListItemText primary="JSON" secondary="Favorites and collections, can be imported" />
+        </MenuItem>
+        <MenuItem onClick={handleExportCsv}>
+          <ListItemText primary="CSV" secondary="One row per icon, for spreadsheets" />
+        </MenuItem>
+      </Menu>
+
+      <FavoritesImportDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        onImported={() => setImportOpen(false)}
+      />
+    </Box>
+  );
+}
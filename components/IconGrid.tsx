@@ -0,0 +1,234 @@
+'use client';
+
+// Import React hooks for state management, layout effects and refs
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+// Import Material-UI components and hooks for UI design
+import { Box, Zoom, useMediaQuery, useTheme } from '@mui/material';
+
+import type { IconData } from '@/types';
+
+interface IconGridProps {
+  icons: IconData[];
+  renderCard: (icon: IconData, index: number) => React.ReactNode;
+  // Row height assumed until rows have been measured, in pixels
+  estimatedRowHeight?: number;
+}
+
+// Space between cards, in theme spacing units
+const GAP = 3;
+// Rows rendered above and below the window, in pixels
+const OVERSCAN_PX = 800;
+// Rows rendered before the window size is known, e.g. on the server
+const INITIAL_ROWS = 4;
+// Only the first cards of a list get an entrance animation
+const ANIMATED_CARDS = 24;
+const ANIMATION_BASE_MS = 300;
+const ANIMATION_STEP_MS = 30;
+
+/**
+ * Number of columns at each breakpoint, matching the card width used
+ * elsewhere (xs: 6, sm: 4, md: 3, lg: 2 of 12)
+ */
+const useColumnCount = () => {
+  const theme = useTheme();
+  const lg = useMediaQuery(theme.breakpoints.up('lg'));
+  const md = useMediaQuery(theme.breakpoints.up('md'));
+  const sm = useMediaQuery(theme.breakpoints.up('sm'));
+  return lg ? 6 : md ? 4 : sm ? 3 : 2;
+};
+
+/**
+ * IconGrid Component
+ *
+ * Responsive grid of icon cards that only renders the rows near the
+ * browser window, so thousands of icons stay fast to render and scroll.
+ * Rows are measured as they render; unmeasured rows are assumed to be as
+ * tall as the average measured row. The page keeps scrolling as usual;
+ * space for the rows that are not rendered is kept above and below.
+ *
+ * Only the first cards of a list animate in, each with a short delay, so
+ * loading more results or scrolling never queues up animation work.
+ */
+export default function IconGrid({ icons, renderCard, estimatedRowHeight = 280 }: IconGridProps) {
+  const columns = useColumnCount();
+  const rowCount = Math.ceil(icons.length / columns);
+
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const rowHeights = useRef(new Map<number, number>()); // Measured height of each row, gap included
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const animatedIds = useRef(new Set<string>()); // Cards that have been shown and must not animate again
+  const frameRef = useRef(0);
+
+  const [range, setRange] = useState({ start: 0, end: Math.min(rowCount, INITIAL_ROWS) });
+  const [measureVersion, setMeasureVersion] = useState(0); // Bumped when a row height changes
+
+  /**
+   * Height of a row, measured or estimated
+   */
+  const getRowHeight = useCallback((row: number) => {
+    const measured = rowHeights.current.get(row);
+    if (measured !== undefined) return measured;
+    if (rowHeights.current.size === 0) return estimatedRowHeight;
+    let total = 0;
+    rowHeights.current.forEach(height => { total += height; });
+    return total / rowHeights.current.size;
+  }, [estimatedRowHeight]);
+
+  /**
+   * Work out which rows are near the window
+   */
+  const updateRange = useCallback(() => {
+    frameRef.current = 0;
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Window edges in the grid's own coordinates
+    const top = container.getBoundingClientRect().top;
+    const viewTop = -top - OVERSCAN_PX;
+    const viewBottom = -top + window.innerHeight + OVERSCAN_PX;
+
+    let start = rowCount;
+    let end = rowCount;
+    let offset = 0;
+    for (let row = 0; row < rowCount; row++) {
+      const bottom = offset + getRowHeight(row);
+      if (start === rowCount && bottom > viewTop) start = row;
+      if (offset >= viewBottom) {
+        end = row;
+        break;
+      }
+      offset = bottom;
+    }
+    if (start > end) start = end;
+
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [rowCount, getRowHeight]);
+
+  /**
+   * Recompute the rows once per frame at most
+   */
+  const scheduleUpdate = useCallback(() => {
+    if (!frameRef.current) frameRef.current = window.requestAnimationFrame(updateRange);
+  }, [updateRange]);
+
+  /**
+   * Follow window scrolling and resizing
+   */
+  useEffect(() => {
+    window.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+    return () => {
+      window.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+      window.cancelAnimationFrame(frameRef.current);
+      frameRef.current = 0;
+    };
+  }, [scheduleUpdate]);
+
+  /**
+   * Row heights depend on the number of columns; measure again when it changes
+   */
+  useLayoutEffect(() => {
+    rowHeights.current.clear();
+  }, [columns]);
+
+  /**
+   * Recompute after the list, the columns or a row height changed
+   */
+  useLayoutEffect(() => {
+    updateRange();
+  }, [updateRange, icons, measureVersion]);
+
+  /**
+   * Observer measuring rendered rows whenever their size changes
+   * Created on first use, as row refs are attached before effects run
+   */
+  const getObserver = useCallback(() => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        let changed = false;
+        for (const entry of entries) {
+          const row = Number((entry.target as HTMLElement).dataset.row);
+          const height = entry.borderBoxSize?.[0]?.blockSize ?? (entry.target as HTMLElement).offsetHeight;
+          if (height > 0 && rowHeights.current.get(row) !== height) {
+            rowHeights.current.set(row, height);
+            changed = true;
+          }
+        }
+        if (changed) setMeasureVersion(version => version + 1);
+      });
+    }
+    return observerRef.current;
+  }, []);
+
+  useEffect(() => () => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+  }, []);
+
+  /**
+   * Start or stop measuring a row as it mounts and unmounts
+   */
+  const rowRef = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+    getObserver().observe(element);
+    return () => observerRef.current?.unobserve(element);
+  }, [getObserver]);
+
+  // Space kept for the rows that are not rendered
+  const end = Math.min(range.end, rowCount);
+  const start = Math.min(range.start, end);
+  let paddingTop = 0;
+  for (let row = 0; row < start; row++) paddingTop += getRowHeight(row);
+  let paddingBottom = 0;
+  for (let row = end; row < rowCount; row++) paddingBottom += getRowHeight(row);
+
+  const rows: React.ReactNode[] = [];
+  for (let row = start; row < end; row++) {
+    const rowIcons = icons.slice(row * columns, (row + 1) * columns);
+    rows.push(
+      <Box
+        key={row}
+        ref={rowRef}
+        data-row={row}
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          gap: GAP,
+          pb: GAP,
+        }}
+      >
+        {rowIcons.map((icon, column) => {
+          const index = row * columns + column;
+          // Decided when the card mounts; later renders do not replay it
+          const animate = index < ANIMATED_CARDS && !animatedIds.current.has(icon.id);
+          return (
+            <Zoom
+              key={icon.id}
+              in
+              appear={animate}
+              timeout={ANIMATION_BASE_MS + index * ANIMATION_STEP_MS}
+            >
+              <Box sx={{ minWidth: 0 }}>{renderCard(icon, index)}</Box>
+            </Zoom>
+          );
+        })}
+      </Box>
+    );
+  }
+
+  /**
+   * Remember the cards that have been shown, so they do not animate again
+   * when scrolled back into view
+   */
+  useEffect(() => {
+    icons.slice(start * columns, end * columns).forEach(icon => animatedIds.current.add(icon.id));
+  }, [icons, start, end, columns]);
+
+  return (
+    <Box ref={containerRef} sx={{ pt: `${paddingTop}px`, pb: `${paddingBottom}px` }}>
+      {rows}
+    </Box>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+// Import React hooks for state management and drawing previews
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Slider,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import {
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  Close as CloseIcon,
+  OpenInNew as OpenInNewIcon,
+} from '@mui/icons-material';
+
+import { getRasterForSize } from '@/lib/icons';
+import type { IconData } from '@/types';
+
+type PreviewBackground = 'light' | 'dark' | 'checkerboard' | 'custom';
+
+interface IconPreviewDialogProps {
+  // Icons in the order they are displayed, stepped through with the arrow keys
+  icons: IconData[];
+  // The icon shown, or null when the dialog is closed
+  iconId: string | null;
+  onChange: (iconId: string | null) => void;
+}
+
+const BACKGROUND_OPTIONS: { value: PreviewBackground; label: string }[] = [
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'checkerboard', label: 'Checkerboard' },
+  { value: 'custom', label: 'Custom' },
+];
+
+// Sizes shown side by side for pixel-level inspection
+const PIXEL_SIZES = [16, 24, 32, 48];
+// Magnification of the side-by-side previews
+const PIXEL_ZOOM = 4;
+
+/**
+ * Styles for a preview background
+ */
+const getBackgroundSx = (background: PreviewBackground, customColor: string) => {
+  switch (background) {
+    case 'light':
+      return { bgcolor: '#ffffff' };
+    case 'dark':
+      return { bgcolor: '#121212' };
+    case 'checkerboard':
+      return {
+        bgcolor: '#ffffff',
+        backgroundImage: 'conic-gradient(#d9d9d9 25%, transparent 0 50%, #d9d9d9 0 75%, transparent 0)',
+        backgroundSize: '16px 16px',
+      };
+    case 'custom':
+      return { bgcolor: customColor };
+  }
+};
+
+/**
+ * Draw an image at a small size, then show the result magnified with
+ * visible pixels, the way the browser renders the icon at that size
+ */
+function PixelPreview({ src, size }: { src: string; size: number }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const image = new Image();
+    image.onload = () => {
+      const context = canvasRef.current?.getContext('2d');
+      if (!context) return;
+      context.clearRect(0, 0, size, size);
+      context.drawImage(image, 0, 0, size, size);
+    };
+    image.src = src;
+    return () => { image.onload = null; };
+  }, [src, size]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size}
+      height={size}
+      style={{ width: size * PIXEL_ZOOM, height: size * PIXEL_ZOOM, imageRendering: 'pixelated' }}
+    />
+  );
+}
+
+/**
+ * IconPreviewDialog Component
+ *
+ * Quick look at an icon: on a light, dark, checkerboard or custom
+ * background, at each raster size it is available in, and side by side at
+ * 16, 24, 32 and 48 pixels, magnified for pixel-level inspection. The arrow
+ * keys step through the neighbouring icons. Background and size are kept
+ * while stepping.
+ */
+export default function IconPreviewDialog({ icons, iconId, onChange }: IconPreviewDialogProps) {
+  const [background, setBackground] = useState<PreviewBackground>('checkerboard');
+  const [customColor, setCustomColor] = useState('#667eea');
+  const [preferredSize, setPreferredSize] = useState<number | null>(null); // Null shows the largest size
+
+  const index = iconId === null ? -1 : icons.findIndex(icon => icon.id === iconId);
+  const current = index === -1 ? null : icons[index];
+
+  // Keep showing the last icon while the dialog fades out
+  const [shownIcon, setShownIcon] = useState<IconData | null>(current);
+  if (current && current !== shownIcon) setShownIcon(current);
+  const icon = current ?? shownIcon;
+
+  /**
+   * Show the icon before or after the current one
+   *
+   * @param step - -1 for the previous icon, 1 for the next
+   */
+  const stepTo = (step: number) => {
+    const next = icons[index + step];
+    if (index !== -1 && next) onChange(next.id);
+  };
+
+  /**
+   * Step with the arrow keys, unless a control inside the dialog uses them
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    if ((e.target as HTMLElement).closest('input, [role="slider"]')) return;
+    e.preventDefault();
+    stepTo(e.key === 'ArrowLeft' ? -1 : 1);
+  };
+
+  if (!icon) return null;
+
+  // The size shown on the stage: the preferred size, or the nearest available one
+  const sizes = icon.rasterSizes;
+  const sizeIndex = preferredSize === null
+    ? sizes.length - 1
+    : sizes.reduce((best, raster, position) => (
+      Math.abs(raster.size - preferredSize) < Math.abs(sizes[best].size - preferredSize) ? position : best
+    ), 0);
+  const raster = sizes[sizeIndex];
+  const backgroundSx = getBackgroundSx(background, customColor);
+
+  return (
+    <Dialog open={current !== null} onClose={() => onChange(null)} onKeyDown={handleKeyDown} fullWidth maxWidth="md">
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, pr: 1 }}>
+        <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+          <Typography variant="h6" component="span" sx={{ display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {icon.name || 'Untitled icon'}
+          </Typography>
+          {index !== -1 && (
+            <Typography variant="caption" color="text.secondary">
+              {index + 1} of {icons.length} · Use the arrow keys to step through
+            </Typography>
+          )}
+        </Box>
+        <Tooltip title="Previous icon">
+          <span>
+            <IconButton onClick={() => stepTo(-1)} disabled={index <= 0} aria-label="Previous icon">
+              <ChevronLeftIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Next icon">
+          <span>
+            <IconButton onClick={() => stepTo(1)} disabled={index === -1 || index >= icons.length - 1} aria-label="Next icon">
+              <ChevronRightIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Button
+          component={Link}
+          href={`/icons/${encodeURIComponent(icon.id)}`}
+          size="small"
+          endIcon={<OpenInNewIcon />}
+        >
+          Details
+        </Button>
+        <IconButton onClick={() => onChange(null)} aria-label="Close preview">
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Stack spacing={3}>
+          {/* Background choice */}
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={background}
+              onChange={(_, value: PreviewBackground | null) => value && setBackground(value)}
+              aria-label="Preview background"
+            >
+              {BACKGROUND_OPTIONS.map(option => (
+                <ToggleButton key={option.value} value={option.value}>
+                  {option.label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <Box
+              component="input"
+              type="color"
+              value={customColor}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                setCustomColor(e.target.value);
+                setBackground('custom');
+              }}
+              aria-label="Custom background color"
+              sx={{ width: 40, height: 32, p: 0, border: 'none', bgcolor: 'transparent', cursor: 'pointer' }}
+            />
+          </Box>
+
+          {/* The icon at its real size */}
+          {raster ? (
+            <Box>
+              <Box
+                sx={{
+                  ...backgroundSx,
+                  display: 'flex',
+                  height: 'min(50vh, 360px)',
+                  overflow: 'auto',
+                  borderRadius: 2,
+                  border: '1px solid',
+                  borderColor: 'divider',
+                }}
+              >
+                <Box
+                  component="img"
+                  src={raster.formats[0]?.previewUrl}
+                  alt={icon.tags[0] || icon.name || 'icon'}
+                  width={raster.width}
+                  height={raster.height}
+                  sx={{ m: 'auto', flexShrink: 0 }}
+                />
+              </Box>
+              <Box sx={{ px: 2, pt: 1 }}>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Actual size: {raster.width} × {raster.height}px
+                </Typography>
+                <Slider
+                  value={sizeIndex}
+                  min={0}
+                  max={Math.max(sizes.length - 1, 0)}
+                  step={1}
+                  marks={sizes.map((size, position) => ({ value: position, label: `${size.size}` }))}
+                  onChange={(_, value) => setPreferredSize(sizes[value as number].size)}
+                  disabled={sizes.length < 2}
+                  valueLabelDisplay="off"
+                  aria-label="Preview size"
+                  getAriaValueText={value => `${sizes[value]?.size}px`}
+                />
+              </Box>
+            </Box>
+          ) : (
+            <Typography color="text.secondary">This icon has no preview images.</Typography>
+          )}
+
+          {/* Common UI sizes side by side, magnified */}
+          {raster && (
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                At common sizes, magnified {PIXEL_ZOOM}×
+              </Typography>
+              <Box
+                sx={{
+                  ...backgroundSx,
+                  display: 'flex',
+                  flexWrap: 'wrap',
+                  alignItems: 'flex-end',
+                  gap: 3,
+                  p: 2,
+                  borderRadius: 2,
+                  border: '1px solid',
+                  borderColor: 'divider',
+                }}
+              >
+                {PIXEL_SIZES.map(size => {
+                  const source = getRasterForSize(icon, size);
+                  const src = source?.formats[0]?.previewUrl;
+                  if (!source || !src) return null;
+                  return (
+                    <Box key={size} sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 1 }}>
+                      <PixelPreview src={src} size={size} />
+                      {/* The same size unmagnified */}
+                      <Box component="img" src={src} alt="" width={size} height={size} />
+                      <Typography
+                        variant="caption"
+                        sx={{ px: 0.75, borderRadius: 1, bgcolor: 'rgba(255,255,255,0.85)', color: 'text.primary' }}
+                      >
+                        {size}px{source.size !== size && ` · scaled from ${source.size}px`}
+                      </Typography>
+                    </Box>
+                  );
+                })}
+              </Box>
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+    </Dialog>
+  );
+}
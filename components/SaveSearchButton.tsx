@@ -0,0 +1,115 @@
+'use client';
+
+// Import React hook for state management
+import { useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { Bookmark as BookmarkIcon, BookmarkBorder as BookmarkBorderIcon } from '@mui/icons-material';
+
+import { MAX_SAVED_SEARCH_NAME_LENGTH, describeSearchFilters, getSearchKey } from '@/lib/searchHistory';
+import { useSearchHistory } from '@/useSearchHistory';
+import type { IconSearchFilters } from '@/types';
+
+interface SaveSearchButtonProps {
+  query: string;
+  filters: IconSearchFilters;
+}
+
+/**
+ * SaveSearchButton Component
+ *
+ * Saves the current search and its filters under a name, so it can be run
+ * again from the home page. For a search that is already saved, the
+ * dialog renames it or removes it.
+ */
+export default function SaveSearchButton({ query, filters }: SaveSearchButtonProps) {
+  const { saved, saveSearch, removeSavedSearch } = useSearchHistory();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const key = getSearchKey({ query, filters });
+  const existing = saved.find(search => getSearchKey(search) === key);
+  const filterSummary = describeSearchFilters(filters);
+
+  const handleOpen = () => {
+    setName(existing?.name ?? query);
+    setError(null);
+    setOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      saveSearch(name, query, filters);
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the search');
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        startIcon={existing ? <BookmarkIcon /> : <BookmarkBorderIcon />}
+        onClick={handleOpen}
+      >
+        {existing ? 'Saved' : 'Save search'}
+      </Button>
+
+      <Dialog open={open} onClose={() => setOpen(false)} fullWidth maxWidth="xs">
+        <form onSubmit={handleSubmit}>
+          <DialogTitle>{existing ? 'Saved search' : 'Save search'}</DialogTitle>
+          <DialogContent>
+            <Stack spacing={2} sx={{ pt: 1 }}>
+              <Typography variant="body2" color="text.secondary">
+                "{query}"{filterSummary ? ` · ${filterSummary}` : ''}
+              </Typography>
+              <TextField
+                label="Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+                fullWidth
+                slotProps={{ htmlInput: { maxLength: MAX_SAVED_SEARCH_NAME_LENGTH } }}
+              />
+              {error && <Alert severity="error">{error}</Alert>}
+            </Stack>
+          </DialogContent>
+          <DialogActions>
+            {existing && (
+              <Button
+                color="error"
+                onClick={() => {
+                  removeSavedSearch(existing.id);
+                  setOpen(false);
+                }}
+                sx={{ mr: 'auto' }}
+              >
+                Remove
+              </Button>
+            )}
+            <Button onClick={() => setOpen(false)}>Cancel</Button>
+            <Button type="submit" variant="contained">
+              {existing ? 'Rename' : 'Save'}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+    </>
+  );
+}
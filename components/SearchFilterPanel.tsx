@@ -0,0 +1,176 @@
+'use client';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Button,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { FilterList as FilterListIcon } from '@mui/icons-material';
+
+// Import filter definitions shared with the API route
+import {
+  CATEGORY_OPTIONS,
+  DEFAULT_FILTERS,
+  STYLE_OPTIONS,
+  countActiveFilters,
+} from '@/lib/searchFilters';
+import type { IconSearchFilters, LicenseFilter, PremiumFilter } from '@/types';
+
+interface SearchFilterPanelProps {
+  filters: IconSearchFilters;
+  onChange: (filters: IconSearchFilters) => void;
+}
+
+/**
+ * Turn an Iconfinder identifier like "filled-outline" into a readable label
+ */
+const formatIdentifier = (identifier: string) =>
+  identifier
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+/**
+ * SearchFilterPanel Component
+ *
+ * Renders the search filters (premium, vector, license, style, category and
+ * minimum size). The panel is fully controlled: the search page keeps the
+ * filter state in the URL and passes it in.
+ */
+export default function SearchFilterPanel({ filters, onChange }: SearchFilterPanelProps) {
+  const activeCount = countActiveFilters(filters);
+
+  /**
+   * Update a single filter value
+   */
+  const update = <K extends keyof IconSearchFilters>(key: K, value: IconSearchFilters[K]) => {
+    onChange({ ...filters, [key]: value });
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 2,
+        mb: 3,
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 2,
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 2,
+      }}
+    >
+      <FilterListIcon color="action" />
+
+      {/* Free vs premium */}
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={filters.premium}
+        onChange={(_, value: PremiumFilter | null) => value && update('premium', value)}
+      >
+        <ToggleButton value="all">All</ToggleButton>
+        <ToggleButton value="free">Free</ToggleButton>
+        <ToggleButton value="premium">Premium</ToggleButton>
+      </ToggleButtonGroup>
+
+      {/* Vector availability */}
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={filters.vector}
+            onChange={(e) => update('vector', e.target.checked)}
+          />
+        }
+        label="Vector only"
+      />
+
+      {/* License type */}
+      <FormControl size="small" sx={{ minWidth: 200 }}>
+        <InputLabel id="filter-license-label">License</InputLabel>
+        <Select
+          labelId="filter-license-label"
+          label="License"
+          value={filters.license}
+          onChange={(e) => update('license', e.target.value as LicenseFilter)}
+        >
+          <MenuItem value="any">Any license</MenuItem>
+          <MenuItem value="commercial">Commercial use</MenuItem>
+          <MenuItem value="commercial-nonattribution">Commercial, no attribution</MenuItem>
+        </Select>
+      </FormControl>
+
+      {/* Icon style */}
+      <FormControl size="small" sx={{ minWidth: 150 }}>
+        <InputLabel id="filter-style-label">Style</InputLabel>
+        <Select
+          labelId="filter-style-label"
+          label="Style"
+          value={filters.style ?? ''}
+          onChange={(e) => update('style', e.target.value || null)}
+        >
+          <MenuItem value="">Any style</MenuItem>
+          {STYLE_OPTIONS.map(style => (
+            <MenuItem key={style} value={style}>{formatIdentifier(style)}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {/* Icon category */}
+      <FormControl size="small" sx={{ minWidth: 180 }}>
+        <InputLabel id="filter-category-label">Category</InputLabel>
+        <Select
+          labelId="filter-category-label"
+          label="Category"
+          value={filters.category ?? ''}
+          onChange={(e) => update('category', e.target.value || null)}
+        >
+          <MenuItem value="">Any category</MenuItem>
+          {CATEGORY_OPTIONS.map(category => (
+            <MenuItem key={category} value={category}>{formatIdentifier(category)}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {/* Minimum size in pixels */}
+      <TextField
+        size="small"
+        type="number"
+        label="Min size (px)"
+        value={filters.minSize ?? ''}
+        onChange={(e) => {
+          const value = Number.parseInt(e.target.value, 10);
+          update('minSize', Number.isFinite(value) && value > 0 ? value : null);
+        }}
+        slotProps={{ htmlInput: { min: 1, max: 1024 } }}
+        sx={{ width: 130 }}
+      />
+
+      {/* Reset all filters */}
+      <Box sx={{ flexGrow: 1, display: 'flex', justifyContent: 'flex-end' }}>
+        <Button
+          size="small"
+          disabled={activeCount === 0}
+          onClick={() => onChange(DEFAULT_FILTERS)}
+        >
+          Clear filters{activeCount > 0 ? ` (${activeCount})` : ''}
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
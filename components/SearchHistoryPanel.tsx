@@ -0,0 +1,158 @@
+'use client';
+
+// Import Material-UI components for UI design
+import { Box, Button, Chip, Stack, Tooltip, Typography } from '@mui/material';
+
+// Import Material-UI icons
+import {
+  Bookmark as BookmarkIcon,
+  History as HistoryIcon,
+  PauseCircleOutline as PauseIcon,
+  PlayCircleOutline as ResumeIcon,
+  DeleteSweep as ClearIcon,
+} from '@mui/icons-material';
+
+import { describeSearchFilters } from '@/lib/searchHistory';
+import { useSearchHistory } from '@/useSearchHistory';
+import type { IconSearchFilters } from '@/types';
+
+interface SearchHistoryPanelProps {
+  // Run a saved or recent search
+  onSelect: (search: { query: string; filters: IconSearchFilters }) => void;
+}
+
+// Glass chips that sit on the home page gradient
+const chipSx = {
+  backgroundColor: 'rgba(255,255,255,0.2)',
+  backdropFilter: 'blur(10px)',
+  color: 'white',
+  border: '1px solid rgba(255,255,255,0.3)',
+  fontWeight: 500,
+  maxWidth: 260,
+  '& .MuiChip-icon, & .MuiChip-deleteIcon': {
+    color: 'rgba(255,255,255,0.7)',
+  },
+  '& .MuiChip-deleteIcon:hover': {
+    color: 'white',
+  },
+  '&:hover': {
+    backgroundColor: 'rgba(255,255,255,0.3)',
+  },
+};
+
+const headingSx = {
+  color: 'rgba(255,255,255,0.9)',
+  fontWeight: 500,
+};
+
+const controlSx = {
+  color: 'rgba(255,255,255,0.8)',
+  textTransform: 'none',
+  '&:hover': { backgroundColor: 'rgba(255,255,255,0.1)' },
+  '&.Mui-disabled': { color: 'rgba(255,255,255,0.4)' },
+};
+
+/**
+ * Label a search with its query and, when set, its filters
+ */
+const formatSearch = (query: string, filters: IconSearchFilters) => {
+  const filterSummary = describeSearchFilters(filters);
+  return filterSummary ? `${query} · ${filterSummary}` : query;
+};
+
+/**
+ * SearchHistoryPanel Component
+ *
+ * Shows the saved searches and the most recent searches on the home page,
+ * with controls to clear the history or pause recording it.
+ */
+export default function SearchHistoryPanel({ onSelect }: SearchHistoryPanelProps) {
+  const {
+    history,
+    saved,
+    paused,
+    removeHistoryEntry,
+    clearSearchHistory,
+    setSearchHistoryPaused,
+    removeSavedSearch,
+  } = useSearchHistory();
+
+  return (
+    <Stack spacing={3} sx={{ maxWidth: 600, mx: 'auto', mb: 4 }}>
+      {/* Saved searches */}
+      {saved.length > 0 && (
+        <Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', mb: 1.5 }}>
+            <BookmarkIcon sx={{ color: 'white', mr: 1, fontSize: 20 }} />
+            <Typography variant="body1" sx={headingSx}>
+              Saved Searches
+            </Typography>
+          </Box>
+          <Stack direction="row" spacing={1} justifyContent="center" flexWrap="wrap" useFlexGap>
+            {saved.map(search => (
+              <Tooltip key={search.id} title={formatSearch(search.query, search.filters)}>
+                <Chip
+                  label={search.name}
+                  onClick={() => onSelect(search)}
+                  onDelete={() => removeSavedSearch(search.id)}
+                  sx={chipSx}
+                />
+              </Tooltip>
+            ))}
+          </Stack>
+        </Box>
+      )}
+
+      {/* Recent searches, with the privacy controls */}
+      <Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', mb: 1.5 }}>
+          <HistoryIcon sx={{ color: 'white', mr: 1, fontSize: 20 }} />
+          <Typography variant="body1" sx={headingSx}>
+            Recent Searches
+          </Typography>
+        </Box>
+
+        {history.length > 0 ? (
+          <Stack direction="row" spacing={1} justifyContent="center" flexWrap="wrap" useFlexGap>
+            {history.slice(0, 10).map(entry => (
+              <Chip
+                key={`${entry.query}|${entry.searchedAt}`}
+                label={formatSearch(entry.query, entry.filters)}
+                onClick={() => onSelect(entry)}
+                onDelete={() => removeHistoryEntry(entry)}
+                sx={chipSx}
+              />
+            ))}
+          </Stack>
+        ) : (
+          <Typography variant="body2" sx={{ color: 'rgba(255,255,255,0.7)' }}>
+            {paused ? 'Search history is paused.' : 'Searches you run will show up here.'}
+          </Typography>
+        )}
+
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 1, mt: 1.5 }}>
+          <Button
+            size="small"
+            startIcon={paused ? <ResumeIcon /> : <PauseIcon />}
+            onClick={() => setSearchHistoryPaused(!paused)}
+            sx={controlSx}
+          >
+            {paused ? 'Resume history' : 'Pause history'}
+          </Button>
+          <Button
+            size="small"
+            startIcon={<ClearIcon />}
+            disabled={history.length === 0}
+            onClick={clearSearchHistory}
+            sx={controlSx}
+          >
+            Clear history
+          </Button>
+        </Box>
+        <Typography variant="caption" sx={{ display: 'block', color: 'rgba(255,255,255,0.6)' }}>
+          Searches are only stored in this browser.
+        </Typography>
+      </Box>
+    </Stack>
+  );
+}
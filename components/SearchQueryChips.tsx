@@ -0,0 +1,95 @@
+'use client';
+
+// Import Material-UI components for UI design
+import { Alert, Box, Chip, Typography } from '@mui/material';
+
+import {
+  describeQueryToken,
+  removeQueryToken,
+  type ParsedSearchQuery,
+  type QueryToken,
+} from '@/lib/searchQuery';
+
+interface SearchQueryChipsProps {
+  query: string;
+  parsed: ParsedSearchQuery;
+  // Called with the query after a chip is removed
+  onChange: (query: string) => void;
+}
+
+/**
+ * Pick a chip color for a part of the query
+ */
+const getChipColor = (token: QueryToken) => {
+  if (token.negated) return 'error';
+  if (token.kind === 'term' || token.kind === 'phrase') return 'default';
+  return 'primary';
+};
+
+/**
+ * Render the query with the parts that could not be understood marked
+ */
+const renderMarkedQuery = (query: string, parsed: ParsedSearchQuery) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  [...parsed.errors]
+    .sort((a, b) => a.start - b.start)
+    .forEach((error, index) => {
+      if (error.start < position) return;
+      parts.push(query.slice(position, error.start));
+      parts.push(
+        <Box
+          key={index}
+          component="mark"
+          sx={{ bgcolor: 'transparent', color: 'error.main', textDecoration: 'underline wavy', textUnderlineOffset: 3 }}
+        >
+          {query.slice(error.start, error.end)}
+        </Box>
+      );
+      position = error.end;
+    });
+  parts.push(query.slice(position));
+  return parts;
+};
+
+/**
+ * SearchQueryChips Component
+ *
+ * Shows the parsed search query as removable chips above the results, and
+ * points out the parts of the query that could not be understood.
+ */
+export default function SearchQueryChips({ query, parsed, onChange }: SearchQueryChipsProps) {
+  // A plain search for a word or two needs no explanation
+  const hasSyntax = parsed.tokens.some(token => token.kind !== 'term' || token.negated);
+  if (!hasSyntax && parsed.errors.length === 0) return null;
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      {parsed.errors.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 1.5 }}>
+          <Typography variant="body2" sx={{ fontFamily: 'monospace', mb: 0.5 }}>
+            {renderMarkedQuery(query, parsed)}
+          </Typography>
+          {parsed.errors.map((error, index) => (
+            <Typography key={index} variant="body2">
+              {error.message}. This part of the search is ignored.
+            </Typography>
+          ))}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+        {parsed.tokens.map(token => (
+          <Chip
+            key={`${token.start}-${token.end}`}
+            label={describeQueryToken(token)}
+            color={getChipColor(token)}
+            variant={token.kind === 'term' ? 'outlined' : 'filled'}
+            size="small"
+            onDelete={() => onChange(removeQueryToken(query, token))}
+          />
+        ))}
+      </Box>
+    </Box>
+  );
+}
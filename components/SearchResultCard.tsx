@@ -0,0 +1,307 @@
+'use client';
+
+// Import React helper to skip re-rendering unchanged cards
+import { memo } from 'react';
+import Link from 'next/link';
+
+// Import Material-UI components for UI design
+import {
+  Box,
+  Card,
+  CardActionArea,
+  CardMedia,
+  Checkbox,
+  Chip,
+  IconButton,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { Favorite as FavoriteIcon, FavoriteBorder as FavoriteBorderIcon } from '@mui/icons-material';
+
+import DownloadMenuButton from '@/components/DownloadMenuButton';
+import { getPreviewUrl } from '@/lib/icons';
+import type { IconData } from '@/types';
+
+interface SearchResultCardProps {
+  icon: IconData;
+  isFavorite: boolean;
+  isSelected: boolean;
+  selectionMode: boolean;
+  // Whether favorites can be changed in the active workspace
+  canEdit: boolean;
+  // Name of the favorites the icon is added to
+  favoritesName: string;
+  onToggleFavorite: (icon: IconData) => void;
+  onSelect: (iconId: string, extendRange: boolean) => void;
+  // Opens the quick-look preview of the icon
+  onPreview: (iconId: string) => void;
+}
+
+/**
+ * SearchResultCard Component
+ *
+ * A single search result with its preview, name and tags, buttons to
+ * favorite and download it, and a checkbox in selection mode. Cards are
+ * memoized so that sorting, grouping or selecting re-renders only the
+ * cards that changed.
+ */
+function SearchResultCard({
+  icon,
+  isFavorite,
+  isSelected,
+  selectionMode,
+  canEdit,
+  favoritesName,
+  onToggleFavorite,
+  onSelect,
+  onPreview,
+}: SearchResultCardProps) {
+  const previewUrl = getPreviewUrl(icon);
+  const iconId = icon.id;
+
+  /**
+   * Toggle favorite status without following the card link
+   */
+  const handleToggleFavorite = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onToggleFavorite(icon);
+  };
+
+  return (
+    <Card
+      elevation={0}
+      sx={{
+        border: '1px solid',
+        borderColor: isSelected ? 'primary.main' : 'divider',
+        borderRadius: 2,
+        transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
+        position: 'relative',
+        overflow: 'hidden',
+        // Highlight selected cards
+        ...(isSelected && {
+          bgcolor: 'rgba(25, 118, 210, 0.08)',
+          boxShadow: '0 0 0 2px rgba(25, 118, 210, 0.5)',
+        }),
+        // Hover effects for the card
+        '&:hover': {
+          borderColor: 'primary.main',
+          boxShadow: '0 8px 25px rgba(25, 118, 210, 0.15)',
+          transform: 'translateY(-4px)',
+        },
+      }}
+    >
+      {/* Selection checkbox */}
+      {selectionMode && (
+        <Checkbox
+          checked={isSelected}
+          onClick={(e) => onSelect(iconId, e.shiftKey)}
+          inputProps={{ 'aria-label': `Select ${icon.name}` }}
+          sx={{
+            position: 'absolute',
+            top: 4,
+            left: 4,
+            zIndex: 2,
+            bgcolor: 'rgba(255, 255, 255, 0.9)',
+            '&:hover': { bgcolor: 'rgba(255, 255, 255, 1)' },
+          }}
+        />
+      )}
+
+      {/* Action buttons (favorite and download) */}
+      <Box
+        sx={{
+          position: 'absolute',
+          top: 8,
+          right: 8,
+          zIndex: 2,
+          display: selectionMode ? 'none' : 'flex', // Hidden while selecting
+          gap: 0.5,
+          opacity: 0, // Hidden by default
+          transition: 'opacity 0.2s',
+          // Show on card hover
+          '.MuiCard-root:hover &': {
+            opacity: 1,
+          },
+        }}
+      >
+        {/* Favorite toggle button */}
+        <Tooltip
+          title={!canEdit
+            ? 'Viewers cannot change workspace favorites'
+            : `${isFavorite ? 'Remove from' : 'Add to'} ${favoritesName}`}
+        >
+          <span>
+            <IconButton
+              size="small"
+              disabled={!canEdit}
+              onClick={handleToggleFavorite}
+              sx={{
+                bgcolor: 'rgba(255, 255, 255, 0.9)',
+                backdropFilter: 'blur(8px)', // Glass effect
+                '&:hover': {
+                  bgcolor: 'rgba(255, 255, 255, 1)',
+                },
+              }}
+            >
+              {isFavorite ? (
+                <FavoriteIcon sx={{ fontSize: 16, color: 'error.main' }} />
+              ) : (
+                <FavoriteBorderIcon sx={{ fontSize: 16 }} />
+              )}
+            </IconButton>
+          </span>
+        </Tooltip>
+
+        {/* Download menu with every format and size */}
+        <DownloadMenuButton
+          icon={icon}
+          sx={{
+            bgcolor: 'rgba(255, 255, 255, 0.9)',
+            backdropFilter: 'blur(8px)', // Glass effect
+            '&:hover': {
+              bgcolor: 'rgba(255, 255, 255, 1)',
+            },
+          }}
+        />
+      </Box>
+
+      {/* Main card content area; opens the preview, or selects in selection mode */}
+      <CardActionArea
+        component={Link}
+        href={`/icons/${encodeURIComponent(iconId)}`}
+        onClick={(e: React.MouseEvent) => {
+          if (selectionMode) {
+            e.preventDefault();
+            onSelect(iconId, e.shiftKey);
+            return;
+          }
+          // Modified clicks still open the details page, e.g. in a new tab
+          if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+          e.preventDefault();
+          onPreview(iconId);
+        }}
+        onKeyDown={(e: React.KeyboardEvent) => {
+          if (e.key !== ' ' || selectionMode) return;
+          e.preventDefault();
+          onPreview(iconId);
+        }}
+        sx={{
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+      >
+        {/* Icon image display area */}
+        <Box
+          sx={{
+            height: 160,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            // Gradient background for icon area
+            background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
+            position: 'relative',
+            overflow: 'hidden',
+          }}
+        >
+          <CardMedia
+            component="img"
+            image={previewUrl}
+            alt={icon.tags?.[0] || icon.name || 'icon'}
+            sx={{
+              maxWidth: '80%',
+              maxHeight: '80%',
+              objectFit: 'contain',
+              transition: 'transform 0.3s ease',
+              // Scale effect on hover
+              '&:hover': {
+                transform: 'scale(1.1)',
+              },
+            }}
+          />
+
+          {/* Favorite indicator */}
+          {isFavorite && !selectionMode && (
+            <Box
+              sx={{
+                position: 'absolute',
+                top: 8,
+                left: 8,
+                bgcolor: 'rgba(25, 118, 210, 0.9)', // Blue to match theme
+                borderRadius: '50%',
+                width: 24,
+                height: 24,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}
+            >
+              <FavoriteIcon sx={{ fontSize: 14, color: 'white' }} />
+            </Box>
+          )}
+        </Box>
+
+        {/* Icon information section */}
+        <Box sx={{ p: 1.5, flexGrow: 1 }}>
+          {/* Icon name display */}
+          {icon.name && (
+            <Typography
+              variant="body2"
+              sx={{
+                fontWeight: 500,
+                mb: 0.5,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {icon.name}
+            </Typography>
+          )}
+
+          {/* Icon tags display */}
+          {icon.tags && icon.tags.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+              {/* Display first 2 tags */}
+              {icon.tags.slice(0, 2).map((tag, tagIndex) => (
+                <Chip
+                  key={tagIndex}
+                  label={tag}
+                  size="small"
+                  variant="outlined"
+                  sx={{
+                    fontSize: '0.7rem',
+                    height: 20,
+                    borderRadius: 1,
+                    bgcolor: 'rgba(25, 118, 210, 0.04)',
+                    borderColor: 'rgba(25, 118, 210, 0.2)',
+                  }}
+                />
+              ))}
+              {/* Show additional tags count if more than 2 */}
+              {icon.tags.length > 2 && (
+                <Chip
+                  label={`+${icon.tags.length - 2}`}
+                  size="small"
+                  variant="outlined"
+                  sx={{
+                    fontSize: '0.7rem',
+                    height: 20,
+                    borderRadius: 1,
+                    bgcolor: 'rgba(158, 158, 158, 0.04)',
+                    borderColor: 'rgba(158, 158, 158, 0.2)',
+                  }}
+                />
+              )}
+            </Box>
+          )}
+        </Box>
+      </CardActionArea>
+    </Card>
+  );
+}
+
+export default memo(SearchResultCard);
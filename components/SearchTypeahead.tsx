@@ -0,0 +1,236 @@
+'use client';
+
+// Import React hooks for state management and side effects
+import { useEffect, useMemo, useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Autocomplete,
+  Avatar,
+  AvatarGroup,
+  Box,
+  CircularProgress,
+  InputAdornment,
+  ListItemIcon,
+  ListItemText,
+  TextField,
+} from '@mui/material';
+
+// Import Material-UI icons
+import {
+  Bookmark as BookmarkIcon,
+  History as HistoryIcon,
+  Search as SearchIcon,
+  TrendingUp as TrendingUpIcon,
+} from '@mui/icons-material';
+
+import { fetchJson, isAbortError } from '@/lib/apiClient';
+import { DEFAULT_FILTERS } from '@/lib/searchFilters';
+import { describeSearchFilters } from '@/lib/searchHistory';
+import { parseSearchQuery } from '@/lib/searchQuery';
+import { useSearchHistory } from '@/useSearchHistory';
+import type {
+  IconSearchFilters,
+  SavedSearch,
+  SearchHistoryEntry,
+  SearchSuggestion,
+  SearchSuggestionsResponse,
+} from '@/types';
+
+// Wait this long after the last keystroke before asking for suggestions
+const DEBOUNCE_MS = 200;
+
+// A saved or recent search, or a completion from /api/suggestions
+type TypeaheadOption =
+  | { kind: 'saved'; search: SavedSearch }
+  | { kind: 'recent'; search: SearchHistoryEntry }
+  | { kind: 'suggestion'; suggestion: SearchSuggestion };
+
+const GROUP_LABELS: Record<TypeaheadOption['kind'], string> = {
+  saved: 'Saved searches',
+  recent: 'Recent searches',
+  suggestion: 'Suggestions',
+};
+
+interface SearchTypeaheadProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Run a picked suggestion; typed text is left to the surrounding form
+  onSearch: (search: { query: string; filters: IconSearchFilters }) => void;
+}
+
+/**
+ * Get the query an option searches for
+ */
+const getOptionQuery = (option: TypeaheadOption) =>
+  option.kind === 'suggestion' ? option.suggestion.query : option.search.query;
+
+/**
+ * SearchTypeahead Component
+ *
+ * The home page search field. While typing it suggests matching saved and
+ * recent searches and, after a short pause, completions from
+ * /api/suggestions with thumbnails of icons they would find. Arrow keys
+ * move through the suggestions, Enter runs the highlighted one and Escape
+ * closes the list. Requests for stale keystrokes are cancelled.
+ */
+export default function SearchTypeahead({ value, onChange, onSearch }: SearchTypeaheadProps) {
+  const { getSuggestions } = useSearchHistory();
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Point out advanced syntax that will be ignored before the search runs
+  const queryError = useMemo(() => parseSearchQuery(value).errors[0] ?? null, [value]);
+
+  /**
+   * Fetch completions once typing pauses, cancelling the previous request
+   */
+  useEffect(() => {
+    const input = value.trim();
+    if (!input) {
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      setLoading(true);
+      fetchJson<SearchSuggestionsResponse>(`/api/suggestions?q=${encodeURIComponent(value)}`, { signal: controller.signal })
+        .then(data => setSuggestions(data.suggestions))
+        .catch(err => {
+          if (controller.signal.aborted || isAbortError(err)) return;
+          // Suggestions are optional; searching still works without them
+          console.error('Error loading suggestions:', err);
+          setSuggestions([]);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value]);
+
+  // History first, then completions that are not already in it
+  const history = getSuggestions(value);
+  const historyQueries = new Set([...history.saved, ...history.recent].map(search => search.query.toLowerCase()));
+  const options: TypeaheadOption[] = [
+    ...history.saved.map(search => ({ kind: 'saved' as const, search })),
+    ...history.recent.map(search => ({ kind: 'recent' as const, search })),
+    ...suggestions
+      .filter(suggestion => !historyQueries.has(suggestion.query.toLowerCase()))
+      .map(suggestion => ({ kind: 'suggestion' as const, suggestion })),
+  ];
+
+  return (
+    <Autocomplete
+      freeSolo
+      includeInputInList // Arrowing past the last option returns to the typed text
+      options={options}
+      loading={loading}
+      inputValue={value}
+      onInputChange={(_e, newValue, reason) => {
+        // Picking an option resets the text to its label; onChange below handles that
+        if (reason !== 'reset') onChange(newValue);
+      }}
+      onChange={(_e, option) => {
+        if (!option || typeof option === 'string') return;
+        onChange(getOptionQuery(option));
+        onSearch(option.kind === 'suggestion'
+          ? { query: option.suggestion.query, filters: DEFAULT_FILTERS }
+          : option.search);
+      }}
+      filterOptions={(unfiltered) => unfiltered}
+      groupBy={(option) => GROUP_LABELS[option.kind]}
+      getOptionLabel={(option) => (typeof option === 'string' ? option : getOptionQuery(option))}
+      isOptionEqualToValue={(option, selected) => getOptionQuery(option) === getOptionQuery(selected)}
+      renderOption={({ key, ...props }, option) => {
+        if (option.kind === 'suggestion') {
+          const { suggestion } = option;
+          return (
+            <li key={key} {...props}>
+              <ListItemIcon sx={{ minWidth: 36 }}>
+                {suggestion.source === 'recent' ? <TrendingUpIcon fontSize="small" /> : <SearchIcon fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText primary={suggestion.query} />
+              {/* Thumbnails of icons the suggestion finds */}
+              {suggestion.previews.length > 0 && (
+                <AvatarGroup max={4} sx={{ ml: 1, '& .MuiAvatar-root': { width: 28, height: 28, bgcolor: 'grey.100' } }}>
+                  {suggestion.previews.map(preview => (
+                    <Avatar
+                      key={preview.id}
+                      variant="rounded"
+                      src={preview.previewUrl}
+                      alt={preview.name}
+                      sx={{ '& img': { objectFit: 'contain', p: 0.25 } }}
+                    />
+                  ))}
+                </AvatarGroup>
+              )}
+            </li>
+          );
+        }
+
+        const filterSummary = describeSearchFilters(option.search.filters);
+        const savedQuery = option.kind === 'saved' && option.search.name !== option.search.query ? option.search.query : '';
+        return (
+          <li key={key} {...props}>
+            <ListItemIcon sx={{ minWidth: 36 }}>
+              {option.kind === 'saved' ? <BookmarkIcon fontSize="small" /> : <HistoryIcon fontSize="small" />}
+            </ListItemIcon>
+            <ListItemText
+              primary={option.kind === 'saved' ? option.search.name : option.search.query}
+              secondary={[savedQuery, filterSummary].filter(Boolean).join(' · ') || undefined}
+            />
+          </li>
+        );
+      }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          fullWidth
+          label="What icon are you looking for?"
+          placeholder="Try searching for music, home, user, email..."
+          variant="outlined"
+          error={queryError !== null}
+          helperText={queryError?.message}
+          InputProps={{
+            ...params.InputProps,
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon sx={{ color: 'primary.main' }} />
+              </InputAdornment>
+            ),
+            endAdornment: (
+              <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                {loading && <CircularProgress size={18} sx={{ mr: 1 }} />}
+                {params.InputProps.endAdornment}
+              </Box>
+            ),
+            sx: {
+              fontSize: '1.2vw', // Using viewport width units
+              '& .MuiOutlinedInput-root': {
+                borderRadius: 2,
+              }
+            }
+          }}
+          sx={{
+            '& .MuiOutlinedInput-root': {
+              backgroundColor: 'rgba(255,255,255,0.8)',
+              '&:hover': {
+                backgroundColor: 'rgba(255,255,255,0.9)',
+              },
+              '&.Mui-focused': {
+                backgroundColor: 'white',
+              }
+            }
+          }}
+        />
+      )}
+    />
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+// Import Material-UI components for UI design
+import { Box, FormControl, InputLabel, MenuItem, Select } from '@mui/material';
+
+import {
+  SEARCH_GROUP_OPTIONS,
+  SEARCH_SORT_OPTIONS,
+  type SearchGroup,
+  type SearchSort,
+  type SearchView,
+} from '@/lib/searchView';
+
+interface SearchViewControlsProps {
+  view: SearchView;
+  onChange: (view: SearchView) => void;
+}
+
+/**
+ * SearchViewControls Component
+ *
+ * Sort and group selects for the loaded search results. Fully controlled;
+ * the search page keeps the view in the URL.
+ */
+export default function SearchViewControls({ view, onChange }: SearchViewControlsProps) {
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'flex-end', gap: 2, mb: 2 }}>
+      <FormControl size="small" sx={{ minWidth: 160 }}>
+        <InputLabel id="search-sort-label">Sort by</InputLabel>
+        <Select
+          labelId="search-sort-label"
+          label="Sort by"
+          value={view.sort}
+          onChange={(e) => onChange({ ...view, sort: e.target.value as SearchSort })}
+        >
+          {SEARCH_SORT_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControl size="small" sx={{ minWidth: 160 }}>
+        <InputLabel id="search-group-label">Group by</InputLabel>
+        <Select
+          labelId="search-group-label"
+          label="Group by"
+          value={view.group}
+          onChange={(e) => onChange({ ...view, group: e.target.value as SearchGroup })}
+        >
+          {SEARCH_GROUP_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    </Box>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+// Import Material-UI components for UI design
+import { Chip, Tooltip, type SxProps, type Theme } from '@mui/material';
+
+// Import Material-UI icons
+import {
+  CloudDone as CloudDoneIcon,
+  CloudOff as CloudOffIcon,
+  CloudSync as CloudSyncIcon,
+  PhoneIphone as LocalIcon,
+} from '@mui/icons-material';
+
+import type { SyncStatus } from '@/lib/favoritesStore';
+
+interface SyncStatusChipProps {
+  status: SyncStatus;
+  sx?: SxProps<Theme>;
+}
+
+// Label, explanation and icon for each status
+const STATUS_DETAILS: Record<Exclude<SyncStatus, 'idle'>, { label: string; title: string; icon: React.ReactElement }> = {
+  syncing: { label: 'Syncing', title: 'Saving your favorites to the server', icon: <CloudSyncIcon /> },
+  synced: { label: 'Synced', title: 'Your favorites are saved on the server', icon: <CloudDoneIcon /> },
+  offline: {
+    label: 'Offline',
+    title: 'The server cannot be reached. Changes are kept in this browser and sent when it is back.',
+    icon: <CloudOffIcon />,
+  },
+  local: { label: 'This browser only', title: 'Server sync is turned off; favorites are stored in this browser', icon: <LocalIcon /> },
+};
+
+/**
+ * SyncStatusChip Component
+ *
+ * Shows whether favorites are saved on the server.
+ */
+export default function SyncStatusChip({ status, sx }: SyncStatusChipProps) {
+  if (status === 'idle') return null;
+  const { label, title, icon } = STATUS_DETAILS[status];
+
+  return (
+    <Tooltip title={title}>
+      <Chip label={label} icon={icon} sx={sx} />
+    </Tooltip>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+// Import React hook for state management
+import { useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Alert,
+  Avatar,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { DeleteForever as DeleteForeverIcon, RestoreFromTrash as RestoreIcon } from '@mui/icons-material';
+
+import { getPreviewUrl } from '@/lib/icons';
+import { useFavorites } from '@/useFavorites';
+
+// Retention periods offered, in days
+const RETENTION_OPTIONS = [1, 7, 30, 90, 365];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TrashDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Describe how long until a trashed favorite is deleted
+ */
+const formatExpiry = (daysLeft: number) => {
+  if (daysLeft <= 0) return 'Deleted today';
+  return `Deleted in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+};
+
+/**
+ * TrashDialog Component
+ *
+ * Lists removed favorites with buttons to restore them or delete them
+ * for good, and lets the user choose how long the trash keeps them.
+ */
+export default function TrashDialog({ open, onClose }: TrashDialogProps) {
+  const { trash, trashRetentionDays, canEdit, restoreFavorite, purgeTrash, setTrashRetention } = useFavorites();
+  const [confirmEmpty, setConfirmEmpty] = useState(false); // Asking before emptying the trash
+
+  // Entries past the retention period are dropped with the next change; hide them already
+  const now = Date.now();
+  const entries = trash
+    .map(entry => ({
+      entry,
+      daysLeft: Math.ceil((Date.parse(entry.removedAt) + trashRetentionDays * DAY_MS - now) / DAY_MS),
+    }))
+    .filter(({ daysLeft }) => daysLeft >= 0);
+
+  const handleClose = () => {
+    setConfirmEmpty(false);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="sm">
+      <DialogTitle>Trash</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            Removed favorites are kept here for {trashRetentionDays} day{trashRetentionDays === 1 ? '' : 's'} and
+            can be restored to the collections they were in.
+          </Typography>
+
+          <FormControl size="small" sx={{ maxWidth: 220 }} disabled={!canEdit}>
+            <InputLabel id="trash-retention-label">Keep removed favorites for</InputLabel>
+            <Select
+              labelId="trash-retention-label"
+              label="Keep removed favorites for"
+              value={trashRetentionDays}
+              onChange={(e) => setTrashRetention(Number(e.target.value))}
+            >
+              {/* Keep a retention period set elsewhere selectable */}
+              {[...new Set([...RETENTION_OPTIONS, trashRetentionDays])].sort((a, b) => a - b).map(days => (
+                <MenuItem key={days} value={days}>
+                  {days} day{days === 1 ? '' : 's'}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {entries.length === 0 ? (
+            <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+              The trash is empty.
+            </Typography>
+          ) : (
+            <List dense disablePadding>
+              {entries.map(({ entry, daysLeft }) => (
+                <ListItem
+                  key={entry.icon.id}
+                  disableGutters
+                  secondaryAction={canEdit && (
+                    <>
+                      <Tooltip title="Restore">
+                        <IconButton onClick={() => restoreFavorite(entry.icon.id)} aria-label={`Restore ${entry.icon.name}`}>
+                          <RestoreIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete forever">
+                        <IconButton
+                          edge="end"
+                          onClick={() => purgeTrash([entry.icon.id])}
+                          aria-label={`Delete ${entry.icon.name} forever`}
+                        >
+                          <DeleteForeverIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  )}
+                >
+                  <ListItemAvatar>
+                    <Avatar
+                      variant="rounded"
+                      src={getPreviewUrl(entry.icon)}
+                      alt={entry.icon.name}
+                      sx={{ bgcolor: 'grey.100', '& img': { objectFit: 'contain' } }}
+                    />
+                  </ListItemAvatar>
+                  <ListItemText
+                    primary={entry.icon.name || 'Untitled icon'}
+                    secondary={`Removed ${new Date(entry.removedAt).toLocaleDateString()} · ${formatExpiry(daysLeft)}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+
+          {confirmEmpty && (
+            <Alert
+              severity="warning"
+              action={
+                <Button
+                  color="inherit"
+                  size="small"
+                  onClick={() => {
+                    purgeTrash();
+                    setConfirmEmpty(false);
+                  }}
+                >
+                  Delete all
+                </Button>
+              }
+            >
+              Delete {entries.length} favorite{entries.length === 1 ? '' : 's'} forever? This cannot be undone.
+            </Alert>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        {canEdit && (
+          <Button color="error" disabled={entries.length === 0 || confirmEmpty} onClick={() => setConfirmEmpty(true)}>
+            Empty trash
+          </Button>
+        )}
+        <Button onClick={handleClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
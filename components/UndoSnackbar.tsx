@@ -0,0 +1,78 @@
+'use client';
+
+// Import React hook for side effects
+import { useEffect } from 'react';
+
+// Import Material-UI components for UI design
+import { Button, Snackbar } from '@mui/material';
+
+import { useFavorites } from '@/useFavorites';
+
+// How long the snackbar stays open
+const AUTO_HIDE_MS = 6000;
+
+/**
+ * Check whether a keyboard event comes from a text field, where Ctrl+Z
+ * should undo typing instead
+ */
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * UndoSnackbar Component
+ *
+ * Confirms each change to favorites with an Undo button (Redo after an
+ * undo), and handles Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) on the page.
+ */
+export default function UndoSnackbar() {
+  const { history, canEdit, undo, redo, clearLastAction } = useFavorites();
+  const { lastAction } = history;
+
+  /**
+   * Keyboard shortcuts for undo and redo
+   */
+  useEffect(() => {
+    if (!canEdit) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canEdit, undo, redo]);
+
+  if (!lastAction) return null;
+
+  const undone = lastAction.kind === 'undo';
+
+  return (
+    <Snackbar
+      // A new action restarts the timer
+      key={lastAction.id}
+      open
+      autoHideDuration={AUTO_HIDE_MS}
+      onClose={(_e, reason) => {
+        if (reason !== 'clickaway') clearLastAction();
+      }}
+      message={undone ? `Undone: ${lastAction.label}` : lastAction.label}
+      action={
+        canEdit && (
+          <Button color="inherit" size="small" onClick={undone ? redo : undo} sx={{ fontWeight: 700 }}>
+            {undone ? 'Redo' : 'Undo'}
+          </Button>
+        )
+      }
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+    />
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+// Import React hooks for state management
+import { useEffect, useState } from 'react';
+
+// Import Material-UI components for UI design
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+
+// Import Material-UI icons
+import { PersonRemove as PersonRemoveIcon } from '@mui/icons-material';
+
+import { ApiRequestError } from '@/lib/apiClient';
+import { useSession } from '@/useSession';
+import type { Workspace, WorkspaceRole } from '@/types';
+
+// Roles offered when adding or changing members
+const ROLE_OPTIONS: { value: WorkspaceRole; label: string; description: string }[] = [
+  { value: 'viewer', label: 'Viewer', description: 'Sees favorites and collections' },
+  { value: 'editor', label: 'Editor', description: 'Also adds, removes and organizes favorites' },
+  { value: 'owner', label: 'Owner', description: 'Also manages members and the workspace' },
+];
+
+interface WorkspaceDialogProps {
+  // Workspace to manage; a new workspace is created when null
+  workspace: Workspace | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * WorkspaceDialog Component
+ *
+ * Creates a workspace, or manages one: its name, its members and their
+ * roles. Members who are not owners can only see the members and leave.
+ */
+export default function WorkspaceDialog({ workspace, open, onClose }: WorkspaceDialogProps) {
+  const {
+    user,
+    createWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+    addMember,
+    updateMember,
+    removeMember,
+  } = useSession();
+
+  const [name, setName] = useState('');
+  const [newMember, setNewMember] = useState(''); // Username to add
+  const [newRole, setNewRole] = useState<WorkspaceRole>('editor');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [busy, setBusy] = useState(false); // Request in flight
+  const [error, setError] = useState<string | null>(null); // Message of the last failure
+
+  /**
+   * Reset the form whenever the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+    setName(workspace?.name ?? '');
+    setNewMember('');
+    setNewRole('editor');
+    setConfirmDelete(false);
+    setError(null);
+  }, [open, workspace]);
+
+  const isOwner = workspace?.members.some(member => member.userId === user?.id && member.role === 'owner') ?? true;
+
+  /**
+   * Run an account action, showing its error in the dialog
+   *
+   * @returns Whether the action succeeded
+   */
+  const run = async (action: () => Promise<void>): Promise<boolean> => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(ApiRequestError.from(err).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    if (!workspace) {
+      if (await run(() => createWorkspace(name))) onClose();
+      return;
+    }
+    if (name.trim() !== workspace.name) await run(() => renameWorkspace(workspace.id, name));
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspace || !newMember.trim()) return;
+    if (await run(() => addMember(workspace.id, newMember.trim(), newRole))) setNewMember('');
+  };
+
+  const handleLeaveOrDelete = async () => {
+    if (!workspace || !user) return;
+    const done = isOwner
+      ? await run(() => deleteWorkspace(workspace.id))
+      : await run(() => removeMember(workspace.id, user.id));
+    if (done) onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{workspace ? workspace.name : 'New workspace'}</DialogTitle>
+      <DialogContent>
+        {!workspace && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Members of a workspace share its favorites and collections.
+          </Typography>
+        )}
+
+        {/* Name */}
+        {(isOwner || !workspace) && (
+          <Box component="form" onSubmit={handleSaveName} sx={{ display: 'flex', gap: 1, pt: 1 }}>
+            <TextField
+              label="Workspace name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              size="small"
+              fullWidth
+              autoFocus={!workspace}
+              slotProps={{ htmlInput: { maxLength: 60 } }}
+            />
+            <Button type="submit" variant={workspace ? 'outlined' : 'contained'} disabled={busy || !name.trim()}>
+              {workspace ? 'Rename' : 'Create'}
+            </Button>
+          </Box>
+        )}
+
+        {/* Members */}
+        {workspace && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 3 }}>
+              Members
+            </Typography>
+            <List dense disablePadding>
+              {workspace.members.map(member => (
+                <ListItem
+                  key={member.userId}
+                  disableGutters
+                  secondaryAction={isOwner && member.userId !== user?.id && (
+                    <Tooltip title="Remove member">
+                      <IconButton
+                        edge="end"
+                        disabled={busy}
+                        onClick={() => run(() => removeMember(workspace.id, member.userId))}
+                      >
+                        <PersonRemoveIcon />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                >
+                  <ListItemText
+                    primary={member.userId === user?.id ? `${member.username} (you)` : member.username}
+                    secondary={`Member since ${new Date(member.addedAt).toLocaleDateString()}`}
+                  />
+                  {isOwner ? (
+                    <Select
+                      size="small"
+                      value={member.role}
+                      disabled={busy}
+                      onChange={(e) => run(() => updateMember(workspace.id, member.userId, e.target.value as WorkspaceRole))}
+                      sx={{ mr: 5, minWidth: 110 }}
+                    >
+                      {ROLE_OPTIONS.map(option => (
+                        <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                      ))}
+                    </Select>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary" sx={{ textTransform: 'capitalize' }}>
+                      {member.role}
+                    </Typography>
+                  )}
+                </ListItem>
+              ))}
+            </List>
+
+            {/* Add a member */}
+            {isOwner && (
+              <Stack component="form" onSubmit={handleAddMember} direction="row" spacing={1} sx={{ mt: 2 }}>
+                <TextField
+                  label="Add by username"
+                  value={newMember}
+                  onChange={(e) => setNewMember(e.target.value)}
+                  size="small"
+                  fullWidth
+                />
+                <Select size="small" value={newRole} onChange={(e) => setNewRole(e.target.value as WorkspaceRole)}>
+                  {ROLE_OPTIONS.map(option => (
+                    <MenuItem key={option.value} value={option.value} title={option.description}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+                <Button type="submit" variant="outlined" disabled={busy || !newMember.trim()}>
+                  Add
+                </Button>
+              </Stack>
+            )}
+
+            <Divider sx={{ my: 3 }} />
+
+            {/* Leave or delete */}
+            {confirmDelete ? (
+              <Alert
+                severity="warning"
+                action={
+                  <Button color="error" size="small" disabled={busy} onClick={handleLeaveOrDelete}>
+                    {isOwner ? 'Delete' : 'Leave'}
+                  </Button>
+                }
+              >
+                {isOwner
+                  ? 'Delete this workspace and its favorites for every member?'
+                  : 'Leave this workspace? An owner has to add you again to come back.'}
+              </Alert>
+            ) : (
+              <Button color="error" onClick={() => setConfirmDelete(true)}>
+                {isOwner ? 'Delete workspace' : 'Leave workspace'}
+              </Button>
+            )}
+          </>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{workspace ? 'Done' : 'Cancel'}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
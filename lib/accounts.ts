@@ -0,0 +1,355 @@
+/**
+ * Accounts Service
+ *
+ * Server-side handling of users and team workspaces: looking up the
+ * signed-in user, managing workspaces and their members, and checking
+ * workspace roles. All changes go through updateAccounts, which
+ * serializes writes so concurrent requests never overwrite each other.
+ *
+ * Roles, from least to most permissions:
+ *
+ * - viewer: sees the workspace's favorites and collections
+ * - editor: also adds, removes and organizes favorites
+ * - owner: also renames or deletes the workspace and manages members
+ */
+
+import { randomUUID } from 'crypto';
+import { ApiError } from '@/lib/apiErrors';
+import { getSessionUserId } from '@/lib/auth/session';
+import {
+  getAccountsStorage,
+  type AccountsData,
+  type StoredUser,
+  type StoredWorkspace,
+} from '@/lib/accountsStorage';
+import type { AccountUser, SessionResponse, Workspace, WorkspaceRole } from '@/types';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['viewer', 'editor', 'owner'];
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+const MAX_WORKSPACE_NAME_LENGTH = 60;
+
+// Pending writes; each write waits for the previous one
+let accountsLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Read users and workspaces
+ */
+export function readAccounts(): Promise<AccountsData> {
+  return getAccountsStorage().read();
+}
+
+/**
+ * Change users or workspaces and persist the result
+ * The change runs once every earlier change has been written.
+ *
+ * @param change - Mutates the data in place; throwing cancels the write
+ * @returns What the change returned
+ */
+export async function updateAccounts<T>(change: (data: AccountsData) => T): Promise<T> {
+  const storage = getAccountsStorage();
+  const task = accountsLock.catch(() => undefined).then(async () => {
+    const data = await storage.read();
+    const result = change(data);
+    await storage.write(data);
+    return result;
+  });
+  accountsLock = task;
+  return task;
+}
+
+/**
+ * Normalize a username for case-insensitive comparisons
+ */
+function toUsernameKey(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+/**
+ * Check a username chosen at registration
+ *
+ * @throws ApiError when it is not allowed
+ */
+export function validateUsername(username: string): string {
+  const trimmed = username.trim();
+  if (!USERNAME_PATTERN.test(trimmed)) {
+    throw new ApiError(
+      'INVALID_REQUEST',
+      'Usernames are 3 to 32 letters, digits, dots, dashes or underscores',
+      { status: 400 }
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Check a workspace name
+ *
+ * @throws ApiError when it is empty or too long
+ */
+function validateWorkspaceName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > MAX_WORKSPACE_NAME_LENGTH) {
+    throw new ApiError('INVALID_REQUEST', `Workspace names are 1 to ${MAX_WORKSPACE_NAME_LENGTH} characters`, { status: 400 });
+  }
+  return trimmed;
+}
+
+/**
+ * Check a role sent by a client
+ *
+ * @throws ApiError when it is not a known role
+ */
+export function validateRole(role: unknown): WorkspaceRole {
+  if (!WORKSPACE_ROLES.includes(role as WorkspaceRole)) {
+    throw new ApiError('INVALID_REQUEST', `"role" must be one of ${WORKSPACE_ROLES.join(', ')}`, { status: 400 });
+  }
+  return role as WorkspaceRole;
+}
+
+/**
+ * Check whether a role grants at least the permissions of another
+ */
+export function hasRole(role: WorkspaceRole, minimum: WorkspaceRole): boolean {
+  return WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(minimum);
+}
+
+/**
+ * Find a user by username, ignoring case
+ */
+export function findUserByUsername(data: AccountsData, username: string): StoredUser | undefined {
+  const key = toUsernameKey(username);
+  return data.users.find(user => user.usernameKey === key);
+}
+
+/**
+ * Create a user
+ *
+ * @param username - A username that passed validateUsername
+ * @param passwordHash - The hashed password, or null for external providers
+ * @returns The new user
+ * @throws ApiError when the username is taken
+ */
+export function createUser(username: string, passwordHash: string | null): Promise<StoredUser> {
+  return updateAccounts(data => {
+    if (findUserByUsername(data, username)) {
+      throw new ApiError('CONFLICT', 'That username is already taken', { status: 409 });
+    }
+    const user: StoredUser = {
+      id: randomUUID(),
+      username,
+      usernameKey: toUsernameKey(username),
+      passwordHash,
+      createdAt: new Date().toISOString(),
+    };
+    data.users.push(user);
+    return user;
+  });
+}
+
+/**
+ * Get the signed-in user
+ *
+ * @param req - The incoming request
+ * @returns The user, or null when nobody is signed in
+ */
+export async function getCurrentUser(req: Request): Promise<StoredUser | null> {
+  const userId = getSessionUserId(req);
+  if (!userId) return null;
+  const data = await readAccounts();
+  return data.users.find(user => user.id === userId) ?? null;
+}
+
+/**
+ * Get the signed-in user, or fail when nobody is signed in
+ *
+ * @throws ApiError UNAUTHORIZED
+ */
+export async function requireUser(req: Request): Promise<StoredUser> {
+  const user = await getCurrentUser(req);
+  if (!user) throw new ApiError('UNAUTHORIZED', 'Sign in to continue', { status: 401 });
+  return user;
+}
+
+/**
+ * Strip a stored user down to what clients may see
+ */
+export function toAccountUser(user: StoredUser): AccountUser {
+  return { id: user.id, username: user.username, createdAt: user.createdAt };
+}
+
+/**
+ * Resolve a stored workspace's members to usernames
+ */
+function toWorkspace(data: AccountsData, workspace: StoredWorkspace): Workspace {
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    createdAt: workspace.createdAt,
+    members: workspace.members.map(member => ({
+      ...member,
+      username: data.users.find(user => user.id === member.userId)?.username ?? 'Deleted user',
+    })),
+  };
+}
+
+/**
+ * Get a user's role in a workspace
+ */
+function getRole(workspace: StoredWorkspace, userId: string): WorkspaceRole | null {
+  return workspace.members.find(member => member.userId === userId)?.role ?? null;
+}
+
+/**
+ * Find a workspace and check the user's role in it
+ * Workspaces the user is not a member of are reported as not found.
+ *
+ * @param data - Users and workspaces
+ * @param workspaceId - The workspace
+ * @param userId - The user
+ * @param minimum - The least role needed
+ * @returns The workspace and the user's role
+ * @throws ApiError NOT_FOUND or FORBIDDEN
+ */
+export function requireWorkspaceRole(
+  data: AccountsData,
+  workspaceId: string,
+  userId: string,
+  minimum: WorkspaceRole
+): { workspace: StoredWorkspace; role: WorkspaceRole } {
+  const workspace = data.workspaces.find(candidate => candidate.id === workspaceId);
+  const role = workspace && getRole(workspace, userId);
+  if (!workspace || !role) throw new ApiError('NOT_FOUND', 'Workspace not found', { status: 404 });
+  if (!hasRole(role, minimum)) {
+    throw new ApiError('FORBIDDEN', `This needs the ${minimum} role in "${workspace.name}"`, { status: 403 });
+  }
+  return { workspace, role };
+}
+
+/**
+ * Get the session state sent to the client
+ *
+ * @param user - The signed-in user, or null
+ * @returns The user and their workspaces
+ */
+export async function getSessionState(user: StoredUser | null): Promise<SessionResponse> {
+  if (!user) return { user: null, workspaces: [] };
+  const data = await readAccounts();
+  return {
+    user: toAccountUser(user),
+    workspaces: data.workspaces
+      .filter(workspace => getRole(workspace, user.id))
+      .map(workspace => toWorkspace(data, workspace)),
+  };
+}
+
+/**
+ * Create a workspace owned by a user
+ *
+ * @param userId - The owner
+ * @param name - The workspace name
+ * @returns The new workspace
+ */
+export function createWorkspace(userId: string, name: unknown): Promise<Workspace> {
+  const validName = validateWorkspaceName(name);
+  return updateAccounts(data => {
+    const now = new Date().toISOString();
+    const workspace: StoredWorkspace = {
+      id: randomUUID(),
+      name: validName,
+      createdAt: now,
+      members: [{ userId, role: 'owner', addedAt: now }],
+    };
+    data.workspaces.push(workspace);
+    return toWorkspace(data, workspace);
+  });
+}
+
+/**
+ * Rename a workspace; owners only
+ */
+export function renameWorkspace(userId: string, workspaceId: string, name: unknown): Promise<Workspace> {
+  const validName = validateWorkspaceName(name);
+  return updateAccounts(data => {
+    const { workspace } = requireWorkspaceRole(data, workspaceId, userId, 'owner');
+    workspace.name = validName;
+    return toWorkspace(data, workspace);
+  });
+}
+
+/**
+ * Delete a workspace; owners only
+ */
+export function deleteWorkspace(userId: string, workspaceId: string): Promise<void> {
+  return updateAccounts(data => {
+    const { workspace } = requireWorkspaceRole(data, workspaceId, userId, 'owner');
+    data.workspaces = data.workspaces.filter(candidate => candidate !== workspace);
+  });
+}
+
+/**
+ * Make sure a workspace keeps at least one owner
+ *
+ * @throws ApiError CONFLICT when it would have none
+ */
+function ensureOwner(workspace: StoredWorkspace) {
+  if (!workspace.members.some(member => member.role === 'owner')) {
+    throw new ApiError('CONFLICT', 'A workspace needs at least one owner', { status: 409 });
+  }
+}
+
+/**
+ * Add a member to a workspace by username; owners only
+ */
+export function addWorkspaceMember(
+  userId: string,
+  workspaceId: string,
+  username: unknown,
+  role: unknown
+): Promise<Workspace> {
+  const validRole = validateRole(role);
+  return updateAccounts(data => {
+    const { workspace } = requireWorkspaceRole(data, workspaceId, userId, 'owner');
+    const member = typeof username === 'string' ? findUserByUsername(data, username) : undefined;
+    if (!member) throw new ApiError('NOT_FOUND', 'No user with that username', { status: 404 });
+    if (getRole(workspace, member.id)) {
+      throw new ApiError('CONFLICT', `${member.username} is already a member`, { status: 409 });
+    }
+    workspace.members.push({ userId: member.id, role: validRole, addedAt: new Date().toISOString() });
+    return toWorkspace(data, workspace);
+  });
+}
+
+/**
+ * Change a member's role; owners only
+ */
+export function updateWorkspaceMember(
+  userId: string,
+  workspaceId: string,
+  memberId: string,
+  role: unknown
+): Promise<Workspace> {
+  const validRole = validateRole(role);
+  return updateAccounts(data => {
+    const { workspace } = requireWorkspaceRole(data, workspaceId, userId, 'owner');
+    const member = workspace.members.find(candidate => candidate.userId === memberId);
+    if (!member) throw new ApiError('NOT_FOUND', 'Member not found', { status: 404 });
+    member.role = validRole;
+    ensureOwner(workspace);
+    return toWorkspace(data, workspace);
+  });
+}
+
+/**
+ * Remove a member from a workspace
+ * Owners can remove anyone; other members can only leave.
+ */
+export function removeWorkspaceMember(userId: string, workspaceId: string, memberId: string): Promise<Workspace> {
+  return updateAccounts(data => {
+    const { workspace } = requireWorkspaceRole(data, workspaceId, userId, memberId === userId ? 'viewer' : 'owner');
+    if (!getRole(workspace, memberId)) throw new ApiError('NOT_FOUND', 'Member not found', { status: 404 });
+    workspace.members = workspace.members.filter(member => member.userId !== memberId);
+    ensureOwner(workspace);
+    return toWorkspace(data, workspace);
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * File Accounts Storage
+ *
+ * Keeps users and workspaces in a single JSON file. The file is written
+ * to a temporary file first and then renamed, so a crash never leaves a
+ * half-written file behind.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AccountsData, AccountsStorageAdapter } from './types';
+
+export class FileAccountsStorage implements AccountsStorageAdapter {
+  readonly name = 'file';
+
+  constructor(private readonly file: string) {}
+
+  async read(): Promise<AccountsData> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { users: [], workspaces: [] };
+      throw error;
+    }
+
+    try {
+      return JSON.parse(contents) as AccountsData;
+    } catch {
+      throw new Error(`Accounts file "${this.file}" is corrupt`);
+    }
+  }
+
+  async write(data: AccountsData): Promise<void> {
+    const temp = `${this.file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(data), 'utf8');
+    await fs.rename(temp, this.file);
+  }
+}
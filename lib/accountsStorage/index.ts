@@ -0,0 +1,47 @@
+/**
+ * Accounts Storage
+ *
+ * Selects where users and workspaces are stored from configuration:
+ *
+ *   ACCOUNTS_STORAGE=file (default)  writes ACCOUNTS_DATA_FILE (default ./data/accounts.json)
+ *   ACCOUNTS_STORAGE=memory          keeps accounts in memory until the server restarts
+ */
+
+import path from 'path';
+import { FileAccountsStorage } from './file';
+import { MemoryAccountsStorage } from './memory';
+import { ApiError } from '@/lib/apiErrors';
+import type { AccountsStorageAdapter } from './types';
+
+export * from './types';
+export { FileAccountsStorage } from './file';
+export { MemoryAccountsStorage } from './memory';
+
+// Storage instance shared by all requests of this server process
+let storage: AccountsStorageAdapter | null = null;
+
+/**
+ * Get the configured accounts storage
+ *
+ * @returns The storage adapter
+ * @throws ApiError when the configured storage is unknown
+ */
+export function getAccountsStorage(): AccountsStorageAdapter {
+  if (storage) return storage;
+
+  const name = process.env.ACCOUNTS_STORAGE || 'file';
+
+  switch (name) {
+    case 'file':
+      storage = new FileAccountsStorage(path.resolve(process.env.ACCOUNTS_DATA_FILE || 'data/accounts.json'));
+      break;
+    case 'memory':
+      storage = new MemoryAccountsStorage();
+      break;
+    default:
+      console.error(`Unknown accounts storage "${name}"`);
+      throw new ApiError('SERVER_MISCONFIGURED', 'Accounts storage is not configured', { status: 500 });
+  }
+
+  return storage;
+}
@@ -0,0 +1,22 @@
+/**
+ * Memory Accounts Storage
+ *
+ * Keeps users and workspaces in the server process. Everything is lost on
+ * restart, which makes it suitable for tests and demos only.
+ */
+
+import type { AccountsData, AccountsStorageAdapter } from './types';
+
+export class MemoryAccountsStorage implements AccountsStorageAdapter {
+  readonly name = 'memory';
+  // Stored serialized so callers never share objects with the store
+  private record = JSON.stringify({ users: [], workspaces: [] } satisfies AccountsData);
+
+  async read(): Promise<AccountsData> {
+    return JSON.parse(this.record) as AccountsData;
+  }
+
+  async write(data: AccountsData): Promise<void> {
+    this.record = JSON.stringify(data);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Accounts Storage Types
+ *
+ * An accounts storage adapter keeps users and team workspaces on the
+ * server. Everything is read and written as one AccountsData record,
+ * which is plenty for the small teams IconVault is meant for.
+ */
+
+import type { WorkspaceRole } from '@/types';
+
+export interface StoredUser {
+  id: string;
+  username: string;
+  // Compared case-insensitively when signing in and adding members
+  usernameKey: string;
+  // Set by password-based providers; see lib/auth/passwords
+  passwordHash: string | null;
+  createdAt: string;
+}
+
+export interface StoredMembership {
+  userId: string;
+  role: WorkspaceRole;
+  addedAt: string;
+}
+
+export interface StoredWorkspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  members: StoredMembership[];
+}
+
+export interface AccountsData {
+  users: StoredUser[];
+  workspaces: StoredWorkspace[];
+}
+
+export interface AccountsStorageAdapter {
+  readonly name: string;
+  // Resolves to empty lists when nothing has been stored yet
+  read(): Promise<AccountsData>;
+  write(data: AccountsData): Promise<void>;
+}
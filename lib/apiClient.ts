@@ -0,0 +1,79 @@
+/**
+ * API Client
+ *
+ * Client-side helpers for calling the app's API routes. Error responses
+ * are turned into ApiRequestError instances that keep the typed error
+ * code, so pages can show a specific message for each failure.
+ */
+
+import type { ApiErrorBody, ApiErrorCode } from '@/types';
+
+export class ApiRequestError extends Error {
+  constructor(
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly status: number,
+    readonly retryable: boolean,
+    readonly upstreamStatus: number | null = null,
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+
+  /**
+   * Build an error from an unsuccessful response
+   *
+   * @param res - The response to read
+   * @returns The matching ApiRequestError
+   */
+  static async fromResponse(res: Response): Promise<ApiRequestError> {
+    try {
+      const { error } = (await res.json()) as ApiErrorBody;
+      return new ApiRequestError(
+        error.code,
+        error.message,
+        res.status,
+        error.retryable,
+        error.upstreamStatus,
+        error.retryAfter
+      );
+    } catch {
+      // Not one of our error bodies (e.g. a proxy error page)
+      return new ApiRequestError('INTERNAL_ERROR', 'Unexpected response from the server', res.status, res.status >= 500);
+    }
+  }
+
+  /**
+   * Wrap any thrown value, treating non-API errors as network failures
+   *
+   * @param error - The thrown value
+   * @returns An ApiRequestError
+   */
+  static from(error: unknown): ApiRequestError {
+    if (error instanceof ApiRequestError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return new ApiRequestError('UPSTREAM_UNAVAILABLE', `Could not reach the server (${message})`, 0, true);
+  }
+}
+
+/**
+ * Fetch JSON from an API route
+ *
+ * @param url - The URL to fetch
+ * @param init - Options passed to fetch
+ * @returns The parsed response body
+ * @throws ApiRequestError when the route responds with an error
+ */
+export async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) throw await ApiRequestError.fromResponse(res);
+  return (await res.json()) as T;
+}
+
+/**
+ * Check whether an error was caused by aborting the request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
@@ -0,0 +1,157 @@
+/**
+ * API Errors
+ *
+ * Typed errors for the API routes. Everything that can go wrong while
+ * handling a request is reported as an ApiError, which serializes to an
+ * ApiErrorBody with a stable code the pages can react to.
+ */
+
+import { NextResponse } from 'next/server';
+import { IconMappingError } from '@/lib/iconMapping';
+import type { ApiErrorBody, ApiErrorCode } from '@/types';
+
+interface ApiErrorOptions {
+  status: number;
+  retryable?: boolean;
+  upstreamStatus?: number | null;
+  retryAfter?: number;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly upstreamStatus: number | null;
+  readonly retryAfter?: number;
+
+  constructor(readonly code: ApiErrorCode, message: string, options: ApiErrorOptions) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.upstreamStatus = options.upstreamStatus ?? null;
+    this.retryAfter = options.retryAfter;
+  }
+
+  toJSON(): ApiErrorBody {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        retryable: this.retryable,
+        upstreamStatus: this.upstreamStatus,
+        ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+      },
+    };
+  }
+}
+
+/**
+ * Translate an unsuccessful upstream status code into an ApiError
+ *
+ * @param status - Status code returned by the upstream API
+ * @param retryAfter - Seconds to wait before retrying, when known
+ * @returns The matching ApiError
+ */
+export function upstreamStatusError(status: number, retryAfter?: number): ApiError {
+  if (status === 401 || status === 403) {
+    return new ApiError('UPSTREAM_AUTH_FAILED', 'The icon service rejected our credentials', {
+      status: 502,
+      upstreamStatus: status,
+    });
+  }
+  if (status === 404) {
+    return new ApiError('NOT_FOUND', 'Icon not found', { status: 404, upstreamStatus: status });
+  }
+  if (status === 429) {
+    return new ApiError('QUOTA_EXHAUSTED', 'The icon search quota is exhausted', {
+      status: 429,
+      retryable: true,
+      upstreamStatus: status,
+      retryAfter,
+    });
+  }
+  if (status >= 500) {
+    return new ApiError('UPSTREAM_UNAVAILABLE', 'The icon service is currently unavailable', {
+      status: 502,
+      retryable: true,
+      upstreamStatus: status,
+    });
+  }
+  return new ApiError('UPSTREAM_ERROR', 'The icon service could not handle the request', {
+    status: 502,
+    upstreamStatus: status,
+  });
+}
+
+/**
+ * Convert any thrown value into an ApiError
+ * Unexpected errors are logged and reported without internal details.
+ *
+ * @param error - The thrown value
+ * @returns The matching ApiError
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof IconMappingError || error instanceof SyntaxError) {
+    console.error('Malformed upstream data:', error);
+    return new ApiError('UPSTREAM_MALFORMED', 'The icon service returned data we could not read', {
+      status: 502,
+      retryable: true,
+    });
+  }
+
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return new ApiError('UPSTREAM_TIMEOUT', 'The icon service took too long to respond', {
+      status: 504,
+      retryable: true,
+    });
+  }
+
+  // fetch() rejects with a TypeError when the network request itself fails
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    console.error('Upstream request failed:', error);
+    return new ApiError('UPSTREAM_UNAVAILABLE', 'The icon service could not be reached', {
+      status: 502,
+      retryable: true,
+    });
+  }
+
+  console.error('Unexpected error:', error);
+  return new ApiError('INTERNAL_ERROR', 'Something went wrong on our side', { status: 500, retryable: true });
+}
+
+/**
+ * Build a JSON error response for any thrown value
+ *
+ * @param error - The thrown value
+ * @param headers - Extra headers to send with the response
+ * @returns The error response
+ */
+export function errorResponse(error: unknown, headers: Record<string, string> = {}): NextResponse<ApiErrorBody> {
+  const apiError = toApiError(error);
+  const responseHeaders = { ...headers };
+  if (apiError.retryAfter !== undefined) responseHeaders['Retry-After'] = String(apiError.retryAfter);
+
+  return NextResponse.json(apiError.toJSON(), { status: apiError.status, headers: responseHeaders });
+}
+
+/**
+ * Read a JSON object from a request body
+ *
+ * @param req - The incoming request
+ * @returns The parsed object
+ * @throws ApiError INVALID_REQUEST when the body is not a JSON object
+ */
+export async function readJsonBody(req: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new ApiError('INVALID_REQUEST', 'Request body must be JSON', { status: 400 });
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError('INVALID_REQUEST', 'Request body must be a JSON object', { status: 400 });
+  }
+  return body as Record<string, unknown>;
+}
@@ -0,0 +1,46 @@
+/**
+ * Auth
+ *
+ * Selects the auth provider from configuration:
+ *
+ *   AUTH_PROVIDER=local (default)  usernames and passwords kept in the accounts storage
+ *   AUTH_PROVIDER=none             disables accounts and workspaces
+ *
+ * Session cookies are signed with AUTH_SECRET; see ./session.
+ */
+
+import { ApiError } from '@/lib/apiErrors';
+import { LocalAuthProvider } from './local';
+import type { AuthProvider } from './types';
+
+export * from './types';
+export * from './session';
+export { LocalAuthProvider } from './local';
+
+// Provider instance shared by all requests of this server process
+let provider: AuthProvider | null = null;
+
+/**
+ * Get the configured auth provider
+ *
+ * @returns The provider
+ * @throws ApiError when accounts are disabled or the provider is unknown
+ */
+export function getAuthProvider(): AuthProvider {
+  if (provider) return provider;
+
+  const name = process.env.AUTH_PROVIDER || 'local';
+
+  switch (name) {
+    case 'local':
+      provider = new LocalAuthProvider();
+      break;
+    case 'none':
+      throw new ApiError('NOT_FOUND', 'Accounts are disabled', { status: 404 });
+    default:
+      console.error(`Unknown auth provider "${name}"`);
+      throw new ApiError('SERVER_MISCONFIGURED', 'Accounts are not configured', { status: 500 });
+  }
+
+  return provider;
+}
@@ -0,0 +1,41 @@
+/**
+ * Local Auth Provider
+ *
+ * Usernames and scrypt password hashes are kept in the accounts storage.
+ */
+
+import { ApiError } from '@/lib/apiErrors';
+import { createUser, findUserByUsername, readAccounts, validateUsername } from '@/lib/accounts';
+import type { StoredUser } from '@/lib/accountsStorage';
+import { hashPassword, MAX_PASSWORD_LENGTH, MIN_PASSWORD_LENGTH, verifyPassword } from './passwords';
+import type { AuthProvider } from './types';
+
+export class LocalAuthProvider implements AuthProvider {
+  readonly name = 'local';
+  readonly canRegister = true;
+
+  // Checked when the username is unknown, so both cases take as long
+  private dummyHash: Promise<string> | null = null;
+
+  async signIn(username: string, password: string): Promise<StoredUser | null> {
+    const user = findUserByUsername(await readAccounts(), username);
+    if (!user?.passwordHash) {
+      this.dummyHash ??= hashPassword('dummy password');
+      await verifyPassword(password, await this.dummyHash);
+      return null;
+    }
+    return (await verifyPassword(password, user.passwordHash)) ? user : null;
+  }
+
+  async register(username: string, password: string): Promise<StoredUser> {
+    const validUsername = validateUsername(username);
+    if (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+      throw new ApiError(
+        'INVALID_REQUEST',
+        `Passwords are ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters`,
+        { status: 400 }
+      );
+    }
+    return createUser(validUsername, await hashPassword(password));
+  }
+}
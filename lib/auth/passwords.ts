@@ -0,0 +1,61 @@
+/**
+ * Passwords
+ *
+ * Passwords are hashed with scrypt and a random salt. The parameters are
+ * stored with the hash, so they can be raised later without breaking
+ * existing accounts:
+ *
+ *   scrypt$<N>$<r>$<p>$<salt, base64>$<hash, base64>
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 200;
+
+/**
+ * Promise wrapper around crypto.scrypt
+ */
+function deriveKey(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Hash a password for storage
+ *
+ * @param password - The plain-text password
+ * @returns The encoded hash, including salt and parameters
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, KEY_LENGTH, { N: COST, r: BLOCK_SIZE, p: PARALLELIZATION });
+  return ['scrypt', COST, BLOCK_SIZE, PARALLELIZATION, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Check a password against a stored hash
+ *
+ * @param password - The plain-text password
+ * @param encoded - A hash created by hashPassword
+ * @returns Whether the password matches
+ */
+export async function verifyPassword(password: string, encoded: string): Promise<boolean> {
+  const [scheme, cost, blockSize, parallelization, salt, hash] = encoded.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(cost),
+    r: Number(blockSize),
+    p: Number(parallelization),
+  });
+  return timingSafeEqual(key, expected);
+}
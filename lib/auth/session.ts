@@ -0,0 +1,110 @@
+/**
+ * Sessions
+ *
+ * A signed-in user is identified by a session cookie holding the user id
+ * and an expiry time, signed with HMAC-SHA256 using AUTH_SECRET:
+ *
+ *   <userId>.<expiresAt, base 36>.<signature, base64url>
+ *
+ * Nothing is stored on the server, so sessions end when they expire or
+ * when AUTH_SECRET changes.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiError } from '@/lib/apiErrors';
+
+export const SESSION_COOKIE = 'iconvault_session';
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30;
+
+// Used when AUTH_SECRET is missing outside production; sessions end on restart
+let developmentSecret: string | null = null;
+
+/**
+ * Get the secret used to sign session cookies
+ *
+ * @throws ApiError in production when AUTH_SECRET is not set
+ */
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    console.error('AUTH_SECRET is not set');
+    throw new ApiError('SERVER_MISCONFIGURED', 'Accounts are not configured', { status: 500 });
+  }
+  if (!developmentSecret) {
+    console.warn('AUTH_SECRET is not set; using a random secret, so sessions end when the server restarts');
+    developmentSecret = randomBytes(32).toString('hex');
+  }
+  return developmentSecret;
+}
+
+/**
+ * Sign a session payload
+ */
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Read a cookie from a request
+ *
+ * @param req - The incoming request
+ * @param name - The cookie name
+ * @returns The cookie value, or null when it is not set or cannot be decoded
+ */
+export function readCookie(req: Request, name: string): string | null {
+  const cookies = req.headers.get('cookie') ?? '';
+  for (const part of cookies.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key !== name) continue;
+    try {
+      return decodeURIComponent(value.join('='));
+    } catch {
+      // A malformed value, e.g. a stray "%", is treated as no cookie
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the Set-Cookie value that signs a user in
+ *
+ * @param userId - The user to sign in
+ * @returns The Set-Cookie header value
+ */
+export function createSessionCookie(userId: string): string {
+  const expiresAt = (Date.now() + SESSION_MAX_AGE * 1000).toString(36);
+  const payload = `${userId}.${expiresAt}`;
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return `${SESSION_COOKIE}=${payload}.${sign(payload)}; Path=/; Max-Age=${SESSION_MAX_AGE}; HttpOnly; SameSite=Lax${secure}`;
+}
+
+/**
+ * Build the Set-Cookie value that signs the user out
+ */
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax`;
+}
+
+/**
+ * Get the id of the signed-in user
+ *
+ * @param req - The incoming request
+ * @returns The user id, or null when the cookie is missing, forged or expired
+ */
+export function getSessionUserId(req: Request): string | null {
+  const cookie = readCookie(req, SESSION_COOKIE);
+  if (!cookie) return null;
+
+  const [userId, expiresAt, signature] = cookie.split('.');
+  if (!userId || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${userId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  if (Number.parseInt(expiresAt, 36) < Date.now()) return null;
+
+  return userId;
+}
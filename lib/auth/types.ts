@@ -0,0 +1,20 @@
+/**
+ * Auth Provider Types
+ *
+ * An auth provider checks credentials and creates accounts. The routes
+ * under /api/auth only talk to this interface, so another provider
+ * (LDAP, an identity service, ...) can replace the local one without
+ * touching them. Providers return stored users; sessions, workspaces and
+ * roles work the same whichever provider signed the user in.
+ */
+
+import type { StoredUser } from '@/lib/accountsStorage';
+
+export interface AuthProvider {
+  readonly name: string;
+  // Whether users can create accounts themselves
+  readonly canRegister: boolean;
+  // Resolves to null when the credentials are wrong
+  signIn(username: string, password: string): Promise<StoredUser | null>;
+  register(username: string, password: string): Promise<StoredUser>;
+}
@@ -0,0 +1,245 @@
+/**
+ * Response Cache
+ *
+ * In-memory LRU cache with a time-to-live and stale-while-revalidate
+ * behavior, used to avoid repeating identical upstream requests.
+ *
+ * - Entries younger than `ttlMs` are served as fresh.
+ * - Entries older than `ttlMs` but younger than `ttlMs + staleMs` are
+ *   served immediately while a single background refresh runs.
+ * - Older entries are treated as missing.
+ * - Once `maxEntries` is reached the least recently used entry is evicted.
+ */
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import type { IconDetailResponse, IconSearchResponse } from '@/types';
+
+export interface CacheOptions {
+  ttlMs: number;
+  staleMs: number;
+  maxEntries: number;
+}
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+  // Time the value was produced, in milliseconds since the epoch
+  storedAt: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  revalidations: number;
+  evictions: number;
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+  staleMs: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+export class ResponseCache<T> {
+  // Map iteration order doubles as recency order: the first key is the least recently used
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  // Loads in progress, shared by concurrent requests for the same key
+  private readonly pending = new Map<string, Promise<CacheEntry<T>>>();
+  private readonly counters = { hits: 0, staleHits: 0, misses: 0, revalidations: 0, evictions: 0 };
+
+  constructor(readonly options: CacheOptions) {}
+
+  /**
+   * Get a cached value, loading it when missing and refreshing it in the
+   * background when stale
+   *
+   * @param key - Cache key
+   * @param loader - Produces a fresh value
+   * @returns The value and how it was served
+   */
+  async getOrLoad(key: string, loader: () => Promise<T>): Promise<CacheResult<T>> {
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+    if (entry && age <= this.options.ttlMs) {
+      this.counters.hits++;
+      this.touch(key, entry);
+      return { ...entry, status: 'HIT' };
+    }
+
+    if (entry && age <= this.options.ttlMs + this.options.staleMs) {
+      this.counters.staleHits++;
+      this.touch(key, entry);
+      if (!this.pending.has(key)) {
+        this.counters.revalidations++;
+        // Failed refreshes keep serving the stale value until it expires
+        this.load(key, loader).catch(error => console.error('Cache revalidation failed:', error));
+      }
+      return { ...entry, status: 'STALE' };
+    }
+
+    this.counters.misses++;
+    const loaded = await this.load(key, loader);
+    return { ...loaded, status: 'MISS' };
+  }
+
+  /**
+   * Get the hit/miss counters and current size
+   */
+  stats(): CacheStats {
+    return {
+      ...this.counters,
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ttlMs: this.options.ttlMs,
+      staleMs: this.options.staleMs,
+    };
+  }
+
+  /**
+   * Get every value that can still be served, most recently used first
+   * Does not count as a lookup or change the recency order.
+   */
+  values(): T[] {
+    const now = Date.now();
+    return [...this.entries.values()]
+      .filter(entry => now - entry.storedAt <= this.options.ttlMs + this.options.staleMs)
+      .map(entry => entry.value)
+      .reverse();
+  }
+
+  /**
+   * Remove every entry (counters are kept)
+   */
+  clear() {
+    this.entries.clear();
+  }
+
+  /**
+   * Run the loader once per key and store its result
+   */
+  private load(key: string, loader: () => Promise<T>): Promise<CacheEntry<T>> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = loader()
+      .then((value) => {
+        const entry = { value, storedAt: Date.now() };
+        this.touch(key, entry);
+        return entry;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Store an entry as the most recently used one, evicting the oldest
+   * entries when the size bound is exceeded
+   */
+  private touch(key: string, entry: CacheEntry<T>) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.counters.evictions++;
+    }
+  }
+}
+
+/**
+ * Read a non-negative integer from an environment variable
+ */
+function readInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Cache options for icon search responses, configurable through
+ * ICON_CACHE_TTL_SECONDS, ICON_CACHE_STALE_SECONDS and ICON_CACHE_MAX_ENTRIES
+ */
+export const iconCacheOptions: CacheOptions = {
+  ttlMs: readInt('ICON_CACHE_TTL_SECONDS', 300) * 1000,
+  staleMs: readInt('ICON_CACHE_STALE_SECONDS', 3600) * 1000,
+  maxEntries: Math.max(readInt('ICON_CACHE_MAX_ENTRIES', 500), 1),
+};
+
+// Shared cache for /api/icons search responses
+export const iconSearchCache = new ResponseCache<IconSearchResponse>(iconCacheOptions);
+
+// Shared cache for /api/icons/[id] responses and icon detail pages
+export const iconDetailCache = new ResponseCache<IconDetailResponse>(iconCacheOptions);
+
+/**
+ * Build a strong ETag for a response body
+ *
+ * @param body - The serialized response body
+ * @returns A quoted ETag value
+ */
+export function createEtag(body: string): string {
+  return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+/**
+ * Check whether an If-None-Match header matches an ETag
+ *
+ * @param header - The If-None-Match request header
+ * @param etag - The current ETag
+ */
+export function etagMatches(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header.split(',').some(candidate => {
+    const value = candidate.trim().replace(/^W\//, '');
+    return value === etag || value === '*';
+  });
+}
+
+/**
+ * Build a JSON response for a cached value
+ * Sends Cache-Control and ETag headers, and answers with 304 Not Modified
+ * when the browser already holds the same body.
+ *
+ * @param req - The incoming request
+ * @param result - The cached value and how it was served
+ * @param options - Options of the cache the value came from
+ * @param headers - Extra headers to send with the response
+ * @returns The response
+ */
+export function cachedJsonResponse<T>(
+  req: Request,
+  result: CacheResult<T>,
+  options: CacheOptions,
+  headers: Record<string, string> = {}
+): NextResponse {
+  const body = JSON.stringify(result.value);
+  const etag = createEtag(body);
+  // Browsers and CDNs may only keep the value for as long as it has left here
+  const ageMs = Math.max(Date.now() - result.storedAt, 0);
+  const maxAge = Math.max(Math.floor((options.ttlMs - ageMs) / 1000), 0);
+  const staleWhileRevalidate = Math.max(Math.floor((options.ttlMs + options.staleMs - ageMs) / 1000) - maxAge, 0);
+  const responseHeaders = {
+    ...headers,
+    'Cache-Control': `public, max-age=${maxAge}, stale-while-revalidate=${staleWhileRevalidate}`,
+    ETag: etag,
+    'X-Cache': result.status,
+  };
+
+  if (etagMatches(req.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers: responseHeaders });
+  }
+
+  return new NextResponse(body, {
+    headers: { ...responseHeaders, 'Content-Type': 'application/json' },
+  });
+}
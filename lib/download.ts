@@ -0,0 +1,105 @@
+/**
+ * Icon Downloads
+ *
+ * Client-side helpers that download icon files through the server-side
+ * download proxy, so Iconfinder's authenticated URLs and the API key
+ * never reach the browser. Successful downloads are counted in
+ * lib/iconUsage.
+ */
+
+import { ApiRequestError } from '@/lib/apiClient';
+import { recordIconUse } from '@/lib/iconUsage';
+import type { BulkDownloadRequest } from '@/types';
+
+export interface DownloadOptions {
+  format?: string;
+  // Pixel size for raster formats
+  size?: number;
+}
+
+/**
+ * Build the download proxy URL for an icon
+ *
+ * @param iconId - Id of the icon
+ * @param options - Format and size to download; the server picks a default when omitted
+ * @returns The download URL
+ */
+export function getDownloadUrl(iconId: string, { format, size }: DownloadOptions = {}): string {
+  const params = new URLSearchParams();
+  if (format) params.set('format', format);
+  if (size) params.set('size', String(size));
+  const query = params.toString();
+  return `/api/icons/${encodeURIComponent(iconId)}/download${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Read the file name from a Content-Disposition header
+ */
+function getFilename(header: string | null): string | null {
+  if (!header) return null;
+  const encoded = header.match(/filename\*=UTF-8''([^;]+)/i);
+  if (encoded) return decodeURIComponent(encoded[1]);
+  return header.match(/filename="([^"]+)"/i)?.[1] ?? null;
+}
+
+/**
+ * Save a blob as a file by clicking a temporary link
+ *
+ * @param blob - The file contents
+ * @param filename - Suggested file name
+ */
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename; // Set filename
+  document.body.appendChild(link);
+  link.click(); // Trigger download
+  document.body.removeChild(link); // Clean up
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download an icon file and save it with the name chosen by the server
+ *
+ * @param iconId - Id of the icon
+ * @param options - Format and size to download
+ * @throws ApiRequestError when the download fails
+ */
+export async function downloadIcon(iconId: string, options: DownloadOptions = {}): Promise<void> {
+  let res: Response;
+  try {
+    res = await fetch(getDownloadUrl(iconId, options));
+  } catch (error) {
+    throw ApiRequestError.from(error);
+  }
+  if (!res.ok) throw await ApiRequestError.fromResponse(res);
+
+  const filename = getFilename(res.headers.get('content-disposition')) ?? `icon.${options.format ?? 'png'}`;
+  saveBlob(await res.blob(), filename);
+  recordIconUse([iconId]);
+}
+
+/**
+ * Download several icons as one ZIP archive built on the server
+ *
+ * @param request - Icon ids plus the preferred format and size
+ * @throws ApiRequestError when the archive cannot be built
+ */
+export async function downloadZip(request: BulkDownloadRequest): Promise<void> {
+  let res: Response;
+  try {
+    res = await fetch('/api/icons/bulk-download', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+  } catch (error) {
+    throw ApiRequestError.from(error);
+  }
+  if (!res.ok) throw await ApiRequestError.fromResponse(res);
+
+  const filename = getFilename(res.headers.get('content-disposition')) ?? 'icons.zip';
+  saveBlob(await res.blob(), filename);
+  recordIconUse(request.ids);
+}
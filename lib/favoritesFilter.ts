@@ -0,0 +1,261 @@
+/**
+ * Favorites Filter
+ *
+ * Search, filters and sort order for the favorites page. The text search
+ * covers each icon's name and tags plus the user's own notes and tags,
+ * and tolerates typos. The whole view is kept in the page URL so that a
+ * filtered list can be bookmarked:
+ *
+ *   /favorites?q=arow&collection=col_1&tag=brand&rating=3&license=71
+ *     &premium=free&vector=1&sort=used
+ */
+
+import { MAX_RATING } from '@/lib/favoritesSchema';
+import { PREMIUM_OPTIONS } from '@/lib/searchFilters';
+import type { FavoriteAddition, FavoriteAnnotation, IconData, IconLicense, PremiumFilter } from '@/types';
+
+export type FavoritesSort = 'manual' | 'added' | 'name' | 'used';
+
+export interface FavoritesFilter {
+  // Free-text search; every word must match
+  query: string;
+  // Collection being viewed, null for all favorites
+  collection: string | null;
+  // Custom tags the favorite must all have
+  tags: string[];
+  // Lowest star rating shown, 0 for any
+  minRating: number;
+  // License id, null for any
+  license: string | null;
+  premium: PremiumFilter;
+  // Only icons with a vector format
+  vector: boolean;
+  sort: FavoritesSort;
+}
+
+// Data the filters read besides the icons themselves
+export interface FavoritesFilterData {
+  annotations: Record<string, FavoriteAnnotation>;
+  added: Record<string, FavoriteAddition>;
+  // Download counts keyed by icon id
+  usage: Readonly<Record<string, number>>;
+}
+
+export const FAVORITES_SORT_OPTIONS: { value: FavoritesSort; label: string }[] = [
+  { value: 'manual', label: 'Collection order' },
+  { value: 'added', label: 'Date added' },
+  { value: 'name', label: 'Name' },
+  { value: 'used', label: 'Most used' },
+];
+
+export const DEFAULT_FAVORITES_FILTER: FavoritesFilter = {
+  query: '',
+  collection: null,
+  tags: [],
+  minRating: 0,
+  license: null,
+  premium: 'all',
+  vector: false,
+  sort: 'manual',
+};
+
+// Names of the parameters as they appear in the URL
+const FAVORITES_PARAM_KEYS = ['q', 'collection', 'tag', 'rating', 'license', 'premium', 'vector', 'sort'] as const;
+
+/**
+ * Read the favorites view from URL search parameters
+ * Unknown or invalid values fall back to the defaults
+ *
+ * @param params - The URL search parameters to read
+ * @returns The parsed filter
+ */
+export function parseFavoritesFilter(params: URLSearchParams): FavoritesFilter {
+  const rating = Number.parseInt(params.get('rating') || '', 10);
+  const premium = params.get('premium') as PremiumFilter | null;
+  const sort = params.get('sort') as FavoritesSort | null;
+
+  return {
+    query: params.get('q') ?? '',
+    collection: params.get('collection') || null,
+    tags: params.getAll('tag').filter(Boolean),
+    minRating: Number.isFinite(rating) ? Math.max(0, Math.min(MAX_RATING, rating)) : 0,
+    license: params.get('license') || null,
+    premium: premium && PREMIUM_OPTIONS.includes(premium) ? premium : DEFAULT_FAVORITES_FILTER.premium,
+    vector: params.get('vector') === '1' || params.get('vector') === 'true',
+    sort: sort && FAVORITES_SORT_OPTIONS.some(option => option.value === sort) ? sort : DEFAULT_FAVORITES_FILTER.sort,
+  };
+}
+
+/**
+ * Write the favorites view into URL search parameters
+ * Values left at their default are removed so URLs stay short
+ *
+ * @param filter - The filter to write
+ * @param params - Existing parameters to update (copied, not mutated)
+ * @returns A new set of search parameters
+ */
+export function applyFavoritesFilter(filter: FavoritesFilter, params = new URLSearchParams()): URLSearchParams {
+  const next = new URLSearchParams(params);
+  FAVORITES_PARAM_KEYS.forEach(key => next.delete(key));
+
+  if (filter.query) next.set('q', filter.query);
+  if (filter.collection) next.set('collection', filter.collection);
+  filter.tags.forEach(tag => next.append('tag', tag));
+  if (filter.minRating > 0) next.set('rating', String(filter.minRating));
+  if (filter.license) next.set('license', filter.license);
+  if (filter.premium !== DEFAULT_FAVORITES_FILTER.premium) next.set('premium', filter.premium);
+  if (filter.vector) next.set('vector', '1');
+  if (filter.sort !== DEFAULT_FAVORITES_FILTER.sort) next.set('sort', filter.sort);
+
+  return next;
+}
+
+/**
+ * Count the filters that narrow the list down
+ * The collection and sort order are not counted; they have their own controls.
+ */
+export function countActiveFavoritesFilters(filter: FavoritesFilter): number {
+  return (filter.query.trim() ? 1 : 0)
+    + filter.tags.length
+    + (filter.minRating > 0 ? 1 : 0)
+    + (filter.license ? 1 : 0)
+    + (filter.premium !== 'all' ? 1 : 0)
+    + (filter.vector ? 1 : 0);
+}
+
+/**
+ * Collect every custom tag in use, sorted alphabetically
+ *
+ * @param annotations - Annotations keyed by icon id
+ * @returns Unique tags, compared case-insensitively
+ */
+export function collectCustomTags(annotations: Record<string, FavoriteAnnotation>): string[] {
+  const tags = new Map<string, string>();
+  for (const annotation of Object.values(annotations)) {
+    for (const tag of annotation.tags) {
+      if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+    }
+  }
+  return [...tags.values()].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Collect the licenses of a list of icons, sorted by name
+ */
+export function collectLicenses(icons: IconData[]): IconLicense[] {
+  const licenses = new Map<string, IconLicense>();
+  icons.forEach(icon => {
+    if (icon.license && !licenses.has(icon.license.id)) licenses.set(icon.license.id, icon.license);
+  });
+  return [...licenses.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Split text into lowercase words
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Levenshtein distance between two strings, giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    previous = row;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score how well a query word matches the words of a favorite
+ * Exact words score highest, then prefixes, substrings and finally words
+ * within a typo or two (more typos are allowed in longer words).
+ *
+ * @returns The best score, 0 when nothing matches
+ */
+function scoreWord(word: string, tokens: string[]): number {
+  const typos = word.length <= 3 ? 0 : word.length <= 6 ? 1 : 2;
+  let best = 0;
+  for (const token of tokens) {
+    if (token === word) return 4;
+    if (token.startsWith(word)) best = Math.max(best, 3);
+    else if (token.includes(word)) best = Math.max(best, 2);
+    else if (best < 1 && typos > 0) {
+      // Compare with the start of longer words, so a misspelled prefix still matches
+      const fuzzy = Math.min(
+        editDistance(word, token, typos),
+        token.length > word.length ? editDistance(word, token.slice(0, word.length), typos) : typos + 1
+      );
+      if (fuzzy <= typos) best = 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Score a favorite against the search words
+ *
+ * @returns The total score, or 0 when a word does not match at all
+ */
+function scoreFavorite(words: string[], icon: IconData, annotation: FavoriteAnnotation | undefined): number {
+  const tokens = tokenize([icon.name, ...icon.tags, ...(annotation?.tags ?? []), annotation?.note ?? ''].join(' '));
+  let total = 0;
+  for (const word of words) {
+    const score = scoreWord(word, tokens);
+    if (score === 0) return 0;
+    total += score;
+  }
+  return total;
+}
+
+/**
+ * Keep the favorites that match a filter and put them in its sort order
+ * With the manual order and a search, the best matches come first.
+ *
+ * @param icons - Favorites to filter, in the collection's order
+ * @param data - Annotations, additions and usage counts
+ * @param filter - The filter to apply; its collection is left to the caller
+ * @returns The matching favorites
+ */
+export function filterFavorites(icons: IconData[], data: FavoritesFilterData, filter: FavoritesFilter): IconData[] {
+  const words = tokenize(filter.query);
+  const tags = filter.tags.map(tag => tag.toLowerCase());
+  const scores = new Map<string, number>();
+
+  const matches = icons.filter(icon => {
+    const annotation = data.annotations[icon.id] as FavoriteAnnotation | undefined;
+    if ((annotation?.rating ?? 0) < filter.minRating) return false;
+    if (filter.license && icon.license?.id !== filter.license) return false;
+    if (filter.premium === 'free' && icon.isPremium) return false;
+    if (filter.premium === 'premium' && !icon.isPremium) return false;
+    if (filter.vector && icon.vectorFormats.length === 0) return false;
+    const iconTags = new Set(annotation?.tags.map(tag => tag.toLowerCase()));
+    if (!tags.every(tag => iconTags.has(tag))) return false;
+    if (words.length === 0) return true;
+    const score = scoreFavorite(words, icon, annotation);
+    scores.set(icon.id, score);
+    return score > 0;
+  });
+
+  const addedAt = (icon: IconData) => data.added[icon.id]?.addedAt ?? '';
+  switch (filter.sort) {
+    case 'added':
+      return matches.sort((a, b) => addedAt(b).localeCompare(addedAt(a)));
+    case 'name':
+      return matches.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true }));
+    case 'used':
+      return matches.sort((a, b) => (data.usage[b.id] ?? 0) - (data.usage[a.id] ?? 0));
+    case 'manual':
+      return words.length > 0 ? matches.sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0)) : matches;
+  }
+}
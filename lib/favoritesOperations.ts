@@ -0,0 +1,600 @@
+/**
+ * Favorites Operations
+ *
+ * Every change to favorites is described by an operation. The browser
+ * applies operations to its local copy straight away and queues them for
+ * the server, which applies the same operations to its copy with the
+ * same reducer. Both sides therefore agree on what an operation means.
+ *
+ * Operations carry the time they were made. The server uses it for
+ * last-write-wins conflict handling: each operation touches one or more
+ * entities (see getOperationKeys), and an operation older than the last
+ * accepted change to one of its entities is skipped.
+ *
+ * Favorites that a change drops, whether removed directly, taken out of
+ * their last collection or left behind by a deleted collection, go to the
+ * trash. invertChange describes how to undo a change, for the undo
+ * history in lib/favoritesStore.
+ */
+
+import {
+  DEFAULT_COLLECTION_ID,
+  normalizeDocument,
+  readAdditions,
+  readAnnotation,
+  readAnnotations,
+  readCollection,
+  readTrashEntry,
+  readTrashRetention,
+  type FavoritesDocument,
+} from '@/lib/favoritesSchema';
+import { planImport } from '@/lib/favoritesTransfer';
+import { coerceStoredIcon } from '@/lib/iconMapping';
+import type { FavoriteAddition, FavoriteAnnotation, FavoriteCollection, IconData, TrashedFavorite } from '@/types';
+
+export interface CollectionDetails {
+  name: string;
+  description?: string;
+  color?: string;
+}
+
+export type FavoritesChange =
+  // addedBy is set by the server from the signed-in user
+  | { type: 'add'; icon: IconData; collectionId: string; addedBy?: string | null }
+  // Removed favorites go to the trash unless the removal is permanent
+  | { type: 'remove'; iconId: string; permanent?: boolean }
+  // Bring a favorite back from the trash; entry is used when it is no longer there
+  | { type: 'restore'; iconId: string; entry?: TrashedFavorite }
+  // Delete favorites from the trash for good
+  | { type: 'purge'; iconIds: string[] }
+  | { type: 'setTrashRetention'; days: number }
+  | { type: 'createCollection'; collection: FavoriteCollection }
+  | { type: 'updateCollection'; collectionId: string; details: Partial<CollectionDetails> }
+  | { type: 'deleteCollection'; collectionId: string }
+  | { type: 'reorderCollection'; collectionId: string; toIndex: number }
+  | { type: 'copyToCollection'; iconId: string; collectionId: string }
+  | { type: 'moveToCollection'; iconId: string; fromCollectionId: string; toCollectionId: string }
+  | { type: 'removeFromCollection'; iconId: string; collectionId: string }
+  // Change the note, custom tags or rating of a favorite; omitted fields are kept
+  | { type: 'annotate'; iconId: string; details: Partial<FavoriteAnnotation> }
+  // Replace everything, e.g. after an import; annotations and added replace
+  // those of the document when given
+  | {
+    type: 'replace';
+    icons: IconData[];
+    collections: FavoriteCollection[];
+    annotations?: Record<string, FavoriteAnnotation>;
+    added?: Record<string, FavoriteAddition>;
+  }
+  // Add favorites and collections without removing any, e.g. when a browser first syncs
+  | { type: 'merge'; icons: IconData[]; collections: FavoriteCollection[] };
+
+export type FavoritesOperation = FavoritesChange & {
+  // Unique id, used to acknowledge the operation
+  id: string;
+  // ISO 8601 time the change was made
+  at: string;
+};
+
+// Body of a POST to /api/favorites/operations
+export interface FavoritesSyncRequest {
+  operations: FavoritesOperation[];
+}
+
+// Response of GET /api/favorites and POST /api/favorites/operations
+export interface FavoritesSyncResponse {
+  // Null when nothing has been stored on the server yet
+  document: FavoritesDocument | null;
+  // Ids of operations that lost to a newer change
+  skipped: string[];
+}
+
+// Entity key that every operation depends on; bumped by replace
+export const ALL_ENTITIES_KEY = '*';
+
+/**
+ * Generate a random id
+ */
+export function createId(prefix: string): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return `${prefix}_${crypto.randomUUID()}`;
+  }
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Wrap a change in an operation stamped with an id and the current time
+ */
+export function createOperation(change: FavoritesChange): FavoritesOperation {
+  return { ...change, id: createId('op'), at: new Date().toISOString() };
+}
+
+/**
+ * Replace the icon ids of one collection
+ */
+function mapCollectionIcons(
+  collections: FavoriteCollection[],
+  collectionId: string,
+  update: (iconIds: string[]) => string[]
+): FavoriteCollection[] {
+  return collections.map(collection =>
+    collection.id === collectionId ? { ...collection, iconIds: update(collection.iconIds) } : collection
+  );
+}
+
+/**
+ * Describe a favorite as it would be kept in the trash
+ *
+ * @param document - The document the favorite is in
+ * @param iconId - The favorite
+ * @param removedAt - Time of the removal
+ * @returns The trash entry, or null when the icon is not a favorite
+ */
+export function createTrashEntry(document: FavoritesDocument, iconId: string, removedAt: string): TrashedFavorite | null {
+  const icon = document.icons.find(favorite => favorite.id === iconId);
+  if (!icon) return null;
+  return {
+    icon,
+    collectionIds: document.collections
+      .filter(collection => collection.iconIds.includes(iconId))
+      .map(collection => collection.id),
+    addition: document.added[iconId] ?? { addedAt: removedAt, addedBy: null },
+    annotation: (document.annotations[iconId] as FavoriteAnnotation | undefined) ?? null,
+    removedAt,
+  };
+}
+
+/**
+ * Apply a change to a document
+ * Changes that refer to unknown icons or collections leave the document
+ * as it is, so replaying an operation on a newer document is safe.
+ * Favorites the change drops are moved to the trash, unless it is a
+ * permanent removal.
+ *
+ * @param document - The document to change
+ * @param change - The change to apply
+ * @param at - Time of the change, becomes the document's updatedAt
+ * @returns The changed document
+ */
+export function applyChange(document: FavoritesDocument, change: FavoritesChange, at: string): FavoritesDocument {
+  const next = changeFavorites(document, change, at);
+  if (next === document || (change.type === 'remove' && change.permanent)) return next;
+
+  const kept = new Set(next.icons.map(icon => icon.id));
+  const dropped = document.icons
+    .filter(icon => !kept.has(icon.id))
+    .map(icon => createTrashEntry(document, icon.id, at))
+    .filter((entry): entry is TrashedFavorite => entry !== null);
+  if (dropped.length === 0) return next;
+  return normalizeDocument({ ...next, trash: [...dropped, ...next.trash] });
+}
+
+/**
+ * Apply a change to a document, without taking care of the trash
+ */
+function changeFavorites(document: FavoritesDocument, change: FavoritesChange, at: string): FavoritesDocument {
+  const { icons, collections, added, annotations, trash } = document;
+  const ids = new Set(icons.map(icon => icon.id));
+  const result = (
+    nextIcons: IconData[],
+    nextCollections: FavoriteCollection[],
+    extra: Partial<Pick<FavoritesDocument, 'added' | 'annotations' | 'trash' | 'trashRetentionDays'>> = {}
+  ) => normalizeDocument({
+    icons: nextIcons,
+    collections: nextCollections,
+    updatedAt: at,
+    added,
+    annotations,
+    trash,
+    trashRetentionDays: document.trashRetentionDays,
+    ...extra,
+  });
+
+  switch (change.type) {
+    case 'add': {
+      if (ids.has(change.icon.id)) return document;
+      const target = collections.some(collection => collection.id === change.collectionId)
+        ? change.collectionId
+        : DEFAULT_COLLECTION_ID;
+      return result(
+        [...icons, change.icon],
+        mapCollectionIcons(collections, target, iconIds => [...iconIds, change.icon.id]),
+        { added: { ...added, [change.icon.id]: { addedAt: at, addedBy: change.addedBy ?? null } } }
+      );
+    }
+    case 'remove':
+      if (!ids.has(change.iconId)) return document;
+      return result(icons, collections.map(collection => ({
+        ...collection,
+        iconIds: collection.iconIds.filter(id => id !== change.iconId),
+      })));
+    case 'restore': {
+      if (ids.has(change.iconId)) return document;
+      const entry = trash.find(trashed => trashed.icon.id === change.iconId) ?? change.entry;
+      if (!entry) return document;
+      // Back into the collections it was in, or the default one if they are gone
+      const existing = entry.collectionIds.filter(id => collections.some(collection => collection.id === id));
+      const targets = new Set(existing.length > 0 ? existing : [DEFAULT_COLLECTION_ID]);
+      // Back where it was in the list of favorites, which is ordered by when they were added
+      const index = icons.findIndex(icon => (added[icon.id]?.addedAt ?? '') > entry.addition.addedAt);
+      const nextIcons = [...icons];
+      nextIcons.splice(index === -1 ? icons.length : index, 0, entry.icon);
+      return result(
+        nextIcons,
+        collections.map(collection =>
+          targets.has(collection.id) ? { ...collection, iconIds: [...collection.iconIds, entry.icon.id] } : collection
+        ),
+        {
+          added: { ...added, [entry.icon.id]: entry.addition },
+          annotations: entry.annotation ? { ...annotations, [entry.icon.id]: entry.annotation } : annotations,
+        }
+      );
+    }
+    case 'purge': {
+      const purged = new Set(change.iconIds);
+      const remaining = trash.filter(entry => !purged.has(entry.icon.id));
+      if (remaining.length === trash.length) return document;
+      return result(icons, collections, { trash: remaining });
+    }
+    case 'setTrashRetention': {
+      const days = readTrashRetention(change.days);
+      if (days === document.trashRetentionDays) return document;
+      return result(icons, collections, { trashRetentionDays: days });
+    }
+    case 'createCollection':
+      if (collections.some(collection => collection.id === change.collection.id)) return document;
+      return result(icons, [...collections, { ...change.collection, iconIds: [] }]);
+    case 'updateCollection':
+      return result(icons, collections.map(collection => {
+        if (collection.id !== change.collectionId) return collection;
+        return {
+          ...collection,
+          name: change.details.name?.trim() || collection.name,
+          description: change.details.description?.trim() ?? collection.description,
+          color: change.details.color ?? collection.color,
+        };
+      }));
+    case 'deleteCollection':
+      if (change.collectionId === DEFAULT_COLLECTION_ID) return document;
+      return result(icons, collections.filter(collection => collection.id !== change.collectionId));
+    case 'reorderCollection': {
+      const fromIndex = collections.findIndex(collection => collection.id === change.collectionId);
+      if (fromIndex === -1 || fromIndex === change.toIndex) return document;
+      const reordered = [...collections];
+      const [moved] = reordered.splice(fromIndex, 1);
+      reordered.splice(Math.max(0, Math.min(change.toIndex, reordered.length)), 0, moved);
+      return result(icons, reordered);
+    }
+    case 'copyToCollection':
+      if (!ids.has(change.iconId)) return document;
+      return result(icons, mapCollectionIcons(collections, change.collectionId, iconIds =>
+        iconIds.includes(change.iconId) ? iconIds : [...iconIds, change.iconId]
+      ));
+    case 'moveToCollection':
+      if (!ids.has(change.iconId) || change.fromCollectionId === change.toCollectionId) return document;
+      if (!collections.some(collection => collection.id === change.toCollectionId)) return document;
+      return result(icons, collections.map(collection => {
+        if (collection.id === change.fromCollectionId) {
+          return { ...collection, iconIds: collection.iconIds.filter(id => id !== change.iconId) };
+        }
+        if (collection.id === change.toCollectionId && !collection.iconIds.includes(change.iconId)) {
+          return { ...collection, iconIds: [...collection.iconIds, change.iconId] };
+        }
+        return collection;
+      }));
+    case 'removeFromCollection':
+      return result(icons, mapCollectionIcons(collections, change.collectionId, iconIds =>
+        iconIds.filter(id => id !== change.iconId)
+      ));
+    case 'annotate': {
+      if (!ids.has(change.iconId)) return document;
+      const previous: FavoriteAnnotation | undefined = annotations[change.iconId];
+      const annotation = readAnnotation({ ...previous, ...change.details });
+      if (JSON.stringify(annotation ?? null) === JSON.stringify(previous ?? null)) return document;
+      const nextAnnotations = { ...annotations };
+      if (annotation) nextAnnotations[change.iconId] = annotation;
+      else delete nextAnnotations[change.iconId];
+      return result(icons, collections, { annotations: nextAnnotations });
+    }
+    case 'replace':
+      // Otherwise favorites that come back from the trash keep when they were added and their annotation
+      return result(change.icons, change.collections, {
+        added: { ...Object.fromEntries(trash.map(entry => [entry.icon.id, entry.addition])), ...added, ...change.added },
+        annotations: change.annotations ?? {
+          ...Object.fromEntries(trash.flatMap(entry => entry.annotation ? [[entry.icon.id, entry.annotation]] : [])),
+          ...annotations,
+        },
+      });
+    case 'merge': {
+      const plan = planImport(document, change, 'merge', 'keep');
+      return result(plan.icons, plan.collections);
+    }
+  }
+}
+
+/**
+ * Describe how to undo a change
+ * The result is computed against the document before the change and
+ * must be applied in order. Merging, purging and changing the retention
+ * period cannot be undone.
+ *
+ * @param document - The document the change is about to be applied to
+ * @param change - The change
+ * @returns The changes that undo it, or null when it changes nothing or cannot be undone
+ */
+export function invertChange(document: FavoritesDocument, change: FavoritesChange): FavoritesChange[] | null {
+  const { icons, collections, annotations, trash } = document;
+  const isFavorite = (iconId: string) => icons.some(icon => icon.id === iconId);
+  const isTrashed = (iconId: string) => trash.some(entry => entry.icon.id === iconId);
+  const findCollection = (collectionId: string) => collections.find(collection => collection.id === collectionId);
+  const countMemberships = (iconId: string) =>
+    collections.filter(collection => collection.iconIds.includes(iconId)).length;
+  // Carries the favorite as it is now, in case it has been purged by the time of the undo
+  const restore = (iconId: string): FavoritesChange => ({
+    type: 'restore',
+    iconId,
+    entry: createTrashEntry(document, iconId, new Date().toISOString()) ?? undefined,
+  });
+
+  switch (change.type) {
+    case 'add':
+      if (isFavorite(change.icon.id)) return null;
+      return [{ type: 'remove', iconId: change.icon.id, permanent: !isTrashed(change.icon.id) }];
+    case 'remove':
+      return isFavorite(change.iconId) ? [restore(change.iconId)] : null;
+    case 'restore':
+      if (isFavorite(change.iconId) || (!isTrashed(change.iconId) && !change.entry)) return null;
+      return [{ type: 'remove', iconId: change.iconId, permanent: !isTrashed(change.iconId) }];
+    case 'createCollection':
+      if (findCollection(change.collection.id)) return null;
+      return [{ type: 'deleteCollection', collectionId: change.collection.id }];
+    case 'updateCollection': {
+      const collection = findCollection(change.collectionId);
+      const fields = ['name', 'description', 'color'] as const;
+      if (!collection || !fields.some(field => {
+        const value = change.details[field];
+        return value !== undefined && value.trim() !== collection[field] && (field !== 'name' || value.trim() !== '');
+      })) return null;
+      const { name, description, color } = collection;
+      return [{ type: 'updateCollection', collectionId: collection.id, details: { name, description, color } }];
+    }
+    case 'deleteCollection': {
+      const index = collections.findIndex(collection => collection.id === change.collectionId);
+      if (index === -1 || change.collectionId === DEFAULT_COLLECTION_ID) return null;
+      const collection = collections[index];
+      return [
+        { type: 'createCollection', collection: { ...collection, iconIds: [] } },
+        // Icons that were only in this collection went to the trash with it
+        ...collection.iconIds.map((iconId): FavoritesChange => countMemberships(iconId) > 1
+          ? { type: 'copyToCollection', iconId, collectionId: collection.id }
+          : restore(iconId)),
+        { type: 'reorderCollection', collectionId: collection.id, toIndex: index },
+      ];
+    }
+    case 'reorderCollection': {
+      const fromIndex = collections.findIndex(collection => collection.id === change.collectionId);
+      const toIndex = Math.max(0, Math.min(change.toIndex, collections.length - 1));
+      if (fromIndex === -1 || fromIndex === toIndex) return null;
+      return [{ type: 'reorderCollection', collectionId: change.collectionId, toIndex: fromIndex }];
+    }
+    case 'copyToCollection': {
+      const collection = findCollection(change.collectionId);
+      if (!isFavorite(change.iconId) || !collection || collection.iconIds.includes(change.iconId)) return null;
+      return [{ type: 'removeFromCollection', iconId: change.iconId, collectionId: collection.id }];
+    }
+    case 'removeFromCollection': {
+      const collection = findCollection(change.collectionId);
+      if (!collection?.iconIds.includes(change.iconId)) return null;
+      return countMemberships(change.iconId) > 1
+        ? [{ type: 'copyToCollection', iconId: change.iconId, collectionId: collection.id }]
+        : [restore(change.iconId)];
+    }
+    case 'moveToCollection': {
+      const from = findCollection(change.fromCollectionId);
+      const to = findCollection(change.toCollectionId);
+      if (!isFavorite(change.iconId) || !from || !to || from.id === to.id) return null;
+      const inFrom = from.iconIds.includes(change.iconId);
+      const inTo = to.iconIds.includes(change.iconId);
+      if (!inFrom) return inTo ? null : [{ type: 'removeFromCollection', iconId: change.iconId, collectionId: to.id }];
+      return inTo
+        ? [{ type: 'copyToCollection', iconId: change.iconId, collectionId: from.id }]
+        : [{ type: 'moveToCollection', iconId: change.iconId, fromCollectionId: to.id, toCollectionId: from.id }];
+    }
+    case 'annotate': {
+      if (!isFavorite(change.iconId)) return null;
+      const previous = annotations[change.iconId] as FavoriteAnnotation | undefined;
+      const details: Partial<FavoriteAnnotation> = {};
+      if (change.details.note !== undefined) details.note = previous?.note ?? '';
+      if (change.details.tags !== undefined) details.tags = previous?.tags ?? [];
+      if (change.details.rating !== undefined) details.rating = previous?.rating ?? 0;
+      return [{ type: 'annotate', iconId: change.iconId, details }];
+    }
+    case 'replace':
+      return [{ type: 'replace', icons, collections, annotations, added: document.added }];
+    case 'purge':
+    case 'setTrashRetention':
+    case 'merge':
+      return null;
+  }
+}
+
+/**
+ * Get the entities an operation changes, for last-write-wins checks
+ * Membership changes are keyed by icon, collection edits by collection,
+ * annotations by icon and field, and the order of collections is a
+ * single entity.
+ *
+ * @param change - The change to inspect
+ * @returns Entity keys such as "icon:123" or "collection:default"
+ */
+export function getOperationKeys(change: FavoritesChange): string[] {
+  switch (change.type) {
+    case 'add':
+      return [`icon:${change.icon.id}`];
+    case 'remove':
+    case 'restore':
+    case 'copyToCollection':
+    case 'moveToCollection':
+    case 'removeFromCollection':
+      return [`icon:${change.iconId}`];
+    case 'purge':
+      return change.iconIds.map(iconId => `icon:${iconId}`);
+    case 'setTrashRetention':
+      return ['trashRetention'];
+    case 'annotate':
+      // Each field is its own entity, so a note and a rating edited elsewhere both survive
+      return Object.keys(change.details).map(field => `annotation:${change.iconId}:${field}`);
+    case 'createCollection':
+      return [`collection:${change.collection.id}`];
+    case 'updateCollection':
+    case 'deleteCollection':
+      return [`collection:${change.collectionId}`];
+    case 'reorderCollection':
+      return ['order'];
+    case 'replace':
+      return [ALL_ENTITIES_KEY];
+    case 'merge':
+      // Merges only add, so they never lose to another change
+      return [];
+  }
+}
+
+/**
+ * Read a string field, or throw when it is missing
+ */
+function readString(record: Record<string, unknown>, key: string): string {
+  const value = record[key];
+  if (typeof value !== 'string' || !value) throw new Error(`"${key}" must be a non-empty string`);
+  return value;
+}
+
+/**
+ * Read a list of icons and collections for replace and merge operations
+ */
+function readContents(record: Record<string, unknown>): { icons: IconData[]; collections: FavoriteCollection[] } {
+  if (!Array.isArray(record.icons) || !Array.isArray(record.collections)) {
+    throw new Error('"icons" and "collections" must be lists');
+  }
+  const icons = record.icons.map(coerceStoredIcon);
+  const collections = record.collections.map(readCollection);
+  if (icons.some(icon => icon === null)) throw new Error('"icons" contains an invalid icon');
+  if (collections.some(collection => collection === null)) throw new Error('"collections" contains an invalid collection');
+  return { icons: icons as IconData[], collections: collections as FavoriteCollection[] };
+}
+
+/**
+ * Validate an operation received from a client
+ *
+ * @param value - The parsed JSON value
+ * @returns The operation
+ * @throws Error describing what is wrong with it
+ */
+export function readOperation(value: unknown): FavoritesOperation {
+  if (typeof value !== 'object' || value === null) throw new Error('Operation must be an object');
+  const record = value as Record<string, unknown>;
+  const id = readString(record, 'id');
+  const at = readString(record, 'at');
+  if (Number.isNaN(Date.parse(at))) throw new Error('"at" must be an ISO 8601 date');
+  const base = { id, at };
+
+  switch (record.type) {
+    case 'add': {
+      const icon = coerceStoredIcon(record.icon);
+      if (!icon) throw new Error('"icon" must be a valid icon');
+      return {
+        ...base,
+        type: 'add',
+        icon,
+        collectionId: readString(record, 'collectionId'),
+        addedBy: typeof record.addedBy === 'string' ? record.addedBy : null,
+      };
+    }
+    case 'remove':
+      return { ...base, type: 'remove', iconId: readString(record, 'iconId'), permanent: record.permanent === true };
+    case 'restore': {
+      const entry = record.entry === undefined ? undefined : readTrashEntry(record.entry);
+      if (entry === null) throw new Error('"entry" must be a valid trash entry');
+      return { ...base, type: 'restore', iconId: readString(record, 'iconId'), ...(entry && { entry }) };
+    }
+    case 'purge':
+      if (!Array.isArray(record.iconIds) || record.iconIds.some(id => typeof id !== 'string')) {
+        throw new Error('"iconIds" must be a list of strings');
+      }
+      return { ...base, type: 'purge', iconIds: record.iconIds as string[] };
+    case 'setTrashRetention':
+      if (typeof record.days !== 'number' || !Number.isInteger(record.days)) {
+        throw new Error('"days" must be an integer');
+      }
+      return { ...base, type: 'setTrashRetention', days: record.days };
+    case 'createCollection': {
+      const collection = readCollection(record.collection);
+      if (!collection) throw new Error('"collection" must be a valid collection');
+      return { ...base, type: 'createCollection', collection };
+    }
+    case 'updateCollection': {
+      const details = typeof record.details === 'object' && record.details !== null
+        ? record.details as Record<string, unknown>
+        : {};
+      return {
+        ...base,
+        type: 'updateCollection',
+        collectionId: readString(record, 'collectionId'),
+        details: {
+          ...(typeof details.name === 'string' && { name: details.name }),
+          ...(typeof details.description === 'string' && { description: details.description }),
+          ...(typeof details.color === 'string' && { color: details.color }),
+        },
+      };
+    }
+    case 'deleteCollection':
+      return { ...base, type: 'deleteCollection', collectionId: readString(record, 'collectionId') };
+    case 'reorderCollection':
+      if (typeof record.toIndex !== 'number' || !Number.isInteger(record.toIndex)) {
+        throw new Error('"toIndex" must be an integer');
+      }
+      return { ...base, type: 'reorderCollection', collectionId: readString(record, 'collectionId'), toIndex: record.toIndex };
+    case 'copyToCollection':
+    case 'removeFromCollection':
+      return {
+        ...base,
+        type: record.type,
+        iconId: readString(record, 'iconId'),
+        collectionId: readString(record, 'collectionId'),
+      };
+    case 'moveToCollection':
+      return {
+        ...base,
+        type: 'moveToCollection',
+        iconId: readString(record, 'iconId'),
+        fromCollectionId: readString(record, 'fromCollectionId'),
+        toCollectionId: readString(record, 'toCollectionId'),
+      };
+    case 'annotate': {
+      const details = typeof record.details === 'object' && record.details !== null
+        ? record.details as Record<string, unknown>
+        : {};
+      return {
+        ...base,
+        type: 'annotate',
+        iconId: readString(record, 'iconId'),
+        details: {
+          ...(typeof details.note === 'string' && { note: details.note }),
+          ...(Array.isArray(details.tags) && { tags: details.tags.filter((tag): tag is string => typeof tag === 'string') }),
+          ...(typeof details.rating === 'number' && { rating: details.rating }),
+        },
+      };
+    }
+    case 'replace':
+      return {
+        ...base,
+        type: 'replace',
+        ...readContents(record),
+        ...(record.annotations !== undefined && { annotations: readAnnotations(record.annotations) }),
+        ...(record.added !== undefined && { added: readAdditions(record.added) }),
+      };
+    case 'merge':
+      return { ...base, type: 'merge', ...readContents(record) };
+    default:
+      throw new Error(`Unknown operation type "${String(record.type)}"`);
+  }
+}
@@ -0,0 +1,315 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  createDefaultCollection,
+  DEFAULT_COLLECTION_ID,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  FAVORITES_BACKUP_KEY,
+  FAVORITES_SCHEMA_VERSION,
+  FAVORITES_STORAGE_KEY,
+  LEGACY_KEYS,
+  loadFavoritesDocument,
+  normalizeDocument,
+  readBackups,
+} from '@/lib/favoritesSchema';
+import { MemoryStorage } from '@/lib/testing/memoryStorage';
+import type { IconData, TrashedFavorite } from '@/types';
+
+const NOW = '2026-06-01T00:00:00.000Z';
+const EARLIER = '2026-05-01T00:00:00.000Z';
+
+const createIcon = (id: string, name = `Icon ${id}`): IconData => ({
+  id,
+  name,
+  tags: [],
+  author: null,
+  iconset: null,
+  license: null,
+  isPremium: false,
+  publishedAt: null,
+  rasterSizes: [],
+  vectorFormats: [],
+});
+
+/**
+ * An icon as Iconfinder returned it, which is what versions 0 and 1 stored
+ */
+const createRawIcon = (iconId: number, storedId?: string) => ({
+  icon_id: iconId,
+  ...(storedId && { id: storedId }),
+  tags: [`tag-${iconId}`],
+  is_premium: false,
+  raster_sizes: [],
+  vector_sizes: [],
+});
+
+const createTrashEntry = (icon: IconData, removedAt: string): TrashedFavorite => ({
+  icon,
+  collectionIds: [DEFAULT_COLLECTION_ID],
+  addition: { addedAt: EARLIER, addedBy: null },
+  annotation: null,
+  removedAt,
+});
+
+const collectionIds = (storage: Storage, collectionId: string) =>
+  loadFavoritesDocument(storage).document.collections.find(collection => collection.id === collectionId)?.iconIds;
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(NOW));
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('loadFavoritesDocument', () => {
+  it('starts with an empty document when nothing is stored', () => {
+    const { document, changed } = loadFavoritesDocument(storage);
+
+    expect(document.version).toBe(FAVORITES_SCHEMA_VERSION);
+    expect(document.icons).toEqual([]);
+    expect(document.collections.map(collection => collection.id)).toEqual([DEFAULT_COLLECTION_ID]);
+    expect(changed).toBe(true);
+    expect(readBackups(storage)).toEqual([]);
+  });
+
+  describe('version 0: iconFavorites and favoriteIconsData', () => {
+    beforeEach(() => {
+      storage.setItem(LEGACY_KEYS.ids, JSON.stringify(['icon_home_1', '456', 'missing']));
+      storage.setItem(LEGACY_KEYS.icons, JSON.stringify([createRawIcon(123, 'icon_home_1'), createRawIcon(456)]));
+    });
+
+    it('puts every favorite into the default collection, under its Iconfinder id', () => {
+      const { document, changed } = loadFavoritesDocument(storage);
+
+      expect(changed).toBe(true);
+      expect(document.version).toBe(FAVORITES_SCHEMA_VERSION);
+      expect(document.icons.map(icon => icon.id)).toEqual(['123', '456']);
+      expect(document.icons[0].name).toBe('tag-123');
+      expect(document.collections).toHaveLength(1);
+      expect(document.collections[0].iconIds).toEqual(['123', '456']);
+      expect(document.added['123']).toEqual({ addedAt: NOW, addedBy: null });
+      expect(document.annotations).toEqual({});
+      expect(document.trash).toEqual([]);
+      expect(document.trashRetentionDays).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+
+    it('saves the migrated document and removes the legacy keys', () => {
+      const { document } = loadFavoritesDocument(storage);
+
+      expect(JSON.parse(storage.getItem(FAVORITES_STORAGE_KEY)!)).toEqual(document);
+      Object.values(LEGACY_KEYS).forEach(key => expect(storage.getItem(key)).toBeNull());
+
+      // Loading again reads the saved document as it is
+      expect(loadFavoritesDocument(storage)).toEqual({ document, changed: false });
+    });
+
+    it('backs up ids without icon data', () => {
+      loadFavoritesDocument(storage);
+
+      const backups = readBackups(storage);
+      expect(backups).toHaveLength(1);
+      expect(backups[0].createdAt).toBe(NOW);
+      expect(backups[0].data).toEqual({ orphanIds: ['missing'] });
+    });
+  });
+
+  describe('version 1: separate iconCollections', () => {
+    const legacyIcon = createIcon('icon_star_5', 'Star');
+
+    beforeEach(() => {
+      storage.setItem(LEGACY_KEYS.ids, JSON.stringify(['123', 'icon_star_5']));
+      storage.setItem(LEGACY_KEYS.icons, JSON.stringify([createRawIcon(123), legacyIcon, createRawIcon(789)]));
+      storage.setItem(LEGACY_KEYS.collections, JSON.stringify([
+        { id: 'work', name: 'Work', iconIds: ['123', 'icon_star_5'] },
+      ]));
+    });
+
+    it('keeps the collections and gives generated ids a stable replacement', () => {
+      const { document } = loadFavoritesDocument(storage);
+      const [, starId] = collectionIds(storage, 'work')!;
+
+      expect(starId).toMatch(/^legacy-[0-9a-f]{8}$/);
+      expect(document.icons.map(icon => icon.id)).toEqual(['123', starId, '789']);
+      expect(document.icons.find(icon => icon.id === starId)?.name).toBe('Star');
+
+      // Another browser migrating the same icon arrives at the same id
+      const other = new MemoryStorage();
+      other.setItem(LEGACY_KEYS.icons, JSON.stringify([legacyIcon]));
+      other.setItem(LEGACY_KEYS.collections, JSON.stringify([]));
+      expect(loadFavoritesDocument(other).document.icons[0].id).toBe(starId);
+    });
+
+    it('adds icon data that no collection refers to to the default collection', () => {
+      const { document } = loadFavoritesDocument(storage);
+
+      expect(document.collections.map(collection => collection.id)).toEqual([DEFAULT_COLLECTION_ID, 'work']);
+      expect(document.collections[0].iconIds).toEqual(['789']);
+      expect(readBackups(storage)).toEqual([]);
+    });
+
+    it('backs up unreadable icons and collections', () => {
+      storage.setItem(LEGACY_KEYS.icons, JSON.stringify([createRawIcon(123), 'not an icon']));
+      storage.setItem(LEGACY_KEYS.collections, JSON.stringify([{ id: 'work', name: 'Work', iconIds: ['123'] }, { id: 7 }]));
+
+      const { document } = loadFavoritesDocument(storage);
+
+      expect(document.icons.map(icon => icon.id)).toEqual(['123']);
+      expect(document.collections.map(collection => collection.id)).toEqual([DEFAULT_COLLECTION_ID, 'work']);
+      const [backup] = readBackups(storage);
+      expect(backup.data.unreadableIcons).toEqual(['not an icon']);
+      expect(backup.data.unreadableCollections).toEqual([{ id: 'work', name: 'Work', iconIds: ['123'] }, { id: 7 }]);
+    });
+  });
+
+  it('backs up legacy keys that are not valid JSON', () => {
+    storage.setItem(LEGACY_KEYS.ids, '["123"');
+    storage.setItem(LEGACY_KEYS.icons, JSON.stringify([createRawIcon(123)]));
+
+    const { document } = loadFavoritesDocument(storage);
+
+    expect(document.icons.map(icon => icon.id)).toEqual(['123']);
+    expect(readBackups(storage)[0].data).toEqual({ [LEGACY_KEYS.ids]: '["123"' });
+  });
+
+  it.each([2, 3, 4])('upgrades a version %i document', (version) => {
+    storage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify({
+      version,
+      updatedAt: EARLIER,
+      icons: [createIcon('1')],
+      collections: [createDefaultCollection(['1'])],
+      ...(version >= 3 && { added: { 1: { addedAt: '2026-04-01T00:00:00.000Z', addedBy: 'ann' } } }),
+      ...(version >= 4 && { annotations: { 1: { note: 'Keep', tags: [], rating: 0 } } }),
+    }));
+
+    const { document, changed } = loadFavoritesDocument(storage);
+
+    expect(changed).toBe(true);
+    expect(document.version).toBe(FAVORITES_SCHEMA_VERSION);
+    expect(document.icons.map(icon => icon.id)).toEqual(['1']);
+    // Addition times unknown before version 3 fall back to when the document was last changed
+    expect(document.added['1']).toEqual(version >= 3
+      ? { addedAt: '2026-04-01T00:00:00.000Z', addedBy: 'ann' }
+      : { addedAt: EARLIER, addedBy: null });
+    expect(document.annotations).toEqual(version >= 4 ? { 1: { note: 'Keep', tags: [], rating: 0 } } : {});
+    expect(document.trash).toEqual([]);
+    expect(document.trashRetentionDays).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(JSON.parse(storage.getItem(FAVORITES_STORAGE_KEY)!)).toEqual(document);
+    expect(readBackups(storage)).toEqual([]);
+  });
+
+  it('reads a current document without rewriting it', () => {
+    const document = normalizeDocument({
+      icons: [createIcon('1')],
+      collections: [createDefaultCollection(['1'])],
+      updatedAt: EARLIER,
+      annotations: { 1: { note: 'Note', tags: ['a'], rating: 3 } },
+      trash: [createTrashEntry(createIcon('2'), EARLIER)],
+    });
+    const saved = JSON.stringify(document);
+    storage.setItem(FAVORITES_STORAGE_KEY, saved);
+
+    expect(loadFavoritesDocument(storage)).toEqual({ document, changed: false });
+    expect(storage.getItem(FAVORITES_STORAGE_KEY)).toBe(saved);
+  });
+
+  it('backs up a document written by a newer version', () => {
+    const newer = {
+      version: FAVORITES_SCHEMA_VERSION + 1,
+      updatedAt: EARLIER,
+      icons: [createIcon('1')],
+      collections: [createDefaultCollection(['1'])],
+      somethingNew: true,
+    };
+    storage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(newer));
+
+    const { document } = loadFavoritesDocument(storage);
+
+    expect(document.icons.map(icon => icon.id)).toEqual(['1']);
+    expect(readBackups(storage)[0].data).toEqual({ [FAVORITES_STORAGE_KEY]: newer });
+  });
+
+  it('keeps the five most recent backups', () => {
+    for (let i = 0; i < 7; i++) {
+      storage.setItem(FAVORITES_STORAGE_KEY, `corrupt ${i}`);
+      loadFavoritesDocument(storage);
+    }
+
+    const backups = readBackups(storage);
+    expect(backups.map(backup => backup.data[FAVORITES_STORAGE_KEY])).toEqual([2, 3, 4, 5, 6].map(i => `corrupt ${i}`));
+  });
+
+  it('does not read legacy keys for other storage keys', () => {
+    storage.setItem(LEGACY_KEYS.ids, JSON.stringify(['123']));
+    storage.setItem(LEGACY_KEYS.icons, JSON.stringify([createRawIcon(123)]));
+
+    const { document } = loadFavoritesDocument(storage, `${FAVORITES_STORAGE_KEY}:user-1`);
+
+    expect(document.icons).toEqual([]);
+    expect(storage.getItem(LEGACY_KEYS.ids)).not.toBeNull();
+  });
+});
+
+describe('normalizeDocument', () => {
+  it('drops duplicate icons and collections and references to unknown icons', () => {
+    const document = normalizeDocument({
+      icons: [createIcon('1'), createIcon(' 1 ', 'Duplicate'), createIcon('2'), createIcon('')],
+      collections: [
+        { ...createDefaultCollection(['1', '1', '3']), name: 'First' },
+        { ...createDefaultCollection(['2']), name: 'Second' },
+      ],
+    });
+
+    expect(document.icons.map(icon => icon.name)).toEqual(['Icon 1']);
+    expect(document.collections).toHaveLength(1);
+    expect(document.collections[0].iconIds).toEqual(['1']);
+  });
+
+  it('adds the default collection when it is missing', () => {
+    const document = normalizeDocument({
+      icons: [createIcon('1')],
+      collections: [{ ...createDefaultCollection(['1']), id: 'work', name: 'Work' }],
+    });
+
+    expect(document.collections.map(collection => collection.id)).toEqual([DEFAULT_COLLECTION_ID, 'work']);
+  });
+
+  it('keeps additions and annotations only for favorites', () => {
+    const document = normalizeDocument({
+      icons: [createIcon('1')],
+      collections: [createDefaultCollection(['1'])],
+      updatedAt: EARLIER,
+      added: { 2: { addedAt: EARLIER, addedBy: null } },
+      annotations: { 1: { note: 'a', tags: [], rating: 0 }, 2: { note: 'b', tags: [], rating: 0 } },
+    });
+
+    expect(Object.keys(document.added)).toEqual(['1']);
+    expect(Object.keys(document.annotations)).toEqual(['1']);
+  });
+
+  it('drops trash entries that are favorites again, duplicates and expired ones', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const daysAgo = (days: number) => new Date(Date.parse(NOW) - days * day).toISOString();
+    const document = normalizeDocument({
+      icons: [createIcon('1')],
+      collections: [createDefaultCollection(['1'])],
+      // Expiry counts from now, however long ago the favorites last changed
+      updatedAt: daysAgo(100),
+      trash: [
+        createTrashEntry(createIcon('1'), daysAgo(1)),
+        createTrashEntry(createIcon('2'), daysAgo(2)),
+        createTrashEntry(createIcon('2'), daysAgo(1)),
+        createTrashEntry(createIcon('3'), daysAgo(DEFAULT_TRASH_RETENTION_DAYS + 1)),
+      ],
+    });
+
+    expect(document.trash.map(entry => [entry.icon.id, entry.removedAt])).toEqual([['2', daysAgo(1)]]);
+  });
+});
@@ -0,0 +1,564 @@
+/**
+ * Favorites Storage Schema
+ *
+ * Favorites are stored as one versioned JSON document under
+ * FAVORITES_STORAGE_KEY:
+ *
+ *   {
+ *     "version": 5,
+ *     "updatedAt": "2026-01-01T00:00:00.000Z",
+ *     "icons": [IconData, ...],
+ *     "collections": [FavoriteCollection, ...],
+ *     "added": { "<icon id>": FavoriteAddition, ... },
+ *     "annotations": { "<icon id>": FavoriteAnnotation, ... },
+ *     "trash": [TrashedFavorite, ...],
+ *     "trashRetentionDays": 30
+ *   }
+ *
+ * Only icons the user has written something about have an annotation.
+ * Removed favorites stay in the trash for trashRetentionDays, counted
+ * from the document's updatedAt so every copy prunes the same entries.
+ *
+ * Older layouts are upgraded by a pipeline of migrations, one per
+ * version step:
+ *
+ * - Version 0: `iconFavorites` (id list) and `favoriteIconsData` (icon
+ *   data), which could drift apart and contain generated ids such as
+ *   `icon_<name>_<tag>_<timestamp>`.
+ * - Version 1: version 0 plus `iconCollections`.
+ * - Version 2: the single document above, without "added",
+ *   "annotations" and the trash.
+ * - Version 3: the document above, without "annotations" and the trash.
+ * - Version 4: the document above, without the trash.
+ * - Version 5: the document above.
+ *
+ * Loading always reconciles the ids in collections against the icon data,
+ * removes duplicates and repairs generated ids. Anything that cannot be
+ * read is copied to FAVORITES_BACKUP_KEY instead of being dropped.
+ */
+
+import { coerceStoredIcon } from '@/lib/iconMapping';
+import { getPreviewUrl } from '@/lib/icons';
+import type { FavoriteAddition, FavoriteAnnotation, FavoriteCollection, IconData, TrashedFavorite } from '@/types';
+
+export const FAVORITES_STORAGE_KEY = 'iconVaultFavorites';
+export const FAVORITES_BACKUP_KEY = 'iconVaultFavoritesBackup';
+export const FAVORITES_SCHEMA_VERSION = 5;
+
+// Keys used before version 2
+export const LEGACY_KEYS = {
+  ids: 'iconFavorites',
+  icons: 'favoriteIconsData',
+  collections: 'iconCollections',
+} as const;
+
+// Collection that new favorites go into; it cannot be deleted
+export const DEFAULT_COLLECTION_ID = 'default';
+
+export const DEFAULT_COLLECTION_COLOR = '#1976d2';
+
+// Limits on annotations, so a single favorite cannot grow without bound
+export const MAX_NOTE_LENGTH = 2000;
+export const MAX_CUSTOM_TAGS = 20;
+export const MAX_CUSTOM_TAG_LENGTH = 40;
+export const MAX_RATING = 5;
+
+// How long removed favorites are kept, in days
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+// Trash entries kept before the oldest are purged early
+const MAX_TRASH_ENTRIES = 500;
+
+// Backups kept before the oldest is discarded
+const MAX_BACKUPS = 5;
+
+// Ids generated by old versions of the search and favorites pages
+const LEGACY_ID_PATTERN = /^icon_.*_\d+$/;
+
+export interface FavoritesDocument {
+  version: typeof FAVORITES_SCHEMA_VERSION;
+  updatedAt: string;
+  icons: IconData[];
+  collections: FavoriteCollection[];
+  // Who added each favorite and when, keyed by icon id
+  added: Record<string, FavoriteAddition>;
+  // Notes, custom tags and ratings, keyed by icon id
+  annotations: Record<string, FavoriteAnnotation>;
+  // Removed favorites, most recently removed first
+  trash: TrashedFavorite[];
+  trashRetentionDays: number;
+}
+
+export interface FavoritesBackup {
+  createdAt: string;
+  reason: string;
+  // Raw values that could not be read, keyed by where they came from
+  data: Record<string, unknown>;
+}
+
+// Document shape before collections and icons were stored together
+interface LegacyDocument {
+  version: 0 | 1;
+  ids: unknown;
+  icons: unknown;
+  collections: unknown;
+}
+
+type AnyDocument = LegacyDocument | { version: number; [key: string]: unknown };
+
+interface Migration {
+  from: number;
+  migrate: (document: AnyDocument, issues: Record<string, unknown>) => AnyDocument;
+}
+
+export interface LoadResult {
+  document: FavoritesDocument;
+  // True when the stored data had to be upgraded or repaired
+  changed: boolean;
+}
+
+/**
+ * Create the collection that holds favorites by default
+ */
+export function createDefaultCollection(iconIds: string[] = []): FavoriteCollection {
+  return {
+    id: DEFAULT_COLLECTION_ID,
+    name: 'Favorites',
+    description: '',
+    color: DEFAULT_COLLECTION_COLOR,
+    createdAt: new Date().toISOString(),
+    iconIds,
+  };
+}
+
+/**
+ * Hash a string into a short, stable hexadecimal value (FNV-1a)
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Check whether an id was generated by an old version of the app
+ */
+export function isLegacyId(id: string): boolean {
+  return LEGACY_ID_PATTERN.test(id);
+}
+
+/**
+ * Replace a generated id with one derived from the icon's content, so the
+ * same icon gets the same id in every tab and on every load
+ */
+function repairIconId(icon: IconData): IconData {
+  if (!isLegacyId(icon.id)) return icon;
+  const source = getPreviewUrl(icon) ?? `${icon.name}|${icon.tags.join(',')}`;
+  return { ...icon, id: `legacy-${hashString(source)}` };
+}
+
+/**
+ * Read a collection, or null if it is unreadable
+ */
+export function readCollection(value: unknown): FavoriteCollection | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== 'string' || typeof record.name !== 'string') return null;
+
+  return {
+    id: record.id,
+    name: record.name,
+    description: typeof record.description === 'string' ? record.description : '',
+    color: typeof record.color === 'string' ? record.color : DEFAULT_COLLECTION_COLOR,
+    createdAt: typeof record.createdAt === 'string' ? record.createdAt : new Date().toISOString(),
+    iconIds: Array.isArray(record.iconIds)
+      ? record.iconIds.filter((id): id is string => typeof id === 'string')
+      : [],
+  };
+}
+
+/**
+ * Read the additions map, dropping unreadable entries
+ */
+export function readAdditions(value: unknown): Record<string, FavoriteAddition> {
+  if (typeof value !== 'object' || value === null) return {};
+  const additions: Record<string, FavoriteAddition> = {};
+  for (const [id, entry] of Object.entries(value as Record<string, unknown>)) {
+    const record = entry as Record<string, unknown> | null;
+    if (typeof record?.addedAt !== 'string') continue;
+    additions[id] = {
+      addedAt: record.addedAt,
+      addedBy: typeof record.addedBy === 'string' ? record.addedBy : null,
+    };
+  }
+  return additions;
+}
+
+/**
+ * Clean up a list of custom tags: trimmed, length-limited and without
+ * case-insensitive duplicates
+ */
+export function normalizeCustomTags(tags: unknown[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    if (typeof tag !== 'string') continue;
+    const value = tag.trim().replace(/\s+/g, ' ').slice(0, MAX_CUSTOM_TAG_LENGTH);
+    if (!value || seen.has(value.toLowerCase())) continue;
+    seen.add(value.toLowerCase());
+    result.push(value);
+  }
+  return result.slice(0, MAX_CUSTOM_TAGS);
+}
+
+/**
+ * Read an annotation, or null if it is unreadable or empty
+ */
+export function readAnnotation(value: unknown): FavoriteAnnotation | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
+  const rating = typeof record.rating === 'number' && Number.isFinite(record.rating)
+    ? Math.max(0, Math.min(MAX_RATING, Math.round(record.rating)))
+    : 0;
+  const annotation: FavoriteAnnotation = {
+    note: typeof record.note === 'string' ? record.note.trim().slice(0, MAX_NOTE_LENGTH) : '',
+    tags: Array.isArray(record.tags) ? normalizeCustomTags(record.tags) : [],
+    rating,
+  };
+  return annotation.note || annotation.tags.length > 0 || annotation.rating > 0 ? annotation : null;
+}
+
+/**
+ * Read the annotations map, dropping unreadable and empty entries
+ */
+export function readAnnotations(value: unknown): Record<string, FavoriteAnnotation> {
+  if (typeof value !== 'object' || value === null) return {};
+  const annotations: Record<string, FavoriteAnnotation> = {};
+  for (const [id, entry] of Object.entries(value as Record<string, unknown>)) {
+    const annotation = readAnnotation(entry);
+    if (annotation) annotations[id] = annotation;
+  }
+  return annotations;
+}
+
+/**
+ * Read a trash retention period, or the default if it is invalid
+ */
+export function readTrashRetention(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value)) return DEFAULT_TRASH_RETENTION_DAYS;
+  return Math.max(1, Math.min(MAX_TRASH_RETENTION_DAYS, value));
+}
+
+/**
+ * Read a trash entry, or null if it is unreadable
+ */
+export function readTrashEntry(value: unknown): TrashedFavorite | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
+  const icon = coerceStoredIcon(record.icon);
+  if (!icon || typeof record.removedAt !== 'string' || Number.isNaN(Date.parse(record.removedAt))) return null;
+  const addition = readAdditions({ [icon.id]: record.addition })[icon.id];
+
+  return {
+    icon,
+    collectionIds: Array.isArray(record.collectionIds)
+      ? record.collectionIds.filter((id): id is string => typeof id === 'string')
+      : [],
+    addition: addition ?? { addedAt: record.removedAt, addedBy: null },
+    annotation: readAnnotation(record.annotation),
+    removedAt: record.removedAt,
+  };
+}
+
+/**
+ * Upgrade version 0 to version 1 by putting every favorite in the default
+ * collection
+ */
+function migrateFlatFavorites(document: AnyDocument): AnyDocument {
+  const legacy = document as LegacyDocument;
+  const ids = Array.isArray(legacy.ids) ? legacy.ids : [];
+  return { ...legacy, version: 1, collections: [{ ...createDefaultCollection(), iconIds: ids }] };
+}
+
+/**
+ * Upgrade version 1 to version 2
+ * Icon data is normalized and given repaired ids; the id list and
+ * collections are rewritten to use the repaired ids. Icons in the data
+ * but in no collection are added to the default collection, since the
+ * favorites page used to show them. Ids without any icon data cannot be
+ * shown and are reported as issues.
+ */
+function mergeIntoDocument(document: AnyDocument, issues: Record<string, unknown>): AnyDocument {
+  const legacy = document as LegacyDocument;
+  const rawIcons = Array.isArray(legacy.icons) ? legacy.icons : [];
+  const aliases = new Map<string, string>(); // Old id -> repaired id
+  const icons: IconData[] = [];
+  const unreadable: unknown[] = [];
+
+  for (const raw of rawIcons) {
+    const icon = coerceStoredIcon(raw);
+    if (!icon) {
+      unreadable.push(raw);
+      continue;
+    }
+    const repaired = repairIconId(icon);
+    aliases.set(icon.id, repaired.id);
+    // Old pages stored their generated id next to Iconfinder's icon_id
+    const storedId = (raw as Record<string, unknown>).id;
+    if (typeof storedId === 'string') aliases.set(storedId, repaired.id);
+    icons.push(repaired);
+  }
+  if (unreadable.length > 0) issues.unreadableIcons = unreadable;
+
+  const rawCollections = Array.isArray(legacy.collections) ? legacy.collections : [];
+  const collections = rawCollections
+    .map(readCollection)
+    .filter((collection): collection is FavoriteCollection => collection !== null);
+  if (collections.length < rawCollections.length) issues.unreadableCollections = rawCollections;
+
+  const orphanIds = new Set<string>();
+  const resolved = collections.map(collection => ({
+    ...collection,
+    iconIds: collection.iconIds
+      .map(id => {
+        const alias = aliases.get(id);
+        if (!alias) orphanIds.add(id);
+        return alias;
+      })
+      .filter((id): id is string => id !== undefined),
+  }));
+  if (orphanIds.size > 0) issues.orphanIds = [...orphanIds];
+
+  // Icon data that no collection refers to goes into the default collection
+  const referenced = new Set(resolved.flatMap(collection => collection.iconIds));
+  const unreferenced = icons.map(icon => icon.id).filter(id => !referenced.has(id));
+  const defaultCollection = resolved.find(collection => collection.id === DEFAULT_COLLECTION_ID);
+  if (defaultCollection) {
+    defaultCollection.iconIds.push(...unreferenced);
+  } else {
+    resolved.unshift(createDefaultCollection(unreferenced));
+  }
+
+  return {
+    version: 2,
+    updatedAt: new Date().toISOString(),
+    icons,
+    collections: resolved,
+  };
+}
+
+// Applied in order to any document older than FAVORITES_SCHEMA_VERSION
+const MIGRATIONS: Migration[] = [
+  { from: 0, migrate: migrateFlatFavorites },
+  { from: 1, migrate: mergeIntoDocument },
+  // Addition times are unknown; normalizeDocument uses the document's updatedAt
+  { from: 2, migrate: document => ({ ...document, version: 3, added: {} }) },
+  { from: 3, migrate: document => ({ ...document, version: 4, annotations: {} }) },
+  { from: 4, migrate: document => ({ ...document, version: 5, trash: [], trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS }) },
+];
+
+/**
+ * Run every migration needed to bring a document up to date
+ */
+function migrate(document: AnyDocument, issues: Record<string, unknown>): AnyDocument {
+  let current = document;
+  for (const migration of MIGRATIONS) {
+    if (current.version === migration.from) current = migration.migrate(current, issues);
+  }
+  return current;
+}
+
+/**
+ * Enforce the document invariants: readable icons with unique ids, unique
+ * collection ids, collection entries that point at known icons, a default
+ * collection, no icon data outside every collection, an addition
+ * record for every icon, annotations only for favorites, and a trash
+ * without favorites, duplicates or expired entries
+ *
+ * @param document - A document that may break the invariants
+ * @returns A document that satisfies them
+ */
+export function normalizeDocument(
+  document: Pick<FavoritesDocument, 'icons' | 'collections'>
+    & Partial<Pick<FavoritesDocument, 'updatedAt' | 'added' | 'annotations' | 'trash' | 'trashRetentionDays'>>
+): FavoritesDocument {
+  const known = new Map<string, IconData>();
+  for (const icon of document.icons) {
+    const id = typeof icon.id === 'string' ? icon.id.trim() : '';
+    if (id && !known.has(id)) known.set(id, id === icon.id ? icon : { ...icon, id });
+  }
+
+  const seenCollections = new Set<string>();
+  const referenced = new Set<string>();
+  const collections = document.collections
+    .filter(collection => {
+      if (seenCollections.has(collection.id)) return false;
+      seenCollections.add(collection.id);
+      return true;
+    })
+    .map(collection => {
+      const iconIds = [...new Set(collection.iconIds)].filter(id => known.has(id));
+      iconIds.forEach(id => referenced.add(id));
+      return { ...collection, iconIds };
+    });
+
+  if (!seenCollections.has(DEFAULT_COLLECTION_ID)) {
+    collections.unshift(createDefaultCollection());
+  }
+
+  const updatedAt = document.updatedAt ?? new Date().toISOString();
+  const icons = [...known.values()].filter(icon => referenced.has(icon.id));
+  const added: Record<string, FavoriteAddition> = {};
+  for (const icon of icons) {
+    added[icon.id] = document.added?.[icon.id] ?? { addedAt: updatedAt, addedBy: null };
+  }
+  const annotations: Record<string, FavoriteAnnotation> = {};
+  for (const icon of icons) {
+    const annotation = document.annotations?.[icon.id];
+    if (annotation) annotations[icon.id] = annotation;
+  }
+
+  const trashRetentionDays = readTrashRetention(document.trashRetentionDays);
+  // Counted from now rather than updatedAt, so entries expire even while nothing changes
+  const expiresBefore = new Date(Date.now() - trashRetentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const trashed = new Set<string>();
+  const trash = [...(document.trash ?? [])]
+    .sort((a, b) => b.removedAt.localeCompare(a.removedAt))
+    .filter(entry => {
+      // Favorites that were added again are no longer in the trash
+      if (referenced.has(entry.icon.id) || trashed.has(entry.icon.id)) return false;
+      if (entry.removedAt < expiresBefore) return false;
+      trashed.add(entry.icon.id);
+      return true;
+    })
+    .slice(0, MAX_TRASH_ENTRIES);
+
+  return {
+    version: FAVORITES_SCHEMA_VERSION,
+    updatedAt,
+    icons,
+    collections,
+    added,
+    annotations,
+    trash,
+    trashRetentionDays,
+  };
+}
+
+/**
+ * Parse a JSON value from storage, recording it as an issue when it is corrupt
+ */
+function parseStored(raw: string | null, key: string, issues: Record<string, unknown>): unknown {
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    issues[key] = raw;
+    return undefined;
+  }
+}
+
+/**
+ * Keep a copy of data that could not be read
+ */
+function writeBackup(storage: Storage, reason: string, data: Record<string, unknown>) {
+  try {
+    const existing = parseStored(storage.getItem(FAVORITES_BACKUP_KEY), FAVORITES_BACKUP_KEY, {});
+    const backups = Array.isArray(existing) ? existing as FavoritesBackup[] : [];
+    const backup: FavoritesBackup = { createdAt: new Date().toISOString(), reason, data };
+    storage.setItem(FAVORITES_BACKUP_KEY, JSON.stringify([...backups, backup].slice(-MAX_BACKUPS)));
+    console.warn(`Favorites: ${reason}; a copy was saved under "${FAVORITES_BACKUP_KEY}"`);
+  } catch (error) {
+    console.error('Error backing up unreadable favorites:', error);
+  }
+}
+
+/**
+ * Get the backups of unreadable favorites data, oldest first
+ */
+export function readBackups(storage: Storage): FavoritesBackup[] {
+  const backups = parseStored(storage.getItem(FAVORITES_BACKUP_KEY), FAVORITES_BACKUP_KEY, {});
+  return Array.isArray(backups) ? backups as FavoritesBackup[] : [];
+}
+
+/**
+ * Load the favorites document, migrating and repairing it as needed
+ * Upgraded documents are written back and the legacy keys removed.
+ *
+ * @param storage - Where favorites are kept, normally localStorage
+ * @param key - Storage key of the document; legacy keys are only read for the default key
+ * @returns The current document and whether it changed while loading
+ */
+export function loadFavoritesDocument(storage: Storage, key: string = FAVORITES_STORAGE_KEY): LoadResult {
+  const issues: Record<string, unknown> = {};
+  const stored = parseStored(storage.getItem(key), key, issues);
+
+  let document: AnyDocument;
+  if (typeof stored === 'object' && stored !== null && typeof (stored as AnyDocument).version === 'number') {
+    document = stored as AnyDocument;
+  } else {
+    if (stored !== undefined) issues[key] = stored;
+    // Fall back to the layout used before version 2
+    const legacy = key === FAVORITES_STORAGE_KEY;
+    const collections = legacy ? parseStored(storage.getItem(LEGACY_KEYS.collections), LEGACY_KEYS.collections, issues) : undefined;
+    document = legacy ? {
+      version: collections === undefined ? 0 : 1,
+      ids: parseStored(storage.getItem(LEGACY_KEYS.ids), LEGACY_KEYS.ids, issues),
+      icons: parseStored(storage.getItem(LEGACY_KEYS.icons), LEGACY_KEYS.icons, issues),
+      collections,
+    } : { version: FAVORITES_SCHEMA_VERSION, icons: [], collections: [] };
+  }
+
+  if (document.version > FAVORITES_SCHEMA_VERSION) {
+    // Written by a newer version of the app; read what we can but keep a copy
+    issues[key] = document;
+  }
+
+  const upgraded = document.version < FAVORITES_SCHEMA_VERSION;
+  const migrated = migrate(document, issues) as Partial<FavoritesDocument>;
+  const icons = (Array.isArray(migrated.icons) ? migrated.icons : [])
+    .map(icon => coerceStoredIcon(icon))
+    .filter((icon): icon is IconData => icon !== null);
+  const collections = (Array.isArray(migrated.collections) ? migrated.collections : [])
+    .map(readCollection)
+    .filter((collection): collection is FavoriteCollection => collection !== null);
+  const normalized = normalizeDocument({
+    icons,
+    collections,
+    updatedAt: migrated.updatedAt,
+    added: readAdditions(migrated.added),
+    annotations: readAnnotations(migrated.annotations),
+    trash: (Array.isArray(migrated.trash) ? migrated.trash : [])
+      .map(readTrashEntry)
+      .filter((entry): entry is TrashedFavorite => entry !== null),
+    trashRetentionDays: migrated.trashRetentionDays,
+  });
+
+  const hasIssues = Object.keys(issues).length > 0;
+  if (hasIssues) writeBackup(storage, 'Some favorites data could not be read', issues);
+
+  // Rewrite the document when anything was upgraded, repaired or dropped
+  const changed = upgraded || hasIssues
+    || JSON.stringify(normalized) !== JSON.stringify({ ...migrated, version: FAVORITES_SCHEMA_VERSION });
+  if (changed) {
+    saveFavoritesDocument(storage, normalized, key);
+    if (upgraded && key === FAVORITES_STORAGE_KEY) Object.values(LEGACY_KEYS).forEach(legacyKey => storage.removeItem(legacyKey));
+  }
+
+  return { document: normalized, changed };
+}
+
+/**
+ * Write the favorites document
+ *
+ * @param storage - Where favorites are kept, normally localStorage
+ * @param document - The document to write
+ * @param key - Storage key of the document
+ */
+export function saveFavoritesDocument(storage: Storage, document: FavoritesDocument, key: string = FAVORITES_STORAGE_KEY) {
+  storage.setItem(key, JSON.stringify(document));
+}
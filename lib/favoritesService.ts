@@ -0,0 +1,211 @@
+/**
+ * Favorites Service
+ *
+ * Server-side handling of favorites for the /api/favorites routes:
+ * identifying the owner of a request, serializing writes per owner and
+ * applying operations with last-write-wins conflict handling.
+ *
+ * Favorites belong to one of three kinds of owner:
+ *
+ * - a team workspace, when the request names one with ?workspace=<id>;
+ *   reading needs the viewer role and changing the editor role
+ * - the signed-in user, for their personal favorites
+ * - an anonymous browser, identified by the OWNER_COOKIE
+ *
+ * Each kind has its own owner id prefix (workspace-, user-, anon-), and the
+ * cookie only ever holds a bare UUID, so a forged cookie cannot name the
+ * favorites of a workspace or user.
+ */
+
+import { randomUUID } from 'crypto';
+import { getCurrentUser, readAccounts, requireUser, requireWorkspaceRole } from '@/lib/accounts';
+import { readCookie } from '@/lib/auth/session';
+import { normalizeDocument, type FavoritesDocument } from '@/lib/favoritesSchema';
+import {
+  ALL_ENTITIES_KEY,
+  applyChange,
+  getOperationKeys,
+  type FavoritesOperation,
+  type FavoritesSyncResponse,
+} from '@/lib/favoritesOperations';
+import { getFavoritesStorage, type StoredFavorites } from '@/lib/favoritesStorage';
+import type { WorkspaceRole } from '@/types';
+
+// Cookie that identifies the favorites of a browser nobody is signed in on
+export const OWNER_COOKIE = 'iconvault_owner';
+const OWNER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365 * 2;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Pending writes per owner; each write waits for the previous one
+const ownerLocks = new Map<string, Promise<unknown>>();
+
+export interface FavoritesOwner {
+  ownerId: string;
+  // Set-Cookie value to send when the owner was just created
+  setCookie: string | null;
+  // Username recorded on new favorites; null when nobody is signed in
+  actor: string | null;
+}
+
+/**
+ * Get the storage owner id of a workspace's favorites
+ */
+export function getWorkspaceOwnerId(workspaceId: string): string {
+  return `workspace-${workspaceId}`;
+}
+
+/**
+ * Get the storage owner id of an anonymous browser's favorites
+ */
+function getAnonymousOwnerId(browserId: string): string {
+  return `anon-${browserId.toLowerCase()}`;
+}
+
+/**
+ * Identify whose favorites a request is for
+ * Browsers without an owner cookie are given a new random owner id.
+ *
+ * @param req - The incoming request
+ * @param access - The workspace role needed when the request names a workspace
+ * @returns The owner id, who is acting and, for new owners, the cookie to set
+ * @throws ApiError when the workspace is unknown or the role is missing
+ */
+export async function getFavoritesOwner(req: Request, access: WorkspaceRole): Promise<FavoritesOwner> {
+  const workspaceId = new URL(req.url).searchParams.get('workspace');
+  if (workspaceId) {
+    const user = await requireUser(req);
+    requireWorkspaceRole(await readAccounts(), workspaceId, user.id, access);
+    return { ownerId: getWorkspaceOwnerId(workspaceId), setCookie: null, actor: user.username };
+  }
+
+  const user = await getCurrentUser(req);
+  if (user) return { ownerId: `user-${user.id}`, setCookie: null, actor: user.username };
+
+  // Anything but a bare UUID is ignored and replaced
+  const cookie = readCookie(req, OWNER_COOKIE);
+  if (cookie && UUID_PATTERN.test(cookie)) {
+    return { ownerId: getAnonymousOwnerId(cookie), setCookie: null, actor: null };
+  }
+
+  const browserId = randomUUID();
+  return {
+    ownerId: getAnonymousOwnerId(browserId),
+    setCookie: `${OWNER_COOKIE}=${browserId}; Path=/; Max-Age=${OWNER_COOKIE_MAX_AGE}; HttpOnly; SameSite=Lax`,
+    actor: null,
+  };
+}
+
+/**
+ * Run a task once every earlier task for the same owner has finished
+ */
+async function withOwnerLock<T>(ownerId: string, task: () => Promise<T>): Promise<T> {
+  const previous = ownerLocks.get(ownerId) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  ownerLocks.set(ownerId, current);
+  try {
+    return await current;
+  } finally {
+    if (ownerLocks.get(ownerId) === current) ownerLocks.delete(ownerId);
+  }
+}
+
+/**
+ * Check whether an operation lost to a newer change of one of its entities
+ */
+function isStale(operation: FavoritesOperation, clocks: Record<string, string>): boolean {
+  const at = Date.parse(operation.at);
+  const newerThan = (key: string) => clocks[key] !== undefined && Date.parse(clocks[key]) > at;
+
+  if (newerThan(ALL_ENTITIES_KEY)) return true;
+  // A replace loses to any newer change, since it overwrites everything
+  if (operation.type === 'replace') return Object.keys(clocks).some(newerThan);
+  return getOperationKeys(operation).some(newerThan);
+}
+
+/**
+ * Record the favorites a replace brings in as added by the acting user
+ * Favorites the owner has, or has in the trash, keep their own record.
+ */
+function recordReplaceAdditions(
+  document: FavoritesDocument,
+  operation: FavoritesOperation & { type: 'replace' },
+  actor: string | null
+): FavoritesOperation {
+  if (!operation.added) return operation;
+  const known = { ...Object.fromEntries(document.trash.map(entry => [entry.icon.id, entry.addition])), ...document.added };
+  const added = Object.fromEntries(Object.entries(operation.added).map(([id, addition]) =>
+    [id, known[id] ?? { addedAt: addition.addedAt, addedBy: actor }]
+  ));
+  return { ...operation, added };
+}
+
+/**
+ * Get an owner's favorites
+ *
+ * @param ownerId - The owner
+ * @returns The stored document, or null when nothing has been stored yet
+ */
+export async function getFavorites(ownerId: string): Promise<FavoritesSyncResponse> {
+  const stored = await getFavoritesStorage().read(ownerId);
+  // Documents stored by older versions may lack newer fields
+  return { document: stored ? normalizeDocument(stored.document) : null, skipped: [] };
+}
+
+/**
+ * Apply operations to an owner's favorites
+ * Operations older than the last accepted change to one of their
+ * entities are skipped (last write wins). New favorites are recorded as
+ * added by the acting user, whatever the client claimed.
+ *
+ * @param ownerId - The owner
+ * @param operations - Operations in the order they were made
+ * @param actor - Username of the signed-in user, or null
+ * @returns The resulting document and the ids of skipped operations
+ */
+export async function applyFavoritesOperations(
+  ownerId: string,
+  operations: FavoritesOperation[],
+  actor: string | null
+): Promise<FavoritesSyncResponse> {
+  const storage = getFavoritesStorage();
+
+  return withOwnerLock(ownerId, async () => {
+    const stored: StoredFavorites = await storage.read(ownerId) ?? {
+      document: normalizeDocument({ icons: [], collections: [], updatedAt: new Date(0).toISOString() }),
+      clocks: {},
+    };
+
+    let { clocks } = stored;
+    let document = normalizeDocument(stored.document);
+    const skipped: string[] = [];
+
+    for (const received of operations) {
+      // Times come from the client's clock; one from the future would win every
+      // conflict and, as the document's updatedAt, distort what follows from it
+      const operation = { ...received, at: new Date(Math.min(Date.parse(received.at), Date.now())).toISOString() };
+      if (isStale(operation, clocks)) {
+        skipped.push(operation.id);
+        continue;
+      }
+      const change = operation.type === 'add'
+        ? { ...operation, addedBy: actor }
+        : operation.type === 'replace' ? recordReplaceAdditions(document, operation, actor) : operation;
+      document = applyChange(document, change, operation.at);
+      clocks = operation.type === 'replace' ? {} : { ...clocks };
+      for (const key of getOperationKeys(operation)) clocks[key] = operation.at;
+    }
+
+    if (operations.length > skipped.length) await storage.write(ownerId, { document, clocks });
+    return { document, skipped };
+  });
+}
+
+/**
+ * Delete the favorites of a deleted workspace
+ *
+ * @param workspaceId - The workspace
+ */
+export async function deleteWorkspaceFavorites(workspaceId: string): Promise<void> {
+  const ownerId = getWorkspaceOwnerId(workspaceId);
+  await withOwnerLock(ownerId, () => getFavoritesStorage().remove(ownerId));
+}
@@ -0,0 +1,56 @@
+/**
+ * File Favorites Storage
+ *
+ * Keeps each owner's favorites in `<dir>/<ownerId>.json`. Files are
+ * written to a temporary file first and then renamed, so a crash never
+ * leaves a half-written file behind.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FavoritesStorageAdapter, StoredFavorites } from './types';
+
+// Owner ids become file names, so only safe characters are allowed
+const OWNER_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export class FileFavoritesStorage implements FavoritesStorageAdapter {
+  readonly name = 'file';
+
+  constructor(private readonly dir: string) {}
+
+  /**
+   * Get the file that holds an owner's favorites
+   */
+  private filePath(ownerId: string): string {
+    if (!OWNER_ID_PATTERN.test(ownerId)) throw new Error(`Invalid favorites owner id "${ownerId}"`);
+    return path.join(this.dir, `${ownerId}.json`);
+  }
+
+  async read(ownerId: string): Promise<StoredFavorites | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath(ownerId), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    try {
+      return JSON.parse(contents) as StoredFavorites;
+    } catch {
+      throw new Error(`Favorites file for owner "${ownerId}" is corrupt`);
+    }
+  }
+
+  async write(ownerId: string, favorites: StoredFavorites): Promise<void> {
+    const file = this.filePath(ownerId);
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(favorites), 'utf8');
+    await fs.rename(temp, file);
+  }
+
+  async remove(ownerId: string): Promise<void> {
+    await fs.rm(this.filePath(ownerId), { force: true });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Favorites Storage
+ *
+ * Selects the server-side favorites storage from configuration:
+ *
+ *   FAVORITES_STORAGE=file (default)  writes JSON files to FAVORITES_DATA_DIR (default ./data/favorites)
+ *   FAVORITES_STORAGE=memory          keeps favorites in memory until the server restarts
+ *   FAVORITES_STORAGE=none            disables server storage; browsers keep favorites locally
+ */
+
+import path from 'path';
+import { FileFavoritesStorage } from './file';
+import { MemoryFavoritesStorage } from './memory';
+import { ApiError } from '@/lib/apiErrors';
+import type { FavoritesStorageAdapter } from './types';
+
+export * from './types';
+export { FileFavoritesStorage } from './file';
+export { MemoryFavoritesStorage } from './memory';
+
+// Storage instance shared by all requests of this server process
+let storage: FavoritesStorageAdapter | null = null;
+
+/**
+ * Get the configured favorites storage
+ *
+ * @returns The storage adapter
+ * @throws ApiError when server storage is disabled or unknown
+ */
+export function getFavoritesStorage(): FavoritesStorageAdapter {
+  if (storage) return storage;
+
+  const name = process.env.FAVORITES_STORAGE || 'file';
+
+  switch (name) {
+    case 'file':
+      storage = new FileFavoritesStorage(path.resolve(process.env.FAVORITES_DATA_DIR || 'data/favorites'));
+      break;
+    case 'memory':
+      storage = new MemoryFavoritesStorage();
+      break;
+    case 'none':
+      throw new ApiError('NOT_FOUND', 'Server-side favorites are disabled', { status: 404 });
+    default:
+      console.error(`Unknown favorites storage "${name}"`);
+      throw new ApiError('SERVER_MISCONFIGURED', 'Favorites storage is not configured', { status: 500 });
+  }
+
+  return storage;
+}
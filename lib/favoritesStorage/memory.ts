@@ -0,0 +1,27 @@
+/**
+ * Memory Favorites Storage
+ *
+ * Keeps favorites in the server process. Everything is lost on restart,
+ * which makes it suitable for tests and demos only.
+ */
+
+import type { FavoritesStorageAdapter, StoredFavorites } from './types';
+
+export class MemoryFavoritesStorage implements FavoritesStorageAdapter {
+  readonly name = 'memory';
+  private readonly records = new Map<string, string>();
+
+  async read(ownerId: string): Promise<StoredFavorites | null> {
+    const record = this.records.get(ownerId);
+    // Stored serialized so callers never share objects with the store
+    return record ? JSON.parse(record) as StoredFavorites : null;
+  }
+
+  async write(ownerId: string, favorites: StoredFavorites): Promise<void> {
+    this.records.set(ownerId, JSON.stringify(favorites));
+  }
+
+  async remove(ownerId: string): Promise<void> {
+    this.records.delete(ownerId);
+  }
+}
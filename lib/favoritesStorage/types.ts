@@ -0,0 +1,24 @@
+/**
+ * Favorites Storage Types
+ *
+ * A favorites storage adapter keeps each owner's favorites on the server
+ * (a JSON file per owner, memory, a database, ...). The API routes only
+ * talk to the adapter interface.
+ */
+
+import type { FavoritesDocument } from '@/lib/favoritesSchema';
+
+export interface StoredFavorites {
+  document: FavoritesDocument;
+  // Time of the last accepted change per entity, for last-write-wins
+  clocks: Record<string, string>;
+}
+
+export interface FavoritesStorageAdapter {
+  readonly name: string;
+  // Resolves to null when nothing has been stored for the owner yet
+  read(ownerId: string): Promise<StoredFavorites | null>;
+  write(ownerId: string, favorites: StoredFavorites): Promise<void>;
+  // Does nothing when nothing is stored for the owner
+  remove(ownerId: string): Promise<void>;
+}
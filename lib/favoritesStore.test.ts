@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  createDefaultCollection,
+  DEFAULT_COLLECTION_ID,
+  FAVORITES_STORAGE_KEY,
+  loadFavoritesDocument,
+  normalizeDocument,
+  saveFavoritesDocument,
+} from '@/lib/favoritesSchema';
+import { MemoryStorage } from '@/lib/testing/memoryStorage';
+import type { IconData } from '@/types';
+
+type FavoritesStore = typeof import('@/lib/favoritesStore');
+
+const createIcon = (id: string, name = `Icon ${id.trim()}`): IconData => ({
+  id,
+  name,
+  tags: [],
+  author: null,
+  iconset: null,
+  license: null,
+  isPremium: false,
+  publishedAt: null,
+  rasterSizes: [],
+  vectorFormats: [],
+});
+
+/**
+ * Tell the store that another tab changed a localStorage key
+ */
+const fireStorageEvent = (key: string | null) => {
+  window.dispatchEvent(Object.assign(new Event('storage'), { key }));
+};
+
+let storage: MemoryStorage;
+let store: FavoritesStore;
+
+beforeEach(async () => {
+  storage = new MemoryStorage();
+  vi.stubGlobal('window', new EventTarget());
+  vi.stubGlobal('localStorage', storage);
+  // The store is module state, so every test gets a fresh one
+  vi.resetModules();
+  store = await import('@/lib/favoritesStore');
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('addFavorite', () => {
+  it('adds the icon to the default collection and saves it', () => {
+    store.addFavorite(createIcon('1'));
+
+    const snapshot = store.getSnapshot();
+    expect(snapshot.icons.map(icon => icon.id)).toEqual(['1']);
+    expect(snapshot.ids.has('1')).toBe(true);
+    expect(snapshot.collections.find(collection => collection.id === DEFAULT_COLLECTION_ID)?.iconIds).toEqual(['1']);
+    expect(loadFavoritesDocument(storage).document.icons.map(icon => icon.id)).toEqual(['1']);
+  });
+
+  it('adds the icon to the given collection', () => {
+    const collectionId = store.createCollection({ name: 'Arrows' });
+    store.addFavorite(createIcon('1'), collectionId);
+
+    const collections = store.getSnapshot().collections;
+    expect(collections.find(collection => collection.id === collectionId)?.iconIds).toEqual(['1']);
+    expect(collections.find(collection => collection.id === DEFAULT_COLLECTION_ID)?.iconIds).toEqual([]);
+  });
+
+  it('stores the icon under its trimmed id', () => {
+    store.addFavorite(createIcon(' 1 '));
+    store.addFavorite(createIcon('1'));
+
+    const snapshot = store.getSnapshot();
+    expect(snapshot.icons.map(icon => icon.id)).toEqual(['1']);
+    expect(snapshot.history.undoLabel).toBe('Added "Icon 1" to favorites');
+  });
+
+  it('ignores icons without a usable id', () => {
+    const before = store.getSnapshot();
+    store.addFavorite(createIcon('   '));
+    store.addFavorite({ ...createIcon('1'), id: undefined as unknown as string });
+
+    expect(store.getSnapshot()).toBe(before);
+  });
+});
+
+describe('removeFavorite', () => {
+  it('removes the icon from every collection and moves it to the trash', () => {
+    const collectionId = store.createCollection({ name: 'Arrows' });
+    store.addFavorite(createIcon('1'));
+    store.copyToCollection('1', collectionId);
+    store.removeFavorite('1');
+
+    const snapshot = store.getSnapshot();
+    expect(snapshot.icons).toEqual([]);
+    expect(snapshot.collections.every(collection => collection.iconIds.length === 0)).toBe(true);
+    expect(snapshot.trash.map(entry => entry.icon.id)).toEqual(['1']);
+    expect(snapshot.trash[0].collectionIds).toEqual([DEFAULT_COLLECTION_ID, collectionId]);
+  });
+
+  it('can be undone', () => {
+    store.addFavorite(createIcon('1'));
+    store.removeFavorite('1');
+    store.undo();
+
+    const snapshot = store.getSnapshot();
+    expect(snapshot.icons.map(icon => icon.id)).toEqual(['1']);
+    expect(snapshot.trash).toEqual([]);
+  });
+
+  it('ignores icons that are not favorites', () => {
+    store.addFavorite(createIcon('1'));
+    const before = store.getSnapshot();
+    store.removeFavorite('2');
+
+    expect(store.getSnapshot()).toBe(before);
+  });
+});
+
+describe('toggleFavorite', () => {
+  it('adds an icon that is not a favorite and removes one that is', () => {
+    store.toggleFavorite(createIcon('1'));
+    expect(store.getSnapshot().ids.has('1')).toBe(true);
+
+    store.toggleFavorite(createIcon('1'));
+    const snapshot = store.getSnapshot();
+    expect(snapshot.ids.has('1')).toBe(false);
+    expect(snapshot.trash.map(entry => entry.icon.id)).toEqual(['1']);
+  });
+
+  it('matches favorites by their trimmed id', () => {
+    store.addFavorite(createIcon('1'));
+    store.toggleFavorite(createIcon(' 1 '));
+
+    expect(store.getSnapshot().icons).toEqual([]);
+  });
+
+  it('ignores icons without a usable id', () => {
+    const before = store.getSnapshot();
+    store.toggleFavorite(createIcon(''));
+
+    expect(store.getSnapshot()).toBe(before);
+  });
+});
+
+describe('cross-tab sync', () => {
+  const saveFromOtherTab = (ids: string[]) => {
+    saveFavoritesDocument(storage, normalizeDocument({
+      icons: ids.map(id => createIcon(id)),
+      collections: [createDefaultCollection(ids)],
+    }));
+  };
+
+  it('reloads favorites when another tab saves them', () => {
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+    store.addFavorite(createIcon('1'));
+    listener.mockClear();
+
+    saveFromOtherTab(['1', '2']);
+    fireStorageEvent(FAVORITES_STORAGE_KEY);
+
+    expect(listener).toHaveBeenCalled();
+    expect(store.getSnapshot().icons.map(icon => icon.id)).toEqual(['1', '2']);
+
+    // Changes made here build on what the other tab saved
+    store.toggleFavorite(createIcon('1'));
+    expect(store.getSnapshot().icons.map(icon => icon.id)).toEqual(['2']);
+    unsubscribe();
+  });
+
+  it('reloads favorites when another tab clears localStorage', () => {
+    const unsubscribe = store.subscribe(() => {});
+    store.addFavorite(createIcon('1'));
+
+    storage.clear();
+    fireStorageEvent(null);
+
+    expect(store.getSnapshot().icons).toEqual([]);
+    unsubscribe();
+  });
+
+  it('ignores changes to other keys', () => {
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+    store.addFavorite(createIcon('1'));
+    const before = store.getSnapshot();
+    listener.mockClear();
+
+    storage.setItem('somethingElse', '1');
+    fireStorageEvent('somethingElse');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(store.getSnapshot()).toBe(before);
+    unsubscribe();
+  });
+
+  it('stops listening once the last subscriber leaves', () => {
+    const unsubscribe = store.subscribe(() => {});
+    store.addFavorite(createIcon('1'));
+    unsubscribe();
+
+    saveFromOtherTab(['2']);
+    fireStorageEvent(FAVORITES_STORAGE_KEY);
+
+    expect(store.getSnapshot().icons.map(icon => icon.id)).toEqual(['1']);
+  });
+});
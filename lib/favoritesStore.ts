@@ -0,0 +1,671 @@
+/**
+ * Favorites Store
+ *
+ * A single module-level store holding the user's favorite icons and the
+ * named collections they are organized in. Every component reads it
+ * through useFavorites, so a change made on one page is visible
+ * everywhere without reloading localStorage.
+ *
+ * An icon is a favorite while it belongs to at least one collection.
+ * Favorites are persisted as a single versioned document; see
+ * lib/favoritesSchema for its format and the migrations of older data.
+ *
+ * The store follows the useSyncExternalStore contract: subscribe() to be
+ * told about changes and getSnapshot() for an immutable snapshot that
+ * only changes identity when the favorites change. Other tabs are kept
+ * in sync through the window "storage" event.
+ *
+ * Every change is dispatched as an operation (lib/favoritesOperations),
+ * applied locally at once and sent to the server by lib/favoritesSync.
+ *
+ * The store shows either personal favorites or those of the active team
+ * workspace; lib/sessionStore tells it which through setFavoritesContext.
+ *
+ * User actions are recorded in an undo history kept for this tab. Undoing
+ * applies the inverse changes from invertChange as new operations, so an
+ * undo syncs like any other change.
+ */
+
+import {
+  applyChange,
+  createId,
+  createOperation,
+  invertChange,
+  type CollectionDetails,
+  type FavoritesChange,
+  type FavoritesOperation,
+} from '@/lib/favoritesOperations';
+import {
+  DEFAULT_COLLECTION_COLOR,
+  DEFAULT_COLLECTION_ID,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  FAVORITES_STORAGE_KEY,
+  LEGACY_KEYS,
+  loadFavoritesDocument,
+  normalizeDocument,
+  saveFavoritesDocument,
+  type FavoritesDocument,
+} from '@/lib/favoritesSchema';
+import { FavoritesSync, type SyncStatus } from '@/lib/favoritesSync';
+import type { FavoritesContents } from '@/lib/favoritesTransfer';
+import type {
+  FavoriteAddition,
+  FavoriteAnnotation,
+  FavoriteCollection,
+  IconData,
+  TrashedFavorite,
+  WorkspaceRole,
+} from '@/types';
+
+export { DEFAULT_COLLECTION_ID };
+export type { CollectionDetails, SyncStatus };
+
+// What undo and redo would do, and the last action for the undo snackbar
+export interface FavoritesHistory {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  // Changes with every new action, undo and redo
+  lastAction: { id: number; label: string; kind: 'action' | 'undo' | 'redo' } | null;
+}
+
+export interface FavoritesSnapshot {
+  // Favorite icons in the order they were added
+  icons: IconData[];
+  // Ids of the favorite icons, for quick lookups
+  ids: ReadonlySet<string>;
+  // Collections in display order
+  collections: FavoriteCollection[];
+  // Who added each favorite and when, keyed by icon id
+  added: Record<string, FavoriteAddition>;
+  // Notes, custom tags and ratings, keyed by icon id
+  annotations: Record<string, FavoriteAnnotation>;
+  // Removed favorites, most recently removed first
+  trash: TrashedFavorite[];
+  trashRetentionDays: number;
+  history: FavoritesHistory;
+  // Time of the last change, ISO 8601
+  updatedAt: string | null;
+  // False until favorites have been read from localStorage
+  loaded: boolean;
+  // State of the sync with the server
+  syncStatus: SyncStatus;
+  // Team workspace shown, null for personal favorites
+  workspaceId: string | null;
+  // False for viewers of a workspace
+  canEdit: boolean;
+}
+
+// Whose favorites the store shows; set by the session store
+export interface FavoritesContext {
+  // Team workspace, null for personal favorites
+  workspaceId: string | null;
+  // The user's role in the workspace
+  role: WorkspaceRole | null;
+  // Signed-in user, null when anonymous
+  userId: string | null;
+  username: string | null;
+}
+
+type Listener = () => void;
+
+// An undoable action: the changes that reverse it, applied in order
+interface HistoryEntry {
+  label: string;
+  changes: FavoritesChange[];
+}
+
+// Actions kept in the undo history
+const MAX_HISTORY = 50;
+
+// Snapshot used during server rendering and hydration
+const SERVER_SNAPSHOT: FavoritesSnapshot = {
+  icons: [],
+  ids: new Set(),
+  collections: [],
+  added: {},
+  annotations: {},
+  trash: [],
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  history: { undoLabel: null, redoLabel: null, lastAction: null },
+  updatedAt: null,
+  loaded: false,
+  syncStatus: 'idle',
+  workspaceId: null,
+  canEdit: true,
+};
+
+let snapshot: FavoritesSnapshot = SERVER_SNAPSHOT;
+let current: FavoritesDocument | null = null;
+let sync: FavoritesSync | null = null;
+let context: FavoritesContext = { workspaceId: null, role: null, userId: null, username: null };
+// Syncing waits for the session, so it starts in the right scope
+let contextReady = false;
+const listeners = new Set<Listener>();
+let undoStack: HistoryEntry[] = [];
+let redoStack: HistoryEntry[] = [];
+let lastAction: FavoritesHistory['lastAction'] = null;
+
+/**
+ * Get the id an icon is stored under in favorites
+ * Every page uses this, so the same icon always maps to the same entry.
+ *
+ * @param icon - The icon to identify
+ * @returns The favorite id, or null if the icon has no usable id
+ */
+export function getFavoriteId(icon: Pick<IconData, 'id'>): string | null {
+  const id = typeof icon.id === 'string' ? icon.id.trim() : '';
+  return id || null;
+}
+
+/**
+ * Get the sync scope of the favorites being shown
+ */
+function getSyncScope(): string | null {
+  if (context.workspaceId) return `workspace-${context.workspaceId}`;
+  return context.userId ? `user-${context.userId}` : null;
+}
+
+/**
+ * Get the localStorage key of the favorites being shown
+ * Each user and workspace is cached under its own key, like its sync
+ * queue; the plain key holds the favorites of whoever is signed out.
+ */
+function getStorageKey(): string {
+  const scope = getSyncScope();
+  return scope ? `${FAVORITES_STORAGE_KEY}:${scope}` : FAVORITES_STORAGE_KEY;
+}
+
+/**
+ * Hand the favorites collected while signed out to a user signing in on
+ * this browser for the first time; the first sync merges them into the
+ * account. They are moved, not copied, so signing out shows no one's
+ * favorites and the next user to sign in does not receive them as well.
+ */
+function adoptSignedOutFavorites() {
+  const key = getStorageKey();
+  try {
+    if (localStorage.getItem(key) !== null) return;
+    const { document } = loadFavoritesDocument(localStorage, FAVORITES_STORAGE_KEY);
+    saveFavoritesDocument(localStorage, document, key);
+    localStorage.removeItem(FAVORITES_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error moving signed-out favorites:', error);
+  }
+}
+
+/**
+ * Check whether the current user may change the favorites being shown
+ */
+function canEdit(): boolean {
+  return !context.workspaceId || context.role === 'editor' || context.role === 'owner';
+}
+
+/**
+ * Build a snapshot from a favorites document
+ */
+function createSnapshot(document: FavoritesDocument, syncStatus: SyncStatus = snapshot.syncStatus): FavoritesSnapshot {
+  return {
+    icons: document.icons,
+    ids: new Set(document.icons.map(icon => icon.id)),
+    collections: document.collections,
+    added: document.added,
+    annotations: document.annotations,
+    trash: document.trash,
+    trashRetentionDays: document.trashRetentionDays,
+    history: {
+      undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+      redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+      lastAction,
+    },
+    updatedAt: document.updatedAt,
+    loaded: true,
+    syncStatus,
+    workspaceId: context.workspaceId,
+    canEdit: canEdit(),
+  };
+}
+
+/**
+ * Read favorites from localStorage
+ */
+function readStorage(): FavoritesDocument {
+  try {
+    return loadFavoritesDocument(localStorage, getStorageKey()).document;
+  } catch (error) {
+    console.error('Error loading favorites from localStorage:', error);
+    return normalizeDocument({ icons: [], collections: [] });
+  }
+}
+
+/**
+ * Write favorites to localStorage
+ */
+function writeStorage(document: FavoritesDocument) {
+  try {
+    saveFavoritesDocument(localStorage, document, getStorageKey());
+  } catch (error) {
+    console.error('Error saving favorites to localStorage:', error);
+  }
+}
+
+/**
+ * Replace the snapshot and notify subscribers
+ */
+function emit(next: FavoritesSnapshot) {
+  snapshot = next;
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Load favorites on first use in the browser
+ */
+function ensureLoaded(): FavoritesDocument {
+  if (typeof window === 'undefined') return normalizeDocument({ icons: [], collections: [] });
+  if (!current) {
+    current = readStorage();
+    snapshot = createSnapshot(current);
+  }
+  return current;
+}
+
+/**
+ * Make a document the current favorites and persist it
+ */
+function setDocument(next: FavoritesDocument) {
+  current = next;
+  writeStorage(next);
+  emit(createSnapshot(next));
+}
+
+/**
+ * Take over the server's favorites, keeping changes it has not seen yet
+ *
+ * @param remote - The server's document
+ * @param pending - Queued operations to replay on top of it
+ */
+function applyRemote(remote: FavoritesDocument, pending: FavoritesOperation[]) {
+  const next = pending.reduce((document, operation) => applyChange(document, operation, operation.at), remote);
+  // Avoid re-rendering when nothing changed
+  if (current && JSON.stringify(next) === JSON.stringify(current)) return;
+  setDocument(next);
+}
+
+/**
+ * Get the sync for the favorites being shown, creating it on first use
+ * Operations queued before it starts are sent once it does.
+ */
+function getSync(): FavoritesSync | null {
+  if (typeof window === 'undefined') return null;
+  if (!sync) {
+    const instance: FavoritesSync = new FavoritesSync({
+      getDocument: ensureLoaded,
+      onRemoteDocument: applyRemote,
+      onStatusChange: (syncStatus) => {
+        if (instance === sync) emit(createSnapshot(ensureLoaded(), syncStatus));
+      },
+    }, { scope: getSyncScope(), workspaceId: context.workspaceId });
+    sync = instance;
+  }
+  return sync;
+}
+
+/**
+ * Start syncing once the store is in use and the session is known
+ */
+function startSync() {
+  if (contextReady && listeners.size > 0) getSync()?.start();
+}
+
+/**
+ * Switch the favorites shown to another workspace or user
+ * Called by the session store whenever the session or the active
+ * workspace changes.
+ *
+ * @param next - The new context
+ */
+export function setFavoritesContext(next: FavoritesContext) {
+  const previousKey = getStorageKey();
+  context = next;
+  contextReady = true;
+
+  if (sync && sync.scope !== getSyncScope()) {
+    sync.stop();
+    sync = null;
+  }
+  if (getStorageKey() !== previousKey) {
+    if (typeof window !== 'undefined' && context.userId && !context.workspaceId) adoptSignedOutFavorites();
+    // The history belongs to the favorites that were shown
+    current = null;
+    undoStack = [];
+    redoStack = [];
+    lastAction = null;
+  }
+
+  if (typeof window !== 'undefined') emit(createSnapshot(ensureLoaded(), sync ? snapshot.syncStatus : 'idle'));
+  startSync();
+}
+
+/**
+ * Reload favorites when another tab changes them
+ */
+function handleStorage(e: StorageEvent) {
+  // A null key means localStorage was cleared
+  const legacy = getSyncScope() === null && e.key !== null && Object.values<string>(LEGACY_KEYS).includes(e.key);
+  if (e.key === null || e.key === getStorageKey() || legacy) {
+    current = readStorage();
+    emit(createSnapshot(current));
+  }
+  if (e.key === null || (sync && sync.ownsKey(e.key))) sync?.reloadQueue();
+}
+
+/**
+ * Subscribe to favorites changes
+ *
+ * @param listener - Called after every change
+ * @returns A function that removes the subscription
+ */
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) window.addEventListener('storage', handleStorage);
+  startSync();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('storage', handleStorage);
+  };
+}
+
+/**
+ * Get the current favorites
+ */
+export function getSnapshot(): FavoritesSnapshot {
+  ensureLoaded();
+  return snapshot;
+}
+
+/**
+ * Get the favorites used while rendering on the server
+ */
+export function getServerSnapshot(): FavoritesSnapshot {
+  return SERVER_SNAPSHOT;
+}
+
+/**
+ * Apply a change locally and queue it for the server
+ *
+ * @param change - The change to make
+ * @returns The changes that undo it, or null if there is nothing to undo
+ */
+function apply(change: FavoritesChange): FavoritesChange[] | null {
+  const document = ensureLoaded();
+  const operation = createOperation(change);
+  const next = applyChange(document, operation, operation.at);
+  if (next === document) return null;
+  const inverse = invertChange(document, change);
+  setDocument(next);
+  getSync()?.enqueue(operation);
+  return inverse;
+}
+
+/**
+ * Apply several changes in order
+ *
+ * @returns The changes that undo all of them
+ */
+function applyAll(changes: FavoritesChange[]): FavoritesChange[] {
+  return changes.map(change => apply(change) ?? []).reverse().flat();
+}
+
+/**
+ * Record the last action and publish the new history
+ */
+function setLastAction(label: string, kind: 'action' | 'undo' | 'redo') {
+  lastAction = { id: (lastAction?.id ?? 0) + 1, label, kind };
+  emit(createSnapshot(ensureLoaded()));
+}
+
+/**
+ * Apply a user's change and record it in the undo history
+ * Changes that do not alter the favorites, and every change made by a
+ * workspace viewer, are dropped.
+ *
+ * @param change - The change to make
+ * @param label - Describes the action in the undo snackbar; changes without one are not undoable
+ */
+function dispatch(change: FavoritesChange, label?: string) {
+  if (!canEdit()) return;
+  const inverse = apply(change);
+  if (!inverse || !label) return;
+  undoStack = [...undoStack, { label, changes: inverse }].slice(-MAX_HISTORY);
+  redoStack = [];
+  setLastAction(label, 'action');
+}
+
+/**
+ * Undo the most recent action
+ */
+export function undo() {
+  const entry = undoStack[undoStack.length - 1];
+  if (!entry || !canEdit()) return;
+  undoStack = undoStack.slice(0, -1);
+  redoStack = [...redoStack, { label: entry.label, changes: applyAll(entry.changes) }];
+  setLastAction(entry.label, 'undo');
+}
+
+/**
+ * Redo the most recently undone action
+ */
+export function redo() {
+  const entry = redoStack[redoStack.length - 1];
+  if (!entry || !canEdit()) return;
+  redoStack = redoStack.slice(0, -1);
+  undoStack = [...undoStack, { label: entry.label, changes: applyAll(entry.changes) }];
+  setLastAction(entry.label, 'redo');
+}
+
+/**
+ * Forget the last action once its snackbar has been dismissed
+ */
+export function clearLastAction() {
+  if (!lastAction) return;
+  lastAction = null;
+  emit(createSnapshot(ensureLoaded()));
+}
+
+/**
+ * Name an icon for an undo label
+ */
+function describeIcon(iconId: string): string {
+  const document = ensureLoaded();
+  const icon = document.icons.find(favorite => favorite.id === iconId)
+    ?? document.trash.find(entry => entry.icon.id === iconId)?.icon;
+  return icon?.name ? `"${icon.name}"` : 'icon';
+}
+
+/**
+ * Name a collection for an undo label
+ */
+function describeCollection(collectionId: string): string {
+  const collection = ensureLoaded().collections.find(candidate => candidate.id === collectionId);
+  return collection ? `"${collection.name}"` : 'collection';
+}
+
+/**
+ * Add an icon to favorites; does nothing if it is already a favorite
+ *
+ * @param icon - The complete icon data to add
+ * @param collectionId - Collection to add it to, the default collection when omitted
+ */
+export function addFavorite(icon: IconData, collectionId: string = DEFAULT_COLLECTION_ID) {
+  const id = getFavoriteId(icon);
+  if (!id) return;
+  dispatch(
+    { type: 'add', icon: { ...icon, id }, collectionId, addedBy: context.username },
+    `Added ${icon.name ? `"${icon.name}"` : 'icon'} to favorites`
+  );
+}
+
+/**
+ * Remove an icon from favorites and from every collection
+ * The icon goes to the trash, from where it can be restored.
+ *
+ * @param iconId - The favorite id of the icon to remove
+ */
+export function removeFavorite(iconId: string) {
+  dispatch({ type: 'remove', iconId }, `Moved ${describeIcon(iconId)} to the trash`);
+}
+
+/**
+ * Bring a favorite back from the trash, into the collections it was in
+ *
+ * @param iconId - The favorite id of the trashed icon
+ */
+export function restoreFavorite(iconId: string) {
+  dispatch({ type: 'restore', iconId }, `Restored ${describeIcon(iconId)}`);
+}
+
+/**
+ * Delete favorites from the trash for good; this cannot be undone
+ *
+ * @param iconIds - The icons to delete, every icon in the trash when omitted
+ */
+export function purgeTrash(iconIds: string[] = ensureLoaded().trash.map(entry => entry.icon.id)) {
+  dispatch({ type: 'purge', iconIds });
+}
+
+/**
+ * Change how long removed favorites are kept in the trash
+ *
+ * @param days - Retention period in days
+ */
+export function setTrashRetention(days: number) {
+  dispatch({ type: 'setTrashRetention', days });
+}
+
+/**
+ * Change the note, custom tags or rating of a favorite
+ * Clearing every field removes the annotation.
+ *
+ * @param iconId - The favorite id of the icon
+ * @param details - The fields to change
+ */
+export function annotateFavorite(iconId: string, details: Partial<FavoriteAnnotation>) {
+  dispatch({ type: 'annotate', iconId, details }, `Updated notes on ${describeIcon(iconId)}`);
+}
+
+/**
+ * Add an icon to favorites, or remove it if it is already one
+ *
+ * @param icon - The complete icon data to toggle
+ */
+export function toggleFavorite(icon: IconData) {
+  const id = getFavoriteId(icon);
+  if (!id) return;
+
+  if (ensureLoaded().icons.some(favorite => favorite.id === id)) {
+    removeFavorite(id);
+  } else {
+    addFavorite(icon);
+  }
+}
+
+/**
+ * Create a new, empty collection at the end of the list
+ *
+ * @param details - Name, description and color of the collection
+ * @returns The id of the new collection
+ */
+export function createCollection(details: CollectionDetails): string {
+  const collection: FavoriteCollection = {
+    id: createId('col'),
+    name: details.name.trim() || 'Untitled collection',
+    description: details.description?.trim() ?? '',
+    color: details.color ?? DEFAULT_COLLECTION_COLOR,
+    createdAt: new Date().toISOString(),
+    iconIds: [],
+  };
+  dispatch({ type: 'createCollection', collection }, `Created collection "${collection.name}"`);
+  return collection.id;
+}
+
+/**
+ * Rename a collection or change its description or color
+ *
+ * @param collectionId - The collection to change
+ * @param details - The fields to change
+ */
+export function updateCollection(collectionId: string, details: Partial<CollectionDetails>) {
+  dispatch({ type: 'updateCollection', collectionId, details }, `Updated collection ${describeCollection(collectionId)}`);
+}
+
+/**
+ * Delete a collection
+ * Icons that are in no other collection go to the trash. The default
+ * collection cannot be deleted.
+ *
+ * @param collectionId - The collection to delete
+ */
+export function deleteCollection(collectionId: string) {
+  dispatch({ type: 'deleteCollection', collectionId }, `Deleted collection ${describeCollection(collectionId)}`);
+}
+
+/**
+ * Move a collection to a new position in the list
+ *
+ * @param collectionId - The collection to move
+ * @param toIndex - Its new index
+ */
+export function reorderCollection(collectionId: string, toIndex: number) {
+  dispatch({ type: 'reorderCollection', collectionId, toIndex }, 'Reordered collections');
+}
+
+/**
+ * Add a favorite to another collection, keeping it where it already is
+ *
+ * @param iconId - The favorite to copy
+ * @param collectionId - The collection to add it to
+ */
+export function copyToCollection(iconId: string, collectionId: string) {
+  dispatch(
+    { type: 'copyToCollection', iconId, collectionId },
+    `Added ${describeIcon(iconId)} to ${describeCollection(collectionId)}`
+  );
+}
+
+/**
+ * Remove a favorite from one collection
+ * The icon goes to the trash if it was in no other collection.
+ *
+ * @param iconId - The favorite to remove
+ * @param collectionId - The collection to remove it from
+ */
+export function removeFromCollection(iconId: string, collectionId: string) {
+  dispatch(
+    { type: 'removeFromCollection', iconId, collectionId },
+    `Removed ${describeIcon(iconId)} from ${describeCollection(collectionId)}`
+  );
+}
+
+/**
+ * Move a favorite from one collection to another
+ *
+ * @param iconId - The favorite to move
+ * @param fromCollectionId - The collection it is moved out of
+ * @param toCollectionId - The collection it is moved into
+ */
+export function moveToCollection(iconId: string, fromCollectionId: string, toCollectionId: string) {
+  dispatch(
+    { type: 'moveToCollection', iconId, fromCollectionId, toCollectionId },
+    `Moved ${describeIcon(iconId)} to ${describeCollection(toCollectionId)}`
+  );
+}
+
+/**
+ * Replace every favorite and collection, e.g. after an import
+ *
+ * @param contents - The new favorite icons, collections, annotations and additions
+ * @param label - Describes the change in the undo history
+ */
+export function replaceFavorites({ icons, collections, annotations, added }: FavoritesContents, label: string) {
+  dispatch({ type: 'replace', icons, collections, annotations, added }, label);
+}
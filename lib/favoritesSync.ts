@@ -0,0 +1,287 @@
+/**
+ * Favorites Sync
+ *
+ * Keeps the browser's favorites in step with /api/favorites. Changes are
+ * applied locally first (optimistic updates) and queued in localStorage;
+ * the queue is sent to the server in order and survives reloads and
+ * offline periods. Each server response is the authoritative document,
+ * on top of which any operations still waiting in the queue are replayed.
+ *
+ * When the server has favorites storage disabled, sync stops and
+ * favorites stay local-only. Network and server failures are retried
+ * with exponential backoff.
+ *
+ * Operations are idempotent, so two tabs sending the same queued
+ * operation is harmless.
+ *
+ * Each sync instance serves one scope: an anonymous browser, a signed-in
+ * user's personal favorites or a team workspace. Queues are kept per
+ * scope, so switching scopes never sends changes to the wrong place.
+ */
+
+import { ApiRequestError, fetchJson } from '@/lib/apiClient';
+import {
+  createOperation,
+  readOperation,
+  type FavoritesOperation,
+  type FavoritesSyncResponse,
+} from '@/lib/favoritesOperations';
+import type { FavoritesDocument } from '@/lib/favoritesSchema';
+
+export type SyncStatus =
+  // Not started yet, or running on the server
+  | 'idle'
+  | 'syncing'
+  | 'synced'
+  // Server unreachable; changes are queued
+  | 'offline'
+  // Server storage disabled; favorites live only in this browser
+  | 'local';
+
+// localStorage keys for the pending operations and the first-sync marker
+export const SYNC_QUEUE_KEY = 'iconVaultFavoritesQueue';
+const SYNCED_KEY = 'iconVaultFavoritesSynced';
+
+// Operations sent per request (the server accepts up to 200)
+const BATCH_SIZE = 100;
+
+// Queue length at which pending operations are collapsed into one replace
+const MAX_QUEUE = 500;
+
+// Delay before sending queued changes, so bursts go out together
+const FLUSH_DELAY_MS = 300;
+
+// Retry delays after failures
+const MIN_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 5 * 60_000;
+
+export interface FavoritesSyncOptions {
+  // Suffix of the queue keys; null for an anonymous browser
+  scope: string | null;
+  // Team workspace to sync with, null for personal favorites
+  workspaceId: string | null;
+}
+
+export interface FavoritesSyncHandlers {
+  // Current local document
+  getDocument: () => FavoritesDocument;
+  // Called with the server's document; pending operations must be replayed on top
+  onRemoteDocument: (document: FavoritesDocument, pending: FavoritesOperation[]) => void;
+  onStatusChange: (status: SyncStatus) => void;
+}
+
+export class FavoritesSync {
+  readonly scope: string | null;
+  private readonly workspaceId: string | null;
+  private readonly queueKey: string;
+  private readonly syncedKey: string;
+  private queue: FavoritesOperation[];
+  private status: SyncStatus = 'idle';
+  // Results of requests that finish after stop() are ignored
+  private active = false;
+  private flushing = false;
+  private flushAgain = false;
+  private retryDelay = MIN_RETRY_MS;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly handlers: FavoritesSyncHandlers, options: FavoritesSyncOptions) {
+    this.scope = options.scope;
+    this.workspaceId = options.workspaceId;
+    const suffix = options.scope ? `:${options.scope}` : '';
+    this.queueKey = `${SYNC_QUEUE_KEY}${suffix}`;
+    this.syncedKey = `${SYNCED_KEY}${suffix}`;
+    this.queue = this.readQueue();
+  }
+
+  /**
+   * Check whether a localStorage key holds this instance's queue
+   */
+  ownsKey(key: string): boolean {
+    return key === this.queueKey;
+  }
+
+  /**
+   * Start syncing: pull the server's favorites and send anything queued
+   */
+  start() {
+    if (this.active) return;
+    this.active = true;
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('focus', this.handleFocus);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop syncing; queued operations stay in localStorage
+   */
+  stop() {
+    this.active = false;
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('focus', this.handleFocus);
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Queue an operation that has already been applied locally
+   *
+   * @param operation - The operation to send
+   */
+  enqueue(operation: FavoritesOperation) {
+    this.queue.push(operation);
+    if (this.queue.length > MAX_QUEUE) {
+      // Too much to replay; send the current state instead
+      const { icons, collections, annotations, added } = this.handlers.getDocument();
+      this.queue = [createOperation({ type: 'replace', icons, collections, annotations, added })];
+    }
+    this.writeQueue();
+    if (this.active && this.status !== 'local') this.schedule(FLUSH_DELAY_MS);
+  }
+
+  /**
+   * Reload the queue after another tab changed it
+   */
+  reloadQueue() {
+    this.queue = this.readQueue();
+  }
+
+  private handleOnline = () => this.schedule(0);
+
+  private handleFocus = () => {
+    // Pick up changes made on other devices
+    if (this.status === 'synced') this.schedule(0);
+  };
+
+  /**
+   * Build an API URL for this scope
+   */
+  private url(path: string): string {
+    return this.workspaceId ? `${path}?workspace=${encodeURIComponent(this.workspaceId)}` : path;
+  }
+
+  private setStatus(status: SyncStatus) {
+    if (status === this.status || !this.active) return;
+    this.status = status;
+    this.handlers.onStatusChange(status);
+  }
+
+  private schedule(delay: number) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  private readQueue(): FavoritesOperation[] {
+    try {
+      const saved = JSON.parse(localStorage.getItem(this.queueKey) || '[]');
+      return Array.isArray(saved) ? saved.map(readOperation) : [];
+    } catch (error) {
+      console.error('Dropping unreadable favorites sync queue:', error);
+      return [];
+    }
+  }
+
+  private writeQueue() {
+    try {
+      localStorage.setItem(this.queueKey, JSON.stringify(this.queue));
+    } catch (error) {
+      console.error('Error saving favorites sync queue:', error);
+    }
+  }
+
+  /**
+   * On the first personal sync in this browser, merge the local favorites
+   * into the server's instead of letting either side overwrite the other
+   * Workspace favorites only ever come from the server.
+   */
+  private prepareFirstSync() {
+    if (this.workspaceId || localStorage.getItem(this.syncedKey)) return;
+    const { icons, collections } = this.handlers.getDocument();
+    if (icons.length > 0 || collections.length > 1) {
+      this.queue.unshift(createOperation({ type: 'merge', icons, collections }));
+      this.writeQueue();
+    }
+  }
+
+  /**
+   * Pull the server's favorites and send queued operations in batches
+   */
+  private async flush() {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return;
+    }
+    this.flushing = true;
+    this.setStatus('syncing');
+
+    try {
+      this.prepareFirstSync();
+
+      if (this.queue.length === 0) {
+        const response = await fetchJson<FavoritesSyncResponse>(this.url('/api/favorites'), { cache: 'no-store' });
+        if (!this.active) return;
+        if (response.document && this.queue.length === 0) {
+          this.handlers.onRemoteDocument(response.document, []);
+        }
+      }
+
+      while (this.queue.length > 0) {
+        const batch = this.queue.slice(0, BATCH_SIZE);
+        const response = await fetchJson<FavoritesSyncResponse>(this.url('/api/favorites/operations'), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ operations: batch }),
+        });
+        if (!this.active) return;
+
+        // Operations queued while the request was in flight stay pending
+        const sent = new Set(batch.map(operation => operation.id));
+        this.queue = this.queue.filter(operation => !sent.has(operation.id));
+        this.writeQueue();
+        if (response.skipped.length > 0) {
+          console.warn(`Favorites: ${response.skipped.length} change(s) lost to newer changes made elsewhere`);
+        }
+        if (response.document) this.handlers.onRemoteDocument(response.document, this.queue);
+      }
+
+      localStorage.setItem(this.syncedKey, new Date().toISOString());
+      this.retryDelay = MIN_RETRY_MS;
+      this.setStatus('synced');
+    } catch (err) {
+      this.handleError(ApiRequestError.from(err));
+    } finally {
+      this.flushing = false;
+    }
+
+    if (this.flushAgain) {
+      this.flushAgain = false;
+      if (this.status !== 'local') this.schedule(0);
+    }
+  }
+
+  private handleError(error: ApiRequestError) {
+    if (!this.active) return;
+
+    if (error.code === 'NOT_FOUND' || error.code === 'UNAUTHORIZED') {
+      // Server storage is disabled, or the workspace is gone or no longer ours
+      this.setStatus('local');
+      return;
+    }
+
+    if (error.code === 'INVALID_REQUEST' || error.code === 'FORBIDDEN') {
+      // The server will never accept this batch; drop it rather than block the queue
+      console.error('Favorites sync rejected, dropping queued changes:', error.message);
+      this.queue = this.queue.slice(BATCH_SIZE);
+      this.writeQueue();
+      this.schedule(0);
+      return;
+    }
+
+    console.error('Favorites sync failed, will retry:', error.message);
+    this.setStatus('offline');
+    this.schedule(this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS);
+  }
+}
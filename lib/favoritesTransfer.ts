@@ -0,0 +1,316 @@
+/**
+ * Favorites Import and Export
+ *
+ * Favorites can be exported to two formats:
+ *
+ * - JSON, which keeps everything and can be imported again:
+ *
+ *     {
+ *       "format": "iconvault-favorites",
+ *       "version": 2,
+ *       "exportedAt": "2026-01-01T00:00:00.000Z",
+ *       "icons": [IconData, ...],
+ *       "collections": [
+ *         {
+ *           "id": "default",
+ *           "name": "Favorites",
+ *           "description": "",
+ *           "color": "#1976d2",
+ *           "createdAt": "2026-01-01T00:00:00.000Z",
+ *           "iconIds": ["12345", ...]
+ *         }
+ *       ],
+ *       "annotations": {
+ *         "12345": { "note": "For the toolbar", "tags": ["nav"], "rating": 4 }
+ *       },
+ *       "added": {
+ *         "12345": { "addedAt": "2026-01-01T00:00:00.000Z", "addedBy": null }
+ *       }
+ *     }
+ *
+ *   `icons` uses the normalized icon model from types.ts. Every id in a
+ *   collection's `iconIds` must refer to an entry in `icons`. `annotations`
+ *   and `added` are keyed by icon id; version 1 files have neither and
+ *   are still imported.
+ *
+ * - CSV, one row per favorite for spreadsheets and reports. CSV files
+ *   cannot be imported because they do not carry the icon's image URLs.
+ */
+
+import { coerceStoredIcon } from '@/lib/iconMapping';
+import { getPreviewUrl } from '@/lib/icons';
+import {
+  DEFAULT_COLLECTION_ID,
+  createDefaultCollection,
+  readAdditions,
+  readAnnotations,
+  readCollection,
+} from '@/lib/favoritesSchema';
+import type { FavoriteAddition, FavoriteAnnotation, FavoriteCollection, IconData } from '@/types';
+
+export const EXPORT_FORMAT = 'iconvault-favorites';
+export const EXPORT_VERSION = 2;
+
+// Largest file accepted by the import flow
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+export interface FavoritesExport {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  icons: IconData[];
+  collections: FavoriteCollection[];
+  // Notes, custom tags and ratings, keyed by icon id
+  annotations: Record<string, FavoriteAnnotation>;
+  // Who added each favorite and when, keyed by icon id
+  added: Record<string, FavoriteAddition>;
+}
+
+// What an export carries, and what an import results in
+export type FavoritesContents = Pick<FavoritesExport, 'icons' | 'collections' | 'annotations' | 'added'>;
+
+export type ImportMode = 'merge' | 'replace';
+
+// What to do with an imported icon that is already a favorite
+export type ConflictStrategy = 'keep' | 'overwrite';
+
+export interface ImportPlan {
+  icons: IconData[];
+  collections: FavoriteCollection[];
+  annotations: Record<string, FavoriteAnnotation>;
+  // Who added each favorite and when; entries for icons not in the result are ignored
+  additions: Record<string, FavoriteAddition>;
+  // Icons that are not favorites yet
+  added: number;
+  // Icons that are favorites already and whose data or annotation differs
+  conflicts: number;
+  // Icons that are favorites already with the same data and annotation
+  unchanged: number;
+  // Current favorites dropped by a replace
+  removed: number;
+  // Collections created by the import
+  collectionsAdded: number;
+  // Existing collections that receive imported icons
+  collectionsMerged: number;
+}
+
+export class FavoritesImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FavoritesImportError';
+  }
+}
+
+/**
+ * Build the JSON export of favorites and collections
+ *
+ * @param contents - Favorite icons, collections, annotations and additions
+ * @returns The export document
+ */
+export function createFavoritesExport({ icons, collections, annotations, added }: FavoritesContents): FavoritesExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    icons,
+    collections,
+    annotations,
+    added,
+  };
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+function csvField(value: string | number | boolean | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV file with one row per favorite
+ * Multi-valued columns (tags, collections) are separated by semicolons.
+ *
+ * @param icons - Favorite icons
+ * @param collections - Collections, used to list each icon's collections
+ * @returns CSV text with a header row
+ */
+export function createFavoritesCsv(icons: IconData[], collections: FavoriteCollection[]): string {
+  const header = ['id', 'name', 'tags', 'collections', 'author', 'iconset', 'license', 'premium', 'vector_formats', 'preview_url'];
+  const rows = icons.map(icon => [
+    icon.id,
+    icon.name,
+    icon.tags.join(';'),
+    collections.filter(collection => collection.iconIds.includes(icon.id)).map(collection => collection.name).join(';'),
+    icon.author?.name,
+    icon.iconset?.name,
+    icon.license?.name,
+    icon.isPremium,
+    icon.vectorFormats.map(format => format.format).join(';'),
+    getPreviewUrl(icon),
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Validate and read an exported JSON file
+ *
+ * @param text - Contents of the file
+ * @returns The icons, collections, annotations and additions in the file
+ * @throws FavoritesImportError describing the first problem found
+ */
+export function parseFavoritesExport(text: string): FavoritesContents {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new FavoritesImportError('The file is not valid JSON. Only IconVault JSON exports can be imported.');
+  }
+
+  if (typeof value !== 'object' || value === null || (value as FavoritesExport).format !== EXPORT_FORMAT) {
+    throw new FavoritesImportError('The file is not an IconVault favorites export.');
+  }
+  const data = value as Record<string, unknown>;
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new FavoritesImportError('The file was exported by a newer version of IconVault.');
+  }
+  if (!Array.isArray(data.icons) || !Array.isArray(data.collections)) {
+    throw new FavoritesImportError('The file is missing its "icons" or "collections" list.');
+  }
+
+  const icons = data.icons.map(coerceStoredIcon);
+  const invalidIcon = icons.findIndex(icon => icon === null);
+  if (invalidIcon !== -1) {
+    throw new FavoritesImportError(`Icon ${invalidIcon + 1} in the file is not a valid icon.`);
+  }
+
+  const collections = data.collections.map(readCollection);
+  const invalidCollection = collections.findIndex(collection => collection === null);
+  if (invalidCollection !== -1) {
+    throw new FavoritesImportError(`Collection ${invalidCollection + 1} in the file is not a valid collection.`);
+  }
+
+  const iconIds = new Set((icons as IconData[]).map(icon => icon.id));
+  for (const collection of collections as FavoriteCollection[]) {
+    const missing = collection.iconIds.find(id => !iconIds.has(id));
+    if (missing) {
+      throw new FavoritesImportError(`Collection "${collection.name}" refers to icon "${missing}", which is not in the file.`);
+    }
+  }
+
+  // Version 1 files carry neither; unreadable entries are dropped like in stored favorites
+  const pick = <T>(entries: Record<string, T>) =>
+    Object.fromEntries(Object.entries(entries).filter(([id]) => iconIds.has(id)));
+
+  return {
+    icons: icons as IconData[],
+    collections: collections as FavoriteCollection[],
+    annotations: pick(readAnnotations(data.annotations)),
+    added: pick(readAdditions(data.added)),
+  };
+}
+
+/**
+ * Work out the favorites that result from an import, and what changes
+ *
+ * Replacing drops the current favorites and collections. Merging keeps
+ * them, adds new icons and resolves icons that exist on both sides with
+ * the conflict strategy, which also decides whose annotation is kept.
+ * Imported collections are matched to existing ones by id and then by
+ * name; unmatched collections are created. Favorites that were already
+ * there keep when they were added, unless they are replaced.
+ *
+ * @param current - The current favorites
+ * @param incoming - The favorites read from the file
+ * @param mode - Merge with or replace the current favorites
+ * @param conflicts - Which version of an icon wins when merging
+ * @returns The resulting favorites and a summary of the changes
+ */
+export function planImport(
+  current: Pick<FavoritesContents, 'icons' | 'collections'> & Partial<FavoritesContents>,
+  incoming: Pick<FavoritesContents, 'icons' | 'collections'> & Partial<FavoritesContents>,
+  mode: ImportMode,
+  conflicts: ConflictStrategy
+): ImportPlan {
+  const existing = new Map(current.icons.map(icon => [icon.id, icon]));
+  const incomingIds = new Set(incoming.icons.map(icon => icon.id));
+  const currentAnnotations = current.annotations ?? {};
+  const incomingAnnotations = incoming.annotations ?? {};
+
+  let added = 0;
+  let conflicting = 0;
+  let unchanged = 0;
+  for (const icon of incoming.icons) {
+    const match = existing.get(icon.id);
+    // When merging, an icon imported without an annotation leaves the current one alone
+    const annotation = incomingAnnotations[icon.id];
+    const sameAnnotation = !annotation || JSON.stringify(annotation) === JSON.stringify(currentAnnotations[icon.id]);
+    if (!match) added++;
+    else if (JSON.stringify(match) === JSON.stringify(icon) && sameAnnotation) unchanged++;
+    else conflicting++;
+  }
+
+  const replacing = mode === 'replace';
+  const incomingById = new Map(incoming.icons.map(icon => [icon.id, icon]));
+
+  // Merge icon data, resolving conflicts with the chosen strategy
+  const icons = replacing ? [...incoming.icons] : current.icons.map(icon => {
+    const imported = incomingById.get(icon.id);
+    return imported && conflicts === 'overwrite' ? imported : icon;
+  });
+  if (!replacing) icons.push(...incoming.icons.filter(icon => !existing.has(icon.id)));
+
+  // Annotations follow the icon data: imported ones win when replacing or
+  // overwriting, and fill in for icons that have none
+  const annotations = replacing ? { ...incomingAnnotations } : { ...currentAnnotations };
+  for (const [id, annotation] of Object.entries(incomingAnnotations)) {
+    if (!annotations[id] || conflicts === 'overwrite') annotations[id] = annotation;
+  }
+  const additions = replacing
+    ? { ...current.added, ...incoming.added }
+    : { ...incoming.added, ...current.added };
+
+  // Merge collections by id, then by name
+  const collections = replacing
+    ? []
+    : current.collections.map(collection => ({ ...collection, iconIds: [...collection.iconIds] }));
+  let collectionsAdded = 0;
+  const merged = new Set<string>();
+  for (const collection of incoming.collections) {
+    const target = collections.find(candidate => candidate.id === collection.id)
+      ?? collections.find(candidate => candidate.name.trim().toLowerCase() === collection.name.trim().toLowerCase());
+    if (target) {
+      target.iconIds.push(...collection.iconIds.filter(id => !target.iconIds.includes(id)));
+      merged.add(target.id);
+    } else {
+      collections.push({ ...collection, iconIds: [...collection.iconIds] });
+      collectionsAdded++;
+    }
+  }
+
+  // Icons that arrive without a collection go into the default one
+  const referenced = new Set(collections.flatMap(collection => collection.iconIds));
+  const loose = incoming.icons.map(icon => icon.id).filter(id => !referenced.has(id));
+  if (loose.length > 0) {
+    const defaultCollection = collections.find(collection => collection.id === DEFAULT_COLLECTION_ID);
+    if (defaultCollection) {
+      defaultCollection.iconIds.push(...loose);
+      if (!replacing) merged.add(defaultCollection.id);
+    } else {
+      collections.unshift(createDefaultCollection(loose));
+    }
+  }
+
+  return {
+    icons,
+    collections,
+    annotations,
+    additions,
+    added,
+    conflicts: conflicting,
+    unchanged,
+    removed: replacing ? current.icons.filter(icon => !incomingIds.has(icon.id)).length : 0,
+    collectionsAdded,
+    collectionsMerged: merged.size,
+  };
+}
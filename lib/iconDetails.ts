@@ -0,0 +1,46 @@
+/**
+ * Icon Details
+ *
+ * Loads a single icon together with other icons from its set. Shared by
+ * the /api/icons/[id] route and the server-rendered icon detail page, and
+ * cached like search responses.
+ */
+
+import { ApiError } from '@/lib/apiErrors';
+import { iconDetailCache } from '@/lib/cache';
+import { getIconProvider } from '@/lib/providers';
+import type { CacheResult } from '@/lib/cache';
+import type { IconDetailResponse } from '@/types';
+
+// Number of icons shown in the "more from this set" strip
+const RELATED_COUNT = 12;
+
+/**
+ * Load an icon and related icons from the same set
+ *
+ * @param id - Id of the icon
+ * @returns The icon details and how they were served from the cache
+ * @throws ApiError with code NOT_FOUND when the icon does not exist
+ */
+export async function getIconDetails(id: string): Promise<CacheResult<IconDetailResponse>> {
+  const provider = getIconProvider();
+
+  return iconDetailCache.getOrLoad(`${provider.name}:${id}`, async () => {
+    const icon = await provider.getIcon(id);
+    if (!icon) throw new ApiError('NOT_FOUND', 'Icon not found', { status: 404 });
+
+    // Related icons are a nice-to-have; the page still works without them
+    let related: IconDetailResponse['related'] = [];
+    if (icon.iconset) {
+      try {
+        related = (await provider.listIconsetIcons(icon.iconset.id, RELATED_COUNT + 1))
+          .filter(candidate => candidate.id !== icon.id)
+          .slice(0, RELATED_COUNT);
+      } catch (error) {
+        console.error('Error loading related icons:', error);
+      }
+    }
+
+    return { icon, related };
+  });
+}
@@ -0,0 +1,262 @@
+/**
+ * Icon Mapping
+ *
+ * Converts raw Iconfinder v4 JSON into the normalized IconData model.
+ * The raw payload is validated as it is read, so a malformed upstream
+ * response raises an IconMappingError describing exactly which field was
+ * wrong instead of producing broken cards further down the line.
+ */
+
+import type {
+  IconAuthor,
+  IconData,
+  IconLicense,
+  IconRasterSize,
+  IconSetSummary,
+  IconVectorFormat,
+} from '@/types';
+
+/**
+ * Error raised when upstream data does not have the expected shape
+ */
+export class IconMappingError extends Error {
+  constructor(public readonly path: string, expected: string) {
+    super(`Malformed icon data at "${path}": expected ${expected}`);
+    this.name = 'IconMappingError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Validation helpers
+// ---------------------------------------------------------------------------
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readObject(value: unknown, path: string): RawObject {
+  if (!isObject(value)) throw new IconMappingError(path, 'an object');
+  return value;
+}
+
+function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new IconMappingError(path, 'an array');
+  return value;
+}
+
+function readOptionalArray(value: unknown, path: string): unknown[] {
+  return value === undefined || value === null ? [] : readArray(value, path);
+}
+
+function readNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new IconMappingError(path, 'a number');
+  return value;
+}
+
+function readString(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new IconMappingError(path, 'a string');
+  return value;
+}
+
+function readOptionalString(value: unknown, path: string): string | null {
+  return value === undefined || value === null ? null : readString(value, path);
+}
+
+/**
+ * Read an identifier, which Iconfinder sends as a number but older
+ * stored data may hold as a string
+ */
+function readId(value: unknown, path: string): string {
+  if (typeof value === 'number' && Number.isFinite(value)) return value.toString();
+  if (typeof value === 'string' && value.length > 0) return value;
+  throw new IconMappingError(path, 'a numeric or string id');
+}
+
+// ---------------------------------------------------------------------------
+// Iconfinder mapping
+// ---------------------------------------------------------------------------
+
+function mapRasterSizes(value: unknown, path: string): IconRasterSize[] {
+  const sizes = readOptionalArray(value, path).map((rawSize, index) => {
+    const sizePath = `${path}[${index}]`;
+    const size = readObject(rawSize, sizePath);
+    const dimension = readNumber(size.size, `${sizePath}.size`);
+
+    return {
+      size: dimension,
+      width: size.size_width === undefined ? dimension : readNumber(size.size_width, `${sizePath}.size_width`),
+      height: size.size_height === undefined ? dimension : readNumber(size.size_height, `${sizePath}.size_height`),
+      formats: readArray(size.formats, `${sizePath}.formats`).map((rawFormat, formatIndex) => {
+        const formatPath = `${sizePath}.formats[${formatIndex}]`;
+        const format = readObject(rawFormat, formatPath);
+        return {
+          format: readString(format.format, `${formatPath}.format`),
+          previewUrl: readString(format.preview_url, `${formatPath}.preview_url`),
+          downloadUrl: readOptionalString(format.download_url, `${formatPath}.download_url`),
+        };
+      }),
+    };
+  });
+
+  return sizes.sort((a, b) => a.size - b.size);
+}
+
+function mapVectorFormats(value: unknown, path: string): IconVectorFormat[] {
+  const formats: IconVectorFormat[] = [];
+
+  readOptionalArray(value, path).forEach((rawSize, index) => {
+    const sizePath = `${path}[${index}]`;
+    const size = readObject(rawSize, sizePath);
+    readArray(size.formats, `${sizePath}.formats`).forEach((rawFormat, formatIndex) => {
+      const formatPath = `${sizePath}.formats[${formatIndex}]`;
+      const format = readObject(rawFormat, formatPath);
+      const name = readString(format.format, `${formatPath}.format`);
+      // Each vector format is listed once, even if several sizes carry it
+      if (!formats.some(existing => existing.format === name)) {
+        formats.push({ format: name, downloadUrl: readString(format.download_url, `${formatPath}.download_url`) });
+      }
+    });
+  });
+
+  return formats;
+}
+
+function mapAuthor(value: unknown, path: string): IconAuthor | null {
+  if (value === undefined || value === null) return null;
+  const author = readObject(value, path);
+  return {
+    id: readId(author.user_id ?? author.id, `${path}.user_id`),
+    name: readString(author.name ?? author.username ?? '', `${path}.name`),
+    username: readOptionalString(author.username, `${path}.username`),
+  };
+}
+
+function mapIconset(value: unknown, path: string): IconSetSummary | null {
+  if (value === undefined || value === null) return null;
+  const iconset = readObject(value, path);
+  const identifier = readOptionalString(iconset.identifier, `${path}.identifier`);
+  return {
+    id: readId(iconset.iconset_id ?? iconset.id, `${path}.iconset_id`),
+    name: readOptionalString(iconset.name, `${path}.name`) ?? identifier ?? 'Untitled set',
+    identifier,
+  };
+}
+
+/**
+ * Some payloads only carry the id of the icon set, without its details
+ */
+function mapIconsetReference(value: unknown, path: string): IconSetSummary | null {
+  if (value === undefined || value === null) return null;
+  return { id: readId(value, path), name: 'Icon set', identifier: null };
+}
+
+function mapLicense(value: unknown, path: string): IconLicense | null {
+  if (value === undefined || value === null) return null;
+  const license = readObject(value, path);
+  return {
+    id: readId(license.license_id ?? license.id, `${path}.license_id`),
+    name: readString(license.name, `${path}.name`),
+    scope: readOptionalString(license.scope, `${path}.scope`),
+    url: readOptionalString(license.url, `${path}.url`),
+  };
+}
+
+/**
+ * Map a raw Iconfinder icon set into its summary
+ *
+ * @param value - Raw icon set object from the Iconfinder API
+ * @param path - Location of the icon set in the payload, used in error messages
+ * @returns The icon set summary
+ * @throws IconMappingError when the icon set is malformed
+ */
+export function mapIconfinderIconset(value: unknown, path = 'iconset'): IconSetSummary {
+  return mapIconset(readObject(value, path), path) as IconSetSummary;
+}
+
+/**
+ * Map a single raw Iconfinder icon into the normalized model
+ *
+ * @param value - Raw icon object from the Iconfinder API
+ * @param path - Location of the icon in the payload, used in error messages
+ * @returns The normalized icon
+ * @throws IconMappingError when the icon is malformed
+ */
+export function mapIconfinderIcon(value: unknown, path = 'icon'): IconData {
+  const raw = readObject(value, path);
+  const id = readId(raw.icon_id ?? raw.id, `${path}.icon_id`);
+  const tags = readOptionalArray(raw.tags, `${path}.tags`).map((tag, index) => readString(tag, `${path}.tags[${index}]`));
+
+  // Premium icons carry their license in `prices`, free icons on the icon set
+  const prices = readOptionalArray(raw.prices, `${path}.prices`);
+  const priceLicense = prices.length > 0 ? readObject(prices[0], `${path}.prices[0]`).license : undefined;
+  const iconset = isObject(raw.iconset) ? raw.iconset : undefined;
+
+  return {
+    id,
+    name: readOptionalString(raw.name, `${path}.name`) || tags[0] || `icon-${id}`,
+    tags,
+    author: mapAuthor(raw.author ?? iconset?.author, `${path}.author`),
+    iconset: mapIconset(iconset, `${path}.iconset`) ?? mapIconsetReference(raw.iconset_id, `${path}.iconset_id`),
+    license: mapLicense(priceLicense ?? iconset?.license, `${path}.license`),
+    isPremium: raw.is_premium === true,
+    publishedAt: readOptionalString(raw.published_at, `${path}.published_at`),
+    rasterSizes: mapRasterSizes(raw.raster_sizes, `${path}.raster_sizes`),
+    vectorFormats: mapVectorFormats(raw.vector_sizes, `${path}.vector_sizes`),
+  };
+}
+
+/**
+ * Map a raw Iconfinder search response
+ *
+ * @param value - Parsed JSON body of /v4/icons/search
+ * @returns The normalized icons and the total number of results
+ * @throws IconMappingError when the payload is malformed
+ */
+export function mapIconfinderSearch(value: unknown): { icons: IconData[]; totalCount: number } {
+  const payload = readObject(value, 'response');
+  const icons = readArray(payload.icons, 'response.icons').map((icon, index) =>
+    mapIconfinderIcon(icon, `response.icons[${index}]`)
+  );
+  const totalCount = payload.total_count === undefined
+    ? icons.length
+    : readNumber(payload.total_count, 'response.total_count');
+
+  return { icons, totalCount };
+}
+
+// ---------------------------------------------------------------------------
+// Stored data
+// ---------------------------------------------------------------------------
+
+/**
+ * Check whether a value already has the shape of a normalized icon
+ */
+export function isNormalizedIcon(value: unknown): value is IconData {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && Array.isArray(value.tags)
+    && Array.isArray(value.rasterSizes)
+    && Array.isArray(value.vectorFormats);
+}
+
+/**
+ * Convert an icon read from storage into the normalized model
+ * Favorites saved before the model existed hold raw Iconfinder JSON,
+ * so those entries are mapped on the fly. Entries that cannot be read
+ * either way are reported as null.
+ *
+ * @param value - An icon as stored in localStorage
+ * @returns The normalized icon, or null if it is unreadable
+ */
+export function coerceStoredIcon(value: unknown): IconData | null {
+  if (isNormalizedIcon(value)) return value;
+
+  try {
+    return mapIconfinderIcon(value, 'storedIcon');
+  } catch (error) {
+    console.error('Dropping unreadable stored icon:', error);
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Icon Search
+ *
+ * Runs a search against the configured icon provider and caches the
+ * response. Shared by the /api/icons route and the search suggestions,
+ * so previews shown while typing are reused by the search page.
+ *
+ * Queries in the advanced syntax (lib/searchQuery) are split into the
+ * search sent upstream and checks applied to the returned icons.
+ */
+
+import { iconSearchCache } from '@/lib/cache';
+import { getIconProvider } from '@/lib/providers';
+import { applySearchFilters } from '@/lib/searchFilters';
+import { hasPostFilters, matchesPostFilters, toUpstreamSearch, type ParsedSearchQuery } from '@/lib/searchQuery';
+import type { CacheResult, CacheStatus } from '@/lib/cache';
+import type { IconSearchFilters, IconSearchResponse } from '@/types';
+
+export interface IconSearchOptions {
+  query: string;
+  count: number;
+  offset: number;
+  filters: IconSearchFilters;
+}
+
+/**
+ * Normalize a query so that queries differing only in case or spacing
+ * share a cache entry
+ */
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Search for icons, serving repeated searches from the cache
+ *
+ * @param options - Query, page and filters
+ * @returns One page of results and how it was served from the cache
+ */
+export async function searchIcons({ query, count, offset, filters }: IconSearchOptions): Promise<CacheResult<IconSearchResponse>> {
+  const provider = getIconProvider();
+  const normalizedQuery = normalizeQuery(query);
+  const cacheKey = [normalizedQuery, applySearchFilters(filters).toString(), count, offset].join('|');
+
+  return iconSearchCache.getOrLoad(`${provider.name}:${cacheKey}`, async () => {
+    const { icons, totalCount } = await provider.search({ query: normalizedQuery, count, offset, filters });
+
+    // Offset of the next page, or null once every result has been returned
+    const nextOffset = icons.length > 0 && offset + icons.length < totalCount
+      ? offset + icons.length
+      : null;
+
+    return {
+      icons,
+      total_count: totalCount,
+      offset,
+      count,
+      next_offset: nextOffset,
+      post_filtered: false,
+    };
+  });
+}
+
+// Upstream pages fetched at most to fill one page of post-filtered results
+const MAX_FILTERED_PAGES = 3;
+
+/**
+ * Search with a parsed query
+ * When parts of the query are checked after the search, further upstream
+ * pages are fetched until a page is filled or MAX_FILTERED_PAGES is
+ * reached, so filtering does not leave the page nearly empty.
+ *
+ * @param parsed - The parsed query; it must contain something to search for
+ * @param options - Page and filters; the query text is taken from parsed
+ * @returns One page of matching icons
+ */
+export async function searchParsedQuery(
+  parsed: ParsedSearchQuery,
+  { count, offset, filters }: Omit<IconSearchOptions, 'query'>
+): Promise<CacheResult<IconSearchResponse>> {
+  const upstream = toUpstreamSearch(parsed, filters);
+  const search = { query: upstream.text, count, filters: upstream.filters };
+  if (!hasPostFilters(parsed)) return searchIcons({ ...search, offset });
+
+  const icons: IconSearchResponse['icons'] = [];
+  let nextOffset: number | null = offset;
+  let totalCount = 0;
+  const statuses: CacheStatus[] = [];
+  let storedAt = Date.now();
+
+  for (let page = 0; page < MAX_FILTERED_PAGES && nextOffset !== null && icons.length < count; page++) {
+    const result: CacheResult<IconSearchResponse> = await searchIcons({ ...search, offset: nextOffset });
+    icons.push(...result.value.icons.filter(icon => matchesPostFilters(icon, parsed)));
+    nextOffset = result.value.next_offset;
+    totalCount = result.value.total_count;
+    statuses.push(result.status);
+    storedAt = Math.min(storedAt, result.storedAt);
+  }
+
+  return {
+    value: { icons, total_count: totalCount, offset, count, next_offset: nextOffset, post_filtered: true },
+    // The combined page is only as fresh as its least fresh part
+    status: statuses.includes('MISS') ? 'MISS' : statuses.includes('STALE') ? 'STALE' : 'HIT',
+    storedAt,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Icon Usage
+ *
+ * Counts how often each icon has been downloaded in this browser, so the
+ * favorites page can sort by the icons that are used most. Counts are
+ * kept in localStorage and are not synced to the server.
+ *
+ * Like the favorites store, this follows the useSyncExternalStore
+ * contract and picks up counts recorded in other tabs.
+ */
+
+export const ICON_USAGE_KEY = 'iconVaultIconUsage';
+
+type Listener = () => void;
+
+// Download counts keyed by icon id
+export type IconUsage = Readonly<Record<string, number>>;
+
+const EMPTY_USAGE: IconUsage = {};
+
+let usage: IconUsage | null = null;
+const listeners = new Set<Listener>();
+
+/**
+ * Read the counts from localStorage
+ */
+function readStorage(): IconUsage {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ICON_USAGE_KEY) || '{}');
+    if (typeof stored !== 'object' || stored === null) return EMPTY_USAGE;
+    const counts: Record<string, number> = {};
+    for (const [id, count] of Object.entries(stored as Record<string, unknown>)) {
+      if (typeof count === 'number' && count > 0) counts[id] = count;
+    }
+    return counts;
+  } catch (error) {
+    console.error('Error loading icon usage:', error);
+    return EMPTY_USAGE;
+  }
+}
+
+/**
+ * Reload the counts when another tab records a download
+ */
+function handleStorage(e: StorageEvent) {
+  if (e.key !== ICON_USAGE_KEY) return;
+  usage = readStorage();
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Count a download of one or more icons
+ *
+ * @param iconIds - Ids of the downloaded icons
+ */
+export function recordIconUse(iconIds: string[]) {
+  if (typeof window === 'undefined' || iconIds.length === 0) return;
+  const next = { ...(usage ?? readStorage()) };
+  iconIds.forEach(id => {
+    next[id] = (next[id] ?? 0) + 1;
+  });
+  usage = next;
+  try {
+    localStorage.setItem(ICON_USAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving icon usage:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Register a listener that is called whenever the counts change
+ *
+ * @returns A function that removes the listener
+ */
+export function subscribeIconUsage(listener: Listener): () => void {
+  if (listeners.size === 0) window.addEventListener('storage', handleStorage);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('storage', handleStorage);
+  };
+}
+
+/**
+ * Get the current counts
+ */
+export function getIconUsage(): IconUsage {
+  if (usage === null) usage = readStorage();
+  return usage;
+}
+
+/**
+ * Get the counts used while rendering on the server
+ */
+export function getServerIconUsage(): IconUsage {
+  return EMPTY_USAGE;
+}
@@ -0,0 +1,94 @@
+/**
+ * Icon Helpers
+ *
+ * Small helpers for reading commonly needed values from the normalized
+ * icon model, shared by the search and favorites pages.
+ */
+
+import type { IconData, IconRasterSize } from '@/types';
+
+/**
+ * Get the largest raster size of an icon
+ *
+ * @param icon - The icon to inspect
+ * @returns The largest raster size, or undefined if there are none
+ */
+export function getLargestRaster(icon: IconData): IconRasterSize | undefined {
+  return icon.rasterSizes[icon.rasterSizes.length - 1];
+}
+
+/**
+ * Get the preview URL for the largest available raster size
+ *
+ * @param icon - The icon to inspect
+ * @returns The preview URL, or undefined if the icon has no raster sizes
+ */
+export function getPreviewUrl(icon: IconData): string | undefined {
+  return getLargestRaster(icon)?.formats[0]?.previewUrl;
+}
+
+/**
+ * Get the raster size best suited for showing an icon at a given size
+ * That is the size itself, or else the smallest larger one, so the image is
+ * scaled down rather than up.
+ *
+ * @param icon - The icon to inspect
+ * @param size - The size to show the icon at, in pixels
+ * @returns The raster size, or undefined if the icon has no raster sizes
+ */
+export function getRasterForSize(icon: IconData, size: number): IconRasterSize | undefined {
+  return icon.rasterSizes.find(raster => raster.size >= size) ?? getLargestRaster(icon);
+}
+
+// Content types of the file formats icons are offered in
+const FORMAT_CONTENT_TYPES: Record<string, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  ico: 'image/x-icon',
+  icns: 'image/icns',
+  ai: 'application/postscript',
+  eps: 'application/postscript',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Get the content type for an icon file format
+ *
+ * @param format - Format name such as "svg" or "png"
+ * @returns The content type, or undefined for unknown formats
+ */
+export function getFormatContentType(format: string): string | undefined {
+  return FORMAT_CONTENT_TYPES[format.toLowerCase()];
+}
+
+/**
+ * Pick the default download for an icon: SVG when available,
+ * otherwise the largest raster size
+ *
+ * @param icon - The icon to download
+ * @returns The format and (for raster formats) size to download
+ */
+export function getDefaultDownload(icon: IconData): { format: string; size?: number } | null {
+  const vector = icon.vectorFormats.find(format => format.format === 'svg') ?? icon.vectorFormats[0];
+  if (vector) return { format: vector.format };
+
+  const raster = getLargestRaster(icon);
+  const format = raster?.formats[0]?.format;
+  return raster && format ? { format, size: raster.size } : null;
+}
+
+/**
+ * Build a file name for a downloaded icon, e.g. "arrow-right-64.png"
+ *
+ * @param name - Name of the icon
+ * @param format - File format
+ * @param size - Pixel size for raster formats
+ * @returns A file name safe for every platform
+ */
+export function getDownloadFilename(name: string, format: string, size?: number | null): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'icon';
+  return `${base}${size ? `-${size}` : ''}.${format.toLowerCase()}`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Iconfinder Provider
+ *
+ * Fetches icons from the Iconfinder v4 API. The API key never leaves the
+ * server: every request is made from here with a bearer token.
+ */
+
+import { mapIconfinderIcon, mapIconfinderIconset, mapIconfinderSearch } from '@/lib/iconMapping';
+import { toIconfinderParams } from '@/lib/searchFilters';
+import { upstreamQuota } from '@/lib/rateLimit';
+import { getFormatContentType } from '@/lib/icons';
+import type { IconData, IconSetSummary } from '@/types';
+import { ApiError, upstreamStatusError } from '@/lib/apiErrors';
+import type {
+  IconDownload,
+  IconDownloadParams,
+  IconProvider,
+  IconSearchParams,
+  IconSearchResult,
+  IconSetListParams,
+} from './types';
+
+const API_BASE = 'https://api.iconfinder.com/v4';
+
+// Upstream requests taking longer than this are aborted
+const REQUEST_TIMEOUT_MS = Number.parseInt(process.env.ICONFINDER_TIMEOUT_MS || '', 10) || 10000;
+
+export class IconfinderProvider implements IconProvider {
+  readonly name = 'iconfinder';
+
+  constructor(private readonly apiKey: string) {}
+
+  /**
+   * Perform an authenticated request against the Iconfinder API
+   *
+   * @param pathOrUrl - API path like "/icons/search" or an absolute URL
+   * @returns The successful response
+   */
+  private async request(pathOrUrl: string): Promise<Response> {
+    // Stay off the API while the quota is (nearly) used up
+    const backoff = upstreamQuota.backoffSeconds();
+    if (backoff > 0) {
+      throw upstreamStatusError(429, backoff);
+    }
+
+    const url = pathOrUrl.startsWith('http') ? pathOrUrl : `${API_BASE}${pathOrUrl}`;
+    const res = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    upstreamQuota.record(res.headers, res.status);
+
+    if (!res.ok) {
+      throw upstreamStatusError(res.status, res.status === 429 ? upstreamQuota.backoffSeconds() : undefined);
+    }
+    return res;
+  }
+
+  async search({ query, count, offset, filters }: IconSearchParams): Promise<IconSearchResult> {
+    const params = new URLSearchParams({
+      query,
+      count: String(count),
+      offset: String(offset),
+      ...toIconfinderParams(filters),
+    });
+
+    const res = await this.request(`/icons/search?${params}`);
+    return mapIconfinderSearch(await res.json());
+  }
+
+  async getIcon(id: string) {
+    try {
+      const res = await this.request(`/icons/${encodeURIComponent(id)}`);
+      const raw = await res.json();
+
+      // Icon details only reference their set; fetch it for the author and license
+      if (raw && !raw.iconset && raw.iconset_id) {
+        const iconsetRes = await this.request(`/iconsets/${encodeURIComponent(raw.iconset_id)}`);
+        raw.iconset = await iconsetRes.json();
+      }
+
+      return mapIconfinderIcon(raw);
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'NOT_FOUND') return null;
+      throw error;
+    }
+  }
+
+  async listIconsets({ count, after }: IconSetListParams): Promise<IconSetSummary[]> {
+    const params = new URLSearchParams({ count: String(count) });
+    if (after) params.set('after', after);
+
+    const res = await this.request(`/iconsets?${params}`);
+    const data = await res.json();
+    const iconsets: unknown[] = Array.isArray(data.iconsets) ? data.iconsets : [];
+
+    return iconsets.map((iconset, index) => mapIconfinderIconset(iconset, `response.iconsets[${index}]`));
+  }
+
+  async listIconsetIcons(iconsetId: string, count: number) {
+    const res = await this.request(`/iconsets/${encodeURIComponent(iconsetId)}/icons?count=${count}`);
+    return mapIconfinderSearch(await res.json()).icons;
+  }
+
+  async download(icon: IconData, { format, size }: IconDownloadParams): Promise<IconDownload> {
+    // Vector formats are size independent, raster formats are picked by size;
+    // without a size, the largest size offered in the format is used
+    const vector = icon.vectorFormats.find(candidate => candidate.format === format);
+    const rasterSize = size === undefined
+      ? icon.rasterSizes.filter(candidate => candidate.formats.some(f => f.format === format)).pop()
+      : icon.rasterSizes.find(candidate => candidate.size === size);
+    const raster = rasterSize?.formats.find(candidate => candidate.format === format);
+    const downloadUrl = vector?.downloadUrl ?? raster?.downloadUrl ?? raster?.previewUrl;
+
+    if (!downloadUrl) {
+      throw new ApiError('NOT_FOUND', `Format ${format}${size ? ` at ${size}px` : ''} is not available`, { status: 404 });
+    }
+
+    // Only Iconfinder hosts are fetched; the API key is only sent to the API itself
+    // Relative download URLs are relative to the versioned API base
+    const url = new URL(
+      downloadUrl.startsWith('/') && !downloadUrl.startsWith('/v4/') ? `${API_BASE}${downloadUrl}` : downloadUrl,
+      API_BASE
+    );
+    if (url.hostname !== 'iconfinder.com' && !url.hostname.endsWith('.iconfinder.com')) {
+      throw new ApiError('UPSTREAM_MALFORMED', 'The icon service returned an unexpected download URL', { status: 502 });
+    }
+
+    const res = url.origin === new URL(API_BASE).origin
+      ? await this.request(url.toString())
+      : await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!res.ok) throw upstreamStatusError(res.status);
+
+    return {
+      body: await res.arrayBuffer(),
+      contentType: getFormatContentType(format) ?? res.headers.get('content-type') ?? 'application/octet-stream',
+      format,
+      size: vector ? null : rasterSize?.size ?? null,
+    };
+  }
+}
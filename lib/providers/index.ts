@@ -0,0 +1,53 @@
+/**
+ * Icon Providers
+ *
+ * Selects the icon provider from configuration:
+ *
+ *   ICON_PROVIDER=iconfinder (default)  requires ICONFINDER_API_KEY
+ *   ICON_PROVIDER=local                 reads LOCAL_ICONS_DIR (default ./local-icons)
+ */
+
+import path from 'path';
+import { IconfinderProvider } from './iconfinder';
+import { LocalProvider } from './local';
+import { ApiError } from '@/lib/apiErrors';
+import type { IconProvider } from './types';
+
+export * from './types';
+export { IconfinderProvider } from './iconfinder';
+export { LocalProvider, LOCAL_FILES_ROUTE } from './local';
+
+// Provider instance shared by all requests of this server process
+let provider: IconProvider | null = null;
+
+/**
+ * Get the configured icon provider
+ *
+ * @returns The icon provider
+ * @throws ApiError when the provider is unknown or misconfigured
+ */
+export function getIconProvider(): IconProvider {
+  if (provider) return provider;
+
+  const name = process.env.ICON_PROVIDER || 'iconfinder';
+
+  switch (name) {
+    case 'iconfinder': {
+      const apiKey = process.env.ICONFINDER_API_KEY;
+      if (!apiKey) {
+        console.error('ICONFINDER_API_KEY is not set');
+        throw new ApiError('SERVER_MISCONFIGURED', 'The icon service is not configured', { status: 500 });
+      }
+      provider = new IconfinderProvider(apiKey);
+      break;
+    }
+    case 'local':
+      provider = new LocalProvider(path.resolve(process.env.LOCAL_ICONS_DIR || 'local-icons'));
+      break;
+    default:
+      console.error(`Unknown icon provider "${name}"`);
+      throw new ApiError('SERVER_MISCONFIGURED', 'The icon service is not configured', { status: 500 });
+  }
+
+  return provider;
+}
@@ -0,0 +1,347 @@
+/**
+ * Local Provider
+ *
+ * Serves icons from a directory of SVG/PNG files described by a
+ * `manifest.json`, so the app can run without network access (CI, demos).
+ *
+ * Manifest format:
+ *
+ *   {
+ *     "iconsets": [
+ *       { "id": "ui", "name": "UI Basics", "author": "IconVault", "license": "MIT", "commercial": true }
+ *     ],
+ *     "icons": [
+ *       {
+ *         "id": "home",
+ *         "name": "Home",
+ *         "tags": ["home", "house"],
+ *         "iconset": "ui",
+ *         "style": "outline",
+ *         "category": "user-interface",
+ *         "premium": false,
+ *         "files": [
+ *           { "path": "ui/home.svg" },
+ *           { "path": "ui/home-64.png", "size": 64 }
+ *         ]
+ *       }
+ *     ]
+ *   }
+ *
+ * SVG files become vector formats; PNG files become raster sizes. An icon
+ * with only an SVG is previewed from the SVG itself. Icons and iconsets
+ * that do not match this format are skipped and logged with their position.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getFormatContentType } from '@/lib/icons';
+import type { IconData, IconRasterSize, IconSetSummary } from '@/types';
+import { ApiError } from '@/lib/apiErrors';
+import type {
+  IconDownload,
+  IconDownloadParams,
+  IconProvider,
+  IconSearchParams,
+  IconSearchResult,
+  IconSetListParams,
+} from './types';
+
+// Route that serves the files of the local icon directory
+export const LOCAL_FILES_ROUTE = '/api/local-icons';
+
+// Size used for SVG previews when the manifest does not give one
+const DEFAULT_VECTOR_SIZE = 512;
+
+interface ManifestFile {
+  path: string;
+  size?: number;
+}
+
+interface ManifestIcon {
+  id: string;
+  name?: string;
+  tags?: string[];
+  iconset?: string;
+  style?: string;
+  category?: string;
+  premium?: boolean;
+  files: ManifestFile[];
+}
+
+interface ManifestIconset {
+  id: string;
+  name: string;
+  author?: string;
+  license?: string;
+  licenseUrl?: string;
+  commercial?: boolean;
+  attribution?: boolean;
+}
+
+// A manifest entry together with its normalized icon
+interface LocalIcon {
+  entry: ManifestIcon;
+  iconset: ManifestIconset | undefined;
+  icon: IconData;
+}
+
+/**
+ * Get the lowercase extension of a file path, without the dot
+ */
+const getExtension = (filePath: string) => path.extname(filePath).slice(1).toLowerCase();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: 'string' | 'boolean') => value === undefined || typeof value === type;
+
+/**
+ * Check a manifest icon entry, so a bad entry cannot break every search
+ */
+function isManifestIcon(value: unknown): value is ManifestIcon {
+  return isObject(value)
+    && typeof value.id === 'string' && value.id !== ''
+    && isOptional(value.name, 'string')
+    && (value.tags === undefined || (Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string')))
+    && isOptional(value.iconset, 'string')
+    && isOptional(value.style, 'string')
+    && isOptional(value.category, 'string')
+    && isOptional(value.premium, 'boolean')
+    && Array.isArray(value.files)
+    && value.files.every(file => isObject(file)
+      && typeof file.path === 'string'
+      && (file.size === undefined || (Number.isInteger(file.size) && (file.size as number) > 0)));
+}
+
+/**
+ * Check a manifest iconset entry
+ */
+function isManifestIconset(value: unknown): value is ManifestIconset {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && isOptional(value.author, 'string')
+    && isOptional(value.license, 'string')
+    && isOptional(value.licenseUrl, 'string')
+    && isOptional(value.commercial, 'boolean')
+    && isOptional(value.attribution, 'boolean');
+}
+
+export class LocalProvider implements IconProvider {
+  readonly name = 'local';
+
+  // Parsed manifest, reloaded when the file changes on disk
+  private cache: { mtimeMs: number; icons: LocalIcon[]; iconsets: ManifestIconset[] } | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Resolve a path inside the icon directory, refusing paths that escape it
+   *
+   * @param relativePath - Path relative to the icon directory
+   * @returns The absolute file path
+   */
+  resolveFile(relativePath: string): string {
+    const root = path.resolve(this.directory);
+    const resolved = path.resolve(root, relativePath);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new ApiError('INVALID_REQUEST', 'Invalid icon path', { status: 400 });
+    }
+    return resolved;
+  }
+
+  /**
+   * Load and normalize the manifest
+   */
+  private async load() {
+    const manifestPath = this.resolveFile('manifest.json');
+    let stat;
+    try {
+      stat = await fs.stat(manifestPath);
+    } catch {
+      console.error(`Local icon manifest not found at ${manifestPath}`);
+      throw new ApiError('SERVER_MISCONFIGURED', 'The local icon library is not configured', { status: 500 });
+    }
+
+    if (this.cache && this.cache.mtimeMs === stat.mtimeMs) return this.cache;
+
+    let manifest: { iconsets?: unknown; icons?: unknown };
+    try {
+      manifest = JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+    } catch {
+      console.error(`Local icon manifest at ${manifestPath} is not valid JSON`);
+      throw new ApiError('SERVER_MISCONFIGURED', 'The local icon library is not configured', { status: 500 });
+    }
+    if (!Array.isArray(manifest.icons)) {
+      console.error(`Local icon manifest at ${manifestPath} must contain an "icons" array`);
+      throw new ApiError('SERVER_MISCONFIGURED', 'The local icon library is not configured', { status: 500 });
+    }
+
+    if (manifest.iconsets !== undefined && !Array.isArray(manifest.iconsets)) {
+      console.error(`Local icon manifest at ${manifestPath} must contain an "iconsets" array`);
+      throw new ApiError('SERVER_MISCONFIGURED', 'The local icon library is not configured', { status: 500 });
+    }
+
+    // Unreadable entries are skipped, so the rest of the library stays usable
+    const iconsets: ManifestIconset[] = [];
+    (manifest.iconsets ?? []).forEach((entry, index) => {
+      if (isManifestIconset(entry)) iconsets.push(entry);
+      else console.error(`Skipping invalid iconset ${index + 1} in local icon manifest at ${manifestPath}`);
+    });
+    const icons: LocalIcon[] = [];
+    manifest.icons.forEach((entry, index) => {
+      if (!isManifestIcon(entry)) {
+        console.error(`Skipping invalid icon ${index + 1} in local icon manifest at ${manifestPath}`);
+        return;
+      }
+      const iconset = iconsets.find(candidate => candidate.id === entry.iconset);
+      icons.push({ entry, iconset, icon: this.toIcon(entry, iconset) });
+    });
+
+    this.cache = { mtimeMs: stat.mtimeMs, icons, iconsets };
+    return this.cache;
+  }
+
+  /**
+   * Convert a manifest entry into the normalized icon model
+   */
+  private toIcon(entry: ManifestIcon, iconset: ManifestIconset | undefined): IconData {
+    const fileUrl = (file: ManifestFile) =>
+      `${LOCAL_FILES_ROUTE}/${file.path.split('/').map(encodeURIComponent).join('/')}`;
+
+    const svgFiles = entry.files.filter(file => getExtension(file.path) === 'svg');
+    const rasterSizes: IconRasterSize[] = entry.files
+      .filter(file => getExtension(file.path) === 'png' && file.size)
+      .map(file => ({
+        size: file.size!,
+        width: file.size!,
+        height: file.size!,
+        formats: [{ format: 'png', previewUrl: fileUrl(file), downloadUrl: fileUrl(file) }],
+      }));
+
+    // Without PNG renditions the SVG doubles as the preview
+    if (rasterSizes.length === 0 && svgFiles.length > 0) {
+      const size = svgFiles[0].size ?? DEFAULT_VECTOR_SIZE;
+      rasterSizes.push({
+        size,
+        width: size,
+        height: size,
+        formats: [{ format: 'svg', previewUrl: fileUrl(svgFiles[0]), downloadUrl: fileUrl(svgFiles[0]) }],
+      });
+    }
+
+    const tags = entry.tags ?? [];
+    return {
+      id: entry.id,
+      name: entry.name || tags[0] || entry.id,
+      tags,
+      author: iconset?.author ? { id: iconset.author, name: iconset.author, username: null } : null,
+      iconset: iconset ? { id: iconset.id, name: iconset.name, identifier: iconset.id } : null,
+      license: iconset?.license
+        ? {
+          id: iconset.license,
+          name: iconset.license,
+          scope: iconset.commercial ? 'commercial' : null,
+          url: iconset.licenseUrl ?? null,
+        }
+        : null,
+      isPremium: entry.premium === true,
+      publishedAt: null,
+      rasterSizes: rasterSizes.sort((a, b) => a.size - b.size),
+      vectorFormats: svgFiles.slice(0, 1).map(file => ({ format: 'svg', downloadUrl: fileUrl(file) })),
+    };
+  }
+
+  async search({ query, count, offset, filters }: IconSearchParams): Promise<IconSearchResult> {
+    const { icons } = await this.load();
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+    const matches = icons.filter(({ entry, iconset, icon }) => {
+      const haystack = [icon.name, ...icon.tags].join(' ').toLowerCase();
+      if (!terms.every(term => haystack.includes(term))) return false;
+
+      if (filters.premium === 'free' && icon.isPremium) return false;
+      if (filters.premium === 'premium' && !icon.isPremium) return false;
+      if (filters.vector && icon.vectorFormats.length === 0) return false;
+      if (filters.license !== 'any' && !iconset?.commercial) return false;
+      if (filters.license === 'commercial-nonattribution' && iconset?.attribution !== false) return false;
+      if (filters.style && entry.style !== filters.style) return false;
+      if (filters.category && entry.category !== filters.category) return false;
+      if (filters.minSize) {
+        const largest = icon.rasterSizes[icon.rasterSizes.length - 1]?.size ?? 0;
+        if (icon.vectorFormats.length === 0 && largest < filters.minSize) return false;
+      }
+      return true;
+    });
+
+    return {
+      icons: matches.slice(offset, offset + count).map(match => match.icon),
+      totalCount: matches.length,
+    };
+  }
+
+  async getIcon(id: string) {
+    const { icons } = await this.load();
+    return icons.find(({ icon }) => icon.id === id)?.icon ?? null;
+  }
+
+  async listIconsets({ count, after }: IconSetListParams): Promise<IconSetSummary[]> {
+    const { iconsets } = await this.load();
+    const start = after ? iconsets.findIndex(iconset => iconset.id === after) + 1 : 0;
+    return iconsets
+      .slice(start, start + count)
+      .map(iconset => ({ id: iconset.id, name: iconset.name, identifier: iconset.id }));
+  }
+
+  async listIconsetIcons(iconsetId: string, count: number) {
+    const { icons } = await this.load();
+    return icons
+      .filter(({ iconset }) => iconset?.id === iconsetId)
+      .slice(0, count)
+      .map(({ icon }) => icon);
+  }
+
+  async download(icon: IconData, { format, size }: IconDownloadParams): Promise<IconDownload> {
+    const { icons } = await this.load();
+    const match = icons.find(candidate => candidate.icon.id === icon.id);
+    if (!match) throw new ApiError('NOT_FOUND', 'Icon not found', { status: 404 });
+
+    // Without a size, the largest file in the format is used
+    const file = match.entry.files
+      .filter(candidate => getExtension(candidate.path) === format && (format === 'svg' || !size || candidate.size === size))
+      .sort((a, b) => (b.size ?? 0) - (a.size ?? 0))[0];
+    if (!file) {
+      throw new ApiError('NOT_FOUND', `Format ${format}${size ? ` at ${size}px` : ''} is not available`, { status: 404 });
+    }
+
+    return {
+      body: await this.readFile(file.path),
+      contentType: getFormatContentType(format) ?? 'application/octet-stream',
+      format,
+      size: format === 'svg' ? null : file.size ?? null,
+    };
+  }
+
+  /**
+   * Read a file from the icon directory
+   *
+   * @param relativePath - Path relative to the icon directory
+   * @returns The file contents
+   */
+  async readFile(relativePath: string): Promise<ArrayBuffer> {
+    try {
+      const buffer = await fs.readFile(this.resolveFile(relativePath));
+      return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError('NOT_FOUND', 'Icon file not found', { status: 404 });
+    }
+  }
+
+  /**
+   * Get the content type for a file in the icon directory
+   */
+  getContentType(relativePath: string): string {
+    return getFormatContentType(getExtension(relativePath)) ?? 'application/octet-stream';
+  }
+}
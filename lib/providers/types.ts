@@ -0,0 +1,53 @@
+/**
+ * Icon Provider Types
+ *
+ * An icon provider is a source of icons (Iconfinder, a local directory, ...).
+ * API routes only talk to the provider interface, so pages never depend on
+ * where icons come from.
+ */
+
+import type { IconData, IconSearchFilters, IconSetSummary } from '@/types';
+
+export interface IconSearchParams {
+  query: string;
+  count: number;
+  offset: number;
+  filters: IconSearchFilters;
+}
+
+export interface IconSearchResult {
+  icons: IconData[];
+  totalCount: number;
+}
+
+export interface IconSetListParams {
+  count: number;
+  // Id of the last icon set of the previous page
+  after?: string;
+}
+
+export interface IconDownloadParams {
+  format: string;
+  // Pixel size for raster formats, the largest available when omitted;
+  // ignored for vector formats
+  size?: number;
+}
+
+export interface IconDownload {
+  body: ArrayBuffer;
+  contentType: string;
+  format: string;
+  // Pixel size of raster downloads, null for vector formats
+  size: number | null;
+}
+
+export interface IconProvider {
+  readonly name: string;
+  search(params: IconSearchParams): Promise<IconSearchResult>;
+  // Resolves to null when the icon does not exist
+  getIcon(id: string): Promise<IconData | null>;
+  listIconsets(params: IconSetListParams): Promise<IconSetSummary[]>;
+  listIconsetIcons(iconsetId: string, count: number): Promise<IconData[]>;
+  // Takes the already loaded icon so providers do not have to fetch it again
+  download(icon: IconData, params: IconDownloadParams): Promise<IconDownload>;
+}
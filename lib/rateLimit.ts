@@ -0,0 +1,275 @@
+/**
+ * Rate Limiting
+ *
+ * Two guards protect the icons API routes:
+ *
+ * - A per-client token bucket limits how fast a single client may call
+ *   the route (RATE_LIMIT_REQUESTS per RATE_LIMIT_WINDOW_SECONDS).
+ * - An upstream quota tracker records the rate-limit headers Iconfinder
+ *   sends back and stops new upstream requests once the remaining quota
+ *   drops to UPSTREAM_QUOTA_RESERVE, until the quota resets.
+ *
+ * The sign-in and registration routes use a separate, stricter bucket.
+ * Clients are told apart by the address their proxy reports, so the
+ * limits only apply behind a proxy configured with TRUST_PROXY; see
+ * getClientId.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/apiErrors';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the client may retry, 0 when allowed
+  retryAfter: number;
+  // Seconds until the bucket is full again
+  reset: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets are dropped once they have been full for this long
+const BUCKET_IDLE_MS = 10 * 60 * 1000;
+
+/**
+ * Read a non-negative integer from an environment variable
+ */
+function readInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  // Tokens added back per millisecond
+  private readonly refillRate: number;
+
+  constructor(readonly limit: number, readonly windowMs: number) {
+    this.refillRate = limit / windowMs;
+  }
+
+  /**
+   * Take tokens from a client's bucket
+   * Nothing is taken unless the bucket holds all of them.
+   *
+   * @param clientId - Identifier of the client (usually its IP address)
+   * @param cost - Tokens the request costs, one by default
+   * @returns Whether the request is allowed and the header values to send
+   */
+  consume(clientId: string, cost = 1): RateLimitResult {
+    const now = Date.now();
+    this.prune(now);
+
+    const bucket = this.buckets.get(clientId) ?? { tokens: this.limit, updatedAt: now };
+    bucket.tokens = Math.min(this.limit, bucket.tokens + (now - bucket.updatedAt) * this.refillRate);
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= cost;
+    if (allowed) bucket.tokens -= cost;
+    this.buckets.set(clientId, bucket);
+
+    return {
+      allowed,
+      limit: this.limit,
+      remaining: Math.floor(bucket.tokens),
+      retryAfter: allowed ? 0 : Math.ceil((cost - bucket.tokens) / this.refillRate / 1000),
+      reset: Math.ceil((this.limit - bucket.tokens) / this.refillRate / 1000),
+    };
+  }
+
+  /**
+   * Forget buckets that have refilled completely and gone idle
+   */
+  private prune(now: number) {
+    if (this.buckets.size < 1000) return;
+    for (const [clientId, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > Math.max(this.windowMs, BUCKET_IDLE_MS)) {
+        this.buckets.delete(clientId);
+      }
+    }
+  }
+}
+
+export interface UpstreamQuotaState {
+  limit: number | null;
+  remaining: number | null;
+  // Time the upstream quota resets, in milliseconds since the epoch
+  resetAt: number | null;
+}
+
+export class UpstreamQuota {
+  private state: UpstreamQuotaState = { limit: null, remaining: null, resetAt: null };
+
+  constructor(readonly reserve: number) {}
+
+  /**
+   * Record the rate-limit headers of an upstream response
+   *
+   * @param headers - Response headers from the upstream API
+   * @param status - Response status, a 429 marks the quota as exhausted
+   */
+  record(headers: Headers, status: number) {
+    const limit = Number.parseInt(headers.get('x-ratelimit-limit') || '', 10);
+    const remaining = Number.parseInt(headers.get('x-ratelimit-remaining') || '', 10);
+    const reset = Number.parseInt(headers.get('x-ratelimit-reset') || '', 10);
+    const retryAfter = Number.parseInt(headers.get('retry-after') || '', 10);
+
+    if (Number.isFinite(limit)) this.state.limit = limit;
+    if (Number.isFinite(remaining)) this.state.remaining = remaining;
+    if (Number.isFinite(reset)) {
+      // The reset header is either an epoch timestamp or a number of seconds
+      this.state.resetAt = reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000;
+    }
+
+    if (status === 429) {
+      this.state.remaining = 0;
+      this.state.resetAt = Date.now() + (Number.isFinite(retryAfter) ? retryAfter : 60) * 1000;
+    }
+  }
+
+  /**
+   * Seconds to wait before calling upstream again, or 0 if it is safe to call
+   */
+  backoffSeconds(): number {
+    const { remaining, resetAt } = this.state;
+    if (remaining === null || remaining > this.reserve) return 0;
+    if (resetAt === null || resetAt <= Date.now()) {
+      // The quota window has passed; allow requests until new headers arrive
+      this.state.remaining = null;
+      return 0;
+    }
+    return Math.ceil((resetAt - Date.now()) / 1000);
+  }
+
+  /**
+   * Get the last known upstream quota
+   */
+  snapshot(): UpstreamQuotaState {
+    return { ...this.state };
+  }
+}
+
+// Limiter shared by the icons API routes
+export const clientRateLimiter = new RateLimiter(
+  Math.max(readInt('RATE_LIMIT_REQUESTS', 60), 1),
+  Math.max(readInt('RATE_LIMIT_WINDOW_SECONDS', 60), 1) * 1000
+);
+
+// Looser limiter for search suggestions, which are requested while typing
+export const suggestionRateLimiter = new RateLimiter(
+  Math.max(readInt('RATE_LIMIT_REQUESTS', 60), 1) * 2,
+  Math.max(readInt('RATE_LIMIT_WINDOW_SECONDS', 60), 1) * 1000
+);
+
+// Stricter limiter for signing in and registering, to slow down password guessing
+export const authRateLimiter = new RateLimiter(10, 60 * 1000);
+
+// Iconfinder quota as last reported by its response headers
+export const upstreamQuota = new UpstreamQuota(readInt('UPSTREAM_QUOTA_RESERVE', 10));
+
+// Number of proxies in front of the app whose X-Forwarded-For entries are trusted
+const TRUST_PROXY = readInt('TRUST_PROXY', 0);
+
+// Whether the missing client address has been reported already
+let warnedNoAddress = false;
+
+/**
+ * Identify the client making a request
+ * Route handlers do not see the connection, so the address comes from the
+ * proxies in front of the app: the address the outermost of TRUST_PROXY
+ * proxies saw is taken from X-Forwarded-For, to which each proxy appends,
+ * or from X-Real-IP. Without TRUST_PROXY these headers are ignored, since
+ * clients can send any value.
+ *
+ * @param req - The incoming request, or just its headers
+ * @returns A client identifier, or null when the client cannot be told apart
+ */
+export function getClientId(req: Pick<Request, 'headers'>): string | null {
+  if (TRUST_PROXY === 0) return null;
+  const forwarded = (req.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(forwarded.length - TRUST_PROXY, 0)] || req.headers.get('x-real-ip') || null;
+}
+
+/**
+ * Build the rate-limit headers for a response
+ *
+ * @param result - The result of consuming a token
+ * @returns Headers to merge into the response
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.reset),
+  };
+  if (!result.allowed) headers['Retry-After'] = String(result.retryAfter);
+  return headers;
+}
+
+/**
+ * Take a token for a request from the per-client rate limit
+ * Pages, which have no request object, pass their headers.
+ *
+ * @param req - The incoming request, or just its headers
+ * @param limiter - The limiter to apply, the icons limiter by default
+ * @param cost - Tokens the request costs, e.g. one per icon of a bulk download
+ * @returns Rate-limit headers for the response, and the error to report
+ *   when the client is over its limit; requests whose client cannot be
+ *   identified are not limited
+ */
+export function checkRateLimit(
+  req: Pick<Request, 'headers'>,
+  limiter: RateLimiter = clientRateLimiter,
+  cost = 1
+): { headers: Record<string, string>; error: ApiError | null } {
+  const clientId = getClientId(req);
+  if (clientId === null) {
+    // Sharing one bucket would let a single client lock out everyone else
+    if (!warnedNoAddress) {
+      warnedNoAddress = true;
+      console.error(
+        TRUST_PROXY === 0
+          ? 'Rate limiting is disabled: set TRUST_PROXY to the number of proxies in front of the app'
+          : 'Rate limiting skipped a request without X-Forwarded-For or X-Real-IP; check TRUST_PROXY'
+      );
+    }
+    return { headers: {}, error: null };
+  }
+
+  const result = limiter.consume(clientId, cost);
+  const headers = rateLimitHeaders(result);
+  if (result.allowed) return { headers, error: null };
+
+  const error = new ApiError('RATE_LIMITED', 'Too many requests, please slow down', {
+    status: 429,
+    retryable: true,
+    retryAfter: result.retryAfter,
+  });
+  return { headers, error };
+}
+
+/**
+ * Apply the per-client rate limit to a request
+ *
+ * @param req - The incoming request
+ * @param limiter - The limiter to apply, the icons limiter by default
+ * @param cost - Tokens the request costs, e.g. one per icon of a bulk download
+ * @returns Rate-limit headers for the response, and a 429 response to
+ *   return instead when the client is over its limit
+ */
+export function enforceRateLimit(
+  req: Request,
+  limiter: RateLimiter = clientRateLimiter,
+  cost = 1
+): { headers: Record<string, string>; limited: NextResponse | null } {
+  const { headers, error } = checkRateLimit(req, limiter, cost);
+  return { headers, limited: error ? errorResponse(error, headers) : null };
+}
@@ -0,0 +1,142 @@
+/**
+ * Search Filters
+ *
+ * Shared definitions for the icon search filters. The same parameter names
+ * are used in the search page URL (next to `q`) and by /api/icons, which
+ * maps them onto Iconfinder's search options.
+ */
+
+import type { IconSearchFilters, PremiumFilter, LicenseFilter } from '@/types';
+
+// Allowed values for the enumerated filters
+export const PREMIUM_OPTIONS: PremiumFilter[] = ['all', 'free', 'premium'];
+export const LICENSE_OPTIONS: LicenseFilter[] = ['any', 'commercial', 'commercial-nonattribution'];
+
+// Iconfinder style identifiers offered in the filter panel
+export const STYLE_OPTIONS = [
+  'glyph',
+  'outline',
+  'flat',
+  'filled-outline',
+  'handdrawn',
+  '3d',
+  'cartoon',
+  'smooth',
+  'pixel',
+];
+
+// Iconfinder category identifiers offered in the filter panel
+export const CATEGORY_OPTIONS = [
+  'arrows',
+  'business-and-finance',
+  'communication',
+  'design-and-development',
+  'ecommerce',
+  'education',
+  'files-and-folders',
+  'food-and-drinks',
+  'healthcare-and-medical',
+  'holidays',
+  'household',
+  'logos',
+  'maps-and-navigation',
+  'music-and-multimedia',
+  'nature',
+  'people',
+  'science',
+  'security',
+  'social-media',
+  'sports-and-games',
+  'technology',
+  'transportation',
+  'user-interface',
+  'weather',
+];
+
+// Names of the filter parameters as they appear in the URL
+export const FILTER_PARAM_KEYS = ['premium', 'vector', 'license', 'style', 'category', 'min_size'] as const;
+
+export const DEFAULT_FILTERS: IconSearchFilters = {
+  premium: 'all',
+  vector: false,
+  license: 'any',
+  style: null,
+  category: null,
+  minSize: null,
+};
+
+/**
+ * Read search filters from URL search parameters
+ * Unknown or invalid values fall back to the defaults
+ *
+ * @param params - The URL search parameters to read
+ * @returns The parsed filters
+ */
+export function parseSearchFilters(params: URLSearchParams): IconSearchFilters {
+  const premium = params.get('premium') as PremiumFilter | null;
+  const license = params.get('license') as LicenseFilter | null;
+  const style = params.get('style');
+  const category = params.get('category');
+  const minSize = Number.parseInt(params.get('min_size') || '', 10);
+
+  return {
+    premium: premium && PREMIUM_OPTIONS.includes(premium) ? premium : DEFAULT_FILTERS.premium,
+    vector: params.get('vector') === '1' || params.get('vector') === 'true',
+    license: license && LICENSE_OPTIONS.includes(license) ? license : DEFAULT_FILTERS.license,
+    style: style && /^[a-z0-9-]+$/.test(style) ? style : null,
+    category: category && /^[a-z0-9-]+$/.test(category) ? category : null,
+    minSize: Number.isFinite(minSize) && minSize > 0 ? minSize : null,
+  };
+}
+
+/**
+ * Write search filters into URL search parameters
+ * Filters left at their default value are removed so URLs stay short
+ *
+ * @param filters - The filters to write
+ * @param params - Existing parameters to update (copied, not mutated)
+ * @returns A new set of search parameters
+ */
+export function applySearchFilters(filters: IconSearchFilters, params = new URLSearchParams()): URLSearchParams {
+  const next = new URLSearchParams(params);
+  FILTER_PARAM_KEYS.forEach(key => next.delete(key));
+
+  if (filters.premium !== DEFAULT_FILTERS.premium) next.set('premium', filters.premium);
+  if (filters.vector) next.set('vector', '1');
+  if (filters.license !== DEFAULT_FILTERS.license) next.set('license', filters.license);
+  if (filters.style) next.set('style', filters.style);
+  if (filters.category) next.set('category', filters.category);
+  if (filters.minSize) next.set('min_size', String(filters.minSize));
+
+  return next;
+}
+
+/**
+ * Map search filters onto Iconfinder's search query options
+ *
+ * @param filters - The filters to map
+ * @returns Iconfinder query parameters
+ */
+export function toIconfinderParams(filters: IconSearchFilters): Record<string, string> {
+  const params: Record<string, string> = {
+    premium: filters.premium === 'free' ? '0' : filters.premium === 'premium' ? '1' : 'all',
+    vector: filters.vector ? '1' : '0',
+  };
+
+  if (filters.license !== 'any') params.license = filters.license;
+  if (filters.style) params.style = filters.style;
+  if (filters.category) params.category = filters.category;
+  if (filters.minSize) params.size_minimum = String(filters.minSize);
+
+  return params;
+}
+
+/**
+ * Count how many filters differ from their default value
+ *
+ * @param filters - The filters to inspect
+ * @returns Number of active filters
+ */
+export function countActiveFilters(filters: IconSearchFilters): number {
+  return applySearchFilters(filters).size;
+}
@@ -0,0 +1,274 @@
+/**
+ * Search History
+ *
+ * Remembers the searches run on the search page, with their filters, and
+ * the searches the user saved under a name. Everything is kept in this
+ * browser's localStorage and never sent to the server. Recording can be
+ * paused, and the history can be cleared at any time; saved searches stay
+ * until they are removed one by one.
+ *
+ * Like the favorites store, this follows the useSyncExternalStore
+ * contract and picks up changes made in other tabs.
+ */
+
+import { createId } from '@/lib/favoritesOperations';
+import {
+  DEFAULT_FILTERS,
+  LICENSE_OPTIONS,
+  PREMIUM_OPTIONS,
+  applySearchFilters,
+} from '@/lib/searchFilters';
+import type { IconSearchFilters, SavedSearch, SearchHistoryEntry } from '@/types';
+
+export const SEARCH_HISTORY_KEY = 'iconVaultSearchHistory';
+
+// Most recent searches kept in the history
+export const MAX_HISTORY_ENTRIES = 20;
+export const MAX_SAVED_SEARCHES = 50;
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 60;
+
+type Listener = () => void;
+
+export interface SearchHistorySnapshot {
+  // Newest first
+  history: SearchHistoryEntry[];
+  // In the order they were saved
+  saved: SavedSearch[];
+  // Searches are not recorded while paused
+  paused: boolean;
+}
+
+const EMPTY_SNAPSHOT: SearchHistorySnapshot = { history: [], saved: [], paused: false };
+
+let snapshot: SearchHistorySnapshot | null = null;
+const listeners = new Set<Listener>();
+
+/**
+ * Build the search page URL for a query and its filters
+ */
+export function getSearchUrl(search: { query: string; filters: IconSearchFilters }): string {
+  const params = applySearchFilters(search.filters, new URLSearchParams({ q: search.query }));
+  return `/search?${params}`;
+}
+
+/**
+ * Identify a search by its query and filters
+ * Queries are compared case-insensitively.
+ */
+export function getSearchKey(search: { query: string; filters: IconSearchFilters }): string {
+  return `${search.query.trim().toLowerCase()}|${applySearchFilters(search.filters)}`;
+}
+
+/**
+ * Describe the filters of a search in a few words, e.g. "free, vector, outline"
+ *
+ * @returns The description, or an empty string when no filter is set
+ */
+export function describeSearchFilters(filters: IconSearchFilters): string {
+  const parts: string[] = [];
+  if (filters.premium !== DEFAULT_FILTERS.premium) parts.push(filters.premium);
+  if (filters.vector) parts.push('vector');
+  if (filters.license !== DEFAULT_FILTERS.license) parts.push(filters.license.replace(/-/g, ' '));
+  if (filters.style) parts.push(filters.style);
+  if (filters.category) parts.push(filters.category.replace(/-/g, ' '));
+  if (filters.minSize) parts.push(`${filters.minSize}px+`);
+  return parts.join(', ');
+}
+
+/**
+ * Read stored filters, falling back to the defaults for anything invalid
+ */
+function readFilters(value: unknown): IconSearchFilters {
+  if (typeof value !== 'object' || value === null) return DEFAULT_FILTERS;
+  const filters = value as Partial<IconSearchFilters>;
+  return {
+    premium: PREMIUM_OPTIONS.includes(filters.premium!) ? filters.premium! : DEFAULT_FILTERS.premium,
+    vector: filters.vector === true,
+    license: LICENSE_OPTIONS.includes(filters.license!) ? filters.license! : DEFAULT_FILTERS.license,
+    style: typeof filters.style === 'string' && /^[a-z0-9-]+$/.test(filters.style) ? filters.style : null,
+    category: typeof filters.category === 'string' && /^[a-z0-9-]+$/.test(filters.category) ? filters.category : null,
+    minSize: typeof filters.minSize === 'number' && filters.minSize > 0 ? Math.floor(filters.minSize) : null,
+  };
+}
+
+/**
+ * Read the history and saved searches from localStorage
+ */
+function readStorage(): SearchHistorySnapshot {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SEARCH_HISTORY_KEY) || '{}');
+    if (typeof stored !== 'object' || stored === null) return EMPTY_SNAPSHOT;
+
+    const history: SearchHistoryEntry[] = (Array.isArray(stored.history) ? stored.history : [])
+      .filter((entry: Partial<SearchHistoryEntry>) => typeof entry?.query === 'string' && entry.query.trim())
+      .map((entry: SearchHistoryEntry) => ({
+        query: entry.query.trim(),
+        filters: readFilters(entry.filters),
+        searchedAt: typeof entry.searchedAt === 'string' ? entry.searchedAt : new Date(0).toISOString(),
+      }))
+      .slice(0, MAX_HISTORY_ENTRIES);
+
+    const saved: SavedSearch[] = (Array.isArray(stored.saved) ? stored.saved : [])
+      .filter((search: Partial<SavedSearch>) => typeof search?.id === 'string' && typeof search.query === 'string')
+      .map((search: SavedSearch) => ({
+        id: search.id,
+        name: typeof search.name === 'string' && search.name.trim() ? search.name.trim() : search.query,
+        query: search.query,
+        filters: readFilters(search.filters),
+        savedAt: typeof search.savedAt === 'string' ? search.savedAt : new Date(0).toISOString(),
+      }))
+      .slice(0, MAX_SAVED_SEARCHES);
+
+    return { history, saved, paused: stored.paused === true };
+  } catch (error) {
+    console.error('Error loading search history:', error);
+    return EMPTY_SNAPSHOT;
+  }
+}
+
+/**
+ * Store a new snapshot and notify listeners
+ */
+function update(next: SearchHistorySnapshot) {
+  snapshot = next;
+  try {
+    localStorage.setItem(SEARCH_HISTORY_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving search history:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Reload when another tab changes the history
+ */
+function handleStorage(e: StorageEvent) {
+  if (e.key !== SEARCH_HISTORY_KEY) return;
+  snapshot = readStorage();
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Record a search in the history
+ * Running the same search again moves it to the top. Nothing is recorded
+ * while the history is paused.
+ *
+ * @param query - The search query
+ * @param filters - The filters the search ran with
+ */
+export function recordSearch(query: string, filters: IconSearchFilters) {
+  const trimmed = query.trim();
+  if (typeof window === 'undefined' || !trimmed) return;
+  const current = getSnapshot();
+  if (current.paused) return;
+
+  const entry: SearchHistoryEntry = { query: trimmed, filters, searchedAt: new Date().toISOString() };
+  const key = getSearchKey(entry);
+  update({
+    ...current,
+    history: [entry, ...current.history.filter(existing => getSearchKey(existing) !== key)].slice(0, MAX_HISTORY_ENTRIES),
+  });
+}
+
+/**
+ * Remove one search from the history
+ */
+export function removeHistoryEntry(entry: SearchHistoryEntry) {
+  const current = getSnapshot();
+  const key = getSearchKey(entry);
+  update({ ...current, history: current.history.filter(existing => getSearchKey(existing) !== key) });
+}
+
+/**
+ * Forget every search in the history; saved searches are kept
+ */
+export function clearSearchHistory() {
+  update({ ...getSnapshot(), history: [] });
+}
+
+/**
+ * Stop or resume recording searches
+ * Pausing does not clear the searches already recorded.
+ */
+export function setSearchHistoryPaused(paused: boolean) {
+  update({ ...getSnapshot(), paused });
+}
+
+/**
+ * Save a search under a name
+ * Saving a search that is already saved renames it instead.
+ *
+ * @param name - Name to show for the search; defaults to the query
+ * @param query - The search query
+ * @param filters - The filters to save with it
+ */
+export function saveSearch(name: string, query: string, filters: IconSearchFilters) {
+  const trimmed = query.trim();
+  if (!trimmed) return;
+  const current = getSnapshot();
+  const label = (name.trim() || trimmed).slice(0, MAX_SAVED_SEARCH_NAME_LENGTH);
+  const key = getSearchKey({ query: trimmed, filters });
+  const existing = current.saved.find(search => getSearchKey(search) === key);
+
+  if (existing) {
+    renameSavedSearch(existing.id, label);
+    return;
+  }
+  if (current.saved.length >= MAX_SAVED_SEARCHES) {
+    throw new Error(`You can save up to ${MAX_SAVED_SEARCHES} searches`);
+  }
+  update({
+    ...current,
+    saved: [...current.saved, { id: createId('search'), name: label, query: trimmed, filters, savedAt: new Date().toISOString() }],
+  });
+}
+
+/**
+ * Rename a saved search
+ */
+export function renameSavedSearch(id: string, name: string) {
+  const current = getSnapshot();
+  update({
+    ...current,
+    saved: current.saved.map(search =>
+      search.id === id ? { ...search, name: (name.trim() || search.query).slice(0, MAX_SAVED_SEARCH_NAME_LENGTH) } : search
+    ),
+  });
+}
+
+/**
+ * Remove a saved search
+ */
+export function removeSavedSearch(id: string) {
+  const current = getSnapshot();
+  update({ ...current, saved: current.saved.filter(search => search.id !== id) });
+}
+
+/**
+ * Register a listener that is called whenever the history changes
+ *
+ * @returns A function that removes the listener
+ */
+export function subscribe(listener: Listener): () => void {
+  if (listeners.size === 0) window.addEventListener('storage', handleStorage);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('storage', handleStorage);
+  };
+}
+
+/**
+ * Get the current history and saved searches
+ */
+export function getSnapshot(): SearchHistorySnapshot {
+  if (snapshot === null) snapshot = readStorage();
+  return snapshot;
+}
+
+/**
+ * Get the snapshot used while rendering on the server
+ */
+export function getServerSnapshot(): SearchHistorySnapshot {
+  return EMPTY_SNAPSHOT;
+}
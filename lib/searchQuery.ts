@@ -0,0 +1,398 @@
+/**
+ * Search Query
+ *
+ * Parses the advanced search syntax shared by the search page and
+ * /api/icons:
+ *
+ *   arrow "double chevron" -circle tag:navigation set:essentials
+ *   author:jane style:outline license:commercial free size:24..48
+ *
+ * - Plain words and "quoted phrases" are searched for.
+ * - A leading dash excludes a word, phrase or tag (-circle, -tag:flat).
+ * - tag:, set: and author: narrow the results down; values with spaces
+ *   can be quoted (set:"material design").
+ * - style:, license: and premium: (or the bare words free and premium)
+ *   set the matching search filter.
+ * - size: takes a size (32), a range (24..48, 64.., ..128) or a bound
+ *   (>=64, <128) in pixels.
+ *
+ * Words, phrases, tags, style, license, premium and the smallest size are
+ * sent to Iconfinder. Phrases, exclusions, tags, sets, authors and the
+ * largest size are then checked against each returned icon.
+ *
+ * Parsing never fails: parts that cannot be understood are reported as
+ * errors with their position and otherwise ignored.
+ */
+
+import { LICENSE_OPTIONS } from '@/lib/searchFilters';
+import type { IconData, IconSearchFilters, LicenseFilter, PremiumFilter } from '@/types';
+
+export type QueryTokenKind = 'term' | 'phrase' | 'tag' | 'set' | 'author' | 'style' | 'license' | 'premium' | 'size';
+
+export interface SizeRange {
+  min: number | null;
+  max: number | null;
+}
+
+// One understood part of the query, with its position in the query text
+export interface QueryToken {
+  kind: QueryTokenKind;
+  value: string;
+  // Excluded with a leading dash
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+export interface QueryParseError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  tokens: QueryToken[];
+  errors: QueryParseError[];
+  terms: string[];
+  phrases: string[];
+  // Words and phrases the icons must not contain
+  excluded: string[];
+  tags: string[];
+  excludedTags: string[];
+  sets: string[];
+  authors: string[];
+  style: string | null;
+  license: LicenseFilter | null;
+  premium: PremiumFilter | null;
+  size: SizeRange | null;
+}
+
+// Qualifiers and the names they can also be written as
+const QUALIFIERS: Record<string, QueryTokenKind> = {
+  tag: 'tag',
+  set: 'set',
+  iconset: 'set',
+  author: 'author',
+  style: 'style',
+  license: 'license',
+  premium: 'premium',
+  size: 'size',
+};
+
+// Qualifiers that can be excluded with a leading dash
+const NEGATABLE: QueryTokenKind[] = ['term', 'phrase', 'tag'];
+
+// Values accepted by premium:
+const PREMIUM_VALUES: Record<string, PremiumFilter> = {
+  all: 'all',
+  free: 'free',
+  no: 'free',
+  false: 'free',
+  premium: 'premium',
+  yes: 'premium',
+  true: 'premium',
+};
+
+// Largest size accepted in size:, in pixels
+const MAX_SIZE = 4096;
+
+interface RawToken {
+  field: string | null;
+  value: string;
+  quoted: boolean;
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+/**
+ * Collapse runs of whitespace and lowercase a value
+ */
+const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Split a query into words, quoted phrases and field:value pairs
+ */
+function tokenize(query: string, errors: QueryParseError[]): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    // A field name followed by a colon, e.g. tag:
+    const field = /^([a-z]+):/i.exec(query.slice(i));
+    if (field) i += field[0].length;
+
+    let value: string;
+    let quoted = false;
+    if (query[i] === '"') {
+      quoted = true;
+      const close = query.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({ message: 'Missing closing quote', start, end: query.length });
+        value = query.slice(i + 1);
+        i = query.length;
+      } else {
+        value = query.slice(i + 1, close);
+        i = close + 1;
+      }
+    } else {
+      const valueStart = i;
+      while (i < query.length && !/\s/.test(query[i])) i++;
+      value = query.slice(valueStart, i);
+    }
+
+    tokens.push({ field: field ? field[1].toLowerCase() : null, value, quoted, negated, start, end: i });
+  }
+
+  return tokens;
+}
+
+/**
+ * Read the value of size:
+ *
+ * @returns The range, or an error message
+ */
+function parseSize(value: string): SizeRange | string {
+  const toSize = (text: string | undefined) => (text ? Number.parseInt(text, 10) : null);
+  let range: SizeRange | null = null;
+
+  const exact = /^(\d+)$/.exec(value);
+  const between = /^(\d+)?\.\.(\d+)?$/.exec(value);
+  const bound = /^(>=|<=|>|<)(\d+)$/.exec(value);
+
+  if (exact) {
+    range = { min: toSize(exact[1]), max: toSize(exact[1]) };
+  } else if (between && (between[1] || between[2])) {
+    range = { min: toSize(between[1]), max: toSize(between[2]) };
+  } else if (bound) {
+    const size = Number.parseInt(bound[2], 10);
+    range = {
+      '>=': { min: size, max: null },
+      '>': { min: size + 1, max: null },
+      '<=': { min: null, max: size },
+      '<': { min: null, max: size - 1 },
+    }[bound[1] as '>=' | '>' | '<=' | '<'];
+  }
+
+  if (!range) return 'Sizes look like 32, 24..48, >=64 or <128';
+  if ((range.min ?? 0) > MAX_SIZE || (range.max ?? 0) > MAX_SIZE) return `Sizes go up to ${MAX_SIZE}px`;
+  if (range.max !== null && range.max < 1) return 'Sizes must be at least 1px';
+  if (range.min !== null && range.max !== null && range.min > range.max) return 'The smallest size is larger than the largest';
+  return range;
+}
+
+/**
+ * Parse a search query
+ *
+ * @param query - The query as typed
+ * @returns The understood parts of the query and any errors
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const errors: QueryParseError[] = [];
+  const parsed: ParsedSearchQuery = {
+    tokens: [],
+    errors,
+    terms: [],
+    phrases: [],
+    excluded: [],
+    tags: [],
+    excludedTags: [],
+    sets: [],
+    authors: [],
+    style: null,
+    license: null,
+    premium: null,
+    size: null,
+  };
+
+  for (const raw of tokenize(query, errors)) {
+    const fail = (message: string) => errors.push({ message, start: raw.start, end: raw.end });
+    const value = normalize(raw.value);
+
+    let kind: QueryTokenKind;
+    if (raw.field !== null) {
+      const qualifier = QUALIFIERS[raw.field];
+      if (!qualifier) {
+        fail(`Unknown qualifier "${raw.field}:". Use ${Object.keys(QUALIFIERS).filter(name => name !== 'iconset').join(', ')}`);
+        continue;
+      }
+      kind = qualifier;
+    } else if (raw.quoted) {
+      kind = 'phrase';
+    } else if (value === 'free' || value === 'premium') {
+      kind = 'premium';
+    } else {
+      kind = 'term';
+    }
+
+    if (!value) {
+      if (raw.field !== null || raw.quoted) fail(raw.field !== null ? `"${raw.field}:" needs a value` : 'Empty phrase');
+      continue;
+    }
+    if (raw.negated && !NEGATABLE.includes(kind)) {
+      fail(`${kind}: cannot be excluded with a dash`);
+      continue;
+    }
+
+    let tokenValue = value;
+    switch (kind) {
+      case 'term':
+      case 'phrase':
+        (raw.negated ? parsed.excluded : kind === 'term' ? parsed.terms : parsed.phrases).push(value);
+        break;
+      case 'tag':
+        (raw.negated ? parsed.excludedTags : parsed.tags).push(value);
+        break;
+      case 'set':
+        parsed.sets.push(value);
+        break;
+      case 'author':
+        parsed.authors.push(value);
+        break;
+      case 'style':
+        if (!/^[a-z0-9-]+$/.test(value)) {
+          fail('Styles are written like outline or filled-outline');
+          continue;
+        }
+        parsed.style = value;
+        break;
+      case 'license':
+        if (!LICENSE_OPTIONS.includes(value as LicenseFilter)) {
+          fail(`License must be one of ${LICENSE_OPTIONS.join(', ')}`);
+          continue;
+        }
+        parsed.license = value as LicenseFilter;
+        break;
+      case 'premium':
+        if (!PREMIUM_VALUES[value]) {
+          fail('Premium must be free, premium or all');
+          continue;
+        }
+        parsed.premium = PREMIUM_VALUES[value];
+        tokenValue = parsed.premium;
+        break;
+      case 'size': {
+        const range = parseSize(value);
+        if (typeof range === 'string') {
+          fail(range);
+          continue;
+        }
+        parsed.size = range;
+        break;
+      }
+    }
+
+    parsed.tokens.push({ kind, value: tokenValue, negated: raw.negated, start: raw.start, end: raw.end });
+  }
+
+  return parsed;
+}
+
+/**
+ * Build the search that is sent to the icon provider
+ * Qualifiers in the query take precedence over the filter panel.
+ *
+ * @param parsed - The parsed query
+ * @param filters - Filters chosen in the filter panel
+ * @returns The text to search for and the filters to search with
+ */
+export function toUpstreamSearch(
+  parsed: ParsedSearchQuery,
+  filters: IconSearchFilters
+): { text: string; filters: IconSearchFilters } {
+  const minSize = parsed.size?.min ?? null;
+  return {
+    text: [...parsed.terms, ...parsed.phrases, ...parsed.tags].join(' '),
+    filters: {
+      ...filters,
+      style: parsed.style ?? filters.style,
+      license: parsed.license ?? filters.license,
+      premium: parsed.premium ?? filters.premium,
+      minSize: minSize !== null && filters.minSize !== null ? Math.max(minSize, filters.minSize) : minSize ?? filters.minSize,
+    },
+  };
+}
+
+/**
+ * Check whether some parts of the query are applied after the search
+ */
+export function hasPostFilters(parsed: ParsedSearchQuery): boolean {
+  return parsed.phrases.length > 0
+    || parsed.excluded.length > 0
+    || parsed.tags.length > 0
+    || parsed.excludedTags.length > 0
+    || parsed.sets.length > 0
+    || parsed.authors.length > 0
+    || parsed.size?.max != null;
+}
+
+/**
+ * Check an icon against the parts of the query Iconfinder does not apply
+ *
+ * @param icon - An icon returned by the search
+ * @param parsed - The parsed query
+ * @returns Whether the icon should be shown
+ */
+export function matchesPostFilters(icon: IconData, parsed: ParsedSearchQuery): boolean {
+  const tags = icon.tags.map(normalize);
+  const text = [normalize(icon.name), ...tags].join(' ');
+
+  if (!parsed.phrases.every(phrase => text.includes(phrase))) return false;
+  if (parsed.excluded.some(word => text.includes(word))) return false;
+  if (!parsed.tags.every(tag => tags.includes(tag))) return false;
+  if (parsed.excludedTags.some(tag => tags.includes(tag))) return false;
+
+  const set = normalize([icon.iconset?.name, icon.iconset?.identifier].filter(Boolean).join(' '));
+  if (!parsed.sets.every(name => set.includes(name))) return false;
+
+  const author = normalize([icon.author?.name, icon.author?.username].filter(Boolean).join(' '));
+  if (!parsed.authors.every(name => author.includes(name))) return false;
+
+  const { size } = parsed;
+  if (size && size.max !== null) {
+    const inRange = icon.rasterSizes.some(raster => raster.size >= (size.min ?? 0) && raster.size <= size.max!);
+    if (!inRange) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Describe a query part for display, e.g. "style: outline" or "not circle"
+ */
+export function describeQueryToken(token: QueryToken): string {
+  const value = token.kind === 'phrase' ? `"${token.value}"` : token.value;
+  switch (token.kind) {
+    case 'term':
+    case 'phrase':
+      return token.negated ? `not ${value}` : value;
+    case 'tag':
+      return token.negated ? `not tag: ${value}` : `tag: ${value}`;
+    case 'premium':
+      return token.value === 'all' ? 'free and premium' : token.value;
+    case 'size':
+      return `size: ${value.replace('..', '–')}`;
+    default:
+      return `${token.kind}: ${value}`;
+  }
+}
+
+/**
+ * Remove a part from a query, e.g. when its chip is deleted
+ *
+ * @param query - The query as typed
+ * @param token - A token parsed from that query
+ * @returns The query without the token
+ */
+export function removeQueryToken(query: string, token: Pick<QueryToken, 'start' | 'end'>): string {
+  return `${query.slice(0, token.start)} ${query.slice(token.end)}`.trim().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,102 @@
+/**
+ * Search Suggestions
+ *
+ * Completes a partly typed search query for the typeahead on the home
+ * page. The last word of the query is completed with tags from recently
+ * returned search results, most frequent first, and then with words from
+ * the tag dictionary. Suggestions carry a few icons that have the tag, so
+ * the dropdown can show what a search would find.
+ *
+ * The user's own search history never reaches the server; the typeahead
+ * merges it in the browser.
+ */
+
+import { getPreviewUrl } from '@/lib/icons';
+import { completeTag } from '@/lib/tagDictionary';
+import type { IconData, IconPreview, IconSearchResponse, SearchSuggestion } from '@/types';
+
+// Thumbnails shown next to each suggestion
+export const MAX_PREVIEWS = 4;
+export const MAX_SUGGESTIONS = 8;
+// Longer input is not completed
+export const MAX_SUGGESTION_INPUT_LENGTH = 100;
+
+// Tags worth offering as a search: letters, digits, spaces and dashes
+const TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} -]{0,39}$/u;
+
+interface TagStats {
+  // How many recent results have the tag
+  count: number;
+  previews: IconPreview[];
+}
+
+/**
+ * Build the preview of an icon, or null when it has no image
+ */
+export function toIconPreview(icon: IconData): IconPreview | null {
+  const previewUrl = getPreviewUrl(icon);
+  return previewUrl ? { id: icon.id, name: icon.name, previewUrl } : null;
+}
+
+/**
+ * Count the tags of the icons in recent search results
+ *
+ * @param results - Recent search responses, most recent first
+ * @returns Statistics keyed by lowercase tag
+ */
+export function collectResultTags(results: IconSearchResponse[]): Map<string, TagStats> {
+  const tags = new Map<string, TagStats>();
+  const counted = new Set<string>();
+
+  for (const result of results) {
+    for (const icon of result.icons) {
+      // The same icon shows up in many cached pages; count it once
+      if (counted.has(icon.id)) continue;
+      counted.add(icon.id);
+      const preview = toIconPreview(icon);
+
+      for (const rawTag of new Set(icon.tags.map(tag => tag.trim().toLowerCase()))) {
+        if (!TAG_PATTERN.test(rawTag)) continue;
+        const stats = tags.get(rawTag) ?? { count: 0, previews: [] };
+        stats.count++;
+        if (preview && stats.previews.length < MAX_PREVIEWS) stats.previews.push(preview);
+        tags.set(rawTag, stats);
+      }
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Complete the last word of a query
+ *
+ * @param input - The query typed so far
+ * @param results - Recent search responses to take tags and previews from
+ * @param limit - Most suggestions to return
+ * @returns Completed queries, tags from recent results first
+ */
+export function suggestQueries(
+  input: string,
+  results: IconSearchResponse[],
+  limit = MAX_SUGGESTIONS
+): SearchSuggestion[] {
+  const words = input.toLowerCase().replace(/\s+/g, ' ').trimStart().split(' ');
+  const partial = words.pop() ?? '';
+  if (!partial) return [];
+  const head = words.join(' ');
+  const complete = (tag: string) => (head ? `${head} ${tag}` : tag);
+
+  const tags = collectResultTags(results);
+  const recent = [...tags.entries()]
+    .filter(([tag]) => tag.startsWith(partial))
+    .sort(([tagA, a], [tagB, b]) => b.count - a.count || tagA.length - tagB.length || tagA.localeCompare(tagB))
+    .slice(0, limit)
+    .map(([tag, stats]): SearchSuggestion => ({ query: complete(tag), source: 'recent', previews: stats.previews }));
+
+  const dictionary = completeTag(partial, limit)
+    .filter(tag => !tags.has(tag))
+    .map((tag): SearchSuggestion => ({ query: complete(tag), source: 'dictionary', previews: [] }));
+
+  return [...recent, ...dictionary].slice(0, limit);
+}
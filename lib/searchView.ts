@@ -0,0 +1,140 @@
+/**
+ * Search View
+ *
+ * Sort order and grouping of the loaded search results. Both are applied
+ * in the browser to the icons loaded so far, and kept in the search page
+ * URL next to the query and filters:
+ *
+ *   /search?q=arrow&sort=newest&group=set
+ */
+
+import type { IconData } from '@/types';
+
+export type SearchSort = 'relevance' | 'name' | 'newest' | 'size' | 'vector';
+export type SearchGroup = 'none' | 'set' | 'author';
+
+export interface SearchView {
+  sort: SearchSort;
+  group: SearchGroup;
+}
+
+// A run of results sharing an icon set or author
+export interface SearchResultGroup {
+  key: string;
+  label: string;
+  icons: IconData[];
+}
+
+export const SEARCH_SORT_OPTIONS: { value: SearchSort; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'name', label: 'Name' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'size', label: 'Largest size' },
+  { value: 'vector', label: 'Vector first' },
+];
+
+export const SEARCH_GROUP_OPTIONS: { value: SearchGroup; label: string }[] = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'set', label: 'Icon set' },
+  { value: 'author', label: 'Author' },
+];
+
+export const DEFAULT_SEARCH_VIEW: SearchView = { sort: 'relevance', group: 'none' };
+
+// Names of the parameters as they appear in the URL
+const VIEW_PARAM_KEYS = ['sort', 'group'] as const;
+
+/**
+ * Read the sort order and grouping from URL search parameters
+ * Unknown values fall back to the defaults
+ */
+export function parseSearchView(params: URLSearchParams): SearchView {
+  const sort = params.get('sort') as SearchSort | null;
+  const group = params.get('group') as SearchGroup | null;
+  return {
+    sort: sort && SEARCH_SORT_OPTIONS.some(option => option.value === sort) ? sort : DEFAULT_SEARCH_VIEW.sort,
+    group: group && SEARCH_GROUP_OPTIONS.some(option => option.value === group) ? group : DEFAULT_SEARCH_VIEW.group,
+  };
+}
+
+/**
+ * Write the sort order and grouping into URL search parameters
+ * Defaults are removed so URLs stay short
+ *
+ * @param view - The view to write
+ * @param params - Existing parameters to update (copied, not mutated)
+ * @returns A new set of search parameters
+ */
+export function applySearchView(view: SearchView, params = new URLSearchParams()): URLSearchParams {
+  const next = new URLSearchParams(params);
+  VIEW_PARAM_KEYS.forEach(key => next.delete(key));
+  if (view.sort !== DEFAULT_SEARCH_VIEW.sort) next.set('sort', view.sort);
+  if (view.group !== DEFAULT_SEARCH_VIEW.group) next.set('group', view.group);
+  return next;
+}
+
+/**
+ * Largest raster size of an icon in pixels, 0 when it has none
+ */
+const getLargestSize = (icon: IconData) => icon.rasterSizes[icon.rasterSizes.length - 1]?.size ?? 0;
+
+/**
+ * Sort loaded results
+ * The sort is stable, so icons that compare equal keep their relevance order.
+ *
+ * @param icons - Icons in the order the search returned them
+ * @param sort - The sort order
+ * @returns A sorted copy
+ */
+export function sortSearchResults(icons: IconData[], sort: SearchSort): IconData[] {
+  const sorted = [...icons];
+  switch (sort) {
+    case 'relevance':
+      return sorted;
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true }));
+    case 'newest':
+      // Icons without a date go last
+      return sorted.sort((a, b) => (b.publishedAt ?? '').localeCompare(a.publishedAt ?? ''));
+    case 'size':
+      return sorted.sort((a, b) => getLargestSize(b) - getLargestSize(a));
+    case 'vector':
+      return sorted.sort((a, b) => Number(b.vectorFormats.length > 0) - Number(a.vectorFormats.length > 0));
+  }
+}
+
+/**
+ * Group sorted results by icon set or author
+ * Groups appear in the order of their first icon, so the sort order decides
+ * which group comes first; icons without a set or author are grouped last.
+ *
+ * @param icons - Sorted icons
+ * @param group - What to group by
+ * @returns The groups, or a single group holding every icon for 'none'
+ */
+export function groupSearchResults(icons: IconData[], group: SearchGroup): SearchResultGroup[] {
+  if (group === 'none') return [{ key: 'all', label: 'All results', icons }];
+
+  const groups = new Map<string, SearchResultGroup>();
+  const ungrouped: SearchResultGroup = {
+    key: 'unknown',
+    label: group === 'set' ? 'No icon set' : 'Unknown author',
+    icons: [],
+  };
+
+  for (const icon of icons) {
+    const owner = group === 'set'
+      ? icon.iconset && { key: `set:${icon.iconset.id}`, label: icon.iconset.name }
+      : icon.author && { key: `author:${icon.author.id}`, label: icon.author.name || icon.author.username || 'Unnamed author' };
+
+    if (!owner) {
+      ungrouped.icons.push(icon);
+      continue;
+    }
+    const existing = groups.get(owner.key);
+    if (existing) existing.icons.push(icon);
+    else groups.set(owner.key, { ...owner, icons: [icon] });
+  }
+
+  return ungrouped.icons.length > 0 ? [...groups.values(), ungrouped] : [...groups.values()];
+}
@@ -0,0 +1,242 @@
+/**
+ * Session Store
+ *
+ * A module-level store holding the signed-in user, their team workspaces
+ * and the workspace currently active in this browser. Components read it
+ * through useSession.
+ *
+ * The active workspace decides which favorites the favorites store shows
+ * and changes: the store is told through setFavoritesContext after every
+ * change here. The choice is remembered in localStorage per browser.
+ *
+ * Every account route responds with the full session, so each action
+ * simply replaces the state with the response.
+ */
+
+import { ApiRequestError, fetchJson } from '@/lib/apiClient';
+import { setFavoritesContext } from '@/lib/favoritesStore';
+import type { AccountUser, SessionResponse, Workspace, WorkspaceRole } from '@/types';
+
+// localStorage key of the active workspace id
+const ACTIVE_WORKSPACE_KEY = 'iconVaultActiveWorkspace';
+
+export interface SessionSnapshot {
+  // False until the session has been fetched
+  loaded: boolean;
+  // False when the server has accounts disabled
+  enabled: boolean;
+  user: AccountUser | null;
+  workspaces: Workspace[];
+  // Workspace whose favorites are shown, null for personal favorites
+  activeWorkspace: Workspace | null;
+  // The user's role in the active workspace
+  role: WorkspaceRole | null;
+}
+
+type Listener = () => void;
+
+// Snapshot used during server rendering and before the session is fetched
+const INITIAL_SNAPSHOT: SessionSnapshot = {
+  loaded: false,
+  enabled: true,
+  user: null,
+  workspaces: [],
+  activeWorkspace: null,
+  role: null,
+};
+
+let snapshot: SessionSnapshot = INITIAL_SNAPSHOT;
+let loading: Promise<void> | null = null;
+const listeners = new Set<Listener>();
+
+/**
+ * Read the remembered active workspace
+ */
+function readActiveWorkspaceId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember the active workspace
+ */
+function writeActiveWorkspaceId(workspaceId: string | null) {
+  try {
+    if (workspaceId) {
+      localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId);
+    } else {
+      localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving the active workspace:', error);
+  }
+}
+
+/**
+ * Replace the state, tell the favorites store and notify subscribers
+ */
+function emit(next: Omit<SessionSnapshot, 'activeWorkspace' | 'role'>) {
+  const activeId = readActiveWorkspaceId();
+  const activeWorkspace = next.workspaces.find(workspace => workspace.id === activeId) ?? null;
+  const role = activeWorkspace?.members.find(member => member.userId === next.user?.id)?.role ?? null;
+  snapshot = { ...next, activeWorkspace, role };
+
+  setFavoritesContext({
+    workspaceId: activeWorkspace?.id ?? null,
+    role,
+    userId: next.user?.id ?? null,
+    username: next.user?.username ?? null,
+  });
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Take over a session returned by the server
+ */
+function applySession(session: SessionResponse) {
+  emit({ loaded: true, enabled: true, user: session.user, workspaces: session.workspaces });
+}
+
+/**
+ * Fetch the session once; later calls reuse the first request
+ */
+export function ensureSession(): Promise<void> {
+  if (typeof window === 'undefined') return Promise.resolve();
+  loading ??= fetchJson<SessionResponse>('/api/auth/session', { cache: 'no-store' })
+    .then(applySession)
+    .catch((err) => {
+      const error = ApiRequestError.from(err);
+      // NOT_FOUND means accounts are disabled on this server
+      if (error.code !== 'NOT_FOUND') console.error('Error loading the session:', error.message);
+      emit({ loaded: true, enabled: error.code !== 'NOT_FOUND', user: null, workspaces: [] });
+    });
+  return loading;
+}
+
+/**
+ * Subscribe to session changes
+ *
+ * @param listener - Called after every change
+ * @returns A function that removes the subscription
+ */
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  void ensureSession();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Get the current session
+ */
+export function getSnapshot(): SessionSnapshot {
+  return snapshot;
+}
+
+/**
+ * Get the session used while rendering on the server
+ */
+export function getServerSnapshot(): SessionSnapshot {
+  return INITIAL_SNAPSHOT;
+}
+
+/**
+ * Call an account route and take over the session it returns
+ *
+ * @throws ApiRequestError when the route fails
+ */
+async function request(url: string, method: string, body?: unknown) {
+  const session = await fetchJson<SessionResponse>(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  applySession(session);
+}
+
+/**
+ * Sign in with a username and password
+ */
+export function signIn(username: string, password: string): Promise<void> {
+  return request('/api/auth/login', 'POST', { username, password });
+}
+
+/**
+ * Create an account and sign in with it
+ */
+export function register(username: string, password: string): Promise<void> {
+  return request('/api/auth/register', 'POST', { username, password });
+}
+
+/**
+ * Sign out and go back to personal favorites
+ */
+export function signOut(): Promise<void> {
+  writeActiveWorkspaceId(null);
+  return request('/api/auth/logout', 'POST');
+}
+
+/**
+ * Show the favorites of a workspace, or personal favorites
+ *
+ * @param workspaceId - The workspace, or null for personal favorites
+ */
+export function setActiveWorkspace(workspaceId: string | null) {
+  writeActiveWorkspaceId(workspaceId);
+  emit(snapshot);
+}
+
+/**
+ * Create a workspace and make it the active one
+ *
+ * @param name - The workspace name
+ */
+export async function createWorkspace(name: string): Promise<void> {
+  const known = new Set(snapshot.workspaces.map(workspace => workspace.id));
+  await request('/api/workspaces', 'POST', { name });
+  const created = snapshot.workspaces.find(workspace => !known.has(workspace.id));
+  if (created) setActiveWorkspace(created.id);
+}
+
+/**
+ * Rename a workspace; owners only
+ */
+export function renameWorkspace(workspaceId: string, name: string): Promise<void> {
+  return request(`/api/workspaces/${encodeURIComponent(workspaceId)}`, 'PATCH', { name });
+}
+
+/**
+ * Delete a workspace and its favorites; owners only
+ */
+export function deleteWorkspace(workspaceId: string): Promise<void> {
+  return request(`/api/workspaces/${encodeURIComponent(workspaceId)}`, 'DELETE');
+}
+
+/**
+ * Add a member by username; owners only
+ */
+export function addMember(workspaceId: string, username: string, role: WorkspaceRole): Promise<void> {
+  return request(`/api/workspaces/${encodeURIComponent(workspaceId)}/members`, 'POST', { username, role });
+}
+
+/**
+ * Change a member's role; owners only
+ */
+export function updateMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+  return request(
+    `/api/workspaces/${encodeURIComponent(workspaceId)}/members/${encodeURIComponent(userId)}`,
+    'PATCH',
+    { role }
+  );
+}
+
+/**
+ * Remove a member, or leave the workspace when it is the user's own id
+ */
+export function removeMember(workspaceId: string, userId: string): Promise<void> {
+  return request(`/api/workspaces/${encodeURIComponent(workspaceId)}/members/${encodeURIComponent(userId)}`, 'DELETE');
+}
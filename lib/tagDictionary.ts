@@ -0,0 +1,64 @@
+/**
+ * Tag Dictionary
+ *
+ * Common icon tags used to complete search queries before any search has
+ * filled the result cache. The words are grouped by theme only to keep the
+ * list readable; lookups treat them as one sorted list.
+ */
+
+const TAG_GROUPS = [
+  // Interface
+  'add', 'alarm', 'alert', 'align', 'app', 'archive', 'arrow', 'attachment', 'back', 'badge', 'bell',
+  'bookmark', 'button', 'calendar', 'cancel', 'check', 'checkbox', 'clipboard', 'clock', 'close', 'cloud',
+  'code', 'cog', 'copy', 'cursor', 'cut', 'dashboard', 'delete', 'document', 'down', 'download', 'drag',
+  'edit', 'eject', 'error', 'exit', 'expand', 'export', 'eye', 'file', 'filter', 'flag', 'folder',
+  'forward', 'fullscreen', 'gear', 'grid', 'help', 'hide', 'history', 'home', 'hourglass', 'import',
+  'inbox', 'info', 'key', 'layers', 'layout', 'left', 'link', 'list', 'loading', 'lock', 'login', 'logout',
+  'menu', 'minus', 'more', 'move', 'notification', 'options', 'paste', 'pause', 'pen', 'pencil', 'pin',
+  'play', 'plus', 'power', 'print', 'question', 'redo', 'refresh', 'reload', 'remove', 'reply', 'right',
+  'save', 'search', 'settings', 'share', 'shield', 'sidebar', 'sort', 'star', 'stop', 'sync', 'tag',
+  'target', 'toggle', 'trash', 'undo', 'unlock', 'up', 'upload', 'view', 'warning', 'window', 'zoom',
+  // Communication and people
+  'account', 'avatar', 'chat', 'comment', 'contact', 'conversation', 'email', 'envelope', 'group',
+  'heart', 'like', 'mail', 'man', 'message', 'microphone', 'people', 'person', 'phone', 'profile',
+  'send', 'smile', 'team', 'user', 'users', 'woman',
+  // Media and devices
+  'audio', 'battery', 'bluetooth', 'camera', 'cd', 'computer', 'desktop', 'film', 'gallery',
+  'headphones', 'image', 'keyboard', 'laptop', 'monitor', 'mouse', 'music', 'photo', 'picture',
+  'podcast', 'printer', 'radio', 'record', 'server', 'smartphone', 'speaker', 'tablet', 'tv', 'usb',
+  'video', 'volume', 'watch', 'wifi',
+  // Business and commerce
+  'bag', 'bank', 'basket', 'briefcase', 'cart', 'chart', 'coin', 'credit card', 'currency', 'discount',
+  'dollar', 'euro', 'gift', 'invoice', 'money', 'office', 'payment', 'percent', 'receipt', 'sale',
+  'shop', 'shopping', 'store', 'wallet',
+  // Places, travel and weather
+  'airplane', 'bicycle', 'boat', 'building', 'bus', 'car', 'city', 'compass', 'direction', 'earth',
+  'globe', 'hotel', 'location', 'map', 'marker', 'navigation', 'rain', 'road', 'snow', 'sun', 'taxi',
+  'temperature', 'train', 'travel', 'truck', 'umbrella', 'weather', 'wind', 'world',
+  // Everyday objects and nature
+  'book', 'bottle', 'box', 'brush', 'bulb', 'coffee', 'cup', 'diamond', 'fire', 'flower', 'food', 'fruit',
+  'game', 'hammer', 'health', 'hospital', 'idea', 'leaf', 'light', 'lightning', 'medicine', 'moon',
+  'mountain', 'paint', 'palette', 'pizza', 'plant', 'rocket', 'school', 'science', 'security', 'sport',
+  'tree', 'trophy', 'water', 'wrench',
+  // Brands and social
+  'apple', 'android', 'facebook', 'github', 'google', 'instagram', 'linkedin', 'logo', 'social', 'twitter',
+  'whatsapp', 'windows', 'youtube',
+];
+
+// Every tag once, sorted so completions come out in a stable order
+export const TAG_DICTIONARY: readonly string[] = [...new Set(TAG_GROUPS)].sort();
+
+/**
+ * Find dictionary tags that start with a prefix
+ *
+ * @param prefix - Lowercase start of a word
+ * @param limit - Most tags to return
+ * @returns Matching tags, shortest first
+ */
+export function completeTag(prefix: string, limit: number): string[] {
+  if (!prefix) return [];
+  return TAG_DICTIONARY
+    .filter(tag => tag.startsWith(prefix))
+    .sort((a, b) => a.length - b.length || a.localeCompare(b))
+    .slice(0, limit);
+}
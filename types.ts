@@ -1,15 +1,243 @@
 // types.ts
+
+// A single file format available for a raster size
+export interface IconRasterFormat {
+  format: string;
+  previewUrl: string;
+  downloadUrl: string | null;
+}
+
+// A raster rendition of an icon at a specific size
+export interface IconRasterSize {
+  size: number;
+  width: number;
+  height: number;
+  formats: IconRasterFormat[];
+}
+
+// A vector file format available for an icon (svg, ai, eps, ...)
+export interface IconVectorFormat {
+  format: string;
+  downloadUrl: string;
+}
+
+export interface IconAuthor {
+  id: string;
+  name: string;
+  username: string | null;
+}
+
+export interface IconSetSummary {
+  id: string;
+  name: string;
+  identifier: string | null;
+}
+
+export interface IconLicense {
+  id: string;
+  name: string;
+  scope: string | null;
+  url: string | null;
+}
+
+// Normalized icon model returned by /api/icons
 export interface IconData {
+  id: string;
   name: string;
-  url: string;
-  id: string | number;
-
-  raster_sizes?: {
-    formats?: {
-      preview_url?: string;
-      [key: string]: any;
-    }[];
-    [key: string]: any;
-  }[];
-  tags?: string[];
-};
\ No newline at end of file
+  tags: string[];
+  author: IconAuthor | null;
+  iconset: IconSetSummary | null;
+  license: IconLicense | null;
+  isPremium: boolean;
+  publishedAt: string | null;
+  // Sorted from smallest to largest
+  rasterSizes: IconRasterSize[];
+  vectorFormats: IconVectorFormat[];
+}
+
+// Paginated response returned by /api/icons
+export interface IconSearchResponse {
+  icons: IconData[];
+  total_count: number;
+  offset: number;
+  count: number;
+  next_offset: number | null;
+  // True when parts of the query were checked after the search, so
+  // total_count counts icons before that check
+  post_filtered: boolean;
+}
+
+// Search filter values shared by the search page and /api/icons
+export type PremiumFilter = 'all' | 'free' | 'premium';
+export type LicenseFilter = 'any' | 'commercial' | 'commercial-nonattribution';
+
+export interface IconSearchFilters {
+  premium: PremiumFilter;
+  vector: boolean;
+  license: LicenseFilter;
+  style: string | null;
+  category: string | null;
+  minSize: number | null;
+}
+
+// Error codes returned by the API routes
+export type ApiErrorCode =
+  | 'MISSING_QUERY'
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'CONFLICT'
+  | 'SERVER_MISCONFIGURED'
+  | 'UPSTREAM_AUTH_FAILED'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXHAUSTED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_MALFORMED'
+  | 'INTERNAL_ERROR';
+
+// Body of every error response returned by the API routes
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    // Whether repeating the same request may succeed
+    retryable: boolean;
+    // Status code returned by the upstream API, if it was involved
+    upstreamStatus: number | null;
+    // Seconds to wait before retrying, when known
+    retryAfter?: number;
+  };
+}
+
+// Response returned by /api/icons/[id]
+export interface IconDetailResponse {
+  icon: IconData;
+  // Other icons from the same icon set
+  related: IconData[];
+}
+
+// Body of a POST to /api/icons/bulk-download
+export interface BulkDownloadRequest {
+  ids: string[];
+  // Preferred format; icons without it fall back to another available format
+  format: string;
+  // Preferred pixel size for raster formats
+  size?: number;
+}
+
+// A named group of favorite icons; an icon may be in several collections
+export interface FavoriteCollection {
+  id: string;
+  name: string;
+  description: string;
+  // CSS color used for the collection's chip and accents
+  color: string;
+  // ISO 8601 timestamp
+  createdAt: string;
+  // Favorite ids in display order
+  iconIds: string[];
+}
+
+// Who added a favorite and when
+export interface FavoriteAddition {
+  // ISO 8601 timestamp
+  addedAt: string;
+  // Username of the member who added it; null for personal favorites
+  addedBy: string | null;
+}
+
+// What the user wrote down about a favorite
+export interface FavoriteAnnotation {
+  // Free-text note
+  note: string;
+  // The user's own tags, separate from the icon's tags
+  tags: string[];
+  // Star rating from 1 to 5, 0 when unrated
+  rating: number;
+}
+
+// A removed favorite, kept in the trash so it can be restored
+export interface TrashedFavorite {
+  icon: IconData;
+  // Collections it was in when it was removed
+  collectionIds: string[];
+  addition: FavoriteAddition;
+  annotation: FavoriteAnnotation | null;
+  // ISO 8601 timestamp
+  removedAt: string;
+}
+
+// Roles in a workspace, from least to most permissions
+export type WorkspaceRole = 'viewer' | 'editor' | 'owner';
+
+// A signed-in user as shown to the client
+export interface AccountUser {
+  id: string;
+  username: string;
+  createdAt: string;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  username: string;
+  role: WorkspaceRole;
+  // ISO 8601 timestamp
+  addedAt: string;
+}
+
+// A team workspace whose members share favorites and collections
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  members: WorkspaceMember[];
+}
+
+// Response of /api/auth/session, /api/auth/login and /api/auth/register
+export interface SessionResponse {
+  // Null when nobody is signed in
+  user: AccountUser | null;
+  // Workspaces the user is a member of
+  workspaces: Workspace[];
+}
+
+// A search run from the search page, kept in the browser's search history
+export interface SearchHistoryEntry {
+  query: string;
+  filters: IconSearchFilters;
+  // ISO 8601 timestamp of the latest run
+  searchedAt: string;
+}
+
+// A search the user pinned under a name of their choosing
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: IconSearchFilters;
+  // ISO 8601 timestamp
+  savedAt: string;
+}
+
+// A small image of an icon shown next to a search suggestion
+export interface IconPreview {
+  id: string;
+  name: string;
+  previewUrl: string;
+}
+
+// A query completion returned by /api/suggestions
+export interface SearchSuggestion {
+  query: string;
+  // Tag seen in recent search results, or a word from the tag dictionary
+  source: 'recent' | 'dictionary';
+  previews: IconPreview[];
+}
+
+// Response of /api/suggestions
+export interface SearchSuggestionsResponse {
+  suggestions: SearchSuggestion[];
+}
@@ -1,172 +1,176 @@
 /**
  * useFavorites Hook
- * 
+ *
  * This custom hook provides global state management for favorite icons.
- * It handles localStorage persistence and provides methods to add/remove favorites.
- * 
+ * Every component reads the same store (lib/favoritesStore), so adding or
+ * removing a favorite on one page updates all others immediately.
+ * Favorites are organized in named collections; an icon can be in several.
+ *
  * Features:
  * - Persistent storage using localStorage
  * - Add/remove favorites functionality
  * - Check if an icon is favorited
  * - Get all favorite icons data
- * - Automatic state synchronization across components
+ * - Create, edit, delete and reorder collections
+ * - Move and copy icons between collections
+ * - Replace everything at once, for imports
+ * - Synchronization across components and open tabs
+ * - Sync with the server, with changes queued while offline
+ * - Follows the active team workspace; viewers cannot make changes
+ * - Records who added each favorite and when
+ * - Notes, custom tags and a star rating on each favorite
+ * - Undo and redo, and a trash that removed favorites can be restored from
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import type { IconData } from '@/types';
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import {
+  addFavorite,
+  annotateFavorite,
+  clearLastAction,
+  copyToCollection,
+  createCollection,
+  deleteCollection,
+  getFavoriteId,
+  getServerSnapshot,
+  getSnapshot,
+  moveToCollection,
+  purgeTrash,
+  redo,
+  removeFavorite,
+  removeFromCollection,
+  reorderCollection,
+  replaceFavorites,
+  restoreFavorite,
+  setTrashRetention,
+  subscribe,
+  toggleFavorite,
+  undo,
+  updateCollection,
+  type CollectionDetails,
+  type FavoritesHistory,
+  type SyncStatus,
+} from '@/lib/favoritesStore';
+import type { FavoritesContents } from '@/lib/favoritesTransfer';
+import { ensureSession } from '@/lib/sessionStore';
+import type { FavoriteAddition, FavoriteAnnotation, FavoriteCollection, IconData, TrashedFavorite } from '@/types';
 
 // Types for the hook
 interface UseFavoritesReturn {
-  favorites: Set<string>;
+  favorites: ReadonlySet<string>;
   favoriteIcons: IconData[];
-  addFavorite: (icon: IconData) => void;
+  collections: FavoriteCollection[];
+  additions: Record<string, FavoriteAddition>;
+  annotations: Record<string, FavoriteAnnotation>;
+  trash: TrashedFavorite[];
+  trashRetentionDays: number;
+  history: FavoritesHistory;
+  loaded: boolean;
+  syncStatus: SyncStatus;
+  workspaceId: string | null;
+  canEdit: boolean;
+  addFavorite: (icon: IconData, collectionId?: string) => void;
   removeFavorite: (iconId: string) => void;
+  annotateFavorite: (iconId: string, details: Partial<FavoriteAnnotation>) => void;
   toggleFavorite: (icon: IconData) => void;
   isFavorite: (iconId: string) => boolean;
   getFavoriteCount: () => number;
+  getFavoriteId: (icon: IconData) => string | null;
+  createCollection: (details: CollectionDetails) => string;
+  updateCollection: (collectionId: string, details: Partial<CollectionDetails>) => void;
+  deleteCollection: (collectionId: string) => void;
+  reorderCollection: (collectionId: string, toIndex: number) => void;
+  copyToCollection: (iconId: string, collectionId: string) => void;
+  moveToCollection: (iconId: string, fromCollectionId: string, toCollectionId: string) => void;
+  removeFromCollection: (iconId: string, collectionId: string) => void;
+  replaceFavorites: (contents: FavoritesContents, label: string) => void;
+  restoreFavorite: (iconId: string) => void;
+  purgeTrash: (iconIds?: string[]) => void;
+  setTrashRetention: (days: number) => void;
+  undo: () => void;
+  redo: () => void;
+  clearLastAction: () => void;
 }
 
 /**
  * Custom hook for managing favorite icons
- * 
+ *
  * @returns Object containing favorites state and manipulation functions
  */
 export const useFavorites = (): UseFavoritesReturn => {
-  // State for storing favorite icon IDs
-  const [favorites, setFavorites] = useState<Set<string>>(new Set());
-  
-  // State for storing complete icon data for favorites
-  const [favoriteIcons, setFavoriteIcons] = useState<IconData[]>([]);
+  const {
+    icons,
+    ids,
+    collections,
+    added,
+    annotations,
+    trash,
+    trashRetentionDays,
+    history,
+    loaded,
+    syncStatus,
+    workspaceId,
+    canEdit,
+  } = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
 
-  /**
-   * Load favorites from localStorage on hook initialization
-   */
+  // The session decides whose favorites are shown, and syncing waits for it
   useEffect(() => {
-    try {
-      // Load favorite IDs from localStorage
-      const savedFavorites = localStorage.getItem('iconFavorites');
-      if (savedFavorites) {
-        const favoriteIds = JSON.parse(savedFavorites);
-        setFavorites(new Set(favoriteIds));
-      }
-
-      // Load favorite icons data from localStorage
-      const savedIconsData = localStorage.getItem('favoriteIconsData');
-      if (savedIconsData) {
-        const iconsData = JSON.parse(savedIconsData);
-        setFavoriteIcons(iconsData);
-      }
-    } catch (error) {
-      console.error('Error loading favorites from localStorage:', error);
-    }
+    void ensureSession();
   }, []);
 
-  /**
-   * Save favorites to localStorage whenever favorites state changes
-   */
-  const saveFavoritesToStorage = useCallback((newFavorites: Set<string>, newIconsData: IconData[]) => {
-    try {
-      localStorage.setItem('iconFavorites', JSON.stringify([...newFavorites]));
-      localStorage.setItem('favoriteIconsData', JSON.stringify(newIconsData));
-    } catch (error) {
-      console.error('Error saving favorites to localStorage:', error);
-    }
-  }, []);
-
-  /**
-   * Add an icon to favorites
-   * 
-   * @param icon - The complete icon data to add to favorites
-   */
-  const addFavorite = useCallback((icon: IconData) => {
-    const iconId = icon.id?.toString();
-    if (!iconId) return;
-
-    setFavorites(prev => {
-      const newFavorites = new Set(prev);
-      if (!newFavorites.has(iconId)) {
-        newFavorites.add(iconId);
-        
-        // Update icons data array
-        setFavoriteIcons(prevIcons => {
-          const updatedIcons = [...prevIcons, icon];
-          // Save to localStorage
-          saveFavoritesToStorage(newFavorites, updatedIcons);
-          return updatedIcons;
-        });
-      }
-      return newFavorites;
-    });
-  }, [saveFavoritesToStorage]);
-
-  /**
-   * Remove an icon from favorites
-   * 
-   * @param iconId - The ID of the icon to remove from favorites
-   */
-  const removeFavorite = useCallback((iconId: string) => {
-    setFavorites(prev => {
-      const newFavorites = new Set(prev);
-      if (newFavorites.has(iconId)) {
-        newFavorites.delete(iconId);
-        
-        // Update icons data array
-        setFavoriteIcons(prevIcons => {
-          const updatedIcons = prevIcons.filter(icon => icon.id?.toString() !== iconId);
-          // Save to localStorage
-          saveFavoritesToStorage(newFavorites, updatedIcons);
-          return updatedIcons;
-        });
-      }
-      return newFavorites;
-    });
-  }, [saveFavoritesToStorage]);
-
-  /**
-   * Toggle favorite status for an icon
-   * Adds to favorites if not present, removes if present
-   * 
-   * @param icon - The complete icon data to toggle
-   */
-  const toggleFavorite = useCallback((icon: IconData) => {
-    const iconId = icon.id?.toString();
-    if (!iconId) return;
-
-    if (favorites.has(iconId)) {
-      removeFavorite(iconId);
-    } else {
-      addFavorite(icon);
-    }
-  }, [favorites, addFavorite, removeFavorite]);
-
   /**
    * Check if an icon is in favorites
-   * 
+   *
    * @param iconId - The ID of the icon to check
    * @returns boolean indicating if the icon is favorited
    */
   const isFavorite = useCallback((iconId: string) => {
-    return favorites.has(iconId);
-  }, [favorites]);
+    return ids.has(iconId);
+  }, [ids]);
 
   /**
    * Get the total count of favorite icons
-   * 
+   *
    * @returns Number of favorite icons
    */
   const getFavoriteCount = useCallback(() => {
-    return favorites.size;
-  }, [favorites]);
+    return ids.size;
+  }, [ids]);
 
   return {
-    favorites,
-    favoriteIcons,
+    favorites: ids,
+    favoriteIcons: icons,
+    collections,
+    additions: added,
+    annotations,
+    trash,
+    trashRetentionDays,
+    history,
+    loaded,
+    syncStatus,
+    workspaceId,
+    canEdit,
     addFavorite,
     removeFavorite,
+    annotateFavorite,
     toggleFavorite,
     isFavorite,
     getFavoriteCount,
+    getFavoriteId,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    reorderCollection,
+    copyToCollection,
+    moveToCollection,
+    removeFromCollection,
+    replaceFavorites,
+    restoreFavorite,
+    purgeTrash,
+    setTrashRetention,
+    undo,
+    redo,
+    clearLastAction,
   };
 };
 
-export default useFavorites;
\ No newline at end of file
+export default useFavorites;
@@ -0,0 +1,93 @@
+/**
+ * useIconSelection Hook
+ *
+ * Selection state for icon grids: a selection mode toggle, single
+ * selection, shift-click ranges and select all.
+ */
+
+import { useState, useCallback, useRef } from 'react';
+
+interface UseIconSelectionReturn {
+  selectionMode: boolean;
+  selected: Set<string>;
+  setSelectionMode: (enabled: boolean) => void;
+  handleSelect: (iconId: string, extendRange: boolean) => void;
+  isSelected: (iconId: string) => boolean;
+  selectAll: () => void;
+  clearSelection: () => void;
+}
+
+/**
+ * Custom hook for selecting icons in a grid
+ *
+ * @param orderedIds - Ids of the icons in the order they are displayed,
+ *   used to resolve shift-click ranges and select all
+ * @returns Selection state and manipulation functions
+ */
+export const useIconSelection = (orderedIds: string[]): UseIconSelectionReturn => {
+  const [selectionMode, setSelectionModeState] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Icon clicked last, the anchor of shift-click ranges
+  const anchorRef = useRef<string | null>(null);
+
+  /**
+   * Turn selection mode on or off; leaving it clears the selection
+   */
+  const setSelectionMode = useCallback((enabled: boolean) => {
+    setSelectionModeState(enabled);
+    if (!enabled) {
+      setSelected(new Set());
+      anchorRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Toggle an icon, or select every icon between the anchor and this one
+   *
+   * @param iconId - The icon that was clicked
+   * @param extendRange - True when shift was held
+   */
+  const handleSelect = useCallback((iconId: string, extendRange: boolean) => {
+    const anchorIndex = anchorRef.current ? orderedIds.indexOf(anchorRef.current) : -1;
+    const index = orderedIds.indexOf(iconId);
+
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (extendRange && anchorIndex !== -1 && index !== -1) {
+        const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        orderedIds.slice(start, end + 1).forEach(id => next.add(id));
+      } else if (next.has(iconId)) {
+        next.delete(iconId);
+      } else {
+        next.add(iconId);
+      }
+      return next;
+    });
+
+    anchorRef.current = iconId;
+  }, [orderedIds]);
+
+  const isSelected = useCallback((iconId: string) => selected.has(iconId), [selected]);
+
+  const selectAll = useCallback(() => {
+    setSelected(new Set(orderedIds));
+  }, [orderedIds]);
+
+  const clearSelection = useCallback(() => {
+    setSelected(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  return {
+    selectionMode,
+    selected,
+    setSelectionMode,
+    handleSelect,
+    isSelected,
+    selectAll,
+    clearSelection,
+  };
+};
+
+export default useIconSelection;
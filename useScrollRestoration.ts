@@ -0,0 +1,96 @@
+/**
+ * useScrollRestoration Hook
+ *
+ * Keeps the window scroll position of a page per URL, so going back to a
+ * long result list lands where the user left it. Positions are kept in
+ * session storage, which lasts as long as the browser tab.
+ */
+
+import { useEffect, useRef } from 'react';
+
+// Prefix of the session storage keys
+const STORAGE_PREFIX = 'iconVaultScroll:';
+// Give up restoring after this long, e.g. when fewer results load than before
+const RESTORE_TIMEOUT_MS = 10000;
+
+/**
+ * Custom hook for saving and restoring the scroll position of a page
+ *
+ * The saved position may lie beyond the content that has loaded so far, so
+ * restoring continues as the page grows until it is reached, the user
+ * scrolls themselves, or the timeout passes.
+ *
+ * @param key - Identifies the page and its state, e.g. its path and query
+ * @param ready - True once the content has started rendering
+ */
+export const useScrollRestoration = (key: string, ready: boolean): void => {
+  // True while restoring, so the intermediate positions are not saved
+  const restoringRef = useRef(false);
+
+  /**
+   * Save the position as the user scrolls, once per frame at most
+   */
+  useEffect(() => {
+    const storageKey = STORAGE_PREFIX + key;
+    let frame = 0;
+
+    const save = () => {
+      frame = 0;
+      if (restoringRef.current) return;
+      try {
+        sessionStorage.setItem(storageKey, String(Math.round(window.scrollY)));
+      } catch {
+        // Storage may be full or disabled; the position is simply not kept
+      }
+    };
+    const handleScroll = () => {
+      if (!frame) frame = window.requestAnimationFrame(save);
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      window.cancelAnimationFrame(frame);
+    };
+  }, [key]);
+
+  /**
+   * Restore the saved position once the content is ready
+   */
+  useEffect(() => {
+    if (!ready) return;
+
+    let target = 0;
+    try {
+      target = Number(sessionStorage.getItem(STORAGE_PREFIX + key)) || 0;
+    } catch {
+      return;
+    }
+    if (target <= 0) return;
+
+    restoringRef.current = true;
+    const observer = new ResizeObserver(() => restore());
+    const timeout = window.setTimeout(() => stop(), RESTORE_TIMEOUT_MS);
+    const userEvents = ['wheel', 'touchstart', 'keydown', 'mousedown'] as const;
+
+    function stop() {
+      restoringRef.current = false;
+      observer.disconnect();
+      window.clearTimeout(timeout);
+      userEvents.forEach(event => window.removeEventListener(event, stop));
+    }
+
+    function restore() {
+      window.scrollTo(0, target);
+      if (Math.abs(window.scrollY - target) < 1) stop();
+    }
+
+    // The user taking over ends restoring
+    userEvents.forEach(event => window.addEventListener(event, stop, { passive: true }));
+    // Try again whenever the page grows
+    observer.observe(document.body);
+    restore();
+
+    return stop;
+  }, [key, ready]);
+};
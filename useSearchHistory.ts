@@ -0,0 +1,89 @@
+/**
+ * useSearchHistory Hook
+ *
+ * Gives components the searches run in this browser and the searches the
+ * user saved, plus the actions to manage them. Every component reads the
+ * same store (lib/searchHistory).
+ *
+ * Features:
+ * - Recent searches with their filters, newest first
+ * - Saved searches with names
+ * - Suggestions matching what is being typed
+ * - Clearing the history and pausing it
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  clearSearchHistory,
+  getServerSnapshot,
+  getSnapshot,
+  recordSearch,
+  removeHistoryEntry,
+  removeSavedSearch,
+  renameSavedSearch,
+  saveSearch,
+  setSearchHistoryPaused,
+  subscribe,
+  type SearchHistorySnapshot,
+} from '@/lib/searchHistory';
+import type { IconSearchFilters, SavedSearch, SearchHistoryEntry } from '@/types';
+
+// Suggestions offered for what is being typed
+export interface SearchHistorySuggestions {
+  saved: SavedSearch[];
+  recent: SearchHistoryEntry[];
+}
+
+// Types for the hook
+interface UseSearchHistoryReturn extends SearchHistorySnapshot {
+  recordSearch: (query: string, filters: IconSearchFilters) => void;
+  removeHistoryEntry: (entry: SearchHistoryEntry) => void;
+  clearSearchHistory: () => void;
+  setSearchHistoryPaused: (paused: boolean) => void;
+  saveSearch: (name: string, query: string, filters: IconSearchFilters) => void;
+  renameSavedSearch: (id: string, name: string) => void;
+  removeSavedSearch: (id: string) => void;
+  getSuggestions: (input: string, limit?: number) => SearchHistorySuggestions;
+}
+
+/**
+ * Custom hook for the search history and saved searches
+ *
+ * @returns The history, saved searches and the actions to manage them
+ */
+export const useSearchHistory = (): UseSearchHistoryReturn => {
+  const searchHistory = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  const { history, saved } = searchHistory;
+
+  /**
+   * Find the saved and recent searches that match the input
+   * Saved searches match on their name or query; with no input, every
+   * search is offered. Recent searches that are also saved are left out.
+   */
+  const getSuggestions = useCallback((input: string, limit = 5): SearchHistorySuggestions => {
+    const text = input.trim().toLowerCase();
+    const matches = (value: string) => value.toLowerCase().includes(text);
+    const savedQueries = new Set(saved.map(search => search.query.toLowerCase()));
+
+    return {
+      saved: saved.filter(search => matches(search.name) || matches(search.query)).slice(0, limit),
+      recent: history
+        .filter(entry => matches(entry.query) && !savedQueries.has(entry.query.toLowerCase()))
+        .slice(0, limit),
+    };
+  }, [history, saved]);
+
+  return {
+    ...searchHistory,
+    recordSearch,
+    removeHistoryEntry,
+    clearSearchHistory,
+    setSearchHistoryPaused,
+    saveSearch,
+    renameSavedSearch,
+    removeSavedSearch,
+    getSuggestions,
+  };
+};
+
+export default useSearchHistory;
@@ -0,0 +1,71 @@
+/**
+ * useSession Hook
+ *
+ * Gives components the signed-in user, their team workspaces and the
+ * active workspace, plus the actions to change them. Every component
+ * reads the same store (lib/sessionStore).
+ *
+ * Features:
+ * - Sign in, register and sign out
+ * - Switch between personal favorites and team workspaces
+ * - Create, rename and delete workspaces
+ * - Add members, change their roles and remove them
+ */
+
+import { useSyncExternalStore } from 'react';
+import {
+  addMember,
+  createWorkspace,
+  deleteWorkspace,
+  getServerSnapshot,
+  getSnapshot,
+  register,
+  removeMember,
+  renameWorkspace,
+  setActiveWorkspace,
+  signIn,
+  signOut,
+  subscribe,
+  updateMember,
+  type SessionSnapshot,
+} from '@/lib/sessionStore';
+import type { WorkspaceRole } from '@/types';
+
+// Types for the hook
+interface UseSessionReturn extends SessionSnapshot {
+  signIn: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  setActiveWorkspace: (workspaceId: string | null) => void;
+  createWorkspace: (name: string) => Promise<void>;
+  renameWorkspace: (workspaceId: string, name: string) => Promise<void>;
+  deleteWorkspace: (workspaceId: string) => Promise<void>;
+  addMember: (workspaceId: string, username: string, role: WorkspaceRole) => Promise<void>;
+  updateMember: (workspaceId: string, userId: string, role: WorkspaceRole) => Promise<void>;
+  removeMember: (workspaceId: string, userId: string) => Promise<void>;
+}
+
+/**
+ * Custom hook for the signed-in user and their workspaces
+ *
+ * @returns Session state and account actions
+ */
+export const useSession = (): UseSessionReturn => {
+  const session = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  return {
+    ...session,
+    signIn,
+    register,
+    signOut,
+    setActiveWorkspace,
+    createWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+    addMember,
+    updateMember,
+    removeMember,
+  };
+};
+
+export default useSession;